@@ -2,9 +2,12 @@
 pragma solidity ^0.8.28;
 
 /**
- * @dev Mock ERC20 token for testing
+ * @dev Mock ERC20 token with EIP-2612 permit for testing
  */
 contract MockERC20 {
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
     string public name;
     string public symbol;
     uint8 public decimals;
@@ -12,6 +15,9 @@ contract MockERC20 {
     
     mapping(address => uint256) private _balances;
     mapping(address => mapping(address => uint256)) private _allowances;
+    mapping(address => uint256) private _nonces;
+    bool public permitSupported = true;
+    mapping(address => bool) public blocked;
 
     event Transfer(address indexed from, address indexed to, uint256 value);
     event Approval(address indexed owner, address indexed spender, uint256 value);
@@ -31,6 +37,7 @@ contract MockERC20 {
     
     function transfer(address recipient, uint256 amount) public returns (bool) {
         require(_balances[msg.sender] >= amount, "ERC20: transfer amount exceeds balance");
+        require(!blocked[recipient], "ERC20: recipient is blocked");
         
         _balances[msg.sender] -= amount;
         _balances[recipient] += amount;
@@ -49,9 +56,41 @@ contract MockERC20 {
         return true;
     }
     
+    function nonces(address owner) public view returns (uint256) {
+        require(permitSupported, "MockERC20: permit not supported");
+        return _nonces[owner];
+    }
+
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        require(permitSupported, "MockERC20: permit not supported");
+        return keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256(bytes(name)),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) public {
+        require(block.timestamp <= deadline, "ERC20Permit: expired deadline");
+
+        bytes32 structHash = keccak256(abi.encode(PERMIT_TYPEHASH, owner, spender, value, nonces(owner), deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        address signer = ecrecover(digest, v, r, s);
+        require(signer != address(0) && signer == owner, "ERC20Permit: invalid signature");
+
+        _nonces[owner]++;
+        _allowances[owner][spender] = value;
+        emit Approval(owner, spender, value);
+    }
+
     function transferFrom(address sender, address recipient, uint256 amount) public returns (bool) {
         require(_balances[sender] >= amount, "ERC20: transfer amount exceeds balance");
         require(_allowances[sender][msg.sender] >= amount, "ERC20: transfer amount exceeds allowance");
+        require(!blocked[recipient], "ERC20: recipient is blocked");
         
         _balances[sender] -= amount;
         _balances[recipient] += amount;
@@ -62,6 +101,17 @@ contract MockERC20 {
     }
     
     // Additional functions for testing
+
+    // Tokens such as USDT on Ethereum have no permit; switching it off covers the approve fallback
+    function setPermitSupported(bool supported) public {
+        permitSupported = supported;
+    }
+
+    // Blacklisting tokens such as USDT refuse transfers to blocked addresses
+    function setBlocked(address account, bool isBlocked) public {
+        blocked[account] = isBlocked;
+    }
+
     function mint(address to, uint256 amount) public {
         _balances[to] += amount;
         totalSupply += amount;
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlEnumerableUpgradeable.sol";
+
+// Role IDs shared by the access manager and the contracts that check them
+library PropytoRoles {
+    bytes32 internal constant ADMIN = 0x00; // AccessControl's DEFAULT_ADMIN_ROLE
+    bytes32 internal constant FEE_MANAGER = keccak256("FEE_MANAGER_ROLE");
+    bytes32 internal constant PAUSER = keccak256("PAUSER_ROLE");
+    bytes32 internal constant LISTING_MODERATOR = keccak256("LISTING_MODERATOR_ROLE");
+    bytes32 internal constant COMPLIANCE_OFFICER = keccak256("COMPLIANCE_OFFICER_ROLE");
+    bytes32 internal constant APPRAISER = keccak256("APPRAISER_ROLE");
+}
+
+/**
+ * @dev Platform roles consulted by the registry and its modules. Admins (DEFAULT_ADMIN_ROLE) grant
+ * and revoke every role and wire the registry's modules; fee managers set fees and payment tokens;
+ * pausers pause the registry; listing moderators manage any listing like its seller; compliance
+ * officers keep investor records and asset rules in PropytoCompliance; appraisers revalue assets.
+ * Grants and revocations emit RoleGranted and RoleRevoked, and the holders of each role can be
+ * enumerated with getRoleMemberCount and getRoleMember.
+ */
+contract PropytoAccessManager is AccessControlEnumerableUpgradeable {
+    bytes32 public constant FEE_MANAGER_ROLE = PropytoRoles.FEE_MANAGER;
+    bytes32 public constant PAUSER_ROLE = PropytoRoles.PAUSER;
+    bytes32 public constant LISTING_MODERATOR_ROLE = PropytoRoles.LISTING_MODERATOR;
+    bytes32 public constant COMPLIANCE_OFFICER_ROLE = PropytoRoles.COMPLIANCE_OFFICER;
+    bytes32 public constant APPRAISER_ROLE = PropytoRoles.APPRAISER;
+
+    // `admin` starts with every role, so connecting the manager to the registry changes nobody's permissions
+    function initialize(address admin) public initializer {
+        __AccessControlEnumerable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(FEE_MANAGER_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(LISTING_MODERATOR_ROLE, admin);
+        _grantRole(COMPLIANCE_OFFICER_ROLE, admin);
+        _grantRole(APPRAISER_ROLE, admin);
+    }
+
+    // Every holder of `role`
+    function getRoleMembers(bytes32 role) public view returns (address[] memory members) {
+        members = new address[](getRoleMemberCount(role));
+        for (uint256 i = 0; i < members.length; i++) {
+            members[i] = getRoleMember(role, i);
+        }
+    }
+}
@@ -0,0 +1,300 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Auctions for whole-asset sales. Starting an auction locks the asset in the registry, like
+ * an escrow deposit, so it cannot be bought, leased or relisted until the auction closes.
+ *
+ * English auctions open at a reserve price; each bid must beat the highest one by the minimum
+ * increment, the outbid bid is credited to its bidder to withdraw with withdrawRefund, and a
+ * bid in the last `antiSnipingWindow`
+ * seconds pushes the end back to `antiSnipingWindow` seconds after the bid. Once the auction
+ * ends, anyone can settle it. Dutch auctions fall linearly from the opening to the floor price
+ * and the first bid at the current price wins and settles immediately.
+ *
+ * On settlement the asset's current seller and the fee collector are paid and the registry mints
+ * all shares to the winner and marks the asset SOLD. An auction without a winner just unlocks the
+ * asset. A winning bid must be settled within `settlementWindow` of the end; if the registry keeps
+ * refusing the sale until then (the winner's KYC lapsed, the registry is paused), the winning bid
+ * is credited back to the winner instead and the asset unlocked. Refunds are pulled rather than
+ * pushed so that a bidder who cannot receive the token never blocks other bids or the asset.
+ */
+contract PropytoAuctions is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum AuctionType {
+        ENGLISH,
+        DUTCH
+    }
+
+    enum AuctionStatus {
+        ACTIVE,
+        SOLD,
+        UNSOLD,
+        CANCELLED,
+        REFUNDED
+    }
+
+    struct Auction {
+        uint256 assetId;
+        address seller; // when the auction started; sales pay whoever is the asset's seller at settlement
+        AuctionType auctionType;
+        uint256 startPrice; // English: reserve price; Dutch: opening price
+        uint256 floorPrice; // Dutch: price at endTime; 0 for English auctions
+        uint256 minIncrement; // English: minimum raise over the highest bid; 0 for Dutch auctions
+        uint256 startTime;
+        uint256 endTime; // English auctions may be extended by late bids
+        address highestBidder;
+        uint256 highestBid; // escrowed by the highest bidder, or the Dutch sale price
+        AuctionStatus status;
+        address paymentToken; // the default payment token when the auction started; prices, bids and payouts are in it
+    }
+
+    PropytoRegistry public registry;
+    uint256 public antiSnipingWindow; // seconds; a bid this close to the end of an English auction extends it
+    uint256 public auctionCount;
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => uint256[]) private assetAuctions; // Auction IDs per asset, oldest first
+    uint256 public settlementWindow; // seconds after the end a winning bid can be settled before it is refundable
+    mapping(address => mapping(address => uint256)) public pendingRefunds; // Outbid and refunded bids per bidder and payment token
+
+    event AuctionStarted(
+        uint256 indexed auctionId,
+        uint256 indexed assetId,
+        AuctionType auctionType,
+        uint256 startPrice,
+        uint256 floorPrice,
+        uint256 minIncrement,
+        uint256 endTime
+    );
+    event BidPlaced(uint256 indexed auctionId, uint256 indexed assetId, address indexed bidder, uint256 amount, uint256 endTime);
+    event BidRefunded(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event RefundWithdrawn(address indexed bidder, address indexed paymentToken, uint256 amount);
+    event AuctionSettled(uint256 indexed auctionId, uint256 indexed assetId, address indexed winner, uint256 price, uint256 platformFee);
+    event AuctionClosedUnsold(uint256 indexed auctionId, uint256 indexed assetId);
+    event AuctionCancelled(uint256 indexed auctionId, uint256 indexed assetId);
+    event AuctionRefunded(uint256 indexed auctionId, uint256 indexed assetId, address indexed winner, uint256 amount);
+    event AntiSnipingWindowUpdated(uint256 antiSnipingWindow);
+    event SettlementWindowUpdated(uint256 settlementWindow);
+
+    modifier auctionExists(uint256 auctionId) {
+        require(auctionId < auctionCount, "E111"); // Auction does not exist
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+        antiSnipingWindow = 10 minutes;
+        settlementWindow = 14 days;
+    }
+
+    // Bids open at `reservePrice` and must then rise by at least `minIncrement`
+    function startEnglishAuction(uint256 assetId, uint256 reservePrice, uint256 minIncrement, uint256 duration) public returns (uint256) {
+        require(reservePrice > 0 && minIncrement > 0 && duration > 0, "E117"); // Invalid auction parameters
+        return _start(assetId, AuctionType.ENGLISH, reservePrice, 0, minIncrement, duration);
+    }
+
+    // The price falls linearly from `startPrice` to `floorPrice` over `duration` seconds
+    function startDutchAuction(uint256 assetId, uint256 startPrice, uint256 floorPrice, uint256 duration) public returns (uint256) {
+        require(floorPrice > 0 && startPrice > floorPrice && duration > 0, "E117"); // Invalid auction parameters
+        return _start(assetId, AuctionType.DUTCH, startPrice, floorPrice, 0, duration);
+    }
+
+    // English: escrow `amount` as the new highest bid. Dutch: buy at the current price if it is at most `amount`
+    function bid(uint256 auctionId, uint256 amount) public nonReentrant auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.ACTIVE, "E112"); // Auction is not active
+        require(block.timestamp < auction.endTime, "E113"); // Auction has ended
+        require(msg.sender != registry.getAsset(auction.assetId).seller, "E87"); // Seller cannot buy their own asset
+        registry.checkInvestor(auction.assetId, msg.sender);
+        IERC20 usdt = IERC20(auction.paymentToken);
+
+        if (auction.auctionType == AuctionType.DUTCH) {
+            uint256 price = currentPrice(auctionId);
+            require(amount >= price, "E115"); // Bid is too low
+            require(usdt.transferFrom(msg.sender, address(this), price), "E116"); // Auction transfer failed
+
+            auction.highestBidder = msg.sender;
+            auction.highestBid = price;
+            emit BidPlaced(auctionId, auction.assetId, msg.sender, price, auction.endTime);
+            _settle(auctionId);
+            return;
+        }
+
+        require(amount >= minimumBid(auctionId), "E115"); // Bid is too low
+        require(usdt.transferFrom(msg.sender, address(this), amount), "E116"); // Auction transfer failed
+
+        address previousBidder = auction.highestBidder;
+        uint256 previousBid = auction.highestBid;
+        auction.highestBidder = msg.sender;
+        auction.highestBid = amount;
+        if (auction.endTime - block.timestamp < antiSnipingWindow) {
+            auction.endTime = block.timestamp + antiSnipingWindow;
+        }
+        emit BidPlaced(auctionId, auction.assetId, msg.sender, amount, auction.endTime);
+
+        if (previousBidder != address(0)) {
+            pendingRefunds[previousBidder][auction.paymentToken] += previousBid;
+            emit BidRefunded(auctionId, previousBidder, previousBid);
+        }
+    }
+
+    // Close an auction that has ended: sell to the highest bidder, or unlock the asset if there was none
+    function settleAuction(uint256 auctionId) public nonReentrant auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.ACTIVE, "E112"); // Auction is not active
+        require(block.timestamp >= auction.endTime, "E114"); // Auction has not ended
+
+        if (auction.highestBidder != address(0)) {
+            require(block.timestamp <= auction.endTime + settlementWindow, "E143"); // Auction settlement deadline has passed
+            _settle(auctionId);
+        } else {
+            auction.status = AuctionStatus.UNSOLD;
+            registry.setEscrowStatus(auction.assetId, false);
+            emit AuctionClosedUnsold(auctionId, auction.assetId);
+        }
+    }
+
+    // Credit the winning bid of an auction left unsettled past its settlement deadline back to the winner
+    // and unlock the asset; callable by anyone
+    function refundWinningBid(uint256 auctionId) public nonReentrant auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        require(isRefundable(auctionId), "E144"); // Winning bid can only be refunded once the settlement deadline has passed
+
+        auction.status = AuctionStatus.REFUNDED;
+        registry.setEscrowStatus(auction.assetId, false);
+        pendingRefunds[auction.highestBidder][auction.paymentToken] += auction.highestBid;
+
+        emit AuctionRefunded(auctionId, auction.assetId, auction.highestBidder, auction.highestBid);
+    }
+
+    // Withdraw the caller's outbid and refunded bids paid in `paymentToken`
+    function withdrawRefund(address paymentToken) public nonReentrant returns (uint256) {
+        uint256 amount = pendingRefunds[msg.sender][paymentToken];
+        require(amount > 0, "E149"); // No refund to withdraw
+
+        pendingRefunds[msg.sender][paymentToken] = 0;
+        require(IERC20(paymentToken).transfer(msg.sender, amount), "E116"); // Auction transfer failed
+
+        emit RefundWithdrawn(msg.sender, paymentToken, amount);
+        return amount;
+    }
+
+    // Call off an auction nobody has bid on yet
+    function cancelAuction(uint256 auctionId) public auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        require(msg.sender == registry.getAsset(auction.assetId).seller, "E8"); // Only the asset seller can call this function
+        require(auction.status == AuctionStatus.ACTIVE, "E112"); // Auction is not active
+        require(auction.highestBidder == address(0), "E118"); // Auction already has bids
+
+        auction.status = AuctionStatus.CANCELLED;
+        registry.setEscrowStatus(auction.assetId, false);
+
+        emit AuctionCancelled(auctionId, auction.assetId);
+    }
+
+    function updateAntiSnipingWindow(uint256 _antiSnipingWindow) public onlyOwner {
+        antiSnipingWindow = _antiSnipingWindow;
+        emit AntiSnipingWindowUpdated(_antiSnipingWindow);
+    }
+
+    function updateSettlementWindow(uint256 _settlementWindow) public onlyOwner {
+        settlementWindow = _settlementWindow;
+        emit SettlementWindowUpdated(_settlementWindow);
+    }
+
+    // Whether the winning bid can be refunded now
+    function isRefundable(uint256 auctionId) public view returns (bool) {
+        Auction storage auction = auctions[auctionId];
+        return
+            auction.status == AuctionStatus.ACTIVE &&
+            auction.highestBidder != address(0) &&
+            block.timestamp > auction.endTime + settlementWindow;
+    }
+
+    // English: the highest bid so far. Dutch: what a bid pays right now
+    function currentPrice(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.auctionType == AuctionType.ENGLISH || auction.status != AuctionStatus.ACTIVE) {
+            return auction.highestBid;
+        }
+        if (block.timestamp >= auction.endTime) {
+            return auction.floorPrice;
+        }
+
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 drop = ((auction.startPrice - auction.floorPrice) * elapsed) / (auction.endTime - auction.startTime);
+        return auction.startPrice - drop;
+    }
+
+    // Smallest amount the next English bid may be
+    function minimumBid(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        return auction.highestBidder == address(0) ? auction.startPrice : auction.highestBid + auction.minIncrement;
+    }
+
+    function getAssetAuctionIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetAuctions[assetId];
+    }
+
+    function _start(
+        uint256 assetId,
+        AuctionType auctionType,
+        uint256 startPrice,
+        uint256 floorPrice,
+        uint256 minIncrement,
+        uint256 duration
+    ) internal returns (uint256) {
+        address seller = registry.getAsset(assetId).seller;
+        require(msg.sender == seller, "E8"); // Only the asset seller can call this function
+        address paymentToken = registry.usdtToken();
+        registry.quotePurchase(assetId, 0, true, paymentToken); // reverts unless the asset can be bought whole right now
+
+        uint256 auctionId = auctionCount;
+        auctions[auctionId] = Auction({
+            assetId: assetId,
+            seller: seller,
+            auctionType: auctionType,
+            startPrice: startPrice,
+            floorPrice: floorPrice,
+            minIncrement: minIncrement,
+            startTime: block.timestamp,
+            endTime: block.timestamp + duration,
+            highestBidder: address(0),
+            highestBid: 0,
+            status: AuctionStatus.ACTIVE,
+            paymentToken: paymentToken
+        });
+        assetAuctions[assetId].push(auctionId);
+        auctionCount++;
+
+        registry.setEscrowStatus(assetId, true);
+
+        emit AuctionStarted(auctionId, assetId, auctionType, startPrice, floorPrice, minIncrement, block.timestamp + duration);
+        return auctionId;
+    }
+
+    // Mint the asset to the winner and pay the seller and the fee collector out of the winning bid
+    function _settle(uint256 auctionId) internal {
+        Auction storage auction = auctions[auctionId];
+        auction.status = AuctionStatus.SOLD;
+        address seller = registry.getAsset(auction.assetId).seller;
+        registry.settleWholePurchase(auction.assetId, auction.highestBidder);
+
+        (uint256 platformFeePercentage, address feeCollector, , bool feesEnabled) = registry.marketplaceConfig();
+        uint256 platformFee = feesEnabled ? (auction.highestBid * platformFeePercentage) / 10000 : 0;
+
+        IERC20 usdt = IERC20(auction.paymentToken);
+        require(usdt.transfer(seller, auction.highestBid - platformFee), "E116"); // Auction transfer failed
+        if (platformFee > 0) {
+            require(usdt.transfer(feeCollector, platformFee), "E116"); // Auction transfer failed
+        }
+
+        emit AuctionSettled(auctionId, auction.assetId, auction.highestBidder, auction.highestBid, platformFee);
+    }
+}
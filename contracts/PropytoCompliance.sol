@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Investor eligibility for regulated assets. The owner, the KYC agents it appoints and the
+ * registry's compliance officers keep one record per investor: KYC status and expiry, jurisdiction
+ * (ISO 3166-1 alpha-2 code such as "US") and accreditation. A seller puts an asset under rules:
+ * allowed jurisdictions, accredited investors only and a maximum number of holders. The registry
+ * checks every share sale, whole-asset sale and PropytoSFT transfer of the asset against them;
+ * assets without rules are unrestricted.
+ */
+contract PropytoCompliance is OwnableUpgradeable {
+    enum KycStatus {
+        NONE,
+        APPROVED,
+        REVOKED
+    }
+
+    struct Investor {
+        KycStatus kycStatus;
+        uint256 kycExpiry; // the approval lapses at this time
+        bytes2 jurisdiction;
+        bool accredited;
+    }
+
+    struct AssetRules {
+        bool enabled;
+        bool accreditedOnly;
+        uint256 maxHolders; // 0 for no limit
+        bytes2[] allowedJurisdictions; // empty to allow every jurisdiction
+    }
+
+    PropytoRegistry public registry;
+    mapping(address => bool) public kycAgents; // Appointed by the owner to maintain investor records
+    mapping(address => Investor) public investors;
+    mapping(uint256 => AssetRules) private assetRules;
+    mapping(uint256 => mapping(bytes2 => bool)) public isJurisdictionAllowed;
+
+    event KycAgentUpdated(address indexed agent, bool enabled);
+    event InvestorUpdated(address indexed investor, KycStatus kycStatus, uint256 kycExpiry, bytes2 jurisdiction, bool accredited);
+    event AssetRulesSet(uint256 indexed assetId, bytes2[] allowedJurisdictions, bool accreditedOnly, uint256 maxHolders);
+    event AssetRulesCleared(uint256 indexed assetId);
+
+    modifier onlyOwnerOrAgent() {
+        require(
+            msg.sender == owner() || kycAgents[msg.sender] || registry.hasRole(PropytoRoles.COMPLIANCE_OFFICER, msg.sender),
+            "E130" // Only the compliance owner, a KYC agent or a compliance officer can update investor records
+        );
+        _;
+    }
+
+    modifier onlySellerOrOwner(uint256 assetId) {
+        require(
+            msg.sender == registry.getAsset(assetId).seller ||
+                msg.sender == owner() ||
+                registry.hasRole(PropytoRoles.COMPLIANCE_OFFICER, msg.sender),
+            "E131" // Only the asset seller, the compliance owner or a compliance officer can set asset rules
+        );
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    function setKycAgent(address agent, bool enabled) public onlyOwner {
+        kycAgents[agent] = enabled;
+        emit KycAgentUpdated(agent, enabled);
+    }
+
+    function setInvestor(
+        address investor,
+        KycStatus kycStatus,
+        uint256 kycExpiry,
+        bytes2 jurisdiction,
+        bool accredited
+    ) public onlyOwnerOrAgent {
+        require(kycStatus != KycStatus.APPROVED || kycExpiry > block.timestamp, "E132"); // KYC expiry must be in the future
+
+        investors[investor] = Investor({
+            kycStatus: kycStatus,
+            kycExpiry: kycExpiry,
+            jurisdiction: jurisdiction,
+            accredited: accredited
+        });
+
+        emit InvestorUpdated(investor, kycStatus, kycExpiry, jurisdiction, accredited);
+    }
+
+    // Replace the asset's rules; shares already held are not affected, only later sales and transfers
+    function setAssetRules(
+        uint256 assetId,
+        bytes2[] calldata allowedJurisdictions,
+        bool accreditedOnly,
+        uint256 maxHolders
+    ) public onlySellerOrOwner(assetId) {
+        _clearJurisdictions(assetId);
+
+        AssetRules storage rules = assetRules[assetId];
+        rules.enabled = true;
+        rules.accreditedOnly = accreditedOnly;
+        rules.maxHolders = maxHolders;
+        rules.allowedJurisdictions = allowedJurisdictions;
+        for (uint256 i = 0; i < allowedJurisdictions.length; i++) {
+            isJurisdictionAllowed[assetId][allowedJurisdictions[i]] = true;
+        }
+
+        emit AssetRulesSet(assetId, allowedJurisdictions, accreditedOnly, maxHolders);
+    }
+
+    function clearAssetRules(uint256 assetId) public onlySellerOrOwner(assetId) {
+        _clearJurisdictions(assetId);
+        delete assetRules[assetId];
+        emit AssetRulesCleared(assetId);
+    }
+
+    function getAssetRules(uint256 assetId) public view returns (AssetRules memory) {
+        return assetRules[assetId];
+    }
+
+    // Reverts unless `investor` may hold shares of the asset
+    function checkInvestor(uint256 assetId, address investor) public view {
+        AssetRules storage rules = assetRules[assetId];
+        if (!rules.enabled) {
+            return;
+        }
+
+        Investor storage record = investors[investor];
+        require(record.kycStatus == KycStatus.APPROVED, "E125"); // Investor KYC is not approved
+        require(record.kycExpiry > block.timestamp, "E126"); // Investor KYC has expired
+        require(
+            rules.allowedJurisdictions.length == 0 || isJurisdictionAllowed[assetId][record.jurisdiction],
+            "E127" // Investor jurisdiction is not allowed for this asset
+        );
+        require(!rules.accreditedOnly || record.accredited, "E128"); // Asset is restricted to accredited investors
+    }
+
+    // Called by the registry before `shareCount` shares move from `from` (zero for a sale) to `to` (zero for a
+    // burn), with the ownership ledger still as it was
+    function checkTransfer(uint256 assetId, address from, address to, uint256 shareCount) external view {
+        AssetRules storage rules = assetRules[assetId];
+        if (!rules.enabled || to == address(0)) {
+            return;
+        }
+        checkInvestor(assetId, to);
+
+        if (rules.maxHolders == 0 || registry.getSharesOwned(assetId, to) > 0) {
+            return;
+        }
+        uint256 holders = registry.getPartialOwnership(assetId).ownerCount;
+        if (from != address(0) && registry.getSharesOwned(assetId, from) == shareCount) {
+            holders--; // the sender sells out, making room for the new holder
+        }
+        require(holders < rules.maxHolders, "E129"); // Transfer would exceed the asset's maximum number of holders
+    }
+
+    function _clearJurisdictions(uint256 assetId) internal {
+        bytes2[] storage allowed = assetRules[assetId].allowedJurisdictions;
+        for (uint256 i = 0; i < allowed.length; i++) {
+            delete isJurisdictionAllowed[assetId][allowed[i]];
+        }
+    }
+}
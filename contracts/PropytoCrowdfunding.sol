@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+import "./PropytoSFT.sol";
+
+/**
+ * @dev Funding goals for fractional offerings. A seller sets a soft and hard cap, in shares,
+ * before enabling partial ownership; the registry then sends every share payment of the
+ * asset here instead of to the seller, and sales stop at the hard cap. Once the soft cap is
+ * sold the seller withdraws the proceeds. If the funding deadline (the listing expiry when
+ * the goal was set) passes below the soft cap, buyers burn their shares for a full refund.
+ * Shares cannot change hands until the soft cap is sold, so each buyer still holds the shares
+ * their refund burns.
+ */
+contract PropytoCrowdfunding is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum FundingStatus {
+        NONE,
+        OPEN,
+        SUCCEEDED,
+        FAILED
+    }
+
+    struct FundingGoal {
+        uint256 softCap; // shares that must sell before the seller is paid
+        uint256 hardCap; // shares that can sell in total
+        uint256 deadline;
+        uint256 sharesSold;
+        uint256 totalRaised; // everything buyers paid, platform fees included
+        uint256 escrowedAmount; // held for the seller or for refunds
+        uint256 escrowedFees; // part of escrowedAmount owed to the fee collector
+        address paymentToken; // the default payment token when the goal was set; shares sell, pay out and refund in it
+    }
+
+    struct Contribution {
+        uint256 shares;
+        uint256 amount; // in the goal's paymentToken, refunded in full if the funding fails
+    }
+
+    PropytoRegistry public registry;
+    mapping(uint256 => FundingGoal) public fundingGoals;
+    mapping(uint256 => mapping(address => Contribution)) public contributions;
+
+    event FundingGoalSet(uint256 indexed assetId, uint256 softCap, uint256 hardCap, uint256 deadline);
+    event ContributionRecorded(uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 amount);
+    event RefundClaimed(uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 amount);
+    event ProceedsWithdrawn(uint256 indexed assetId, address indexed seller, uint256 sellerAmount, uint256 platformFee);
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    // Put the asset's share sales under a funding goal; only before partial ownership is enabled
+    function setFundingGoal(uint256 assetId, uint256 softCap, uint256 hardCap) public {
+        PropytoRegistry.PropytoAsset memory asset = registry.getAsset(assetId);
+        require(msg.sender == asset.seller, "E8"); // Only the asset seller can call this function
+        require(!registry.getPartialOwnership(assetId).isInitialized, "E2"); // Partial ownership already initialized
+        require(softCap > 0 && softCap <= hardCap, "E90"); // Soft cap must be positive and at most the hard cap
+
+        FundingGoal storage goal = fundingGoals[assetId];
+        goal.softCap = softCap;
+        goal.hardCap = hardCap;
+        goal.deadline = asset.listingExpiry;
+        goal.paymentToken = registry.usdtToken();
+
+        emit FundingGoalSet(assetId, softCap, hardCap, asset.listingExpiry);
+    }
+
+    // Called by the registry after moving a share payment of a funded asset here
+    function recordContribution(uint256 assetId, address buyer, uint256 shareCount, uint256 amount, uint256 platformFee) external {
+        require(msg.sender == address(registry), "E91"); // Only the registry can record contributions
+        FundingGoal storage goal = fundingGoals[assetId];
+        require(goal.sharesSold + shareCount <= goal.hardCap, "E92"); // Purchase would exceed the funding hard cap
+        require(getFundingStatus(assetId) != FundingStatus.FAILED, "E93"); // Funding ended below the soft cap
+
+        goal.sharesSold += shareCount;
+        goal.totalRaised += amount;
+        goal.escrowedAmount += amount;
+        goal.escrowedFees += platformFee;
+        contributions[assetId][buyer].shares += shareCount;
+        contributions[assetId][buyer].amount += amount;
+
+        emit ContributionRecorded(assetId, buyer, shareCount, amount);
+    }
+
+    // Burn the caller's shares of a failed offering and return what they paid; needs approval on the asset's SFT
+    function claimRefund(uint256 assetId) public nonReentrant returns (uint256) {
+        require(getFundingStatus(assetId) == FundingStatus.FAILED, "E94"); // Funding has not failed
+        Contribution memory contribution = contributions[assetId][msg.sender];
+        require(contribution.amount > 0, "E95"); // No contribution to refund
+
+        delete contributions[assetId][msg.sender];
+        fundingGoals[assetId].escrowedAmount -= contribution.amount;
+        PropytoSFT(registry.propytosftAddress(assetId)).burnShares(msg.sender, assetId, contribution.shares);
+        require(IERC20(fundingGoals[assetId].paymentToken).transfer(msg.sender, contribution.amount), "E96"); // Crowdfunding transfer failed
+
+        emit RefundClaimed(assetId, msg.sender, contribution.shares, contribution.amount);
+        return contribution.amount;
+    }
+
+    // Pay out the escrowed proceeds once the soft cap is sold; may be called again for later sales
+    function withdrawProceeds(uint256 assetId) public nonReentrant {
+        address seller = registry.getAsset(assetId).seller;
+        require(msg.sender == seller, "E8"); // Only the asset seller can call this function
+        require(getFundingStatus(assetId) == FundingStatus.SUCCEEDED, "E97"); // Soft cap has not been reached
+
+        FundingGoal storage goal = fundingGoals[assetId];
+        uint256 platformFee = goal.escrowedFees;
+        uint256 sellerAmount = goal.escrowedAmount - platformFee;
+        goal.escrowedAmount = 0;
+        goal.escrowedFees = 0;
+
+        IERC20 usdt = IERC20(goal.paymentToken);
+        require(usdt.transfer(seller, sellerAmount), "E96"); // Crowdfunding transfer failed
+        if (platformFee > 0) {
+            (, address feeCollector, , ) = registry.marketplaceConfig();
+            require(usdt.transfer(feeCollector, platformFee), "E96"); // Crowdfunding transfer failed
+        }
+
+        emit ProceedsWithdrawn(assetId, seller, sellerAmount, platformFee);
+    }
+
+    // Called by the registry on every SFT transfer between holders; burns for refunds stay allowed
+    function checkShareTransfer(uint256 assetId) external view {
+        FundingStatus status = getFundingStatus(assetId);
+        require(status != FundingStatus.OPEN && status != FundingStatus.FAILED, "E142"); // Shares of an offering cannot be transferred before its soft cap is sold
+    }
+
+    function hasFundingGoal(uint256 assetId) public view returns (bool) {
+        return fundingGoals[assetId].softCap > 0;
+    }
+
+    // Token the asset's shares are paid in under its funding goal; zero without a goal
+    function fundingToken(uint256 assetId) external view returns (address) {
+        return fundingGoals[assetId].paymentToken;
+    }
+
+    function getFundingStatus(uint256 assetId) public view returns (FundingStatus) {
+        FundingGoal storage goal = fundingGoals[assetId];
+        if (goal.softCap == 0) {
+            return FundingStatus.NONE;
+        }
+        if (goal.sharesSold >= goal.softCap) {
+            return FundingStatus.SUCCEEDED;
+        }
+        return block.timestamp < goal.deadline ? FundingStatus.OPEN : FundingStatus.FAILED;
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+import "./PropytoSFT.sol";
+
+/**
+ * @dev Pro-rata USDT distributions to PropytoSFT holders. Each deposit is split over all of the
+ * asset's shares: the part of the shares not sold yet is credited to the seller, the rest raises
+ * the dividend per share of the minted shares, and holders pull what they are owed with claim. An asset's dividends
+ * stay in the default payment token of its first deposit, even if the default changes later. The registry reports
+ * every mint, transfer and burn of shares, which is recorded as a per-holder correction so
+ * that shares changing hands never carry dividends deposited before the move.
+ */
+contract PropytoDividends is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    // Scales dividendPerShare so small deposits over large supplies do not round to zero
+    uint256 internal constant MAGNITUDE = 2**128;
+
+    PropytoRegistry public registry;
+    mapping(uint256 => uint256) public dividendPerShare; // magnified by MAGNITUDE
+    mapping(uint256 => uint256) public totalDistributed; // per asset, in USDT
+    mapping(uint256 => mapping(address => int256)) private corrections; // magnified, per asset and holder
+    mapping(uint256 => mapping(address => uint256)) public claimedDividends; // per asset and holder
+    mapping(uint256 => address) private dividendTokens; // per asset, set by the first deposit
+    mapping(uint256 => mapping(address => uint256)) private unsoldDividends; // per asset and seller, earned by unsold shares
+
+    event DividendsDeposited(uint256 indexed assetId, address indexed from, uint256 amount, uint256 totalShares);
+    event DividendsClaimed(uint256 indexed assetId, address indexed holder, uint256 amount);
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    // Distribute `amount` of the asset's payment token over all of its shares; anyone may deposit
+    function deposit(uint256 assetId, uint256 amount) public nonReentrant {
+        require(amount > 0, "E61"); // Dividend amount must be greater than zero
+        uint256 outstanding = outstandingShares(assetId);
+        require(outstanding > 0, "E62"); // Asset has no shares outstanding
+        uint256 supply = totalShares(assetId);
+
+        // The seller still owns the unsold shares, so their part of the deposit is the seller's
+        uint256 unsoldAmount = (amount * (supply - outstanding)) / supply;
+        if (unsoldAmount > 0) {
+            unsoldDividends[assetId][registry.getAsset(assetId).seller] += unsoldAmount;
+        }
+
+        address token = paymentToken(assetId);
+        dividendTokens[assetId] = token;
+        dividendPerShare[assetId] += ((amount - unsoldAmount) * MAGNITUDE) / outstanding;
+        totalDistributed[assetId] += amount;
+        require(IERC20(token).transferFrom(msg.sender, address(this), amount), "E63"); // Dividend transfer failed
+
+        emit DividendsDeposited(assetId, msg.sender, amount, supply);
+    }
+
+    function claim(uint256 assetId) public nonReentrant returns (uint256) {
+        uint256 amount = claimableDividends(assetId, msg.sender);
+        require(amount > 0, "E64"); // No dividends to claim
+
+        claimedDividends[assetId][msg.sender] += amount;
+        require(IERC20(dividendTokens[assetId]).transfer(msg.sender, amount), "E63"); // Dividend transfer failed
+
+        emit DividendsClaimed(assetId, msg.sender, amount);
+        return amount;
+    }
+
+    // Called by the registry whenever shares are minted (from = 0), transferred or burned (to = 0)
+    function onSharesMoved(uint256 assetId, address from, address to, uint256 shareCount) external {
+        require(msg.sender == address(registry), "E65"); // Only the registry can report share movements
+
+        int256 correction = int256(dividendPerShare[assetId] * shareCount);
+        if (from != address(0)) {
+            corrections[assetId][from] += correction;
+        }
+        if (to != address(0)) {
+            corrections[assetId][to] -= correction;
+        }
+    }
+
+    // Token the asset's dividends are deposited and claimed in: the default payment token until the first deposit
+    function paymentToken(uint256 assetId) public view returns (address) {
+        address token = dividendTokens[assetId];
+        return token == address(0) ? registry.usdtToken() : token;
+    }
+
+    function claimableDividends(uint256 assetId, address holder) public view returns (uint256) {
+        return accumulatedDividends(assetId, holder) - claimedDividends[assetId][holder];
+    }
+
+    // Everything the holder has earned on this asset, claimed or not, including a seller's dividends of unsold shares
+    function accumulatedDividends(uint256 assetId, address holder) public view returns (uint256) {
+        PropytoSFT sft = PropytoSFT(registry.propytosftAddress(assetId));
+        uint256 shares = sft.balanceOf(holder, sft.getTokenId(assetId));
+        int256 magnified = int256(dividendPerShare[assetId] * shares) + corrections[assetId][holder];
+        return uint256(magnified) / MAGNITUDE + unsoldDividends[assetId][holder];
+    }
+
+    // Minted shares that have not been burned; 0 until the asset is tokenized
+    function outstandingShares(uint256 assetId) public view returns (uint256) {
+        PropytoSFT sft = PropytoSFT(registry.propytosftAddress(assetId));
+        uint256 tokenId = sft.getTokenId(assetId);
+        return tokenId == 0 ? 0 : sft.totalSupply(tokenId);
+    }
+
+    // Shares deposits are split over: the fractional offering's total, or the minted shares if there are more
+    function totalShares(uint256 assetId) public view returns (uint256) {
+        uint256 offered = registry.getPartialOwnership(assetId).totalShares;
+        uint256 outstanding = outstandingShares(assetId);
+        return offered > outstanding ? offered : outstanding;
+    }
+}
@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Escrow for whole-asset purchases. The buyer deposits the quoted price, which locks the
+ * asset against other purchases and status changes. Before the settlement deadline the seller,
+ * or the escrow agent the seller appointed for the asset, confirms the sale: the seller and the
+ * fee collector are paid and the registry mints all shares to the buyer and marks the asset
+ * SOLD. The seller or agent can instead cancel the deal, and the buyer reclaims the deposit
+ * once the deal is cancelled or the deadline passes unconfirmed. Accepted whole-asset offers
+ * are escrowed the same way, at the agreed price, by the offer book.
+ */
+contract PropytoEscrow is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum EscrowStatus {
+        PENDING,
+        SETTLED,
+        CANCELLED,
+        REFUNDED
+    }
+
+    struct Escrow {
+        uint256 assetId;
+        address buyer;
+        address seller;
+        address agent; // the asset's escrow agent when the deposit was made, or zero
+        uint256 amount; // deposited in paymentToken
+        uint256 platformFee; // part of amount sent to the fee collector on settlement
+        uint256 deadline; // last moment the sale can be confirmed
+        EscrowStatus status;
+        address paymentToken; // the default payment token when the deposit was made; settlement and refunds pay in it
+    }
+
+    PropytoRegistry public registry;
+    uint256 public settlementWindow; // seconds the seller has to confirm a sale after the deposit
+    uint256 public escrowCount;
+    mapping(uint256 => Escrow) public escrows;
+    mapping(uint256 => address) public escrowAgents; // Appointed by the seller, per asset
+    mapping(uint256 => uint256[]) private assetEscrows; // Escrow IDs per asset, oldest first
+
+    event EscrowDeposited(uint256 indexed escrowId, uint256 indexed assetId, address indexed buyer, uint256 amount, uint256 deadline);
+    event EscrowSettled(uint256 indexed escrowId, address indexed confirmedBy, uint256 sellerAmount, uint256 platformFee);
+    event EscrowCancelled(uint256 indexed escrowId, address indexed cancelledBy);
+    event EscrowRefunded(uint256 indexed escrowId, address indexed buyer, uint256 amount);
+    event EscrowAgentAppointed(uint256 indexed assetId, address indexed agent);
+    event SettlementWindowUpdated(uint256 settlementWindow);
+
+    modifier escrowExists(uint256 escrowId) {
+        require(escrowId < escrowCount, "E82"); // Escrow does not exist
+        _;
+    }
+
+    modifier onlySellerOrAgent(uint256 escrowId) {
+        require(
+            msg.sender == escrows[escrowId].seller || msg.sender == escrows[escrowId].agent,
+            "E83" // Only the seller or the escrow agent can call this function
+        );
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+        settlementWindow = 14 days;
+    }
+
+    // Deposit the asset price; reverts if it exceeds `maxTotalPrice` or the call lands after `deadline`
+    function deposit(uint256 assetId, uint256 maxTotalPrice, uint256 deadline) public nonReentrant returns (uint256) {
+        require(block.timestamp <= deadline, "E32"); // Purchase deadline passed
+        address paymentToken = registry.usdtToken();
+        PropytoRegistry.PurchaseQuote memory quote = registry.quotePurchase(assetId, 0, true, paymentToken);
+        require(quote.totalPrice <= maxTotalPrice, "E32"); // Purchase price above maximum total price
+        return _deposit(assetId, msg.sender, quote.totalPrice, quote.platformFee, paymentToken);
+    }
+
+    // Called by the offer book when the seller accepts a whole-asset offer: escrow the agreed `amount`
+    // for `buyer`, pulled from the offer book, which settles like a deposit at the list price
+    function depositAcceptedOffer(uint256 assetId, address buyer, uint256 amount, address paymentToken) external nonReentrant returns (uint256) {
+        require(msg.sender == registry.offerBook(), "E99"); // Only the offer book can call this function
+        registry.quotePurchase(assetId, 0, true, paymentToken); // reverts unless the asset can be bought now
+        (uint256 platformFeePercentage, , , bool feesEnabled) = registry.marketplaceConfig();
+        uint256 platformFee = feesEnabled ? (amount * platformFeePercentage) / 10000 : 0;
+        return _deposit(assetId, buyer, amount, platformFee, paymentToken);
+    }
+
+    // Record the escrow, pull `amount` from the caller and lock the asset
+    function _deposit(uint256 assetId, address buyer, uint256 amount, uint256 platformFee, address paymentToken) internal returns (uint256) {
+        address seller = registry.getAsset(assetId).seller;
+        require(buyer != seller, "E87"); // Seller cannot buy their own asset
+        registry.checkInvestor(assetId, buyer);
+
+        uint256 escrowId = escrowCount;
+        escrows[escrowId] = Escrow({
+            assetId: assetId,
+            buyer: buyer,
+            seller: seller,
+            agent: escrowAgents[assetId],
+            amount: amount,
+            platformFee: platformFee,
+            deadline: block.timestamp + settlementWindow,
+            status: EscrowStatus.PENDING,
+            paymentToken: paymentToken
+        });
+        assetEscrows[assetId].push(escrowId);
+        escrowCount++;
+
+        require(IERC20(paymentToken).transferFrom(msg.sender, address(this), amount), "E86"); // Escrow transfer failed
+        registry.setEscrowStatus(assetId, true);
+
+        emit EscrowDeposited(escrowId, assetId, buyer, amount, escrows[escrowId].deadline);
+        return escrowId;
+    }
+
+    // Complete the sale: pay the seller and the fee collector, mint the shares and mark the asset SOLD
+    function confirmSettlement(uint256 escrowId) public nonReentrant escrowExists(escrowId) onlySellerOrAgent(escrowId) {
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.PENDING, "E84"); // Escrow is not pending
+        require(block.timestamp <= escrow.deadline, "E85"); // Settlement deadline has passed
+
+        escrow.status = EscrowStatus.SETTLED;
+        registry.settleWholePurchase(escrow.assetId, escrow.buyer);
+
+        IERC20 usdt = IERC20(escrow.paymentToken);
+        require(usdt.transfer(escrow.seller, escrow.amount - escrow.platformFee), "E86"); // Escrow transfer failed
+        if (escrow.platformFee > 0) {
+            (, address feeCollector, , ) = registry.marketplaceConfig();
+            require(usdt.transfer(feeCollector, escrow.platformFee), "E86"); // Escrow transfer failed
+        }
+
+        emit EscrowSettled(escrowId, msg.sender, escrow.amount - escrow.platformFee, escrow.platformFee);
+    }
+
+    // Call the deal off and release the asset; the buyer reclaims the deposit
+    function cancelEscrow(uint256 escrowId) public escrowExists(escrowId) onlySellerOrAgent(escrowId) {
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.PENDING, "E84"); // Escrow is not pending
+
+        escrow.status = EscrowStatus.CANCELLED;
+        registry.setEscrowStatus(escrow.assetId, false);
+
+        emit EscrowCancelled(escrowId, msg.sender);
+    }
+
+    // Return the deposit of a cancelled deal, or of one left unconfirmed past its deadline
+    function reclaimDeposit(uint256 escrowId) public nonReentrant escrowExists(escrowId) {
+        Escrow storage escrow = escrows[escrowId];
+        require(msg.sender == escrow.buyer, "E88"); // Only the buyer can call this function
+        require(isReclaimable(escrowId), "E89"); // Deposit can only be reclaimed after a cancellation or the settlement deadline
+
+        if (escrow.status == EscrowStatus.PENDING) {
+            registry.setEscrowStatus(escrow.assetId, false);
+        }
+        escrow.status = EscrowStatus.REFUNDED;
+        require(IERC20(escrow.paymentToken).transfer(escrow.buyer, escrow.amount), "E86"); // Escrow transfer failed
+
+        emit EscrowRefunded(escrowId, escrow.buyer, escrow.amount);
+    }
+
+    // Let `agent` confirm or cancel future deposits on the asset alongside the seller; zero removes the agent
+    function appointEscrowAgent(uint256 assetId, address agent) public {
+        require(msg.sender == registry.getAsset(assetId).seller, "E8"); // Only the asset seller can call this function
+        escrowAgents[assetId] = agent;
+        emit EscrowAgentAppointed(assetId, agent);
+    }
+
+    function updateSettlementWindow(uint256 _settlementWindow) public onlyOwner {
+        settlementWindow = _settlementWindow;
+        emit SettlementWindowUpdated(_settlementWindow);
+    }
+
+    // Whether the buyer can reclaim the deposit now
+    function isReclaimable(uint256 escrowId) public view returns (bool) {
+        Escrow storage escrow = escrows[escrowId];
+        return escrow.status == EscrowStatus.CANCELLED || (escrow.status == EscrowStatus.PENDING && block.timestamp > escrow.deadline);
+    }
+
+    function getAssetEscrowIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetEscrows[assetId];
+    }
+}
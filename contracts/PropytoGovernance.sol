@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Share-weighted proposals per asset. Creating a proposal snapshots the asset's PropytoSFT
+ * through the registry and votes count the shares held at that snapshot, so shares moved
+ * during a vote cannot be counted twice. Thresholds are measured against all of the asset's
+ * shares: shares not sold yet are never minted, so the seller votes them. Once voting ends anyone can execute a proposal:
+ * PRICE_CHANGE and SELL_PROPERTY call into the registry, MAINTENANCE, RENOVATE and OTHER are
+ * recorded for the seller to carry out.
+ */
+contract PropytoGovernance is OwnableUpgradeable {
+    struct GovernanceConfig {
+        uint256 proposalThreshold; // basis points of the asset's shares needed to propose
+        uint256 quorum; // basis points of the asset's shares that must vote
+        uint256 approvalThreshold; // basis points of the votes cast that "for" must exceed
+        uint256 votingPeriod; // seconds
+        uint256 executionWindow; // seconds after voting ends before an unexecuted proposal expires
+    }
+
+    struct Proposal {
+        uint256 assetId;
+        address proposer;
+        PropytoRegistry.ProposalType proposalType;
+        uint256 value; // new asset price for PRICE_CHANGE and SELL_PROPERTY
+        string description;
+        uint256 snapshotId; // PropytoSFT snapshot the votes are weighted by
+        uint256 snapshotSupply; // all of the asset's shares, sold or not
+        address seller; // votes the unsold shares besides its own
+        uint256 unsoldShares; // shares not minted at the snapshot
+        uint256 voteEnd;
+        uint256 forVotes;
+        uint256 againstVotes;
+        PropytoRegistry.ProposalStatus status; // stays ACTIVE until executed or finalized
+    }
+
+    PropytoRegistry public registry;
+    GovernanceConfig public governanceConfig;
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => uint256[]) private assetProposals; // Proposal IDs per asset, oldest first
+
+    event ProposalCreated(uint256 indexed proposalId, uint256 indexed assetId, address indexed proposer, PropytoRegistry.ProposalType proposalType, uint256 value, uint256 voteEnd);
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bool support, uint256 shares);
+    event ProposalFinalized(uint256 indexed proposalId, PropytoRegistry.ProposalStatus status);
+    event GovernanceConfigUpdated(uint256 proposalThreshold, uint256 quorum, uint256 approvalThreshold, uint256 votingPeriod, uint256 executionWindow);
+
+    modifier proposalExists(uint256 proposalId) {
+        require(proposalId < proposalCount, "E70"); // Proposal does not exist
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        registry = PropytoRegistry(_registry);
+        governanceConfig = GovernanceConfig({
+            proposalThreshold: 100, // 1%
+            quorum: 2000, // 20%
+            approvalThreshold: 5000, // simple majority
+            votingPeriod: 7 days,
+            executionWindow: 7 days
+        });
+    }
+
+    function createProposal(
+        uint256 assetId,
+        PropytoRegistry.ProposalType proposalType,
+        uint256 value,
+        string memory description
+    ) public returns (uint256) {
+        require(assetId < registry.assetCount(), "E7"); // Asset does not exist
+        if (proposalType == PropytoRegistry.ProposalType.PRICE_CHANGE || proposalType == PropytoRegistry.ProposalType.SELL_PROPERTY) {
+            require(value > 0, "E20"); // Price must be greater than zero
+        }
+
+        uint256 snapshotId = registry.snapshotShares(assetId);
+        uint256 minted = registry.totalSharesAt(assetId, snapshotId);
+        require(minted > 0, "E62"); // Asset has no shares outstanding
+        uint256 supply = registry.getPartialOwnership(assetId).totalShares;
+        if (supply < minted) {
+            supply = minted; // whole-asset sales mint shares beyond the fractional offering
+        }
+
+        uint256 proposalId = proposalCount;
+        Proposal storage proposal = proposals[proposalId];
+        proposal.assetId = assetId;
+        proposal.proposer = msg.sender;
+        proposal.proposalType = proposalType;
+        proposal.value = value;
+        proposal.description = description;
+        proposal.snapshotId = snapshotId;
+        proposal.snapshotSupply = supply;
+        proposal.seller = registry.getAsset(assetId).seller;
+        proposal.unsoldShares = supply - minted;
+
+        uint256 shares = _votingPower(proposal, msg.sender);
+        require(
+            shares > 0 && shares * 10000 >= governanceConfig.proposalThreshold * supply,
+            "E69" // Proposer holds too few shares to create a proposal
+        );
+        proposal.voteEnd = block.timestamp + governanceConfig.votingPeriod;
+        assetProposals[assetId].push(proposalId);
+        proposalCount++;
+
+        emit ProposalCreated(proposalId, assetId, msg.sender, proposalType, value, proposal.voteEnd);
+        return proposalId;
+    }
+
+    function castVote(uint256 proposalId, bool support) public proposalExists(proposalId) {
+        Proposal storage proposal = proposals[proposalId];
+        require(
+            proposal.status == PropytoRegistry.ProposalStatus.ACTIVE && block.timestamp <= proposal.voteEnd,
+            "E71" // Voting is closed
+        );
+        require(!hasVoted[proposalId][msg.sender], "E72"); // Already voted on this proposal
+        uint256 shares = getVotingPower(proposalId, msg.sender);
+        require(shares > 0, "E73"); // No voting power at the proposal snapshot
+
+        hasVoted[proposalId][msg.sender] = true;
+        if (support) {
+            proposal.forVotes += shares;
+        } else {
+            proposal.againstVotes += shares;
+        }
+
+        emit VoteCast(proposalId, msg.sender, support, shares);
+    }
+
+    // Carry out a proposal that passed, or record that it was rejected or expired; anyone may call it
+    function executeProposal(uint256 proposalId) public proposalExists(proposalId) {
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.status == PropytoRegistry.ProposalStatus.ACTIVE, "E75"); // Proposal is not active
+        require(block.timestamp > proposal.voteEnd, "E74"); // Voting has not ended yet
+
+        proposal.status = getProposalStatus(proposalId);
+        if (proposal.status == PropytoRegistry.ProposalStatus.ACTIVE) {
+            proposal.status = PropytoRegistry.ProposalStatus.EXECUTED;
+            if (proposal.proposalType == PropytoRegistry.ProposalType.PRICE_CHANGE || proposal.proposalType == PropytoRegistry.ProposalType.SELL_PROPERTY) {
+                registry.executeGovernanceAction(proposal.assetId, proposal.proposalType, proposal.value);
+            }
+        }
+
+        emit ProposalFinalized(proposalId, proposal.status);
+    }
+
+    function updateGovernanceConfig(GovernanceConfig memory _config) public onlyOwner {
+        require(
+            _config.proposalThreshold <= 10000 && _config.quorum <= 10000 && _config.approvalThreshold < 10000,
+            "E76" // Governance threshold above 100%
+        );
+        governanceConfig = _config;
+        emit GovernanceConfigUpdated(_config.proposalThreshold, _config.quorum, _config.approvalThreshold, _config.votingPeriod, _config.executionWindow);
+    }
+
+    // Votes so far and whether they would carry the proposal if voting ended now
+    function tally(uint256 proposalId) public view proposalExists(proposalId) returns (
+        uint256 forVotes,
+        uint256 againstVotes,
+        bool quorumReached,
+        bool approved
+    ) {
+        Proposal storage proposal = proposals[proposalId];
+        forVotes = proposal.forVotes;
+        againstVotes = proposal.againstVotes;
+        quorumReached = (forVotes + againstVotes) * 10000 >= governanceConfig.quorum * proposal.snapshotSupply;
+        approved = forVotes * 10000 > governanceConfig.approvalThreshold * (forVotes + againstVotes);
+    }
+
+    // Status including outcomes not yet recorded by executeProposal: ACTIVE while voting or awaiting execution
+    function getProposalStatus(uint256 proposalId) public view proposalExists(proposalId) returns (PropytoRegistry.ProposalStatus) {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.status != PropytoRegistry.ProposalStatus.ACTIVE || block.timestamp <= proposal.voteEnd) {
+            return proposal.status;
+        }
+
+        (, , bool quorumReached, bool approved) = tally(proposalId);
+        if (!quorumReached || !approved) {
+            return PropytoRegistry.ProposalStatus.REJECTED;
+        }
+        if (block.timestamp > proposal.voteEnd + governanceConfig.executionWindow) {
+            return PropytoRegistry.ProposalStatus.EXPIRED;
+        }
+        return PropytoRegistry.ProposalStatus.ACTIVE;
+    }
+
+    function getAssetProposalIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetProposals[assetId];
+    }
+
+    // Shares `voter` held at the proposal's snapshot, plus the unsold shares for the seller
+    function getVotingPower(uint256 proposalId, address voter) public view proposalExists(proposalId) returns (uint256) {
+        return _votingPower(proposals[proposalId], voter);
+    }
+
+    function _votingPower(Proposal storage proposal, address voter) private view returns (uint256) {
+        uint256 shares = registry.sharesOfAt(proposal.assetId, voter, proposal.snapshotId);
+        return voter == proposal.seller ? shares + proposal.unsoldShares : shares;
+    }
+}
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Builds the token metadata of the asset SFTs on-chain, as a base64 data:application/json URI,
+ * from the asset details kept by the registry: the name, the description, the image (an ipfs:// link
+ * to the asset image hash) and the type, zone, furnishing, area and price as attributes. While the
+ * registry points its metadataRenderer here, the SFTs serve this document instead of the off-chain
+ * metadata API, so it follows every change to the asset; the SFTs emit ERC-4906 MetadataUpdate events
+ * when the details it is built from change.
+ */
+contract PropytoMetadataRenderer is Initializable {
+    using Strings for uint256;
+
+    bytes16 private constant HEX_DIGITS = "0123456789abcdef";
+
+    PropytoRegistry public registry;
+
+    function initialize(address _registry) public initializer {
+        registry = PropytoRegistry(_registry);
+    }
+
+    function tokenURI(uint256 assetId) public view returns (string memory) {
+        return string(abi.encodePacked("data:application/json;base64,", Base64.encode(bytes(tokenMetadata(assetId)))));
+    }
+
+    // The JSON document encoded in tokenURI
+    function tokenMetadata(uint256 assetId) public view returns (string memory) {
+        PropytoRegistry.PropytoAsset memory asset = registry.getAsset(assetId);
+        (string memory description, , , ) = registry.assetMetadata(assetId);
+        (string memory image, , ) = registry.assetMedia(assetId);
+
+        bytes memory attributes = abi.encodePacked(
+            _trait("Type", _typeName(asset.assetType)),
+            ",",
+            _trait("Zone", _zoneName(asset.assetZone)),
+            ",",
+            _trait("Furnishing", _furnishingName(asset.assetFurnishing)),
+            ",",
+            _numberTrait("Area (sq ft)", asset.assetArea.toString()),
+            ",",
+            _numberTrait("Price (USDT)", _formatPrice(asset.assetPrice))
+        );
+
+        return
+            string(
+                abi.encodePacked(
+                    '{"name":"',
+                    _escape(asset.name),
+                    '","description":"',
+                    _escape(description),
+                    '",',
+                    bytes(image).length > 0 ? abi.encodePacked('"image":"', _escape(_imageURI(image)), '",') : bytes(""),
+                    '"attributes":[',
+                    attributes,
+                    "]}"
+                )
+            );
+    }
+
+    function _trait(string memory traitType, string memory value) private pure returns (bytes memory) {
+        return abi.encodePacked('{"trait_type":"', traitType, '","value":"', value, '"}');
+    }
+
+    // `value` must already be a JSON number
+    function _numberTrait(string memory traitType, string memory value) private pure returns (bytes memory) {
+        return abi.encodePacked('{"display_type":"number","trait_type":"', traitType, '","value":', value, "}");
+    }
+
+    function _typeName(PropytoRegistry.AssetType assetType) private pure returns (string memory) {
+        string[4] memory names = [string("Residential"), "Commercial", "Land", "Other"];
+        return names[uint8(assetType)];
+    }
+
+    function _zoneName(PropytoRegistry.AssetZone assetZone) private pure returns (string memory) {
+        string[5] memory names = [string("Industrial"), "Commercial", "Residential", "Land", "Other"];
+        return names[uint8(assetZone)];
+    }
+
+    function _furnishingName(PropytoRegistry.AssetFurnishing assetFurnishing) private pure returns (string memory) {
+        string[4] memory names = [string("Unfurnished"), "Partially furnished", "Fully furnished", "Other"];
+        return names[uint8(assetFurnishing)];
+    }
+
+    // Images are stored as an IPFS hash; links that already carry a scheme (ipfs://, https://) are kept as they are
+    function _imageURI(string memory image) private pure returns (string memory) {
+        bytes memory value = bytes(image);
+        for (uint256 i = 0; i + 2 < value.length; i++) {
+            if (value[i] == ":" && value[i + 1] == "/" && value[i + 2] == "/") {
+                return image;
+            }
+        }
+        return string(abi.encodePacked("ipfs://", image));
+    }
+
+    // An 18-decimal registry price as a decimal number without trailing zeros, such as 250000.5
+    function _formatPrice(uint256 price) private pure returns (string memory) {
+        string memory whole = (price / 1e18).toString();
+        uint256 fraction = price % 1e18;
+        if (fraction == 0) {
+            return whole;
+        }
+
+        uint256 digits = 18;
+        while (fraction % 10 == 0) {
+            fraction /= 10;
+            digits--;
+        }
+        bytes memory fractionDigits = bytes(fraction.toString());
+        bytes memory leadingZeros = new bytes(digits - fractionDigits.length);
+        for (uint256 i = 0; i < leadingZeros.length; i++) {
+            leadingZeros[i] = "0";
+        }
+        return string(abi.encodePacked(whole, ".", leadingZeros, fractionDigits));
+    }
+
+    // Escape quotes, backslashes and control characters so seller-provided text stays inside its JSON string
+    function _escape(string memory value) private pure returns (string memory) {
+        bytes memory input = bytes(value);
+        uint256 length = input.length;
+        for (uint256 i = 0; i < input.length; i++) {
+            if (input[i] == '"' || input[i] == "\\") {
+                length += 1;
+            } else if (uint8(input[i]) < 0x20) {
+                length += 5; // \u00XX
+            }
+        }
+        if (length == input.length) {
+            return value;
+        }
+
+        bytes memory output = new bytes(length);
+        uint256 j = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == "\\") {
+                output[j++] = "\\";
+                output[j++] = char;
+            } else if (uint8(char) < 0x20) {
+                output[j++] = "\\";
+                output[j++] = "u";
+                output[j++] = "0";
+                output[j++] = "0";
+                output[j++] = HEX_DIGITS[uint8(char) >> 4];
+                output[j++] = HEX_DIGITS[uint8(char) & 0x0f];
+            } else {
+                output[j++] = char;
+            }
+        }
+        return string(output);
+    }
+}
@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+
+/**
+ * @dev Review queue for new listings. While the registry uses this module, every registered asset
+ * lands in PENDING and its listing fee is held here. A listing moderator of the registry approves
+ * the listing, which gets the status the seller registered it with (FOR_SALE or FOR_RENT) and
+ * passes the fee on to the fee collector, or rejects it with a reason code: the asset becomes
+ * REJECTED for good, and the fee is either refunded to the seller or kept by the fee collector.
+ * The registry only switches to another module, or turns moderation off, once the queue is empty.
+ */
+contract PropytoModeration is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum ReviewStatus {
+        NONE,
+        PENDING,
+        APPROVED,
+        REJECTED
+    }
+
+    enum RejectionReason {
+        OTHER,
+        INACCURATE_DETAILS,
+        PROHIBITED_CONTENT,
+        UNREALISTIC_PRICE,
+        DUPLICATE_LISTING,
+        MISSING_DOCUMENTS
+    }
+
+    struct Review {
+        ReviewStatus status;
+        PropytoRegistry.AssetStatus requestedStatus; // status the asset gets once approved
+        address feeToken; // payment token the listing fee was paid in
+        uint256 listingFee; // held here until the decision
+        address moderator; // who decided, zero while pending
+        uint256 decidedAt;
+        RejectionReason reason; // only meaningful for rejected listings
+        bool feeRefunded;
+    }
+
+    PropytoRegistry public registry;
+    mapping(uint256 => Review) public reviews;
+    uint256[] private pendingAssetIds; // Listings awaiting a decision, in no particular order
+    mapping(uint256 => uint256) private pendingIndex; // Position in pendingAssetIds, plus one
+
+    event ListingSubmitted(uint256 indexed assetId, PropytoRegistry.AssetStatus requestedStatus, uint256 listingFee);
+    event ListingApproved(uint256 indexed assetId, address indexed moderator, PropytoRegistry.AssetStatus status);
+    event ListingRejected(uint256 indexed assetId, address indexed moderator, RejectionReason reason, uint256 refundedFee);
+
+    modifier onlyModerator() {
+        require(registry.hasRole(PropytoRoles.LISTING_MODERATOR, msg.sender), "E139"); // Only a listing moderator can review listings
+        _;
+    }
+
+    modifier onlyPending(uint256 assetId) {
+        require(reviews[assetId].status == ReviewStatus.PENDING, "E140"); // Listing is not pending moderation
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    // Called by the registry for every new listing, after it sent the listing fee here
+    function onAssetRegistered(uint256 assetId, PropytoRegistry.AssetStatus requestedStatus, uint256 listingFee) external {
+        require(msg.sender == address(registry), "E138"); // Only the registry can submit listings for moderation
+
+        reviews[assetId] = Review({
+            status: ReviewStatus.PENDING,
+            requestedStatus: requestedStatus,
+            feeToken: registry.usdtToken(),
+            listingFee: listingFee,
+            moderator: address(0),
+            decidedAt: 0,
+            reason: RejectionReason.OTHER,
+            feeRefunded: false
+        });
+        pendingAssetIds.push(assetId);
+        pendingIndex[assetId] = pendingAssetIds.length;
+
+        emit ListingSubmitted(assetId, requestedStatus, listingFee);
+    }
+
+    // Publish the listing with the status it was registered with; the fee goes to the fee collector
+    function approveListing(uint256 assetId) public nonReentrant onlyModerator onlyPending(assetId) {
+        Review storage review = _decide(assetId, ReviewStatus.APPROVED);
+        registry.setModerationStatus(assetId, review.requestedStatus);
+
+        (, address feeCollector, , ) = registry.marketplaceConfig();
+        _payFee(review, feeCollector);
+
+        emit ListingApproved(assetId, msg.sender, review.requestedStatus);
+    }
+
+    // Turn the listing down for good; the fee is refunded to the seller or goes to the fee collector
+    function rejectListing(uint256 assetId, RejectionReason reason, bool refundFee) public nonReentrant onlyModerator onlyPending(assetId) {
+        Review storage review = _decide(assetId, ReviewStatus.REJECTED);
+        review.reason = reason;
+        review.feeRefunded = refundFee;
+        registry.setModerationStatus(assetId, PropytoRegistry.AssetStatus.REJECTED);
+
+        if (refundFee) {
+            _payFee(review, registry.getAsset(assetId).seller);
+        } else {
+            (, address feeCollector, , ) = registry.marketplaceConfig();
+            _payFee(review, feeCollector);
+        }
+
+        emit ListingRejected(assetId, msg.sender, reason, refundFee ? review.listingFee : 0);
+    }
+
+    function getPendingAssetIds() public view returns (uint256[] memory) {
+        return pendingAssetIds;
+    }
+
+    // The registry only switches modules once this is zero, so no listing or fee is left behind
+    function pendingListingCount() external view returns (uint256) {
+        return pendingAssetIds.length;
+    }
+
+    function getReview(uint256 assetId) public view returns (Review memory) {
+        return reviews[assetId];
+    }
+
+    // Record the decision and drop the listing from the queue (the last pending listing takes its place)
+    function _decide(uint256 assetId, ReviewStatus status) internal returns (Review storage review) {
+        review = reviews[assetId];
+        review.status = status;
+        review.moderator = msg.sender;
+        review.decidedAt = block.timestamp;
+
+        uint256 index = pendingIndex[assetId] - 1;
+        uint256 lastAssetId = pendingAssetIds[pendingAssetIds.length - 1];
+        pendingAssetIds[index] = lastAssetId;
+        pendingIndex[lastAssetId] = index + 1;
+        pendingAssetIds.pop();
+        delete pendingIndex[assetId];
+    }
+
+    function _payFee(Review storage review, address to) internal {
+        if (review.listingFee > 0) {
+            require(IERC20(review.feeToken).transfer(to, review.listingFee), "E141"); // Listing fee transfer failed
+        }
+    }
+}
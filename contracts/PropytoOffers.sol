@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+import "./PropytoEscrow.sol";
+
+/**
+ * @dev Negotiated purchases. A buyer offers a total price below the list price for the whole
+ * asset or a block of shares and deposits it here until the offer expires. The seller accepts,
+ * rejects or counters with a higher price, which the buyer can accept by paying the difference.
+ * An accepted offer for shares settles at once through the registry, with the same platform fee
+ * and share minting as a purchase at the list price; an accepted offer for the whole asset moves
+ * to PropytoEscrow as the buyer's deposit, to be confirmed by the seller like any whole-asset
+ * purchase. The buyer can withdraw an unaccepted offer at any time.
+ */
+contract PropytoOffers is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum OfferStatus {
+        OPEN,
+        COUNTERED,
+        ACCEPTED,
+        REJECTED,
+        CANCELLED
+    }
+
+    struct Offer {
+        uint256 assetId;
+        address buyer;
+        uint256 shareCount; // 0 for the whole asset
+        uint256 amount; // deposited in paymentToken, the offered total price
+        uint256 counterAmount; // the seller's counter-offer, 0 if none
+        uint256 expiry; // last moment the offer, or the counter-offer, can be accepted
+        OfferStatus status;
+        address paymentToken; // the default payment token when the offer was placed; the purchase settles in it
+    }
+
+    PropytoRegistry public registry;
+    uint256 public offerCount;
+    mapping(uint256 => Offer) public offers;
+    mapping(uint256 => uint256[]) private assetOffers; // Offer IDs per asset, oldest first
+
+    event OfferPlaced(uint256 indexed offerId, uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 amount, uint256 expiry);
+    event OfferCountered(uint256 indexed offerId, uint256 indexed assetId, uint256 counterAmount, uint256 expiry);
+    event OfferAccepted(uint256 indexed offerId, uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 totalPrice);
+    event OfferEscrowed(uint256 indexed offerId, uint256 indexed escrowId);
+    event OfferRejected(uint256 indexed offerId, uint256 indexed assetId);
+    event OfferCancelled(uint256 indexed offerId, uint256 indexed assetId);
+
+    modifier offerExists(uint256 offerId) {
+        require(offerId < offerCount, "E101"); // Offer does not exist
+        _;
+    }
+
+    modifier onlyAssetSeller(uint256 offerId) {
+        require(msg.sender == registry.getAsset(offers[offerId].assetId).seller, "E8"); // Only the asset seller can call this function
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    // Offer `amount` for `shareCount` shares, or for the whole asset with 0, and deposit it until `expiry`
+    function placeOffer(uint256 assetId, uint256 shareCount, uint256 amount, uint256 expiry) public nonReentrant returns (uint256) {
+        require(expiry > block.timestamp, "E103"); // Offer expiry must be in the future
+        address paymentToken = registry.usdtToken();
+        PropytoRegistry.PurchaseQuote memory quote = registry.quotePurchase(assetId, shareCount, shareCount == 0, paymentToken);
+        require(amount > 0 && amount < quote.totalPrice, "E102"); // Offer amount must be positive and below the list price
+        require(shareCount > 0 || registry.purchaseEscrow() != address(0), "E148"); // Whole-asset offers need a purchase escrow
+        require(msg.sender != registry.getAsset(assetId).seller, "E87"); // Seller cannot buy their own asset
+        registry.checkInvestor(assetId, msg.sender);
+
+        uint256 offerId = offerCount;
+        offers[offerId] = Offer({
+            assetId: assetId,
+            buyer: msg.sender,
+            shareCount: shareCount,
+            amount: amount,
+            counterAmount: 0,
+            expiry: expiry,
+            status: OfferStatus.OPEN,
+            paymentToken: paymentToken
+        });
+        assetOffers[assetId].push(offerId);
+        offerCount++;
+
+        require(IERC20(paymentToken).transferFrom(msg.sender, address(this), amount), "E108"); // Offer transfer failed
+
+        emit OfferPlaced(offerId, assetId, msg.sender, shareCount, amount, expiry);
+        return offerId;
+    }
+
+    // Sell at the offered price
+    function acceptOffer(uint256 offerId) public nonReentrant offerExists(offerId) onlyAssetSeller(offerId) {
+        Offer storage offer = offers[offerId];
+        require(offer.status == OfferStatus.OPEN, "E109"); // Offer is not awaiting the seller
+        require(block.timestamp <= offer.expiry, "E105"); // Offer has expired
+
+        _settle(offerId, offer.amount);
+    }
+
+    // Ask for `counterAmount` instead; replaces any earlier counter-offer and the offer's expiry
+    function counterOffer(uint256 offerId, uint256 counterAmount, uint256 expiry) public offerExists(offerId) onlyAssetSeller(offerId) {
+        Offer storage offer = offers[offerId];
+        require(_isActive(offer), "E104"); // Offer is no longer active
+        require(counterAmount > offer.amount, "E107"); // Counter-offer must be above the offered amount
+        require(expiry > block.timestamp, "E103"); // Offer expiry must be in the future
+
+        offer.counterAmount = counterAmount;
+        offer.expiry = expiry;
+        offer.status = OfferStatus.COUNTERED;
+
+        emit OfferCountered(offerId, offer.assetId, counterAmount, expiry);
+    }
+
+    // Buy at the seller's counter-offer, paying the difference on top of the deposit
+    function acceptCounterOffer(uint256 offerId) public nonReentrant offerExists(offerId) {
+        Offer storage offer = offers[offerId];
+        require(msg.sender == offer.buyer, "E106"); // Only the buyer of the offer can call this function
+        require(offer.status == OfferStatus.COUNTERED, "E110"); // Offer has no counter-offer
+        require(block.timestamp <= offer.expiry, "E105"); // Offer has expired
+
+        require(
+            IERC20(offer.paymentToken).transferFrom(msg.sender, address(this), offer.counterAmount - offer.amount),
+            "E108" // Offer transfer failed
+        );
+        _settle(offerId, offer.counterAmount);
+    }
+
+    // Turn the offer down and return the deposit to the buyer
+    function rejectOffer(uint256 offerId) public nonReentrant offerExists(offerId) onlyAssetSeller(offerId) {
+        Offer storage offer = offers[offerId];
+        require(_isActive(offer), "E104"); // Offer is no longer active
+
+        offer.status = OfferStatus.REJECTED;
+        require(IERC20(offer.paymentToken).transfer(offer.buyer, offer.amount), "E108"); // Offer transfer failed
+
+        emit OfferRejected(offerId, offer.assetId);
+    }
+
+    // Withdraw an offer that was not accepted, expired or not, and take the deposit back
+    function cancelOffer(uint256 offerId) public nonReentrant offerExists(offerId) {
+        Offer storage offer = offers[offerId];
+        require(msg.sender == offer.buyer, "E106"); // Only the buyer of the offer can call this function
+        require(_isActive(offer), "E104"); // Offer is no longer active
+
+        offer.status = OfferStatus.CANCELLED;
+        require(IERC20(offer.paymentToken).transfer(offer.buyer, offer.amount), "E108"); // Offer transfer failed
+
+        emit OfferCancelled(offerId, offer.assetId);
+    }
+
+    // Whether the offer, or its counter-offer, can no longer be accepted
+    function isExpired(uint256 offerId) public view returns (bool) {
+        return block.timestamp > offers[offerId].expiry;
+    }
+
+    function getAssetOfferIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetOffers[assetId];
+    }
+
+    function _isActive(Offer storage offer) internal view returns (bool) {
+        return offer.status == OfferStatus.OPEN || offer.status == OfferStatus.COUNTERED;
+    }
+
+    // For shares, the registry pulls `totalPrice` from here, splits off the platform fee and mints the shares
+    // to the buyer; for the whole asset, the purchase escrow pulls it as the buyer's deposit
+    function _settle(uint256 offerId, uint256 totalPrice) internal {
+        Offer storage offer = offers[offerId];
+        offer.status = OfferStatus.ACCEPTED;
+
+        if (offer.shareCount == 0) {
+            address escrow = registry.purchaseEscrow(); // set before the offer was placed, and never unset
+            require(IERC20(offer.paymentToken).approve(escrow, totalPrice), "E108"); // Offer transfer failed
+            uint256 escrowId = PropytoEscrow(escrow).depositAcceptedOffer(offer.assetId, offer.buyer, totalPrice, offer.paymentToken);
+            emit OfferEscrowed(offerId, escrowId);
+        } else {
+            require(IERC20(offer.paymentToken).approve(address(registry), totalPrice), "E108"); // Offer transfer failed
+            registry.settleOffer(offer.assetId, offer.buyer, offer.shareCount, totalPrice, offer.paymentToken);
+        }
+
+        emit OfferAccepted(offerId, offer.assetId, offer.buyer, offer.shareCount, totalPrice);
+    }
+}
@@ -2,14 +2,42 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
-import "@openzeppelin/contracts/utils/Strings.sol";
 import "./PropytoSFT.sol";
+import "./PropytoSFTFactory.sol";
+import "./PropytoAccessManager.sol";
+
+// Dividend distributor notified of every mint, transfer and burn of shares
+interface IPropytoShareHook {
+    function onSharesMoved(uint256 assetId, address from, address to, uint256 shareCount) external;
+}
+
+// Crowdfunding module holding the share payments of assets with a funding goal
+interface IPropytoCrowdfunding {
+    function fundingToken(uint256 assetId) external view returns (address);
+    function recordContribution(uint256 assetId, address buyer, uint256 shareCount, uint256 amount, uint256 platformFee) external;
+    function checkShareTransfer(uint256 assetId) external view;
+}
+
+// Moderation module reviewing new listings; it receives their listing fee until it decides
+interface IPropytoModeration {
+    function onAssetRegistered(uint256 assetId, PropytoRegistry.AssetStatus requestedStatus, uint256 listingFee) external;
+    function pendingListingCount() external view returns (uint256);
+}
+
+// Compliance module deciding who may hold the shares of regulated assets; both checks revert when not allowed
+interface IPropytoCompliance {
+    function checkInvestor(uint256 assetId, address investor) external view;
+    function checkTransfer(uint256 assetId, address from, address to, uint256 shareCount) external view;
+}
 
 contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, PausableUpgradeable {
-    using Strings for uint256;
+    // Base URI of the off-chain metadata; each SFT appends the asset ID
+    string private constant METADATA_BASE_URI = "https://api.propy.to/metadata/";
 
     enum AssetType {
         RESIDENTIAL,
@@ -48,7 +76,9 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         SOLD,
         RENTED,
         DELISTED,
-        OTHER
+        OTHER,
+        PENDING, // awaiting review by the moderation module
+        REJECTED // turned down by the moderation module
     }
 
     enum AssetFurnishing {
@@ -110,6 +140,11 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         string assetLocation;
     }
 
+    // A string field of a storage struct, addressed by slot in _storeStrings
+    struct StoredString {
+        string value;
+    }
+
     struct PropytoAssetMedia {
         string assetImage; // IPFS hash
         string assetVideo; // IPFS hash
@@ -134,6 +169,34 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         bool isInitialized;
     }
 
+    // Readable copy of PartialOwnership without the owners list and shares mapping
+    struct PartialOwnershipInfo {
+        uint256 totalShares;
+        uint256 availableShares;
+        uint256 sharePrice;
+        uint256 minSharePurchase;
+        uint256 maxSharesPerOwner;
+        uint256 ownerCount;
+        bool isInitialized;
+    }
+
+    // Payment breakdown of a purchaseShares call
+    struct PurchaseQuote {
+        uint256 totalPrice; // amount pulled from the buyer
+        uint256 platformFee; // part of totalPrice sent to the fee collector
+        uint256 sellerAmount; // part of totalPrice sent to the seller
+        uint256 availableShares; // shares left for sale after the purchase
+    }
+
+    // EIP-2612 permit signed by the caller, letting this contract pull `value` of a payment token
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
     struct MarketplaceConfig {
         uint256 platformFeePercentage;
         address feeCollector;
@@ -152,62 +215,137 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
     mapping(uint256 => address) public propytosftAddress;
     
     uint256 public assetCount;
-    address public usdtToken; // USDT token contract address
+    address public usdtToken; // Default payment token: listing fees and module payments use it
     MarketplaceConfig public marketplaceConfig;
+    address public sftFactory; // Deploys the per-asset PropytoSFT contracts
+    address public shareMarket; // Secondary market for PropytoSFT shares, looked up by clients
+    address public rentalManager; // Lease contract that moves assets between FOR_RENT and RENTED
+    address public dividendDistributor; // Pays rental income to share holders; told about every share movement
+    address public governance; // Share-weighted proposals; may snapshot shares and change price and status
+    address public purchaseEscrow; // Holds whole-asset purchase payments until the sale is settled
+    mapping(uint256 => bool) public inEscrow; // Asset has a whole-asset purchase awaiting settlement or a running auction
+    address public crowdfunding; // Holds share payments of assets with a funding goal until the soft cap is sold
+    address public offerBook; // Holds buyers' offers below the list price and settles accepted ones
+    address public auctionHouse; // Sells whole assets by English or Dutch auction, locking them like the purchase escrow
+    mapping(address => uint256) public paymentTokenUnit; // 10**(18 - decimals) for accepted payment tokens, 0 otherwise
+    address[] private paymentTokens; // Tokens accepted at some point, in the order they were first added
+    address public compliance; // Checks primary sales and SFT transfers of regulated assets against investor records
+    address public accessManager; // Holds the platform roles; until one is set, the owner holds every role
+    address public moderation; // Reviews new listings before they go live; zero to publish them immediately
+    address public metadataRenderer; // Builds the SFT metadata on-chain; zero to serve METADATA_BASE_URI
 
     // Events
     event AssetRegistered(uint256 indexed assetId, string name, address indexed registeredBy, address indexed seller, address propytosftAddress);
     event PartialOwnershipEnabled(uint256 indexed assetId, uint256 totalShares, uint256 sharePrice);
     event SharesPurchased(uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 totalPrice);
     event SharesTransferred(uint256 indexed assetId, address indexed from, address indexed to, uint256 shareCount);
+    event SharesSnapshot(uint256 indexed assetId, uint256 snapshotId);
     
     event AssetStatusUpdated(uint256 indexed assetId, AssetStatus oldStatus, AssetStatus newStatus);
     event AssetPriceUpdated(uint256 indexed assetId, uint256 oldPrice, uint256 newPrice);
     event AssetMetadataUpdated(uint256 indexed assetId);
     event AssetMediaUpdated(uint256 indexed assetId);
     event AssetSellershipTransferred(uint256 indexed assetId, address indexed oldSeller, address indexed newSeller);
+    event AssetRentDataUpdated(uint256 indexed assetId);
+    event ListingExpiryExtended(uint256 indexed assetId, uint256 newExpiry);
+    event EscrowStatusUpdated(uint256 indexed assetId, bool locked);
     
     event MarketplaceConfigUpdated(uint256 platformFeePercentage, address feeCollector);
     event FeesCollected(uint256 indexed assetId, uint256 feeAmount);
+    event PaymentTokenUpdated(address indexed token, uint8 decimals, bool accepted);
+    event AccessManagerUpdated(address indexed accessManager);
 
     modifier assetExists(uint256 assetId) {
-        require(assetId < assetCount, "E7"); // Asset does not exist
+        _checkAssetExists(assetId);
         _;
     }
 
     modifier onlySeller(uint256 assetId) {
-        require(msg.sender == assets[assetId].seller, "E8"); // Only the asset seller can call this function
+        _checkSeller(assetId);
         _;
     }
 
     modifier canManageAsset(uint256 assetId) {
-        require(
-            msg.sender == owner() || msg.sender == assets[assetId].seller,
-            "E9" // Only the contract owner or asset seller can call this function
-        );
+        _checkSellerOrRole(assetId, PropytoRoles.LISTING_MODERATOR);
         _;
     }
 
-    function initialize(address _usdtToken) public initializer {
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    // Modifier checks live in functions so the modifiers do not inline the revert strings everywhere
+    function _checkAssetExists(uint256 assetId) internal view {
+        require(assetId < assetCount, "E7"); // Asset does not exist
+    }
+
+    function _checkSeller(uint256 assetId) internal view {
+        require(msg.sender == assets[assetId].seller, "E8"); // Only the asset seller can call this function
+    }
+
+    function _checkSellerOrRole(uint256 assetId, bytes32 role) internal view {
+        require(msg.sender == assets[assetId].seller || hasRole(role, msg.sender), "E9"); // Only the asset seller or a holder of the required role can call this function
+    }
+
+    function _checkRole(bytes32 role) internal view {
+        require(hasRole(role, msg.sender), "E133"); // Caller is missing the role required for this function
+    }
+
+    function initialize(address _usdtToken, address _sftFactory) public initializer {
         __Ownable_init();
         __ReentrancyGuard_init();
         __Pausable_init();
         usdtToken = _usdtToken;
+        sftFactory = _sftFactory;
+        _acceptPaymentToken(_usdtToken, IERC20Metadata(_usdtToken).decimals());
         
         marketplaceConfig.platformFeePercentage = 250; // 2.5%
         marketplaceConfig.feeCollector = msg.sender;
-        marketplaceConfig.listingFee = 10 * 10**18; // 10 USDT
+        marketplaceConfig.listingFee = 10 * 10**18; // 10 USDT, converted to the default payment token's decimals
         marketplaceConfig.feesEnabled = true;
     }
 
+    // Brings a registry deployed before the SFT factory and payment tokens existed up to date, right after the proxy
+    // upgrade (scripts/upgradeRegistry.ts). Registries initialized with both arguments above need no call
+    function initializeV2(address _sftFactory) public reinitializer(2) onlyRole(PropytoRoles.ADMIN) {
+        require(_sftFactory != address(0), "E29"); // SFT factory cannot be zero address
+        sftFactory = _sftFactory;
+        _acceptPaymentToken(usdtToken, IERC20Metadata(usdtToken).decimals());
+    }
+
     function registerAsset(
         PropytoAsset memory _asset,
         PropytoAssetMetadata memory _metadata,
         PropytoAssetMedia memory _media
     ) public nonReentrant whenNotPaused returns (uint256) {
+        return _registerAsset(_asset, _metadata, _media);
+    }
+
+    // registerAsset with the listing fee approved by a permit on the default payment token
+    function registerAssetWithPermit(
+        PropytoAsset memory _asset,
+        PropytoAssetMetadata memory _metadata,
+        PropytoAssetMedia memory _media,
+        PermitSignature calldata permit
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        _permit(usdtToken, permit);
+        return _registerAsset(_asset, _metadata, _media);
+    }
+
+    function _registerAsset(
+        PropytoAsset memory _asset,
+        PropytoAssetMetadata memory _metadata,
+        PropytoAssetMedia memory _media
+    ) internal returns (uint256) {
+        require(_asset.assetStatus <= AssetStatus.FOR_RENT, "E150"); // New listings must be for sale or for rent
+        
+        // Under moderation the fee is held by the moderation module, which refunds it or passes it on
+        uint256 listingFee;
         if (marketplaceConfig.feesEnabled && marketplaceConfig.listingFee > 0) {
+            listingFee = toTokenAmount(usdtToken, marketplaceConfig.listingFee);
             require(
-                IERC20(usdtToken).transferFrom(msg.sender, marketplaceConfig.feeCollector, marketplaceConfig.listingFee),
+                IERC20(usdtToken).transferFrom(msg.sender, moderation == address(0) ? marketplaceConfig.feeCollector : moderation, listingFee),
                 "E10" // Listing fee transfer failed
             );
         }
@@ -220,18 +358,23 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
             _asset.listingExpiry = block.timestamp + 90 days;
         }
         
+        if (moderation != address(0)) {
+            IPropytoModeration(moderation).onAssetRegistered(assetId, _asset.assetStatus, listingFee);
+            _asset.assetStatus = AssetStatus.PENDING;
+        }
+        
         assets[assetId] = _asset;
-        assetMetadata[assetId] = _metadata;
-        assetMedia[assetId] = _media;
+        _setAssetMetadata(assetId, _metadata);
+        _setAssetMedia(assetId, _media);
         
         sellerAssets[msg.sender].push(assetId);
 
-        PropytoSFT _propytosftAddress = new PropytoSFT(constructTokenURI(assetId), _asset.name, "PROPYTO");
-        propytosftAddress[assetId] = address(_propytosftAddress);
+        address _propytosftAddress = PropytoSFTFactory(sftFactory).createSFT(METADATA_BASE_URI, _asset.name, "PROPYTO");
+        propytosftAddress[assetId] = _propytosftAddress;
         
         assetCount++;
         
-        emit AssetRegistered(assetId, _asset.name, msg.sender, _asset.seller, address(_propytosftAddress));
+        emit AssetRegistered(assetId, _asset.name, msg.sender, _asset.seller, _propytosftAddress);
         return assetId;
     }
 
@@ -261,147 +404,212 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         ownership.isInitialized = true;
         
         if (sellerShares > 0) {
-            ownership.shares[asset.seller] = sellerShares;
-            ownership.owners.push(asset.seller);
+            _addShares(ownership, asset.seller, sellerShares);
+            _mintShares(assetId, asset.seller, sellerShares);
         }
         
         emit PartialOwnershipEnabled(assetId, totalShares, sharePrice);
     }
 
-    function purchaseShares(uint256 assetId, uint256 shareCount, bool isBuyAsset) public nonReentrant assetExists(assetId) {
-        PropytoAsset storage asset = assets[assetId];
-        require(
-            asset.assetStatus == AssetStatus.FOR_SALE || 
-            asset.assetStatus == AssetStatus.FOR_RENT,
-            "E11" // Asset is not available for purchase
-        );
-        require(block.timestamp < asset.listingExpiry, "E12"); // Asset listing has expired
+    // Pays in the default payment token
+    function purchaseShares(uint256 assetId, uint256 shareCount, bool isBuyAsset) public nonReentrant assetExists(assetId) whenNotPaused {
+        _purchaseShares(assetId, shareCount, isBuyAsset, type(uint256).max, usdtToken);
+    }
+
+    // purchaseShares paid in `paymentToken` that reverts if the total price, in that token's units,
+    // exceeds `maxTotalPrice` or the call lands after `deadline`
+    function purchaseSharesWithLimits(
+        uint256 assetId,
+        uint256 shareCount,
+        bool isBuyAsset,
+        uint256 maxTotalPrice,
+        uint256 deadline,
+        address paymentToken
+    ) public nonReentrant assetExists(assetId) whenNotPaused {
+        require(block.timestamp <= deadline, "E32"); // Purchase deadline passed
+        _purchaseShares(assetId, shareCount, isBuyAsset, maxTotalPrice, paymentToken);
+    }
+
+    // purchaseSharesWithLimits of shares (not the whole asset) with the payment approved by a permit on `paymentToken`
+    function purchaseSharesWithPermit(
+        uint256 assetId,
+        uint256 shareCount,
+        uint256 maxTotalPrice,
+        uint256 deadline,
+        address paymentToken,
+        PermitSignature calldata permit
+    ) external nonReentrant assetExists(assetId) whenNotPaused {
+        _permit(paymentToken, permit);
+        require(block.timestamp <= deadline, "E32"); // Purchase deadline passed
+        _purchaseShares(assetId, shareCount, false, maxTotalPrice, paymentToken);
+    }
+
+    // A failed permit is ignored: if it was front-run, the allowance it granted is already in place,
+    // and otherwise the transfer reverts for lack of allowance
+    function _permit(address token, PermitSignature calldata permit) internal {
+        try IERC20Permit(token).permit(msg.sender, address(this), permit.value, permit.deadline, permit.v, permit.r, permit.s) {} catch {}
+    }
+
+    function _purchaseShares(uint256 assetId, uint256 shareCount, bool isBuyAsset, uint256 maxTotalPrice, address paymentToken) internal {
+        PurchaseQuote memory quote = _quotePurchase(assetId, shareCount, isBuyAsset, paymentToken);
+        require(quote.totalPrice <= maxTotalPrice, "E32"); // Purchase price above maximum total price
         
-        uint256 totalPrice;
-        uint256 platformFee;
-        uint256 sellerAmount;
-        // Handle entire asset purchase
-        if (isBuyAsset) {
-            // Use the asset price for entire purchase
-            totalPrice = asset.assetPrice;
-            
-            // Process payment
-            platformFee = marketplaceConfig.feesEnabled ? 
-                (totalPrice * marketplaceConfig.platformFeePercentage) / 10000 : 0;
-            sellerAmount = totalPrice - platformFee;
-            
-            require(
-                IERC20(usdtToken).transferFrom(msg.sender, asset.seller, sellerAmount),
-                "E17" // Payment to seller failed
-            );
-            
-            if (platformFee > 0) {
-                require(
-                    IERC20(usdtToken).transferFrom(msg.sender, marketplaceConfig.feeCollector, platformFee),
-                    "E18" // Platform fee payment failed
-                );
-                emit FeesCollected(assetId, platformFee);
-            }
-            
-            // Mint SFT for entire asset
-            if (propytosftAddress[assetId] != address(0)) {
-                PropytoSFT sft = PropytoSFT(propytosftAddress[assetId]);
-                
-                uint256 tokenId = sft.getTokenId(assetId);
-                if (tokenId == 0) {
-                    string memory uri = constructTokenURI(assetId);
-                    sft.tokenizeAsset(assetId, uri);
-                }
-                
-                // For complete asset purchase, mint all shares to the buyer
-                PartialOwnership storage _ownership = assetOwnership[assetId];
-                uint256 sharesToMint = _ownership.isInitialized ? _ownership.totalShares : 100;
-                
-                sft.mintShares(msg.sender, assetId, sharesToMint);
-            }
-            
-            // Update asset status to SOLD
-            AssetStatus oldStatus = asset.assetStatus;
-            asset.assetStatus = AssetStatus.SOLD;
-            emit AssetStatusUpdated(assetId, oldStatus, asset.assetStatus);
-            
-            return;
-        }
+        require(!isBuyAsset, "E81"); // Whole-asset purchases go through the purchase escrow
         
-        // Handle partial shares purchase
+        _sellShares(assetId, msg.sender, shareCount, quote, paymentToken);
+    }
+
+    // Collect a quoted share purchase from msg.sender and mint the shares to `buyer`
+    function _sellShares(uint256 assetId, address buyer, uint256 shareCount, PurchaseQuote memory quote, address paymentToken) internal {
+        PropytoAsset storage asset = assets[assetId];
         PartialOwnership storage ownership = assetOwnership[assetId];
-        require(ownership.isInitialized, "E13"); // Partial ownership not initialized for this asset
-        require(shareCount >= ownership.minSharePurchase, "E14"); // Share count below minimum purchase amount
-        require(shareCount <= ownership.availableShares, "E15"); // Not enough shares available
         
         // Prevent seller from buying their own shares
-        require(msg.sender != asset.seller, "Cannot buy your own shares");
+        require(buyer != asset.seller, "Cannot buy your own shares");
         
         if (ownership.maxSharesPerOwner > 0) {
             require(
-                ownership.shares[msg.sender] + shareCount <= ownership.maxSharesPerOwner,
+                ownership.shares[buyer] + shareCount <= ownership.maxSharesPerOwner,
                 "E16" // Purchase would exceed maximum shares per owner
             );
         }
+        _checkTransfer(assetId, address(0), buyer, shareCount);
         
-        totalPrice = shareCount * ownership.sharePrice;
-        
-        platformFee = 0;
-        if (marketplaceConfig.feesEnabled) {
-            platformFee = (totalPrice * marketplaceConfig.platformFeePercentage) / 10000;
+        address fundingToken = crowdfunding == address(0) ? address(0) : IPropytoCrowdfunding(crowdfunding).fundingToken(assetId);
+        if (fundingToken != address(0)) {
+            require(paymentToken == fundingToken, "E122"); // Funded offerings are paid in the payment token their funding goal was set in
+            require(IERC20(paymentToken).transferFrom(msg.sender, crowdfunding, quote.totalPrice), "E96"); // Crowdfunding transfer failed
+            IPropytoCrowdfunding(crowdfunding).recordContribution(assetId, buyer, shareCount, quote.totalPrice, quote.platformFee);
+        } else {
+            _collectPayment(assetId, asset.seller, quote, paymentToken);
         }
         
-        sellerAmount = totalPrice - platformFee;
+        _addShares(ownership, buyer, shareCount);
+        ownership.availableShares = quote.availableShares;
         
+        emit SharesPurchased(assetId, buyer, shareCount, quote.totalPrice);
+
+        _mintShares(assetId, buyer, shareCount);
+        
+        if (ownership.availableShares == 0 && asset.assetStatus == AssetStatus.FOR_SALE) {
+            _setAssetStatus(assetId, AssetStatus.SOLD);
+        }
+    }
+
+    // Price and fee split, in `paymentToken` units, of a purchase with the same arguments; reverts where it would.
+    // With isBuyAsset it quotes the deposit a buyer makes with the purchase escrow
+    function quotePurchase(
+        uint256 assetId,
+        uint256 shareCount,
+        bool isBuyAsset,
+        address paymentToken
+    ) public view assetExists(assetId) returns (PurchaseQuote memory) {
+        return _quotePurchase(assetId, shareCount, isBuyAsset, paymentToken);
+    }
+
+    function _quotePurchase(uint256 assetId, uint256 shareCount, bool isBuyAsset, address paymentToken) internal view returns (PurchaseQuote memory quote) {
+        PropytoAsset storage asset = assets[assetId];
         require(
-            IERC20(usdtToken).transferFrom(msg.sender, asset.seller, sellerAmount),
+            asset.assetStatus == AssetStatus.FOR_SALE || 
+            asset.assetStatus == AssetStatus.FOR_RENT,
+            "E11" // Asset is not available for purchase
+        );
+        require(block.timestamp < asset.listingExpiry, "E12"); // Asset listing has expired
+        require(!inEscrow[assetId], "E80"); // Asset is locked by an escrowed purchase or a running auction
+        
+        if (isBuyAsset) {
+            // Use the asset price for entire purchase
+            quote.totalPrice = asset.assetPrice;
+        } else {
+            PartialOwnership storage ownership = assetOwnership[assetId];
+            require(ownership.isInitialized, "E13"); // Partial ownership not initialized for this asset
+            require(shareCount >= ownership.minSharePurchase, "E14"); // Share count below minimum purchase amount
+            require(shareCount <= ownership.availableShares, "E15"); // Not enough shares available
+            
+            quote.totalPrice = shareCount * ownership.sharePrice;
+            quote.availableShares = ownership.availableShares - shareCount;
+        }
+        quote.totalPrice = toTokenAmount(paymentToken, quote.totalPrice);
+        _splitFee(quote);
+    }
+
+    // Split in token units so the fee and the seller's part always add up to the amount paid
+    function _splitFee(PurchaseQuote memory quote) internal view {
+        if (marketplaceConfig.feesEnabled) {
+            quote.platformFee = (quote.totalPrice * marketplaceConfig.platformFeePercentage) / 10000;
+        }
+        quote.sellerAmount = quote.totalPrice - quote.platformFee;
+    }
+
+    function _collectPayment(uint256 assetId, address seller, PurchaseQuote memory quote, address paymentToken) internal {
+        require(
+            IERC20(paymentToken).transferFrom(msg.sender, seller, quote.sellerAmount),
             "E17" // Payment to seller failed
         );
         
-        if (platformFee > 0) {
+        if (quote.platformFee > 0) {
             require(
-                IERC20(usdtToken).transferFrom(msg.sender, marketplaceConfig.feeCollector, platformFee),
+                IERC20(paymentToken).transferFrom(msg.sender, marketplaceConfig.feeCollector, quote.platformFee),
                 "E18" // Platform fee payment failed
             );
-            emit FeesCollected(assetId, platformFee);
+            emit FeesCollected(assetId, quote.platformFee);
         }
-        
-        if (ownership.shares[msg.sender] == 0) {
-            ownership.owners.push(msg.sender);
+    }
+
+    // Mint SFT shares, tokenizing the asset on its first mint
+    function _mintShares(uint256 assetId, address to, uint256 shareCount) internal {
+        PropytoSFT sft = PropytoSFT(propytosftAddress[assetId]);
+        if (sft.getTokenId(assetId) == 0) {
+            sft.tokenizeAsset(assetId, ""); // the SFT serves METADATA_BASE_URI followed by the asset ID
         }
-        
-        ownership.shares[msg.sender] += shareCount;
-        ownership.availableShares -= shareCount;
-        
-        emit SharesPurchased(assetId, msg.sender, shareCount, totalPrice);
+        sft.mintShares(to, assetId, shareCount);
+        _notifySharesMoved(assetId, address(0), to, shareCount);
+    }
 
-        if (propytosftAddress[assetId] != address(0)) {
-            PropytoSFT sft = PropytoSFT(propytosftAddress[assetId]);
-            
-            uint256 tokenId = sft.getTokenId(assetId);
-            if (tokenId == 0) {
-                string memory uri = constructTokenURI(assetId);
-                sft.tokenizeAsset(assetId, uri);
-            }
-            
-            sft.mintShares(msg.sender, assetId, shareCount);
+    // Reverts unless `investor` may hold shares of the asset; modules call it before taking a buyer's payment
+    function checkInvestor(uint256 assetId, address investor) external view {
+        if (compliance != address(0)) {
+            IPropytoCompliance(compliance).checkInvestor(assetId, investor);
         }
-        
-        if (ownership.availableShares == 0 && asset.assetStatus == AssetStatus.FOR_SALE) {
-            AssetStatus oldStatus = asset.assetStatus;
-            asset.assetStatus = AssetStatus.SOLD;
-            emit AssetStatusUpdated(assetId, oldStatus, asset.assetStatus);
+    }
+
+    // Shares moving to `to`, minted when `from` is zero and burned when `to` is; checked before the ledger changes
+    function _checkTransfer(uint256 assetId, address from, address to, uint256 shareCount) internal view {
+        if (compliance != address(0)) {
+            IPropytoCompliance(compliance).checkTransfer(assetId, from, to, shareCount);
         }
     }
 
-    function constructTokenURI(uint256 assetId) internal pure returns (string memory) {
-        // PropytoAssetMedia storage media = assetMedia[assetId];
-        
-        // if (bytes(media.assetImage).length > 0) {
-        //     return media.assetImage;
-        // }
-        
-        return string(abi.encodePacked("https://api.propy.to/metadata/", assetId.toString()));
+    function _notifySharesMoved(uint256 assetId, address from, address to, uint256 shareCount) internal {
+        if (dividendDistributor != address(0)) {
+            IPropytoShareHook(dividendDistributor).onSharesMoved(assetId, from, to, shareCount);
+        }
+    }
+
+    function _addShares(PartialOwnership storage ownership, address holder, uint256 shareCount) internal {
+        if (ownership.shares[holder] == 0) {
+            ownership.owners.push(holder);
+        }
+        ownership.shares[holder] += shareCount;
+    }
+
+    // Drops the holder from the owners list once they hold nothing (the last owner takes its place)
+    function _removeShares(PartialOwnership storage ownership, address holder, uint256 shareCount) internal {
+        ownership.shares[holder] -= shareCount;
+        if (ownership.shares[holder] > 0) {
+            return;
+        }
+        for (uint256 i = 0; i < ownership.owners.length; i++) {
+            if (ownership.owners[i] == holder) {
+                ownership.owners[i] = ownership.owners[ownership.owners.length - 1];
+                ownership.owners.pop();
+                break;
+            }
+        }
+    }
+
+    function getAsset(uint256 assetId) public view assetExists(assetId) returns (PropytoAsset memory) {
+        return assets[assetId];
     }
 
     function getOwnershipPercentage(uint256 assetId, address ownerAddress) public view assetExists(assetId) returns (uint256) {
@@ -418,19 +626,199 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         return ownership.shares[ownerAddress];
     }
 
+    // Record the asset's share balances, for votes and distributions that must not follow later transfers
+    function snapshotShares(uint256 assetId) external assetExists(assetId) returns (uint256 snapshotId) {
+        require(
+            msg.sender == assets[assetId].seller || msg.sender == governance || msg.sender == dividendDistributor || hasRole(PropytoRoles.ADMIN, msg.sender),
+            "E77" // Only an admin, the seller or a registry module can snapshot shares
+        );
+        snapshotId = PropytoSFT(propytosftAddress[assetId]).snapshot();
+        emit SharesSnapshot(assetId, snapshotId);
+    }
+
+    function sharesOfAt(uint256 assetId, address holder, uint256 snapshotId) public view assetExists(assetId) returns (uint256) {
+        PropytoSFT sft = PropytoSFT(propytosftAddress[assetId]);
+        return sft.balanceOfAt(holder, sft.getTokenId(assetId), snapshotId);
+    }
+
+    function totalSharesAt(uint256 assetId, uint256 snapshotId) public view assetExists(assetId) returns (uint256) {
+        PropytoSFT sft = PropytoSFT(propytosftAddress[assetId]);
+        return sft.totalSupplyAt(sft.getTokenId(assetId), snapshotId);
+    }
+
     function getAssetOwners(uint256 assetId) public view assetExists(assetId) returns (address[] memory) {
         return assetOwnership[assetId].owners;
     }
 
-    // function updateAssetStatus(uint256 assetId, AssetStatus newStatus) public assetExists(assetId) onlySeller(assetId) {
-    //     PropytoAsset storage asset = assets[assetId];
-    //     AssetStatus oldStatus = asset.assetStatus;
-    //     asset.assetStatus = newStatus;
+    function getPartialOwnership(uint256 assetId) public view assetExists(assetId) returns (PartialOwnershipInfo memory) {
+        PartialOwnership storage ownership = assetOwnership[assetId];
+        return PartialOwnershipInfo({
+            totalShares: ownership.totalShares,
+            availableShares: ownership.availableShares,
+            sharePrice: ownership.sharePrice,
+            minSharePurchase: ownership.minSharePurchase,
+            maxSharesPerOwner: ownership.maxSharesPerOwner,
+            ownerCount: ownership.owners.length,
+            isInitialized: ownership.isInitialized
+        });
+    }
+
+    // Owners and their share counts, `limit` entries starting at `offset`; an owner who sold out is replaced by the last owner
+    function getCapTable(uint256 assetId, uint256 offset, uint256 limit) public view assetExists(assetId) returns (address[] memory owners, uint256[] memory shares) {
+        PartialOwnership storage ownership = assetOwnership[assetId];
+        uint256 total = ownership.owners.length;
+        uint256 count = offset < total ? total - offset : 0;
+        if (count > limit) count = limit;
+        
+        owners = new address[](count);
+        shares = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            owners[i] = ownership.owners[offset + i];
+            shares[i] = ownership.shares[owners[i]];
+        }
+    }
+
+    // Called by the asset's SFT on holder transfers and burns (`to` is zero), keeping the ownership ledger in step
+    function onSharesTransferred(uint256 assetId, address from, address to, uint256 shareCount) external assetExists(assetId) whenNotPaused {
+        require(msg.sender == propytosftAddress[assetId], "E33"); // Only the asset's SFT can report share transfers
+        if (from == to || shareCount == 0) {
+            return;
+        }
+        
+        PartialOwnership storage ownership = assetOwnership[assetId];
+        require(ownership.shares[from] >= shareCount, "E36"); // Seller does not hold enough shares
         
-    //     emit AssetStatusUpdated(assetId, oldStatus, newStatus);
-    // }
+        if (to != address(0) && ownership.maxSharesPerOwner > 0) {
+            require(
+                ownership.shares[to] + shareCount <= ownership.maxSharesPerOwner,
+                "E16" // Purchase would exceed maximum shares per owner
+            );
+        }
+        
+        _checkTransfer(assetId, from, to, shareCount);
+        if (to != address(0) && crowdfunding != address(0)) {
+            IPropytoCrowdfunding(crowdfunding).checkShareTransfer(assetId);
+        }
+        
+        _removeShares(ownership, from, shareCount);
+        if (to != address(0)) {
+            _addShares(ownership, to, shareCount);
+        }
+        _notifySharesMoved(assetId, from, to, shareCount);
+        
+        emit SharesTransferred(assetId, from, to, shareCount);
+    }
+
+    function updateAssetStatus(uint256 assetId, AssetStatus newStatus) public assetExists(assetId) canManageAsset(assetId) whenNotPaused {
+        PropytoAsset storage asset = assets[assetId];
+        require(asset.assetStatus != AssetStatus.SOLD, "E30"); // Sold assets cannot change status
+        require(newStatus != AssetStatus.SOLD, "E31"); // Assets are marked as sold by purchases only
+        require(asset.assetStatus != AssetStatus.RENTED && newStatus != AssetStatus.RENTED, "E44"); // Rented status is managed by leases
+        require(!inEscrow[assetId], "E80"); // Asset is locked by an escrowed purchase or a running auction
+        require(asset.assetStatus < AssetStatus.PENDING && newStatus < AssetStatus.PENDING, "E137"); // Pending and rejected listings are managed by the moderation module only
+        _setAssetStatus(assetId, newStatus);
+    }
+
+    function updateAssetMetadata(uint256 assetId, PropytoAssetMetadata memory _metadata) public assetExists(assetId) canManageAsset(assetId) whenNotPaused {
+        _setAssetMetadata(assetId, _metadata);
+        emit AssetMetadataUpdated(assetId);
+        _notifyMetadataUpdate(assetId);
+    }
+
+    function updateAssetMedia(uint256 assetId, PropytoAssetMedia memory _media) public assetExists(assetId) canManageAsset(assetId) whenNotPaused {
+        _setAssetMedia(assetId, _media);
+        emit AssetMediaUpdated(assetId);
+        _notifyMetadataUpdate(assetId);
+    }
+
+    // Registration and updates share one copy of the struct-to-storage code
+    function _setAssetMetadata(uint256 assetId, PropytoAssetMetadata memory _metadata) internal {
+        PropytoAssetMetadata storage metadata = assetMetadata[assetId];
+        uint256 slot;
+        uint256 fields;
+        assembly ("memory-safe") {
+            slot := metadata.slot
+            fields := _metadata
+        }
+        _storeStrings(slot, fields, 4);
+    }
+
+    function _setAssetMedia(uint256 assetId, PropytoAssetMedia memory _media) internal {
+        PropytoAssetMedia storage media = assetMedia[assetId];
+        uint256 slot;
+        uint256 fields;
+        assembly ("memory-safe") {
+            slot := media.slot
+            fields := _media
+        }
+        _storeStrings(slot, fields, 3);
+    }
+
+    // Have the asset's SFT emit an ERC-4906 MetadataUpdate; SFTs created before it had the hook are skipped
+    function _notifyMetadataUpdate(uint256 assetId) internal {
+        try PropytoSFT(propytosftAddress[assetId]).notifyMetadataUpdate(assetId) {} catch {}
+    }
+
+    // Copy `count` strings from a memory struct of strings to the storage struct at `slot`, one field per slot.
+    // Looping keeps a single copy of the string-to-storage code, which the compiler otherwise inlines per field
+    function _storeStrings(uint256 slot, uint256 fields, uint256 count) private {
+        for (uint256 i = 0; i < count; i++) {
+            StoredString storage target;
+            string memory value;
+            assembly ("memory-safe") {
+                target.slot := add(slot, i)
+                value := mload(add(fields, mul(i, 0x20)))
+            }
+            target.value = value;
+        }
+    }
+
+    function updateAssetRentData(uint256 assetId, PropytoRentData memory _rentData) public assetExists(assetId) onlySeller(assetId) whenNotPaused {
+        require(assets[assetId].isRentable, "E21"); // Asset must be rentable to update rent data
+        assetRentData[assetId] = _rentData;
+        emit AssetRentDataUpdated(assetId);
+    }
+
+    function transferSellership(uint256 assetId, address newSeller) public assetExists(assetId) onlySeller(assetId) whenNotPaused {
+        require(newSeller != address(0), "E22"); // Cannot transfer to zero address
+        require(newSeller != msg.sender, "E23"); // New seller is the same as current seller
+        
+        uint256[] storage oldSellerAssets = sellerAssets[msg.sender];
+        for (uint256 i = 0; i < oldSellerAssets.length; i++) {
+            if (oldSellerAssets[i] == assetId) {
+                oldSellerAssets[i] = oldSellerAssets[oldSellerAssets.length - 1];
+                oldSellerAssets.pop();
+                break;
+            }
+        }
+        sellerAssets[newSeller].push(assetId);
+        assets[assetId].seller = newSeller;
+        
+        emit AssetSellershipTransferred(assetId, msg.sender, newSeller);
+    }
+
+    // The seller sets the asking price; appraisers revalue the asset, for example after its shares are sold
+    function updateAssetPrice(uint256 assetId, uint256 newPrice) public assetExists(assetId) {
+        _checkSellerOrRole(assetId, PropytoRoles.APPRAISER);
+        _setAssetPrice(assetId, newPrice);
+    }
+
+    // Carry out a PRICE_CHANGE or SELL_PROPERTY proposal; SELL_PROPERTY also puts the asset up for sale
+    function executeGovernanceAction(uint256 assetId, ProposalType proposalType, uint256 value) external assetExists(assetId) whenNotPaused {
+        require(msg.sender == governance, "E68"); // Only governance can execute proposal actions
+        require(!inEscrow[assetId], "E80"); // Asset is locked by an escrowed purchase or a running auction
+        _setAssetPrice(assetId, value);
+        
+        PropytoAsset storage asset = assets[assetId];
+        if (proposalType == ProposalType.SELL_PROPERTY && asset.assetStatus != AssetStatus.FOR_SALE) {
+            require(asset.assetStatus != AssetStatus.SOLD, "E30"); // Sold assets cannot change status
+            require(asset.assetStatus != AssetStatus.RENTED, "E44"); // Rented status is managed by leases
+            require(asset.assetStatus < AssetStatus.PENDING, "E137"); // Pending and rejected listings are managed by the moderation module only
+            _setAssetStatus(assetId, AssetStatus.FOR_SALE);
+        }
+    }
 
-    function updateAssetPrice(uint256 assetId, uint256 newPrice) public assetExists(assetId) onlySeller(assetId) {
+    function _setAssetPrice(uint256 assetId, uint256 newPrice) internal {
         require(newPrice > 0, "E20"); // Price must be greater than zero
         
         PropytoAsset storage asset = assets[assetId];
@@ -441,8 +829,10 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         asset.assetPrice = newPrice;
         
         emit AssetPriceUpdated(assetId, oldPrice, newPrice);
+        _notifyMetadataUpdate(assetId);
         
         if (asset.isPartiallyOwnEnabled && ownership.isInitialized) {
+            require(newPrice / ownership.totalShares > 0, "E145"); // Price must leave every share a price above zero
             ownership.sharePrice = newPrice / ownership.totalShares;
         }
     }
@@ -456,7 +846,7 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         address newFeeCollector,
         uint256 newListingFee,
         bool feesEnabled
-    ) public onlyOwner {
+    ) public onlyRole(PropytoRoles.FEE_MANAGER) {
         require(newFeePercentage <= 3000, "E24"); // Fee percentage cannot exceed 30%
         require(newFeeCollector != address(0), "E25"); // Fee collector cannot be zero address
         
@@ -468,15 +858,213 @@ contract PropytoRegistry is OwnableUpgradeable, ReentrancyGuardUpgradeable, Paus
         emit MarketplaceConfigUpdated(newFeePercentage, newFeeCollector);
     }
 
-    function updateUsdtToken(address newUsdtToken) public onlyOwner {
-        require(newUsdtToken != address(0), "E26"); // Token address cannot be zero address
+    // The new default payment token must already be accepted. It applies to positions opened from now on:
+    // escrows, offers, auctions, leases, dividends, funding goals and sell orders keep the token they were opened in
+    function updateUsdtToken(address newUsdtToken) public onlyRole(PropytoRoles.FEE_MANAGER) {
+        require(paymentTokenUnit[newUsdtToken] > 0, "E121"); // Payment token is not accepted
         usdtToken = newUsdtToken;
     }
 
+    // Accept `token` as payment (reading its decimals), or stop accepting it
+    function setPaymentToken(address token, bool accepted) public onlyRole(PropytoRoles.FEE_MANAGER) {
+        require(token != address(0), "E26"); // Token address cannot be zero address
+        uint8 decimals = IERC20Metadata(token).decimals();
+        if (accepted) {
+            require(decimals <= 18, "E123"); // Payment tokens cannot have more than 18 decimals
+            _acceptPaymentToken(token, decimals);
+            return;
+        }
+        require(token != usdtToken, "E120"); // The default payment token cannot be removed
+        require(paymentTokenUnit[token] > 0, "E121"); // Payment token is not accepted
+        paymentTokenUnit[token] = 0;
+        emit PaymentTokenUpdated(token, decimals, false);
+    }
+
+    // Every token ever accepted; those with a zero paymentTokenUnit are no longer accepted
+    function getPaymentTokens() public view returns (address[] memory) {
+        return paymentTokens;
+    }
+
+    // Convert a price with 18 decimals to `token` units, rounding up so the payee never gets less than the price
+    function toTokenAmount(address token, uint256 amount) public view returns (uint256) {
+        uint256 unit = paymentTokenUnit[token];
+        require(unit > 0, "E121"); // Payment token is not accepted
+        return (amount + unit - 1) / unit;
+    }
+
+    function _acceptPaymentToken(address token, uint8 decimals) internal {
+        if (paymentTokenUnit[token] == 0) {
+            paymentTokens.push(token);
+        }
+        paymentTokenUnit[token] = 10 ** (18 - decimals);
+        emit PaymentTokenUpdated(token, decimals, true);
+    }
+
+    function updateSFTFactory(address newSftFactory) public onlyRole(PropytoRoles.ADMIN) {
+        require(newSftFactory != address(0), "E29"); // SFT factory cannot be zero address
+        sftFactory = newSftFactory;
+    }
+
+    function updateShareMarket(address newShareMarket) public onlyRole(PropytoRoles.ADMIN) {
+        require(newShareMarket != address(0), "E34"); // Share market cannot be zero address
+        shareMarket = newShareMarket;
+    }
+
+    function updateRentalManager(address newRentalManager) public onlyRole(PropytoRoles.ADMIN) {
+        require(newRentalManager != address(0), "E43"); // Rental manager cannot be zero address
+        rentalManager = newRentalManager;
+    }
+
+    function updateGovernance(address newGovernance) public onlyRole(PropytoRoles.ADMIN) {
+        require(newGovernance != address(0), "E67"); // Governance cannot be zero address
+        governance = newGovernance;
+    }
+
+    function updateDividendDistributor(address newDividendDistributor) public onlyRole(PropytoRoles.ADMIN) {
+        require(newDividendDistributor != address(0), "E66"); // Dividend distributor cannot be zero address
+        dividendDistributor = newDividendDistributor;
+    }
+
+    function updatePurchaseEscrow(address newPurchaseEscrow) public onlyRole(PropytoRoles.ADMIN) {
+        require(newPurchaseEscrow != address(0), "E78"); // Purchase escrow cannot be zero address
+        purchaseEscrow = newPurchaseEscrow;
+    }
+
+    function updateCrowdfunding(address newCrowdfunding) public onlyRole(PropytoRoles.ADMIN) {
+        require(newCrowdfunding != address(0), "E98"); // Crowdfunding cannot be zero address
+        crowdfunding = newCrowdfunding;
+    }
+
+    function updateOfferBook(address newOfferBook) public onlyRole(PropytoRoles.ADMIN) {
+        require(newOfferBook != address(0), "E100"); // Offer book cannot be zero address
+        offerBook = newOfferBook;
+    }
+
+    function updateAuctionHouse(address newAuctionHouse) public onlyRole(PropytoRoles.ADMIN) {
+        require(newAuctionHouse != address(0), "E119"); // Auction house cannot be zero address
+        auctionHouse = newAuctionHouse;
+    }
+
+    function updateCompliance(address newCompliance) public onlyRole(PropytoRoles.ADMIN) {
+        require(newCompliance != address(0), "E124"); // Compliance module cannot be zero address
+        compliance = newCompliance;
+    }
+
+    // Zero turns moderation off; resolve the pending listings first, only the moderation module can
+    function updateModeration(address newModeration) public onlyRole(PropytoRoles.ADMIN) {
+        // Only the current module can publish its pending listings and hand back their fees
+        require(moderation == address(0) || IPropytoModeration(moderation).pendingListingCount() == 0, "E151"); // Listings are still pending moderation
+        moderation = newModeration;
+    }
+
+    // Zero serves the off-chain metadata again; SFTs look the renderer up on every uri() call
+    function updateMetadataRenderer(address newMetadataRenderer) public onlyRole(PropytoRoles.ADMIN) {
+        metadataRenderer = newMetadataRenderer;
+    }
+
+    // Hand the roles over to a PropytoAccessManager; the caller must be one of its admins so nobody is locked out
+    function updateAccessManager(address newAccessManager) public onlyRole(PropytoRoles.ADMIN) {
+        require(newAccessManager != address(0), "E134"); // Access manager cannot be zero address
+        accessManager = newAccessManager;
+        require(hasRole(PropytoRoles.ADMIN, msg.sender), "E135"); // The new access manager must make the caller an admin
+        emit AccessManagerUpdated(newAccessManager);
+    }
+
+    // Roles are kept by the access manager; before one is connected the owner holds them all
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        if (accessManager == address(0)) {
+            return account == owner();
+        }
+        return PropytoAccessManager(accessManager).hasRole(role, account);
+    }
+
+    // Called by the purchase escrow when a buyer deposits (true) and when the deposit is cancelled or reclaimed (false),
+    // and by the auction house when an auction starts and when it closes without a sale
+    function setEscrowStatus(uint256 assetId, bool pending) external assetExists(assetId) {
+        require(msg.sender == purchaseEscrow || msg.sender == auctionHouse, "E79"); // Only the purchase escrow or the auction house can call this function
+        if (pending) {
+            _requireNotPaused();
+        }
+        _setEscrowStatus(assetId, pending);
+    }
+
+    // Called by the purchase escrow once the sale is confirmed, and by the auction house for the winner:
+    // mint all shares to the buyer and mark the asset SOLD
+    function settleWholePurchase(uint256 assetId, address buyer) external assetExists(assetId) whenNotPaused {
+        require(msg.sender == purchaseEscrow || msg.sender == auctionHouse, "E79"); // Only the purchase escrow or the auction house can call this function
+        _setEscrowStatus(assetId, false);
+        _transferWholeAsset(assetId, buyer);
+    }
+
+    function _setEscrowStatus(uint256 assetId, bool locked) internal {
+        inEscrow[assetId] = locked;
+        emit EscrowStatusUpdated(assetId, locked);
+    }
+
+    // Called by the offer book when an offer for shares is accepted: the purchase settles at the agreed total price in
+    // `paymentToken` units, the token the offer was placed in, paid by the offer book, with the same fee split as purchaseShares.
+    // Accepted whole-asset offers are escrowed by the purchase escrow instead
+    function settleOffer(
+        uint256 assetId,
+        address buyer,
+        uint256 shareCount,
+        uint256 totalPrice,
+        address paymentToken
+    ) external nonReentrant assetExists(assetId) whenNotPaused {
+        require(msg.sender == offerBook, "E99"); // Only the offer book can call this function
+        require(shareCount > 0, "E147"); // Whole-asset offers are settled through the purchase escrow
+        PurchaseQuote memory quote = _quotePurchase(assetId, shareCount, false, paymentToken);
+        quote.totalPrice = totalPrice;
+        _splitFee(quote);
+        _sellShares(assetId, buyer, shareCount, quote, paymentToken);
+    }
+
+    // Mint all shares to the buyer of the whole asset and mark it SOLD
+    function _transferWholeAsset(uint256 assetId, address buyer) internal {
+        PartialOwnership storage ownership = assetOwnership[assetId];
+        uint256 sharesToMint = ownership.isInitialized ? ownership.totalShares : 100;
+        _checkTransfer(assetId, address(0), buyer, sharesToMint);
+        
+        _addShares(ownership, buyer, sharesToMint);
+        _mintShares(assetId, buyer, sharesToMint);
+        _setAssetStatus(assetId, AssetStatus.SOLD);
+    }
+
+    // Called by the rental manager when a lease starts (RENTED) or ends (back to FOR_RENT)
+    function setRentalStatus(uint256 assetId, bool rented) external assetExists(assetId) whenNotPaused {
+        require(msg.sender == rentalManager, "E42"); // Only the rental manager can change the rental status
+        _setAssetStatus(assetId, rented ? AssetStatus.RENTED : AssetStatus.FOR_RENT);
+    }
+
+    // Called by the moderation module when a pending listing is approved (its requested status) or rejected (REJECTED)
+    function setModerationStatus(uint256 assetId, AssetStatus newStatus) external {
+        require(msg.sender == moderation, "E136"); // Only the moderation module can call this function
+        _setAssetStatus(assetId, newStatus);
+    }
+
+    function _setAssetStatus(uint256 assetId, AssetStatus newStatus) internal {
+        PropytoAsset storage asset = assets[assetId];
+        emit AssetStatusUpdated(assetId, asset.assetStatus, newStatus);
+        asset.assetStatus = newStatus;
+    }
+
+    function pause() public onlyRole(PropytoRoles.PAUSER) {
+        _pause();
+    }
+
+    function unpause() public onlyRole(PropytoRoles.PAUSER) {
+        _unpause();
+    }
+
+    function isPaused() public view returns (bool) {
+        return paused();
+    }
+
     function extendListingExpiry(uint256 assetId, uint256 newExpiry) public assetExists(assetId) onlySeller(assetId) {
         require(newExpiry > block.timestamp, "E27"); // New expiry must be in the future
         require(newExpiry > assets[assetId].listingExpiry, "E28"); // New expiry must be later than current expiry
         
         assets[assetId].listingExpiry = newExpiry;
+        emit ListingExpiryExtended(assetId, newExpiry);
     }
 }
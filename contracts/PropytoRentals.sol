@@ -0,0 +1,246 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+import "./PropytoDividends.sol";
+
+/**
+ * @dev Leases of rentable assets. Starting a lease escrows the asset's rentDeposit and
+ * rentSecurityDeposit and pays the first period's rent; further rent is paid per period
+ * in advance, with the registry's platform fee taken from each payment. Rent of assets
+ * with shares outstanding goes to the dividend distributor, which splits it between the
+ * holders and, for the shares not sold yet, the seller. The landlord
+ * (the asset seller when the lease starts) can flag overdue rent and terminate the lease,
+ * and settles the escrowed deposit once the lease is over.
+ */
+contract PropytoRentals is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    enum LeaseStatus {
+        ACTIVE,
+        ENDED,
+        TERMINATED
+    }
+
+    struct Lease {
+        uint256 assetId;
+        address tenant;
+        address landlord;
+        uint256 rentPrice; // per period, in paymentToken units
+        uint256 periodLength; // in seconds
+        uint256 deposit; // escrowed rentDeposit + rentSecurityDeposit, in paymentToken units
+        uint256 startTime;
+        uint256 endTime;
+        uint256 paidUntil; // rent is paid for every period starting before this
+        uint256 missedPayments; // number of times the landlord flagged overdue rent
+        uint256 lastFlaggedAt;
+        uint256 closedAt; // when the lease ended or was terminated
+        LeaseStatus status;
+        bool depositSettled;
+        address paymentToken; // the default payment token when the lease started; rent and the deposit are paid in it
+    }
+
+    PropytoRegistry public registry;
+    uint256 public gracePeriod; // seconds after a due date before rent counts as late
+    uint256 public depositClaimWindow; // seconds the landlord has to settle a deposit before the tenant can reclaim it
+    uint256 public leaseCount;
+    mapping(uint256 => Lease) public leases;
+    mapping(uint256 => uint256[]) private assetLeases; // Lease IDs per asset, oldest first
+
+    event LeaseStarted(uint256 indexed leaseId, uint256 indexed assetId, address indexed tenant, uint256 periods, uint256 deposit);
+    event RentPaid(uint256 indexed leaseId, address indexed payer, uint256 periods, uint256 amount, uint256 platformFee);
+    event LatePaymentFlagged(uint256 indexed leaseId, uint256 dueDate, uint256 missedPayments);
+    event LeaseEnded(uint256 indexed leaseId, LeaseStatus status);
+    event DepositSettled(uint256 indexed leaseId, uint256 refunded, uint256 withheld);
+    event RentalConfigUpdated(uint256 gracePeriod, uint256 depositClaimWindow);
+
+    modifier leaseExists(uint256 leaseId) {
+        require(leaseId < leaseCount, "E60"); // Lease does not exist
+        _;
+    }
+
+    modifier onlyLandlord(uint256 leaseId) {
+        require(msg.sender == leases[leaseId].landlord, "E51"); // Only the landlord can call this function
+        _;
+    }
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+        gracePeriod = 3 days;
+        depositClaimWindow = 14 days;
+    }
+
+    function startLease(uint256 assetId, uint256 periods) public nonReentrant returns (uint256) {
+        PropytoRegistry.PropytoAsset memory asset = registry.getAsset(assetId);
+        require(
+            asset.isRentable && asset.assetStatus == PropytoRegistry.AssetStatus.FOR_RENT && !registry.inEscrow(assetId),
+            "E45" // Asset is not available for rent
+        );
+        require(msg.sender != asset.seller, "E48"); // Landlord cannot rent their own asset
+        require(periods > 0, "E47"); // Period count must be greater than zero
+
+        (uint256 rentPrice, uint256 rentDeposit, uint256 rentPeriod, uint256 rentSecurityDeposit) = registry.assetRentData(assetId);
+        require(rentPrice > 0 && rentPeriod > 0, "E46"); // Rent data is not set for this asset
+
+        // Rent data is priced with 18 decimals; the lease pays in the default payment token for its whole term
+        address paymentToken = registry.usdtToken();
+        uint256 leaseId = leaseCount;
+        Lease storage lease = leases[leaseId];
+        lease.assetId = assetId;
+        lease.tenant = msg.sender;
+        lease.landlord = asset.seller;
+        lease.rentPrice = registry.toTokenAmount(paymentToken, rentPrice);
+        lease.periodLength = rentPeriod * 1 days;
+        lease.deposit = registry.toTokenAmount(paymentToken, rentDeposit + rentSecurityDeposit);
+        lease.startTime = block.timestamp;
+        lease.endTime = block.timestamp + periods * lease.periodLength;
+        lease.paidUntil = block.timestamp;
+        lease.paymentToken = paymentToken;
+        assetLeases[assetId].push(leaseId);
+        leaseCount++;
+
+        if (lease.deposit > 0) {
+            require(IERC20(paymentToken).transferFrom(msg.sender, address(this), lease.deposit), "E59"); // Deposit transfer failed
+        }
+        _collectRent(leaseId, 1);
+        registry.setRentalStatus(assetId, true);
+
+        emit LeaseStarted(leaseId, assetId, msg.sender, periods, lease.deposit);
+        return leaseId;
+    }
+
+    // Pay rent for the next `periods` periods; anyone may pay on the tenant's behalf
+    function payRent(uint256 leaseId, uint256 periods) public nonReentrant leaseExists(leaseId) {
+        require(leases[leaseId].status == LeaseStatus.ACTIVE, "E49"); // Lease is not active
+        require(periods > 0, "E47"); // Period count must be greater than zero
+        _collectRent(leaseId, periods);
+    }
+
+    // Record that the rent due at paidUntil is overdue; at most once per period
+    function flagLatePayment(uint256 leaseId) public leaseExists(leaseId) onlyLandlord(leaseId) {
+        Lease storage lease = leases[leaseId];
+        require(lease.status == LeaseStatus.ACTIVE, "E49"); // Lease is not active
+        require(_isOverdue(lease), "E52"); // Rent is not overdue
+        require(lease.lastFlaggedAt + lease.periodLength <= block.timestamp, "E53"); // Late payment already flagged for this period
+
+        lease.missedPayments++;
+        lease.lastFlaggedAt = block.timestamp;
+
+        emit LatePaymentFlagged(leaseId, lease.paidUntil, lease.missedPayments);
+    }
+
+    // Close a lease that ran its full term; anyone may call it
+    function endLease(uint256 leaseId) public leaseExists(leaseId) {
+        Lease storage lease = leases[leaseId];
+        require(lease.status == LeaseStatus.ACTIVE, "E49"); // Lease is not active
+        require(block.timestamp >= lease.endTime, "E54"); // Lease has not ended yet
+
+        _closeLease(leaseId, LeaseStatus.ENDED);
+    }
+
+    // Evict a tenant whose rent is overdue
+    function terminateLease(uint256 leaseId) public leaseExists(leaseId) onlyLandlord(leaseId) {
+        Lease storage lease = leases[leaseId];
+        require(lease.status == LeaseStatus.ACTIVE, "E49"); // Lease is not active
+        require(_isOverdue(lease), "E52"); // Rent is not overdue
+
+        _closeLease(leaseId, LeaseStatus.TERMINATED);
+    }
+
+    // Refund the deposit to the tenant, keeping `withheldAmount` for unpaid rent or damages
+    function settleDeposit(uint256 leaseId, uint256 withheldAmount) public nonReentrant leaseExists(leaseId) onlyLandlord(leaseId) {
+        Lease storage lease = leases[leaseId];
+        require(lease.status != LeaseStatus.ACTIVE && !lease.depositSettled, "E55"); // Lease must be closed with its deposit unsettled
+        require(withheldAmount <= lease.deposit, "E56"); // Withheld amount exceeds the deposit
+
+        _releaseDeposit(leaseId, withheldAmount);
+    }
+
+    // Full refund for the tenant once the landlord let the claim window pass
+    function claimDeposit(uint256 leaseId) public nonReentrant leaseExists(leaseId) {
+        Lease storage lease = leases[leaseId];
+        require(msg.sender == lease.tenant, "E58"); // Only the tenant can call this function
+        require(lease.status != LeaseStatus.ACTIVE && !lease.depositSettled, "E55"); // Lease must be closed with its deposit unsettled
+        require(block.timestamp >= lease.closedAt + depositClaimWindow, "E57"); // Deposit claim window has not passed
+
+        _releaseDeposit(leaseId, 0);
+    }
+
+    function updateRentalConfig(uint256 _gracePeriod, uint256 _depositClaimWindow) public onlyOwner {
+        gracePeriod = _gracePeriod;
+        depositClaimWindow = _depositClaimWindow;
+        emit RentalConfigUpdated(_gracePeriod, _depositClaimWindow);
+    }
+
+    function isOverdue(uint256 leaseId) public view returns (bool) {
+        Lease storage lease = leases[leaseId];
+        return lease.status == LeaseStatus.ACTIVE && _isOverdue(lease);
+    }
+
+    function getAssetLeaseIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetLeases[assetId];
+    }
+
+    function _isOverdue(Lease storage lease) internal view returns (bool) {
+        return lease.paidUntil < lease.endTime && block.timestamp > lease.paidUntil + gracePeriod;
+    }
+
+    function _collectRent(uint256 leaseId, uint256 periods) internal {
+        Lease storage lease = leases[leaseId];
+        uint256 paidUntil = lease.paidUntil + periods * lease.periodLength;
+        require(paidUntil <= lease.endTime, "E50"); // Rent cannot be paid beyond the end of the lease
+        lease.paidUntil = paidUntil;
+
+        uint256 amount = periods * lease.rentPrice;
+        (uint256 platformFeePercentage, address feeCollector, , bool feesEnabled) = registry.marketplaceConfig();
+        uint256 platformFee = feesEnabled ? (amount * platformFeePercentage) / 10000 : 0;
+
+        IERC20 usdt = IERC20(lease.paymentToken);
+        PropytoDividends dividends = PropytoDividends(registry.dividendDistributor());
+        // Rent goes to the share holders, and the seller for unsold shares, if their dividends are paid in the lease's token; to the landlord otherwise
+        if (
+            address(dividends) != address(0) &&
+            dividends.outstandingShares(lease.assetId) > 0 &&
+            dividends.paymentToken(lease.assetId) == lease.paymentToken
+        ) {
+            require(usdt.transferFrom(msg.sender, address(this), amount - platformFee), "E17"); // Payment to seller failed
+            require(usdt.approve(address(dividends), amount - platformFee), "E146"); // Approving the rent for the dividend distributor failed
+            dividends.deposit(lease.assetId, amount - platformFee);
+        } else {
+            require(usdt.transferFrom(msg.sender, lease.landlord, amount - platformFee), "E17"); // Payment to seller failed
+        }
+        if (platformFee > 0) {
+            require(usdt.transferFrom(msg.sender, feeCollector, platformFee), "E18"); // Platform fee payment failed
+        }
+
+        emit RentPaid(leaseId, msg.sender, periods, amount, platformFee);
+    }
+
+    function _closeLease(uint256 leaseId, LeaseStatus status) internal {
+        Lease storage lease = leases[leaseId];
+        lease.status = status;
+        lease.closedAt = block.timestamp;
+        registry.setRentalStatus(lease.assetId, false);
+
+        emit LeaseEnded(leaseId, status);
+    }
+
+    function _releaseDeposit(uint256 leaseId, uint256 withheldAmount) internal {
+        Lease storage lease = leases[leaseId];
+        lease.depositSettled = true;
+
+        IERC20 usdt = IERC20(lease.paymentToken);
+        uint256 refunded = lease.deposit - withheldAmount;
+        if (refunded > 0) {
+            require(usdt.transfer(lease.tenant, refunded), "E59"); // Deposit transfer failed
+        }
+        if (withheldAmount > 0) {
+            require(usdt.transfer(lease.landlord, withheldAmount), "E59"); // Deposit transfer failed
+        }
+
+        emit DepositSettled(leaseId, refunded, withheldAmount);
+    }
+}
@@ -5,18 +5,41 @@ import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import "@openzeppelin/contracts/utils/Arrays.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
 
+// Share ledger kept by the registry, notified of every holder transfer and burn
+interface IPropytoShareLedger {
+    function onSharesTransferred(uint256 assetId, address from, address to, uint256 shareCount) external;
+}
+
+// Registry setting, zero while the off-chain metadata at the base URI is served
+interface IPropytoMetadataSource {
+    function metadataRenderer() external view returns (address);
+}
+
+// Builds the token metadata on-chain from the asset details kept by the registry
+interface IPropytoMetadataRenderer {
+    function tokenURI(uint256 assetId) external view returns (string memory);
+}
+
 contract PropytoSFT is 
     ERC1155, 
     Ownable, 
     Pausable,
     ERC1155Supply 
 {
+    using Arrays for uint256[];
     using Counters for Counters.Counter;
     using Strings for uint256;
 
+    // Values recorded on the first change after each snapshot, ordered by snapshot ID
+    struct Snapshots {
+        uint256[] ids;
+        uint256[] values;
+    }
+
     Counters.Counter private _tokenIdCounter;
     
     address public registryAddress;
@@ -29,10 +52,16 @@ contract PropytoSFT is
     mapping(uint256 => uint256) public assetToTokenId;
     
     mapping(uint256 => string) private _tokenURIs;
+
+    Counters.Counter private _currentSnapshotId;
+    mapping(uint256 => mapping(address => Snapshots)) private _accountBalanceSnapshots; // per token and account
+    mapping(uint256 => Snapshots) private _totalSupplySnapshots; // per token
     
     event AssetTokenized(uint256 indexed assetId, uint256 indexed tokenId, string uri);
     event SharesMinted(uint256 indexed tokenId, address indexed to, uint256 amount);
     event SharesBurned(uint256 indexed tokenId, address indexed from, uint256 amount);
+    event Snapshot(uint256 id);
+    event MetadataUpdate(uint256 _tokenId); // ERC-4906
     
     constructor(string memory uri_, string memory name_, string memory symbol_) ERC1155(uri_) {
         name = name_;
@@ -55,7 +84,7 @@ contract PropytoSFT is
         assetToTokenId[assetId] = tokenId;
         _tokenURIs[tokenId] = assetURI;
         
-        emit AssetTokenized(assetId, tokenId, assetURI);
+        emit AssetTokenized(assetId, tokenId, uri(tokenId));
         return tokenId;
     }
     
@@ -94,8 +123,20 @@ contract PropytoSFT is
         require(tokenId <= _tokenIdCounter.current() && tokenId > 0, "Token does not exist");
         
         _tokenURIs[tokenId] = assetURI;
+        emit MetadataUpdate(tokenId);
+    }
+
+    // Called by the registry when the asset details the metadata is built from change; nothing to refresh before tokenization
+    function notifyMetadataUpdate(uint256 assetId) public {
+        require(msg.sender == registryAddress || msg.sender == owner(), "Only registry or owner can update metadata");
+
+        uint256 tokenId = assetToTokenId[assetId];
+        if (tokenId != 0) {
+            emit MetadataUpdate(tokenId);
+        }
     }
     
+    // A URI set for the token, else the registry's on-chain metadata when it has a renderer, else the base URI and asset ID
     function uri(uint256 tokenId) public view override returns (string memory) {
         require(tokenId <= _tokenIdCounter.current() && tokenId > 0, "Token does not exist");
         
@@ -104,9 +145,18 @@ contract PropytoSFT is
         
         if (bytes(tokenURI).length > 0) {
             return tokenURI;
-        } else {
-            return string(abi.encodePacked(baseURI, tokenId.toString()));
         }
+        if (registryAddress != address(0)) {
+            address renderer = IPropytoMetadataSource(registryAddress).metadataRenderer();
+            if (renderer != address(0)) {
+                return IPropytoMetadataRenderer(renderer).tokenURI(tokenToAssetId[tokenId]);
+            }
+        }
+        return string(abi.encodePacked(baseURI, tokenToAssetId[tokenId].toString()));
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        return interfaceId == bytes4(0x49064906) || super.supportsInterface(interfaceId); // ERC-4906
     }
     
     function getAssetId(uint256 tokenId) public view returns (uint256) {
@@ -118,6 +168,30 @@ contract PropytoSFT is
         return assetToTokenId[assetId];
     }
 
+    // Record the current balances of every token; returns the ID to query them with
+    function snapshot() public returns (uint256) {
+        require(msg.sender == registryAddress || msg.sender == owner(), "Only registry or owner can take snapshots");
+
+        _currentSnapshotId.increment();
+        uint256 snapshotId = _currentSnapshotId.current();
+        emit Snapshot(snapshotId);
+        return snapshotId;
+    }
+
+    function getCurrentSnapshotId() public view returns (uint256) {
+        return _currentSnapshotId.current();
+    }
+
+    function balanceOfAt(address account, uint256 tokenId, uint256 snapshotId) public view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(snapshotId, _accountBalanceSnapshots[tokenId][account]);
+        return snapshotted ? value : balanceOf(account, tokenId);
+    }
+
+    function totalSupplyAt(uint256 tokenId, uint256 snapshotId) public view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(snapshotId, _totalSupplySnapshots[tokenId]);
+        return snapshotted ? value : totalSupply(tokenId);
+    }
+
     function pause() public onlyOwner {
         _pause();
     }
@@ -134,6 +208,58 @@ contract PropytoSFT is
         uint256[] memory amounts,
         bytes memory data
     ) internal override(ERC1155, ERC1155Supply) whenNotPaused {
+        // Record the values before the change, once per snapshot
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (from != address(0)) {
+                _updateSnapshot(_accountBalanceSnapshots[ids[i]][from], balanceOf(from, ids[i]));
+            }
+            if (to != address(0)) {
+                _updateSnapshot(_accountBalanceSnapshots[ids[i]][to], balanceOf(to, ids[i]));
+            }
+            if (from == address(0) || to == address(0)) {
+                _updateSnapshot(_totalSupplySnapshots[ids[i]], totalSupply(ids[i]));
+            }
+        }
         super._beforeTokenTransfer(operator, from, to, ids, amounts, data);
     }
+
+    // The value at a snapshot is the one recorded on the first change after it; none recorded means unchanged since
+    function _valueAt(uint256 snapshotId, Snapshots storage snapshots) private view returns (bool, uint256) {
+        require(snapshotId > 0, "Snapshot ID is 0");
+        require(snapshotId <= _currentSnapshotId.current(), "Nonexistent snapshot ID");
+
+        uint256 index = snapshots.ids.findUpperBound(snapshotId);
+        if (index == snapshots.ids.length) {
+            return (false, 0);
+        }
+        return (true, snapshots.values[index]);
+    }
+
+    function _updateSnapshot(Snapshots storage snapshots, uint256 currentValue) private {
+        uint256 currentId = _currentSnapshotId.current();
+        uint256 length = snapshots.ids.length;
+        if (currentId > 0 && (length == 0 || snapshots.ids[length - 1] < currentId)) {
+            snapshots.ids.push(currentId);
+            snapshots.values.push(currentValue);
+        }
+    }
+
+    // Mints are recorded by the registry itself; transfers and burns are reported to it
+    function _afterTokenTransfer(
+        address operator,
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory amounts,
+        bytes memory data
+    ) internal override {
+        super._afterTokenTransfer(operator, from, to, ids, amounts, data);
+        if (from == address(0) || registryAddress == address(0)) {
+            return;
+        }
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            IPropytoShareLedger(registryAddress).onSharesTransferred(tokenToAssetId[ids[i]], from, to, amounts[i]);
+        }
+    }
 }
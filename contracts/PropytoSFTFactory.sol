@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./PropytoSFT.sol";
+
+/**
+ * @dev Deploys the per-asset PropytoSFT contracts on behalf of the registry, keeping
+ * the SFT creation code out of the registry so it stays below the contract size limit
+ */
+contract PropytoSFTFactory {
+    event SFTCreated(address indexed sft, address indexed owner);
+
+    // The caller becomes both the owner and the registry of the new SFT
+    function createSFT(string memory uri_, string memory name_, string memory symbol_) external returns (address) {
+        PropytoSFT sft = new PropytoSFT(uri_, name_, symbol_);
+        sft.setRegistryAddress(msg.sender);
+        sft.transferOwnership(msg.sender);
+
+        emit SFTCreated(address(sft), msg.sender);
+        return address(sft);
+    }
+}
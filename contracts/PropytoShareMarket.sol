@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "./PropytoRegistry.sol";
+import "./PropytoSFT.sol";
+
+/**
+ * @dev Peer-to-peer market for PropytoSFT shares. Holders list shares at a price per share
+ * in the default payment token of the moment, which the order keeps, without escrow (the market must be approved on the asset's SFT),
+ * buyers fill orders partially or fully, and the registry's MarketplaceConfig fee
+ * applies. The SFT reports every fill to the registry's ownership ledger.
+ */
+contract PropytoShareMarket is OwnableUpgradeable, ReentrancyGuardUpgradeable {
+    struct SellOrder {
+        uint256 assetId;
+        address seller;
+        uint256 pricePerShare; // in paymentToken units
+        uint256 remainingShares;
+        bool isActive;
+        address paymentToken; // the default payment token when the order was created; fills pay in it
+    }
+
+    PropytoRegistry public registry;
+    uint256 public orderCount;
+    mapping(uint256 => SellOrder) public orders;
+    mapping(uint256 => uint256[]) private assetOrders; // Order IDs per asset, including closed ones
+    mapping(uint256 => mapping(address => uint256)) public listedShares; // Shares in active orders per asset and seller
+
+    event SellOrderCreated(uint256 indexed orderId, uint256 indexed assetId, address indexed seller, uint256 shareCount, uint256 pricePerShare);
+    event SellOrderFilled(uint256 indexed orderId, uint256 indexed assetId, address indexed buyer, uint256 shareCount, uint256 totalPrice, uint256 platformFee);
+    event SellOrderCancelled(uint256 indexed orderId, uint256 indexed assetId);
+
+    function initialize(address _registry) public initializer {
+        __Ownable_init();
+        __ReentrancyGuard_init();
+        registry = PropytoRegistry(_registry);
+    }
+
+    function createSellOrder(uint256 assetId, uint256 shareCount, uint256 pricePerShare) public returns (uint256) {
+        require(assetId < registry.assetCount(), "E7"); // Asset does not exist
+        require(shareCount > 0, "E35"); // Order share count must be greater than zero
+        require(pricePerShare > 0, "E4"); // Share price must be greater than zero
+
+        PropytoSFT sft = PropytoSFT(registry.propytosftAddress(assetId));
+        uint256 listed = listedShares[assetId][msg.sender] + shareCount;
+        require(sft.balanceOf(msg.sender, sft.getTokenId(assetId)) >= listed, "E36"); // Seller does not hold enough shares
+        require(sft.isApprovedForAll(msg.sender, address(this)), "E37"); // Share market is not approved to transfer the seller's shares
+
+        uint256 orderId = orderCount;
+        orders[orderId] = SellOrder({
+            assetId: assetId,
+            seller: msg.sender,
+            pricePerShare: pricePerShare,
+            remainingShares: shareCount,
+            isActive: true,
+            paymentToken: registry.usdtToken()
+        });
+        assetOrders[assetId].push(orderId);
+        listedShares[assetId][msg.sender] = listed;
+        orderCount++;
+
+        emit SellOrderCreated(orderId, assetId, msg.sender, shareCount, pricePerShare);
+        return orderId;
+    }
+
+    function cancelSellOrder(uint256 orderId) public {
+        SellOrder storage order = orders[orderId];
+        require(order.isActive, "E38"); // Sell order is not active
+        require(msg.sender == order.seller, "E39"); // Only the order seller can cancel it
+
+        order.isActive = false;
+        listedShares[order.assetId][order.seller] -= order.remainingShares;
+
+        emit SellOrderCancelled(orderId, order.assetId);
+    }
+
+    function fillSellOrder(uint256 orderId, uint256 shareCount) public nonReentrant {
+        SellOrder storage order = orders[orderId];
+        PropytoRegistry.PurchaseQuote memory quote = quoteFill(orderId, shareCount);
+        require(msg.sender != order.seller, "E41"); // Cannot fill your own sell order
+
+        order.remainingShares = quote.availableShares;
+        listedShares[order.assetId][order.seller] -= shareCount;
+        if (order.remainingShares == 0) {
+            order.isActive = false;
+        }
+
+        (, address feeCollector, , ) = registry.marketplaceConfig();
+        IERC20 usdt = IERC20(order.paymentToken);
+        require(usdt.transferFrom(msg.sender, order.seller, quote.sellerAmount), "E17"); // Payment to seller failed
+        if (quote.platformFee > 0) {
+            require(usdt.transferFrom(msg.sender, feeCollector, quote.platformFee), "E18"); // Platform fee payment failed
+        }
+
+        PropytoSFT sft = PropytoSFT(registry.propytosftAddress(order.assetId));
+        // The SFT reports the transfer to the registry, which updates its ledger and enforces maxSharesPerOwner
+        sft.safeTransferFrom(order.seller, msg.sender, sft.getTokenId(order.assetId), shareCount, "");
+
+        emit SellOrderFilled(orderId, order.assetId, msg.sender, shareCount, quote.totalPrice, quote.platformFee);
+    }
+
+    // Price and fee split of filling `shareCount` shares of an order; availableShares is what the order keeps
+    function quoteFill(uint256 orderId, uint256 shareCount) public view returns (PropytoRegistry.PurchaseQuote memory quote) {
+        SellOrder storage order = orders[orderId];
+        require(order.isActive, "E38"); // Sell order is not active
+        require(shareCount > 0 && shareCount <= order.remainingShares, "E40"); // Not enough shares left in the sell order
+
+        (uint256 platformFeePercentage, , , bool feesEnabled) = registry.marketplaceConfig();
+        quote.totalPrice = shareCount * order.pricePerShare;
+        if (feesEnabled) {
+            quote.platformFee = (quote.totalPrice * platformFeePercentage) / 10000;
+        }
+        quote.sellerAmount = quote.totalPrice - quote.platformFee;
+        quote.availableShares = order.remainingShares - shareCount;
+    }
+
+    function getAssetOrderIds(uint256 assetId) public view returns (uint256[] memory) {
+        return assetOrders[assetId];
+    }
+}
@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+import { IndexSnapshot, IndexStore } from "./types";
+
+export const DEFAULT_INDEX_DIR = ".propyto";
+
+export function defaultIndexPath(chainId: bigint | string): string {
+  return path.join(DEFAULT_INDEX_DIR, `index-${chainId}.json`);
+}
+
+// Stores the index as a single JSON document, replaced atomically on save
+export class JsonFileStore implements IndexStore {
+  constructor(readonly file: string) {}
+
+  load(): IndexSnapshot | undefined {
+    if (!fs.existsSync(this.file)) {
+      return undefined;
+    }
+
+    const snapshot = JSON.parse(fs.readFileSync(this.file, "utf8"));
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported index version ${snapshot.version} in ${this.file}`);
+    }
+    return snapshot;
+  }
+
+  save(snapshot: IndexSnapshot): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, this.file);
+  }
+}
+
+// In-memory store, for tests and one-off scripts
+export class MemoryStore implements IndexStore {
+  snapshot?: IndexSnapshot;
+
+  load(): IndexSnapshot | undefined {
+    return this.snapshot && JSON.parse(JSON.stringify(this.snapshot));
+  }
+
+  save(snapshot: IndexSnapshot): void {
+    this.snapshot = JSON.parse(JSON.stringify(snapshot));
+  }
+}
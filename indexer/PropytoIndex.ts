@@ -0,0 +1,108 @@
+import { OfferStatus, PropytoAsset } from "../sdk/types";
+import { IndexedAsset, IndexedEvent, IndexSnapshot, StoredAsset } from "./types";
+
+// An indexed offer with uint256 values revived as bigints
+export interface IndexedOfferView {
+  id: bigint;
+  buyer: string;
+  shareCount: bigint; // 0n for the whole asset
+  amount: bigint;
+  counterAmount: bigint;
+  expiry: bigint;
+  status: OfferStatus;
+}
+
+// An indexed asset with uint256 values revived as bigints
+export interface IndexedAssetView {
+  id: bigint;
+  asset: PropytoAsset;
+  sftAddress: string;
+  registeredBy: string;
+  registeredAtBlock: number;
+  sharesSold: bigint;
+  feesCollected: bigint;
+  inEscrow: boolean; // locked by an escrowed purchase or a running auction
+  holders: Record<string, bigint>;
+  offers: IndexedOfferView[]; // oldest first
+}
+
+function reviveAsset(stored: StoredAsset): PropytoAsset {
+  return {
+    ...stored,
+    assetPrice: BigInt(stored.assetPrice),
+    assetArea: BigInt(stored.assetArea),
+    assetAge: BigInt(stored.assetAge),
+    listingExpiry: BigInt(stored.listingExpiry)
+  };
+}
+
+function toView(indexed: IndexedAsset): IndexedAssetView {
+  const holders: Record<string, bigint> = {};
+  for (const [holder, balance] of Object.entries(indexed.holders)) {
+    holders[holder] = BigInt(balance);
+  }
+
+  const offers = Object.entries(indexed.offers ?? {})
+    .map(([id, offer]) => ({
+      id: BigInt(id),
+      buyer: offer.buyer,
+      shareCount: BigInt(offer.shareCount),
+      amount: BigInt(offer.amount),
+      counterAmount: BigInt(offer.counterAmount),
+      expiry: BigInt(offer.expiry),
+      status: offer.status
+    }))
+    .sort((a, b) => (a.id < b.id ? -1 : 1));
+
+  return {
+    id: BigInt(indexed.id),
+    asset: reviveAsset(indexed.asset),
+    sftAddress: indexed.sftAddress,
+    registeredBy: indexed.registeredBy,
+    registeredAtBlock: indexed.registeredAtBlock,
+    sharesSold: BigInt(indexed.sharesSold),
+    feesCollected: BigInt(indexed.feesCollected),
+    inEscrow: indexed.inEscrow ?? false,
+    holders,
+    offers
+  };
+}
+
+/**
+ * Read-only queries over an index snapshot, so listings can be browsed
+ * without scanning the registry asset by asset.
+ */
+export class PropytoIndex {
+  constructor(readonly snapshot: IndexSnapshot) {}
+
+  get lastBlock(): number {
+    return this.snapshot.lastBlock;
+  }
+
+  get assetCount(): number {
+    return Object.keys(this.snapshot.assets).length;
+  }
+
+  getAssets(filter?: (view: IndexedAssetView) => boolean): IndexedAssetView[] {
+    return Object.values(this.snapshot.assets)
+      .map(toView)
+      .filter((view) => !filter || filter(view))
+      .sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  getAsset(assetId: bigint): IndexedAssetView | undefined {
+    const indexed = this.snapshot.assets[assetId.toString()];
+    return indexed && toView(indexed);
+  }
+
+  getSellerAssets(seller: string): IndexedAssetView[] {
+    return this.getAssets((view) => view.asset.seller.toLowerCase() === seller.toLowerCase());
+  }
+
+  getEvents(assetId?: bigint): IndexedEvent[] {
+    if (assetId === undefined) {
+      return [...this.snapshot.events];
+    }
+    return this.snapshot.events.filter((event) => event.assetId === assetId.toString());
+  }
+}
@@ -0,0 +1,372 @@
+import { Interface, Log, LogDescription, Provider } from "ethers";
+import { PropytoOffers__factory, PropytoRegistry__factory, PropytoSFT__factory } from "../typechain-types";
+import { PropytoClient } from "../sdk/PropytoClient";
+import { PropytoIndex } from "./PropytoIndex";
+import { OfferStatus } from "../sdk/types";
+import { IndexedAsset, IndexedEvent, IndexSnapshot, IndexStore, StoredAsset } from "./types";
+
+export interface IndexerOptions {
+  startBlock?: number; // first block to backfill from (usually the registry deployment block)
+  batchSize?: number; // blocks per eth_getLogs request
+  confirmations?: number; // blocks to stay behind the head
+  maxReorgDepth?: number; // number of checkpoint hashes kept for reorg detection
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  rolledBackTo?: number; // set when a reorg was detected and the index rewound
+}
+
+const REGISTRY_EVENTS = [
+  "AssetRegistered",
+  "SharesPurchased",
+  "AssetStatusUpdated",
+  "AssetPriceUpdated",
+  "AssetSellershipTransferred",
+  "ListingExpiryExtended",
+  "EscrowStatusUpdated",
+  "FeesCollected"
+];
+const SFT_EVENTS = ["TransferSingle", "TransferBatch"];
+const OFFER_EVENTS = ["OfferPlaced", "OfferCountered", "OfferAccepted", "OfferRejected", "OfferCancelled"];
+const OFFER_CLOSING_STATUS: Record<string, OfferStatus> = {
+  OfferAccepted: OfferStatus.ACCEPTED,
+  OfferRejected: OfferStatus.REJECTED,
+  OfferCancelled: OfferStatus.CANCELLED
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+function addBalance(holders: Record<string, string>, holder: string, delta: bigint): void {
+  if (holder === ZERO_ADDRESS) {
+    return;
+  }
+  const balance = BigInt(holders[holder] ?? "0") + delta;
+  if (balance === 0n) {
+    delete holders[holder];
+  } else {
+    holders[holder] = balance.toString();
+  }
+}
+
+// Reducer: apply one event to the derived asset state
+export function applyEvent(assets: Record<string, IndexedAsset>, event: IndexedEvent): void {
+  if (event.name === "AssetRegistered") {
+    assets[event.assetId] = {
+      id: event.assetId,
+      asset: { ...event.snapshot! },
+      sftAddress: event.args.propytosftAddress as string,
+      registeredBy: event.args.registeredBy as string,
+      registeredAtBlock: event.blockNumber,
+      sharesSold: "0",
+      feesCollected: "0",
+      inEscrow: false,
+      holders: {},
+      offers: {}
+    };
+    return;
+  }
+
+  const indexed = assets[event.assetId];
+  if (!indexed) {
+    return;
+  }
+
+  switch (event.name) {
+    case "SharesPurchased":
+      indexed.sharesSold = (BigInt(indexed.sharesSold) + BigInt(event.args.shareCount as string)).toString();
+      break;
+    case "AssetStatusUpdated":
+      indexed.asset.assetStatus = Number(event.args.newStatus);
+      break;
+    case "AssetPriceUpdated":
+      indexed.asset.assetPrice = event.args.newPrice as string;
+      break;
+    case "AssetSellershipTransferred":
+      indexed.asset.seller = event.args.newSeller as string;
+      break;
+    case "ListingExpiryExtended":
+      indexed.asset.listingExpiry = event.args.newExpiry as string;
+      break;
+    case "EscrowStatusUpdated":
+      indexed.inEscrow = event.args.locked === "true";
+      break;
+    case "FeesCollected":
+      indexed.feesCollected = (BigInt(indexed.feesCollected) + BigInt(event.args.feeAmount as string)).toString();
+      break;
+    case "TransferSingle":
+      addBalance(indexed.holders, event.args.from as string, -BigInt(event.args.value as string));
+      addBalance(indexed.holders, event.args.to as string, BigInt(event.args.value as string));
+      break;
+    case "TransferBatch": {
+      const total = (event.args.values as string[]).reduce((sum, value) => sum + BigInt(value), 0n);
+      addBalance(indexed.holders, event.args.from as string, -total);
+      addBalance(indexed.holders, event.args.to as string, total);
+      break;
+    }
+    case "OfferPlaced":
+      indexed.offers ??= {}; // snapshots written before offers were indexed
+      indexed.offers[event.args.offerId as string] = {
+        buyer: event.args.buyer as string,
+        shareCount: event.args.shareCount as string,
+        amount: event.args.amount as string,
+        counterAmount: "0",
+        expiry: event.args.expiry as string,
+        status: OfferStatus.OPEN
+      };
+      break;
+    case "OfferCountered": {
+      const offer = indexed.offers?.[event.args.offerId as string];
+      if (offer) {
+        offer.counterAmount = event.args.counterAmount as string;
+        offer.expiry = event.args.expiry as string;
+        offer.status = OfferStatus.COUNTERED;
+      }
+      break;
+    }
+    case "OfferAccepted":
+    case "OfferRejected":
+    case "OfferCancelled": {
+      const offer = indexed.offers?.[event.args.offerId as string];
+      if (offer) {
+        offer.status = OFFER_CLOSING_STATUS[event.name];
+      }
+      break;
+    }
+  }
+}
+
+// Rebuild every asset from the event log (used after a rollback)
+export function rebuildAssets(events: IndexedEvent[]): Record<string, IndexedAsset> {
+  const assets: Record<string, IndexedAsset> = {};
+  for (const event of events) {
+    applyEvent(assets, event);
+  }
+  return assets;
+}
+
+/**
+ * Follows PropytoRegistry, every per-asset PropytoSFT and the registry's
+ * offer book, ingesting their events into an IndexStore. Progress is
+ * checkpointed after every batch, and the hashes of recent checkpoints are
+ * compared with the chain on each sync to roll back events from reorganized
+ * blocks.
+ */
+export class PropytoIndexer {
+  private readonly registryInterface: Interface = PropytoRegistry__factory.createInterface();
+  private readonly sftInterface: Interface = PropytoSFT__factory.createInterface();
+  private readonly offerInterface: Interface = PropytoOffers__factory.createInterface();
+
+  constructor(
+    readonly client: PropytoClient,
+    readonly store: IndexStore,
+    readonly options: IndexerOptions = {}
+  ) {}
+
+  private get provider(): Provider {
+    const provider = this.client.registry.runner?.provider;
+    if (!provider) {
+      throw new Error("PropytoIndexer: the client runner must be connected to a provider");
+    }
+    return provider;
+  }
+
+  // Load the stored index, starting over if it belongs to another chain or registry
+  async load(): Promise<IndexSnapshot> {
+    const chainId = (await this.provider.getNetwork()).chainId.toString();
+    const registry = (await this.client.registry.getAddress()).toLowerCase();
+    const startBlock = this.options.startBlock ?? 0;
+
+    const stored = this.store.load();
+    if (stored && stored.chainId === chainId && stored.registry === registry) {
+      return stored;
+    }
+
+    return {
+      version: 1,
+      chainId,
+      registry,
+      startBlock,
+      lastBlock: startBlock - 1,
+      blockHashes: {},
+      events: [],
+      assets: {}
+    };
+  }
+
+  // Queries over what has been ingested so far (call sync() first to catch up)
+  async getIndex(): Promise<PropytoIndex> {
+    return new PropytoIndex(await this.load());
+  }
+
+  async sync(onBatch?: (toBlock: number, head: number) => void): Promise<SyncResult> {
+    const snapshot = await this.load();
+    const rolledBackTo = await this.rollbackReorgs(snapshot);
+
+    const head = (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    const batchSize = this.options.batchSize ?? 2000;
+    const fromBlock = snapshot.lastBlock + 1;
+    let newEvents = 0;
+
+    for (let from = fromBlock; from <= head; from += batchSize) {
+      const to = Math.min(from + batchSize - 1, head);
+      const events = await this.fetchEvents(snapshot, from, to);
+
+      for (const event of events) {
+        applyEvent(snapshot.assets, event);
+        snapshot.events.push(event);
+      }
+      newEvents += events.length;
+
+      const block = await this.provider.getBlock(to);
+      snapshot.lastBlock = to;
+      snapshot.blockHashes[to] = block!.hash!;
+      this.pruneBlockHashes(snapshot);
+      this.store.save(snapshot);
+
+      onBatch?.(to, head);
+    }
+
+    if (rolledBackTo !== undefined && fromBlock > head) {
+      this.store.save(snapshot);
+    }
+
+    return { fromBlock, toBlock: Math.max(head, snapshot.lastBlock), newEvents, rolledBackTo };
+  }
+
+  /**
+   * Compare stored checkpoint hashes with the chain, newest first. If the
+   * latest checkpoint was reorganized, rewind to the newest checkpoint that is
+   * still canonical and rebuild the derived state from the remaining events.
+   */
+  private async rollbackReorgs(snapshot: IndexSnapshot): Promise<number | undefined> {
+    const checkpoints = Object.keys(snapshot.blockHashes).map(Number).sort((a, b) => b - a);
+    if (checkpoints.length === 0) {
+      return undefined;
+    }
+
+    let ancestor = snapshot.startBlock - 1;
+    for (const blockNumber of checkpoints) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block && block.hash === snapshot.blockHashes[blockNumber]) {
+        ancestor = blockNumber;
+        break;
+      }
+    }
+
+    if (ancestor === checkpoints[0]) {
+      return undefined;
+    }
+
+    snapshot.events = snapshot.events.filter((event) => event.blockNumber <= ancestor);
+    for (const blockNumber of checkpoints) {
+      if (blockNumber > ancestor) {
+        delete snapshot.blockHashes[blockNumber];
+      }
+    }
+    snapshot.lastBlock = ancestor;
+    snapshot.assets = rebuildAssets(snapshot.events);
+    return ancestor;
+  }
+
+  private pruneBlockHashes(snapshot: IndexSnapshot): void {
+    const keep = this.options.maxReorgDepth ?? 128;
+    const checkpoints = Object.keys(snapshot.blockHashes).map(Number).sort((a, b) => b - a);
+    for (const blockNumber of checkpoints.slice(keep)) {
+      delete snapshot.blockHashes[blockNumber];
+    }
+  }
+
+  // Registry logs first, so SFTs registered in this range are followed in the same range
+  private async fetchEvents(snapshot: IndexSnapshot, fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const events: IndexedEvent[] = [];
+    const sftAssets: Record<string, string> = {};
+    for (const indexed of Object.values(snapshot.assets)) {
+      sftAssets[indexed.sftAddress.toLowerCase()] = indexed.id;
+    }
+
+    const registryLogs = await this.provider.getLogs({ address: snapshot.registry, fromBlock, toBlock });
+    for (const log of registryLogs) {
+      const parsed = this.registryInterface.parseLog(log);
+      if (!parsed || !REGISTRY_EVENTS.includes(parsed.name)) {
+        continue;
+      }
+
+      const event = this.toIndexedEvent(log, parsed, parsed.args.assetId.toString());
+      if (parsed.name === "AssetRegistered") {
+        event.snapshot = await this.readAsset(parsed.args.assetId, log.blockNumber);
+        sftAssets[(parsed.args.propytosftAddress as string).toLowerCase()] = event.assetId;
+      }
+      events.push(event);
+    }
+
+    const sftAddresses = Object.keys(sftAssets);
+    if (sftAddresses.length > 0) {
+      const sftLogs = await this.provider.getLogs({ address: sftAddresses, fromBlock, toBlock });
+      for (const log of sftLogs) {
+        const parsed = this.sftInterface.parseLog(log);
+        if (parsed && SFT_EVENTS.includes(parsed.name)) {
+          events.push(this.toIndexedEvent(log, parsed, sftAssets[log.address.toLowerCase()]));
+        }
+      }
+    }
+
+    const offerBook = await this.client.registry.offerBook();
+    if (offerBook !== ZERO_ADDRESS) {
+      const offerLogs = await this.provider.getLogs({ address: offerBook, fromBlock, toBlock });
+      for (const log of offerLogs) {
+        const parsed = this.offerInterface.parseLog(log);
+        if (parsed && OFFER_EVENTS.includes(parsed.name)) {
+          events.push(this.toIndexedEvent(log, parsed, parsed.args.assetId.toString()));
+        }
+      }
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private toIndexedEvent(log: Log, parsed: LogDescription, assetId: string): IndexedEvent {
+    const args: Record<string, string | string[]> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = Array.isArray(value) ? value.map((v) => v.toString()) : value.toString();
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      address: log.address,
+      name: parsed.name,
+      assetId,
+      args
+    };
+  }
+
+  // The asset as it stood at the end of the registration block, so a backfill does not record later values.
+  // Events later in the same block are applied on top again, which is harmless as they all set absolute values.
+  // Backfilling old blocks therefore needs a provider that serves historical state (an archive node)
+  private async readAsset(assetId: bigint, blockNumber: number): Promise<StoredAsset> {
+    const asset = await this.client.registry.getAsset(assetId, { blockTag: blockNumber });
+    return {
+      name: asset.name,
+      assetType: Number(asset.assetType),
+      assetAddress: asset.assetAddress,
+      assetStatus: Number(asset.assetStatus),
+      assetFurnishing: Number(asset.assetFurnishing),
+      assetZone: Number(asset.assetZone),
+      assetPrice: asset.assetPrice.toString(),
+      assetArea: asset.assetArea.toString(),
+      assetAge: asset.assetAge.toString(),
+      assetOtherDetails: asset.assetOtherDetails,
+      isRentable: asset.isRentable,
+      isSellable: asset.isSellable,
+      isPartiallyOwnEnabled: asset.isPartiallyOwnEnabled,
+      seller: asset.seller,
+      listingExpiry: asset.listingExpiry.toString()
+    };
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./PropytoIndexer";
+export * from "./PropytoIndex";
+export * from "./JsonFileStore";
@@ -0,0 +1,74 @@
+// JSON-friendly index documents: uint256 values are stored as decimal strings
+
+// Normalized registry/SFT/offer book log, kept so derived state can be rebuilt after a reorg
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  address: string;
+  name: string;
+  assetId: string;
+  args: Record<string, string | string[]>;
+  // Asset struct read when AssetRegistered was ingested (not part of the event)
+  snapshot?: StoredAsset;
+}
+
+// PropytoAsset struct with uint256 fields as strings
+export interface StoredAsset {
+  name: string;
+  assetType: number;
+  assetAddress: string;
+  assetStatus: number;
+  assetFurnishing: number;
+  assetZone: number;
+  assetPrice: string;
+  assetArea: string;
+  assetAge: string;
+  assetOtherDetails: string;
+  isRentable: boolean;
+  isSellable: boolean;
+  isPartiallyOwnEnabled: boolean;
+  seller: string;
+  listingExpiry: string;
+}
+
+// PropytoOffers.Offer as rebuilt from the offer book's events
+export interface IndexedOffer {
+  buyer: string;
+  shareCount: string; // "0" for the whole asset
+  amount: string;
+  counterAmount: string; // "0" until the seller counters
+  expiry: string;
+  status: number; // PropytoOffers.OfferStatus
+}
+
+// State derived from the events of a single asset
+export interface IndexedAsset {
+  id: string;
+  asset: StoredAsset;
+  sftAddress: string;
+  registeredBy: string;
+  registeredAtBlock: number;
+  sharesSold: string;
+  feesCollected: string;
+  inEscrow?: boolean; // locked by an escrowed purchase or a running auction (absent in snapshots written before it was indexed)
+  holders: Record<string, string>; // SFT balances by holder
+  offers: Record<string, IndexedOffer>; // by offer ID
+}
+
+export interface IndexSnapshot {
+  version: 1;
+  chainId: string;
+  registry: string;
+  startBlock: number;
+  lastBlock: number; // checkpoint: every block up to here has been ingested
+  blockHashes: Record<string, string>; // recent checkpoints, used to detect reorgs
+  events: IndexedEvent[];
+  assets: Record<string, IndexedAsset>;
+}
+
+export interface IndexStore {
+  load(): IndexSnapshot | undefined;
+  save(snapshot: IndexSnapshot): void;
+}
@@ -1,134 +1,46 @@
 import { ethers } from "hardhat";
-import * as readline from "readline";
-import { parseUnits, formatUnits } from "ethers";
-import { PropytoRegistry } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import chalk from "chalk";
 import Table from "cli-table3";
+import {
+  PropytoClient,
+  AssetDetails,
+  Escrow,
+  EscrowStatus,
+  PartialOwnershipInfo,
+  PurchaseQuote,
+  AssetType,
+  PropytoAsset,
+  PropytoAssetMedia,
+  PropytoAssetMetadata,
+  formatPrice,
+  formatAssetType,
+  formatAssetStatus,
+  formatEscrowStatus,
+  isAssetAvailable,
+  describeError
+} from "../sdk";
+import { prompt, rl } from "./utils/prompt";
+import { syncIndex } from "./utils/indexer";
 import config from "./config.json"
 
-// Create an interface for reading user input
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
-
-// Prompt function that returns a promise
-const prompt = (question: string): Promise<string> => {
-  return new Promise((resolve) => {
-    rl.question(`${question}: `, (answer) => {
-      resolve(answer);
-    });
-  });
-};
-
-// Enum mappings from the contract
-enum AssetType {
-  RESIDENTIAL = 0,
-  COMMERCIAL = 1,
-  LAND = 2,
-  OTHER = 3
-}
-
-enum AssetStatus {
-  FOR_SALE = 0,
-  FOR_RENT = 1,
-  SOLD = 2,
-  RENTED = 3,
-  DELISTED = 4,
-  OTHER = 5
-}
-
-enum AssetFurnishing {
-  UNFURNISHED = 0,
-  PARTIALLY_FURNISHED = 1,
-  FULLY_FURNISHED = 2,
-  OTHER = 3
-}
-
-enum AssetZone {
-  INDUSTRIAL = 0,
-  COMMERCIAL = 1,
-  RESIDENTIAL = 2,
-  LAND = 3,
-  OTHER = 4
-}
-
-// Function to format a BigInt price to a readable string
-function formatPrice(priceWei: bigint): string {
-  return formatUnits(priceWei, 18);
-}
-
-// Format asset type for display
-function formatAssetType(type: number): string {
-  return AssetType[type] || "Unknown";
-}
-
-// Format asset status for display
-function formatAssetStatus(status: number): string {
-  return AssetStatus[status] || "Unknown";
-}
-
 // Get detailed asset information
-async function getAssetDetails(registry: PropytoRegistry, assetId: bigint): Promise<any> {
+async function getAssetDetails(client: PropytoClient, assetId: bigint): Promise<AssetDetails | null> {
   try {
-    const asset = await registry.assets(assetId);
-    const metadata = await registry.assetMetadata(assetId);
-    const media = await registry.assetMedia(assetId);
-    
-    // Parse JSON other details if available
-    let otherDetails = {};
-    try {
-      otherDetails = JSON.parse(asset.assetOtherDetails);
-    } catch {
-      // If not valid JSON, use as is
-      otherDetails = { raw: asset.assetOtherDetails };
-    }
-
-    // console.debug(asset.name)
-    // const parsedAsset: PropytoRegistry.PropytoAssetStruct = {
-    //     name: asset.name,
-    //     assetType: "",
-    //     assetAddress: "",
-    //     assetStatus: "",
-    //     assetFurnishing: "",
-    //     assetZone: "",
-    //     assetPrice: "",
-    //     assetArea: "",
-    //     assetAge: "",
-    //     assetOtherDetails: "",
-    //     isRentable: false,
-    //     isSellable: false,
-    //     isPartiallyOwnEnabled: false,
-    //     seller: "",
-    //     listingExpiry: "",
-    // }
-    // console.debug(asset)
-    return {
-      asset,
-      metadata,
-      media,
-      otherDetails
-    };
+    return await client.getAsset(assetId);
   } catch (error) {
-    console.error(`Error retrieving asset ${assetId} details:`, error);
+    console.error(`Error retrieving asset ${assetId} details:`, describeError(error));
     return null;
   }
 }
 
-// Check if an asset is available for purchase
-function isAssetAvailable(asset: any): boolean {
-  if (!asset) return false;
-  const now = Math.floor(Date.now() / 1000);
-//   console.debug(asset.isSellable, asset.assetStatus, BigInt(AssetStatus.FOR_SALE), asset.listingExpiry, now)
-  return (
-    (asset.assetStatus === BigInt(AssetStatus.FOR_SALE) || asset.assetStatus === BigInt(AssetStatus.FOR_RENT))
-    // && asset.isSellable
-    && BigInt(asset.listingExpiry) > BigInt(now)
-  );
-}
-
 // Display a single asset's full details
-function displayAssetDetails(asset: any, metadata: any, media: any, otherDetails: any): void {
+function displayAssetDetails(
+  asset: PropytoAsset,
+  metadata: PropytoAssetMetadata,
+  media: PropytoAssetMedia,
+  otherDetails: Record<string, any>
+): void {
   console.log(chalk.bold("\n============================================"));
   console.log(chalk.bold.green(`ASSET: ${asset.name}`));
   console.log(chalk.bold("============================================"));
@@ -175,8 +87,67 @@ function displayAssetDetails(asset: any, metadata: any, media: any, otherDetails
   console.log(`Rentable: ${asset.isRentable ? "Yes" : "No"}`);
 }
 
+// Display the share offering of a partially ownable asset
+function displayShareOffering(ownership: PartialOwnershipInfo): void {
+  console.log(chalk.bold("\n🔄 Shares:"));
+  console.log(`Available: ${ownership.availableShares} of ${ownership.totalShares}`);
+  console.log(`Share Price: ${formatPrice(ownership.sharePrice)} USDT`);
+  console.log(`Minimum Purchase: ${ownership.minSharePurchase} shares`);
+  console.log(`Maximum Per Owner: ${ownership.maxSharesPerOwner} shares`);
+  console.log(`Owners: ${ownership.ownerCount}`);
+}
+
+// Display the payment breakdown of a purchase, in payment token units
+function displayQuote(quote: PurchaseQuote, isBuyShares: boolean, decimals: number): void {
+  console.log(`Total Price: ${formatPrice(quote.totalPrice, decimals)} USDT`);
+  console.log(`  Platform Fee: ${formatPrice(quote.platformFee, decimals)} USDT`);
+  console.log(`  To Seller: ${formatPrice(quote.sellerAmount, decimals)} USDT`);
+  if (isBuyShares) {
+    console.log(`Shares left after purchase: ${quote.availableShares}`);
+  }
+}
+
+// Display an escrowed whole-asset purchase and what can happen to it next
+function displayEscrow(escrow: Escrow, decimals: number): void {
+  console.log(chalk.bold(`\n🔒 Escrow ${escrow.id} on asset ${escrow.assetId}:`));
+  console.log(`Status: ${formatEscrowStatus(escrow.status)}`);
+  console.log(`Buyer: ${escrow.buyer}`);
+  console.log(`Deposit: ${formatPrice(escrow.amount, decimals)} USDT`);
+  if (escrow.agent !== ethers.ZeroAddress) {
+    console.log(`Escrow Agent: ${escrow.agent}`);
+  }
+  console.log(`Settle By: ${new Date(Number(escrow.deadline) * 1000).toLocaleString()}`);
+
+  if (escrow.isReclaimable) {
+    console.log(chalk.yellow("The sale was not settled; the buyer can reclaim the deposit."));
+  } else if (escrow.status === EscrowStatus.PENDING) {
+    console.log(chalk.yellow("Waiting for the seller or escrow agent to settle the sale."));
+  }
+}
+
+// Show the escrowed purchases of an asset and reclaim the buyer's deposits that can be taken back
+async function viewEscrows(client: PropytoClient, assetId: bigint, buyer: HardhatEthersSigner): Promise<void> {
+  const escrows = await client.getAssetEscrows(assetId);
+  if (escrows.length === 0) {
+    console.log(chalk.yellow("\nNo escrowed purchases for this asset."));
+    return;
+  }
+  const decimals = await client.getPaymentTokenDecimals();
+  escrows.forEach((escrow) => displayEscrow(escrow, decimals));
+
+  for (const escrow of escrows) {
+    if (escrow.isReclaimable && escrow.buyer === buyer.address) {
+      const reclaim = await prompt(chalk.yellow(`Reclaim ${formatPrice(escrow.amount, decimals)} USDT from escrow ${escrow.id}? (yes/no)`));
+      if (reclaim.toLowerCase() === "yes") {
+        await client.reclaimEscrowDeposit(escrow.id);
+        console.log(chalk.green("✅ Deposit reclaimed."));
+      }
+    }
+  }
+}
+
 // Display a list of assets in a table format
-function displayAssetsList(assets: Array<any>): void {
+function displayAssetsList(assets: Array<{ id: bigint; asset: PropytoAsset }>): void {
   if (assets.length === 0) {
     console.log(chalk.yellow("\nNo assets available for purchase at this time."));
     return;
@@ -217,31 +188,40 @@ async function displayMenu(): Promise<string> {
   console.log("3. View asset details");
   console.log("4. Purchase an asset");
   console.log("5. Purchase shares in an asset");
-  console.log("6. Exit");
+  console.log("6. View escrowed purchases of an asset");
+  console.log("7. Exit");
   
-  return await prompt(chalk.green("Enter your choice (1-6)"));
+  return await prompt(chalk.green("Enter your choice (1-7)"));
 }
 
 // Function to handle asset purchase
 async function purchaseAsset(
-  registry: PropytoRegistry, 
+  client: PropytoClient, 
   assetId: bigint, 
-  buyer: any, 
+  buyer: HardhatEthersSigner, 
   isBuyShares: boolean = false
 ): Promise<boolean> {
   try {
     // Get asset details
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails || !isAssetAvailable(assetDetails.asset)) {
       console.log(chalk.red("Asset is not available for purchase."));
       return false;
     }
     
-    // Get USDT token address
-    const usdtAddress = await registry.usdtToken();
+    // Get USDT contract; quotes and balances are in its units
+    const usdt = await client.getPaymentToken();
+    const decimals = await client.getPaymentTokenDecimals();
     
     // If buying shares instead of entire asset
     if (isBuyShares && assetDetails.asset.isPartiallyOwnEnabled) {
+      const ownership = assetDetails.ownership.partialOwnership;
+      if (!ownership.isInitialized) {
+        console.log(chalk.red("The seller has not opened this asset for share purchases yet."));
+        return false;
+      }
+      displayShareOffering(ownership);
+
       const totalSharesInput = await prompt("How many shares would you like to purchase?");
       const sharesToBuy = parseInt(totalSharesInput);
       
@@ -249,19 +229,23 @@ async function purchaseAsset(
         console.log(chalk.red("Invalid number of shares."));
         return false;
       }
-      
-      // Get ownership details
-      // Note: We'll need to implement a view function to see available shares
-      // For now, we'll just proceed with the purchase
+
+      const ownedShares = assetDetails.ownership.sharesByOwner[buyer.address] ?? 0n;
+      if (BigInt(sharesToBuy) < ownership.minSharePurchase || BigInt(sharesToBuy) > ownership.availableShares) {
+        console.log(chalk.red(`Enter between ${ownership.minSharePurchase} and ${ownership.availableShares} shares.`));
+        return false;
+      }
+      if (ownership.maxSharesPerOwner > 0n && ownedShares + BigInt(sharesToBuy) > ownership.maxSharesPerOwner) {
+        console.log(chalk.red(`You already own ${ownedShares} shares; the limit per owner is ${ownership.maxSharesPerOwner}.`));
+        return false;
+      }
       
       console.log(chalk.yellow("\nPreparing to purchase shares..."));
       console.log(`Asset: ${assetDetails.asset.name}`);
       console.log(`Shares to buy: ${sharesToBuy}`);
       
-      // Calculate estimated cost
-      // This would be better handled by a contract view function
-      const estimatedCost = BigInt(sharesToBuy) * assetDetails.asset.assetPrice / 1000n; // Assuming 1000 shares total
-      console.log(`Estimated cost: ${formatPrice(estimatedCost)} USDT`);
+      const quote = await client.quoteShares(assetId, BigInt(sharesToBuy));
+      displayQuote(quote, true, decimals);
       
       const confirmPurchase = await prompt(chalk.yellow("Confirm share purchase? (yes/no)"));
       if (confirmPurchase.toLowerCase() !== "yes") {
@@ -269,41 +253,29 @@ async function purchaseAsset(
         return false;
       }
       
-      // Get USDT contract
-      const usdtAbi = [
-        "function balanceOf(address owner) external view returns (uint256)",
-        "function approve(address spender, uint256 amount) external returns (bool)"
-      ];
-      const usdt = new ethers.Contract(usdtAddress, usdtAbi, buyer);
-      
       // Check USDT balance
       const balance = await usdt.balanceOf(buyer.address);
-      if (balance < estimatedCost) {
-        console.log(chalk.red(`Insufficient USDT balance. You have ${formatPrice(balance)} USDT but need ${formatPrice(estimatedCost)} USDT.`));
+      if (balance < quote.totalPrice) {
+        console.log(chalk.red(`Insufficient USDT balance. You have ${formatPrice(balance, decimals)} USDT but need ${formatPrice(quote.totalPrice, decimals)} USDT.`));
         return false;
       }
       
-      // Approve USDT for the purchase
-      console.log("Approving USDT for the share purchase...");
-      const approveTx = await usdt.approve(registry.target, estimatedCost);
-      await approveTx.wait();
-      console.log(chalk.green("USDT approved successfully!"));
-      
-      // Purchase shares
+      // Allow exactly the quoted USDT (by permit in the purchase itself when the token supports it) and purchase shares,
+      // reverting if the price changed meanwhile
       console.log("Purchasing shares...");
-      const tx = await registry.purchaseShares(assetId, sharesToBuy, false);
-      const receipt = await tx.wait();
+      await client.buyShares(assetId, BigInt(sharesToBuy), await client.purchaseLimits(quote));
       
       console.log(chalk.green("\n✅ Shares purchased successfully!"));
       return true;
     } 
     // Buy entire asset
     else {
-      const price = assetDetails.asset.assetPrice;
+      const quote = await client.quoteWhole(assetId);
       
       console.log(chalk.yellow("\nPreparing to purchase asset..."));
       console.log(`Asset: ${assetDetails.asset.name}`);
-      console.log(`Price: ${formatPrice(price)} USDT`);
+      displayQuote(quote, false, decimals);
+      console.log(chalk.yellow("The payment is held in escrow until the seller or the escrow agent settles the sale."));
       
       const confirmPurchase = await prompt(chalk.yellow("Confirm asset purchase? (yes/no)"));
       if (confirmPurchase.toLowerCase() !== "yes") {
@@ -311,41 +283,24 @@ async function purchaseAsset(
         return false;
       }
       
-      // Get USDT contract
-      const usdtAbi = [
-        "function balanceOf(address owner) external view returns (uint256)",
-        "function approve(address spender, uint256 amount) external returns (bool)"
-      ];
-      const usdt = new ethers.Contract(usdtAddress, usdtAbi, buyer);
-      
       // Check USDT balance
       const balance = await usdt.balanceOf(buyer.address);
-      if (balance < price) {
-        console.log(chalk.red(`Insufficient USDT balance. You have ${formatPrice(balance)} USDT but need ${formatPrice(price)} USDT.`));
+      if (balance < quote.totalPrice) {
+        console.log(chalk.red(`Insufficient USDT balance. You have ${formatPrice(balance, decimals)} USDT but need ${formatPrice(quote.totalPrice, decimals)} USDT.`));
         return false;
       }
       
-      // Calculate platform fee
-      const marketplaceConfig = await registry.marketplaceConfig();
-      const totalAmount = price;
-      
-      // Approve USDT for the purchase
-      console.log("Approving USDT for the asset purchase...");
-      const approveTx = await usdt.approve(registry.target, totalAmount);
-      await approveTx.wait();
-      console.log(chalk.green("USDT approved successfully!"));
-      
-      // Purchase asset
-      console.log("Purchasing asset...");
-      const tx = await registry.purchaseShares(assetId, 0, true); // isBuyAsset flag set to true
-      console.debug("+ tx hash", tx.hash)
-      const receipt = await tx.wait();
+      // Approve exactly the quoted USDT and deposit it in escrow, reverting if the price changed meanwhile
+      console.log("Depositing payment in escrow...");
+      const { escrowId, receipt } = await client.buyWhole(assetId, await client.purchaseLimits(quote));
+      console.debug("+ tx hash", receipt.hash)
       
-      console.log(chalk.green("\n✅ Asset purchased successfully!"));
+      console.log(chalk.green("\n✅ Payment deposited in escrow!"));
+      displayEscrow(await client.getEscrow(escrowId), decimals);
       return true;
     }
   } catch (error) {
-    console.error("Error purchasing asset:", error);
+    console.error("Error purchasing asset:", describeError(error));
     return false;
   }
 }
@@ -359,9 +314,7 @@ async function main() {
     // Get the registry contract address
     // const registryAddress = await prompt("Enter the PropytoRegistry contract address");
     
-    // Get the PropytoRegistry contract
-    const PropytoRegistryFactory = await ethers.getContractFactory("PropytoRegistry");
-    const registry = PropytoRegistryFactory.attach(config.registryAddress) as PropytoRegistry;
+    const client = new PropytoClient(config.registryAddress, buyer);
     
     console.log(chalk.green("\n🏢 Welcome to the Propyto Asset Marketplace! 🏢"));
     
@@ -373,23 +326,9 @@ async function main() {
         case "1": { // View all assets for sale
           console.log(chalk.cyan("\nFetching all assets for sale..."));
           
-          // Get total asset count
-          const assetCount = await registry.assetCount();
-        //   console.debug(assetCount)
-          const availableAssets = [];
-          
-          // Fetch all assets and filter for available ones
-          for (let i = 0n; i < assetCount; i++) {
-            const assetDetails = await getAssetDetails(registry, i);
-            if (assetDetails && isAssetAvailable(assetDetails.asset)) {
-              availableAssets.push({
-                id: i,
-                ...assetDetails
-              });
-            } else {
-                // console.debug(assetDetails)
-            }
-          }
+          // Query the local index for available assets
+          const index = await syncIndex(client);
+          const availableAssets = index.getAssets((indexed) => isAssetAvailable(indexed.asset) && !indexed.inEscrow);
           
           // Display assets in a table
           displayAssetsList(availableAssets);
@@ -418,24 +357,11 @@ async function main() {
           
           console.log(chalk.cyan(`\nFetching ${AssetType[selectedType]} assets for sale...`));
           
-          // Get total asset count
-          const assetCount = await registry.assetCount();
-          const availableAssets = [];
-          
-          // Fetch assets of selected type
-          for (let i = 0n; i < assetCount; i++) {
-            const assetDetails = await getAssetDetails(registry, i);
-            if (
-              assetDetails && 
-              isAssetAvailable(assetDetails.asset) && 
-              assetDetails.asset.assetType === BigInt(selectedType)
-            ) {
-              availableAssets.push({
-                id: i,
-                ...assetDetails
-              });
-            }
-          }
+          // Query the local index for assets of selected type
+          const index = await syncIndex(client);
+          const availableAssets = index.getAssets((indexed) =>
+            isAssetAvailable(indexed.asset) && !indexed.inEscrow && indexed.asset.assetType === selectedType
+          );
           
           // Display assets in a table
           displayAssetsList(availableAssets);
@@ -453,7 +379,7 @@ async function main() {
           
           console.log(chalk.cyan(`\nFetching details for asset ${assetId}...`));
           
-          const assetDetails = await getAssetDetails(registry, assetId);
+          const assetDetails = await getAssetDetails(client, assetId);
           if (!assetDetails) {
             console.log(chalk.red("Asset not found or error retrieving details."));
             continue;
@@ -465,6 +391,9 @@ async function main() {
             assetDetails.media, 
             assetDetails.otherDetails
           );
+          if (assetDetails.ownership.partialOwnership.isInitialized) {
+            displayShareOffering(assetDetails.ownership.partialOwnership);
+          }
           break;
         }
         
@@ -477,7 +406,7 @@ async function main() {
             continue;
           }
           
-          await purchaseAsset(registry, assetId, buyer, false);
+          await purchaseAsset(client, assetId, buyer, false);
           break;
         }
         
@@ -491,23 +420,40 @@ async function main() {
           }
           
           // Verify asset supports partial ownership
-          const assetDetails = await getAssetDetails(registry, assetId);
+          const assetDetails = await getAssetDetails(client, assetId);
           if (!assetDetails || !assetDetails.asset.isPartiallyOwnEnabled) {
             console.log(chalk.red("This asset does not support partial ownership."));
             continue;
           }
           
-          await purchaseAsset(registry, assetId, buyer, true);
+          await purchaseAsset(client, assetId, buyer, true);
+          break;
+        }
+        
+        case "6": { // View escrowed purchases of an asset
+          const assetIdInput = await prompt("Enter the asset ID");
+          const assetId = BigInt(assetIdInput);
+          
+          if (isNaN(Number(assetId)) || assetId < 0n) {
+            console.log(chalk.red("Invalid asset ID."));
+            continue;
+          }
+          
+          try {
+            await viewEscrows(client, assetId, buyer);
+          } catch (error) {
+            console.error("Error loading escrows:", describeError(error));
+          }
           break;
         }
         
-        case "6": // Exit
+        case "7": // Exit
           console.log(chalk.green("Thank you for using the Propyto Asset Marketplace!"));
           exit = true;
           break;
           
         default:
-          console.log(chalk.red("Invalid choice. Please enter a number between 1 and 6."));
+          console.log(chalk.red("Invalid choice. Please enter a number between 1 and 7."));
       }
       
       if (!exit) {
@@ -517,7 +463,7 @@ async function main() {
     
     rl.close();
   } catch (error) {
-    console.error("Error in main process:", error);
+    console.error("Error in main process:", describeError(error));
     rl.close();
     process.exit(1);
   }
@@ -1,6 +1,7 @@
 
 import {ethers, upgrades} from "hardhat";
 import fs from "fs";
+import { parsePrice } from "../sdk";
 async function main() {
   console.log("Starting Propyto protocol deployment...");
 
@@ -9,31 +10,115 @@ async function main() {
 
   console.log("Deploying contracts using Ignition...");
 
+  // 6 decimals, like USDT and USDC on Polygon
+  const usdtDecimals = 6;
   const MockUSDT = await ethers.getContractFactory("MockERC20");
   const usdt = await MockUSDT.deploy(
     "Mock USDT",
     "MUSDT",
-    18,
-    ethers.parseEther("1000000")
+    usdtDecimals,
+    ethers.parseUnits("1000000", usdtDecimals)
   );
   console.log(`MockUSDT deployed to: ${usdt.target}`);
 
+  const sftFactory = await ethers.deployContract("PropytoSFTFactory");
+  console.log(`PropytoSFTFactory deployed to: ${sftFactory.target}`);
+
   const PropytoRegistry = await ethers.getContractFactory("PropytoRegistry");
   const contract = await upgrades.deployProxy(PropytoRegistry, [
-    usdt.target
+    usdt.target,
+    sftFactory.target
   ]);
   console.log(`PropytoRegistry deployed to: ${contract.target}`);
+  const deploymentBlock = (await contract.deploymentTransaction()?.wait())?.blockNumber;
   
+  const PropytoShareMarket = await ethers.getContractFactory("PropytoShareMarket");
+  const shareMarket = await upgrades.deployProxy(PropytoShareMarket, [contract.target]);
+  console.log(`PropytoShareMarket deployed to: ${shareMarket.target}`);
+  await contract.connect(deployer).updateShareMarket(shareMarket.target);
+
+  const PropytoRentals = await ethers.getContractFactory("PropytoRentals");
+  const rentals = await upgrades.deployProxy(PropytoRentals, [contract.target]);
+  console.log(`PropytoRentals deployed to: ${rentals.target}`);
+  await contract.connect(deployer).updateRentalManager(rentals.target);
+
+  const PropytoDividends = await ethers.getContractFactory("PropytoDividends");
+  const dividends = await upgrades.deployProxy(PropytoDividends, [contract.target]);
+  console.log(`PropytoDividends deployed to: ${dividends.target}`);
+  await contract.connect(deployer).updateDividendDistributor(dividends.target);
+
+  const PropytoGovernance = await ethers.getContractFactory("PropytoGovernance");
+  const governance = await upgrades.deployProxy(PropytoGovernance, [contract.target]);
+  console.log(`PropytoGovernance deployed to: ${governance.target}`);
+  await contract.connect(deployer).updateGovernance(governance.target);
+
+  const PropytoEscrow = await ethers.getContractFactory("PropytoEscrow");
+  const escrow = await upgrades.deployProxy(PropytoEscrow, [contract.target]);
+  console.log(`PropytoEscrow deployed to: ${escrow.target}`);
+  await contract.connect(deployer).updatePurchaseEscrow(escrow.target);
+
+  const PropytoCrowdfunding = await ethers.getContractFactory("PropytoCrowdfunding");
+  const crowdfunding = await upgrades.deployProxy(PropytoCrowdfunding, [contract.target]);
+  console.log(`PropytoCrowdfunding deployed to: ${crowdfunding.target}`);
+  await contract.connect(deployer).updateCrowdfunding(crowdfunding.target);
+
+  const PropytoOffers = await ethers.getContractFactory("PropytoOffers");
+  const offerBook = await upgrades.deployProxy(PropytoOffers, [contract.target]);
+  console.log(`PropytoOffers deployed to: ${offerBook.target}`);
+  await contract.connect(deployer).updateOfferBook(offerBook.target);
+
+  const PropytoAuctions = await ethers.getContractFactory("PropytoAuctions");
+  const auctionHouse = await upgrades.deployProxy(PropytoAuctions, [contract.target]);
+  console.log(`PropytoAuctions deployed to: ${auctionHouse.target}`);
+  await contract.connect(deployer).updateAuctionHouse(auctionHouse.target);
+
+  const PropytoCompliance = await ethers.getContractFactory("PropytoCompliance");
+  const compliance = await upgrades.deployProxy(PropytoCompliance, [contract.target]);
+  console.log(`PropytoCompliance deployed to: ${compliance.target}`);
+  await contract.connect(deployer).updateCompliance(compliance.target);
+
+  // Deployed but not connected: listings go live immediately until an admin runs `npx hardhat moderation enable`
+  const PropytoModeration = await ethers.getContractFactory("PropytoModeration");
+  const moderation = await upgrades.deployProxy(PropytoModeration, [contract.target]);
+  console.log(`PropytoModeration deployed to: ${moderation.target}`);
+
+  // SFTs serve metadata built on-chain from the registry instead of the off-chain metadata API
+  const PropytoMetadataRenderer = await ethers.getContractFactory("PropytoMetadataRenderer");
+  const metadataRenderer = await upgrades.deployProxy(PropytoMetadataRenderer, [contract.target]);
+  console.log(`PropytoMetadataRenderer deployed to: ${metadataRenderer.target}`);
+  await contract.connect(deployer).updateMetadataRenderer(metadataRenderer.target);
+
+  // The deployer starts with every role; grant and revoke them with `npx hardhat roles`
+  const PropytoAccessManager = await ethers.getContractFactory("PropytoAccessManager");
+  const accessManager = await upgrades.deployProxy(PropytoAccessManager, [deployer.address]);
+  console.log(`PropytoAccessManager deployed to: ${accessManager.target}`);
+  await contract.connect(deployer).updateAccessManager(accessManager.target);
+
+  // The listing fee is a registry price (18 decimals), converted to the payment token when charged
   await contract.connect(deployer).updateMarketplaceConfig(
     250,
     deployer.address,
-    ethers.parseEther("10"),
+    parsePrice("10"),
     true
   );
 
   const configFile = {
     registryAddress: contract.target,
     usdtAddress: usdt.target,
+    sftFactoryAddress: sftFactory.target,
+    shareMarketAddress: shareMarket.target,
+    rentalsAddress: rentals.target,
+    dividendsAddress: dividends.target,
+    governanceAddress: governance.target,
+    escrowAddress: escrow.target,
+    crowdfundingAddress: crowdfunding.target,
+    offerBookAddress: offerBook.target,
+    auctionHouseAddress: auctionHouse.target,
+    complianceAddress: compliance.target,
+    moderationAddress: moderation.target,
+    metadataRendererAddress: metadataRenderer.target,
+    accessManagerAddress: accessManager.target,
+    deploymentBlock,
   }
 
   fs.writeFileSync("./scripts/config.json", JSON.stringify(configFile, null, 2));
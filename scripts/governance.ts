@@ -0,0 +1,267 @@
+import { ethers } from "hardhat";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  PropytoClient,
+  Proposal,
+  ProposalStatus,
+  ProposalType,
+  formatPrice,
+  formatProposalStatus,
+  formatProposalType,
+  parsePrice,
+  describeError
+} from "../sdk";
+import { prompt, rl } from "./utils/prompt";
+import config from "./config.json";
+
+// ==================== Helper Functions ====================
+
+function formatDate(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString();
+}
+
+function formatVotes(votes: bigint, supply: bigint): string {
+  const percentage = supply > 0n ? Number((votes * 10000n) / supply) / 100 : 0;
+  return `${votes} shares (${percentage.toFixed(2)}%)`;
+}
+
+async function promptId(question: string): Promise<bigint | null> {
+  const input = await prompt(question);
+  if (!/^\d+$/.test(input.trim())) {
+    console.log(chalk.red("Invalid ID. Please enter a valid number."));
+    return null;
+  }
+  return BigInt(input.trim());
+}
+
+// Display the proposals of an asset in a table format
+function displayProposalList(proposals: Proposal[]): void {
+  if (proposals.length === 0) {
+    console.log(chalk.yellow("\nNo proposals found."));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.cyan('ID'),
+      chalk.cyan('Type'),
+      chalk.cyan('For'),
+      chalk.cyan('Against'),
+      chalk.cyan('Voting Ends'),
+      chalk.cyan('Status')
+    ],
+    colWidths: [8, 16, 12, 12, 24, 12]
+  });
+
+  proposals.forEach(proposal => {
+    // Using any to avoid type mismatches with cli-table3
+    (table as any).push([
+      proposal.id.toString(),
+      formatProposalType(proposal.proposalType),
+      proposal.forVotes.toString(),
+      proposal.againstVotes.toString(),
+      formatDate(proposal.voteEnd),
+      formatProposalStatus(proposal.status)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+// Display a proposal with its current tally
+function displayTally(proposal: Proposal): void {
+  console.log(chalk.bold(`\n🗳️  Proposal ${proposal.id} on asset ${proposal.assetId}`));
+  console.log(`Type: ${formatProposalType(proposal.proposalType)}`);
+  if (proposal.proposalType === ProposalType.PRICE_CHANGE || proposal.proposalType === ProposalType.SELL_PROPERTY) {
+    console.log(`New Price: ${formatPrice(proposal.value)} USDT`);
+  }
+  console.log(`Description: ${proposal.description}`);
+  console.log(`Proposer: ${proposal.proposer}`);
+  console.log(`Voting Ends: ${formatDate(proposal.voteEnd)}`);
+
+  console.log(chalk.bold("\n📊 Tally:"));
+  console.log(`For: ${formatVotes(proposal.forVotes, proposal.snapshotSupply)}`);
+  console.log(`Against: ${formatVotes(proposal.againstVotes, proposal.snapshotSupply)}`);
+  console.log(`Shares at snapshot: ${proposal.snapshotSupply} (${proposal.unsoldShares} unsold, voted by the seller)`);
+  console.log(`Quorum reached: ${proposal.quorumReached ? chalk.green("Yes") : chalk.red("No")}`);
+  console.log(`Approved: ${proposal.approved ? chalk.green("Yes") : chalk.red("No")}`);
+  console.log(`Status: ${formatProposalStatus(proposal.status)}`);
+}
+
+// Create a proposal for an asset
+async function createProposal(client: PropytoClient): Promise<void> {
+  const assetId = await promptId("Enter the asset ID");
+  if (assetId === null) {
+    return;
+  }
+
+  console.log("\nProposal types:");
+  Object.keys(ProposalType)
+    .filter((key) => isNaN(Number(key)))
+    .forEach((key) => console.log(`${ProposalType[key as keyof typeof ProposalType]}. ${key}`));
+  const typeInput = await prompt("Select the proposal type");
+  const proposalType = Number(typeInput) as ProposalType;
+  if (!(proposalType in ProposalType)) {
+    console.log(chalk.red("Invalid proposal type."));
+    return;
+  }
+
+  let value = 0n;
+  if (proposalType === ProposalType.PRICE_CHANGE || proposalType === ProposalType.SELL_PROPERTY) {
+    value = parsePrice(await prompt("Enter the new asset price in USDT"));
+  }
+  const description = await prompt("Describe the proposal");
+
+  const confirm = await prompt(`Create ${formatProposalType(proposalType)} proposal for asset ${assetId}? (yes/no)`);
+  if (confirm.toLowerCase() !== "yes") {
+    console.log(chalk.yellow("Proposal cancelled."));
+    return;
+  }
+
+  const { proposalId, receipt } = await client.createProposal(assetId, proposalType, value, description);
+  console.log(chalk.green(`✅ Proposal ${proposalId} created in ${receipt.hash}`));
+}
+
+// Vote on a proposal with the shares held at its snapshot
+async function vote(client: PropytoClient, voter: string): Promise<void> {
+  const proposalId = await promptId("Enter the proposal ID");
+  if (proposalId === null) {
+    return;
+  }
+
+  const proposal = await client.getProposal(proposalId);
+  displayTally(proposal);
+  const votingPower = await client.getVotingPower(proposalId, voter);
+  console.log(`\nYour voting power: ${votingPower} shares`);
+
+  const choice = await prompt("Vote for or against? (for/against)");
+  if (choice.toLowerCase() !== "for" && choice.toLowerCase() !== "against") {
+    console.log(chalk.red("Please answer 'for' or 'against'."));
+    return;
+  }
+
+  const receipt = await client.vote(proposalId, choice.toLowerCase() === "for");
+  console.log(chalk.green(`✅ Vote cast in ${receipt.hash}`));
+}
+
+// Execute a proposal whose voting period is over
+async function executeProposal(client: PropytoClient): Promise<void> {
+  const proposalId = await promptId("Enter the proposal ID");
+  if (proposalId === null) {
+    return;
+  }
+
+  const proposal = await client.getProposal(proposalId);
+  displayTally(proposal);
+  if (proposal.status !== ProposalStatus.ACTIVE) {
+    console.log(chalk.yellow(`\nExecuting will record the proposal as ${formatProposalStatus(proposal.status)}.`));
+  }
+
+  const confirm = await prompt("Execute this proposal? (yes/no)");
+  if (confirm.toLowerCase() !== "yes") {
+    console.log(chalk.yellow("Execution cancelled."));
+    return;
+  }
+
+  const receipt = await client.executeProposal(proposalId);
+  const { status } = await client.getProposal(proposalId);
+  console.log(chalk.green(`✅ Proposal ${formatProposalStatus(status).toLowerCase()} in ${receipt.hash}`));
+}
+
+// Display the main menu
+async function displayMenu(): Promise<string> {
+  console.log(chalk.bold("\n🏛️  GOVERNANCE OPTIONS:"));
+  console.log("1. View proposals of an asset");
+  console.log("2. Create a proposal");
+  console.log("3. Vote on a proposal");
+  console.log("4. Tally a proposal");
+  console.log("5. Execute a proposal");
+  console.log("6. Exit");
+
+  return await prompt(chalk.green("Enter your choice (1-6)"));
+}
+
+// ==================== Main Function ====================
+
+async function main() {
+  try {
+    const [voter] = await ethers.getSigners();
+    console.log(chalk.cyan(`Running with the account: ${voter.address}`));
+
+    const client = new PropytoClient(config.registryAddress, voter);
+    const governanceConfig = await client.getGovernanceConfig();
+
+    console.log(chalk.green("\n🏛️  Welcome to Propyto Governance! 🏛️"));
+    console.log(
+      `Proposals need ${Number(governanceConfig.proposalThreshold) / 100}% of the shares to create, ` +
+      `${Number(governanceConfig.quorum) / 100}% turnout and more than ` +
+      `${Number(governanceConfig.approvalThreshold) / 100}% of the votes in favour.`
+    );
+
+    let exit = false;
+    while (!exit) {
+      const choice = await displayMenu();
+
+      try {
+        switch (choice) {
+          case "1": { // View proposals of an asset
+            const assetId = await promptId("Enter the asset ID");
+            if (assetId !== null) {
+              displayProposalList(await client.getAssetProposals(assetId));
+            }
+            break;
+          }
+
+          case "2": // Create a proposal
+            await createProposal(client);
+            break;
+
+          case "3": // Vote on a proposal
+            await vote(client, voter.address);
+            break;
+
+          case "4": { // Tally a proposal
+            const proposalId = await promptId("Enter the proposal ID");
+            if (proposalId !== null) {
+              displayTally(await client.getProposal(proposalId));
+            }
+            break;
+          }
+
+          case "5": // Execute a proposal
+            await executeProposal(client);
+            break;
+
+          case "6": // Exit
+            console.log(chalk.green("Thank you for using Propyto Governance!"));
+            exit = true;
+            break;
+
+          default:
+            console.log(chalk.red("Invalid choice. Please enter a number between 1 and 6."));
+        }
+      } catch (error) {
+        console.error(chalk.red("Error:"), describeError(error));
+      }
+
+      if (!exit) {
+        await prompt(chalk.yellow("Press Enter to continue..."));
+      }
+    }
+
+    rl.close();
+  } catch (error) {
+    console.error("Error in main process:", describeError(error));
+    rl.close();
+    process.exit(1);
+  }
+}
+
+// Run the main function
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
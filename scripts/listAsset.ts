@@ -1,80 +1,20 @@
 import { ethers } from "hardhat";
-import * as readline from "readline";
-import { parseUnits, formatUnits } from "ethers";
-import { PropytoRegistry } from "../typechain-types";
+import {
+  PropytoClient,
+  AssetType,
+  ResidentialType,
+  CommercialType,
+  LandType,
+  AssetStatus,
+  AssetFurnishing,
+  NewAsset,
+  formatPrice,
+  parsePrice,
+  describeError
+} from "../sdk";
+import { prompt, rl } from "./utils/prompt";
 import config from "./config.json";
 
-// Create an interface for reading user input
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
-
-// Prompt function that returns a promise
-const prompt = (question: string): Promise<string> => {
-  return new Promise((resolve) => {
-    rl.question(`${question}: `, (answer) => {
-      resolve(answer);
-    });
-  });
-};
-
-// Enums from the contract
-enum AssetType {
-  RESIDENTIAL = 0,
-  COMMERCIAL = 1,
-  LAND = 2,
-  OTHER = 3
-}
-
-enum ResidentialType {
-  NONE = 0,
-  APARTMENT = 1,
-  FARMHOUSE = 2,
-  VILLA = 3,
-  BUNGALOW = 4,
-  OTHER = 5
-}
-
-enum CommercialType {
-  NONE = 0,
-  SHOP = 1,
-  OFFICE = 2,
-  GODOWN = 3,
-  OTHER = 4
-}
-
-enum LandType {
-  NONE = 0,
-  PLOT = 1,
-  FARMS = 2,
-  OTHER = 3
-}
-
-enum AssetStatus {
-  FOR_SALE = 0,
-  FOR_RENT = 1,
-  SOLD = 2,
-  RENTED = 3,
-  DELISTED = 4,
-  OTHER = 5
-}
-
-enum AssetFurnishing {
-  UNFURNISHED = 0,
-  PARTIALLY_FURNISHED = 1,
-  FULLY_FURNISHED = 2,
-  OTHER = 3
-}
-
-enum AssetZone {
-  INDUSTRIAL = 0,
-  COMMERCIAL = 1,
-  RESIDENTIAL = 2,
-  LAND = 3,
-  OTHER = 4
-}
-
 async function main() {
   const [deployer] = await ethers.getSigners();
   console.log(`Running with the account: ${deployer.address}`);
@@ -82,9 +22,7 @@ async function main() {
   // Get the registry contract address
   // const registryAddress = await prompt("Enter the PropytoRegistry contract address");
   
-  // Get the PropytoRegistry contract
-  const PropytoRegistryFactory = await ethers.getContractFactory("PropytoRegistry")
-  const registry = PropytoRegistryFactory.attach(config.registryAddress) as PropytoRegistry;
+  const client = new PropytoClient(config.registryAddress, deployer);
 
   console.log("\n--- Asset Details ---");
   
@@ -153,8 +91,8 @@ async function main() {
   // Asset pricing and specifications
   const priceInput = await prompt("Asset price in USDT (default: 10000)");
   const assetPrice = priceInput === "" ? 
-    parseUnits("10000", 18) : 
-    parseUnits(priceInput, 18);
+    parsePrice("10000") : 
+    parsePrice(priceInput);
   
   const areaInput = await prompt("Asset area in square feet (default: 1000)");
   const assetArea = areaInput === "" ? 1000 : parseInt(areaInput);
@@ -202,7 +140,7 @@ async function main() {
   const assetFloorPlan = await prompt("Asset floor plan IPFS hash (default: empty)");
   
   // Create asset object
-  const asset = {
+  const asset: NewAsset = {
     name,
     assetType,
     assetAddress: ethers.ZeroAddress, // Using ethers v6 ZeroAddress
@@ -210,14 +148,13 @@ async function main() {
     assetFurnishing,
     assetZone,
     assetPrice,
-    assetArea,
-    assetAge,
+    assetArea: BigInt(assetArea),
+    assetAge: BigInt(assetAge),
     assetOtherDetails,
     isRentable,
     isSellable,
     isPartiallyOwnEnabled,
-    seller: deployer.address, // This will be overwritten by the contract
-    listingExpiry
+    listingExpiry: BigInt(listingExpiry)
   };
   
   // Create metadata object
@@ -240,7 +177,7 @@ async function main() {
   console.log(`Name: ${name}`);
   console.log(`Asset Type: ${AssetType[assetType]}`);
   console.log(`Asset Status: ${AssetStatus[assetStatus]}`);
-  console.log(`Price: ${formatUnits(assetPrice, 18)} USDT`);
+  console.log(`Price: ${formatPrice(assetPrice)} USDT`);
   console.log(`Area: ${assetArea} sqft`);
   console.log(`Listing Expiry: ${new Date(listingExpiry * 1000).toLocaleDateString()}`);
   
@@ -255,111 +192,54 @@ async function main() {
   console.log("\nRegistering asset on the blockchain...");
   
   try {
-    // First, check if we need to approve USDT for the listing fee
-    const usdtAddress = await registry.usdtToken();
-    const marketplaceConfig = await registry.marketplaceConfig();
+    // Pays the listing fee through a permit when USDT supports it, approving it first otherwise
+    const { assetId, sftAddress, receipt } = await client.listAsset(asset, metadata, media);
+    console.debug(receipt.hash)
     
-    if (marketplaceConfig.feesEnabled && marketplaceConfig.listingFee > 0n) {
-      console.log(`Approving ${formatUnits(marketplaceConfig.listingFee, 18)} USDT for listing fee...`);
+    console.log(`\nAsset successfully registered with ID: ${assetId}`);
+    console.log(`SFT Token Address: ${sftAddress}`);
+    
+    // If partial ownership is enabled, prompt for that setup
+    if (isPartiallyOwnEnabled) {
+      console.log("\n--- Partial Ownership Setup ---");
       
-      // Get USDT contract
-      const usdtAbi = [
-        "function approve(address spender, uint256 amount) external returns (bool)"
-      ];
-      const usdt = new ethers.Contract(usdtAddress, usdtAbi, deployer);
+      const totalSharesInput = await prompt("Total number of shares (default: 1000)");
+      const totalShares = totalSharesInput === "" ? 1000 : parseInt(totalSharesInput);
       
-      // Approve the listing fee
-      const approveTx = await usdt.approve(config.registryAddress, marketplaceConfig.listingFee);
-      await approveTx.wait();
-      console.log("Approval confirmed!");
-    }
-    
-    // Register the asset
-    const tx = await registry.registerAsset(asset, metadata, media);
-    console.debug(tx.hash)
-    const receipt = await tx.wait();
-    
-    // Parse logs from receipt
-    let assetRegisteredEvents: Array<{
-      name: string;
-      args: {
-        assetId: bigint;
-        name: string;
-        registeredBy: string;
-        seller: string;
-        propytosftAddress: string;
-      };
-    }> = [];
-    
-    if (receipt && receipt.logs) {
-      for (const log of receipt.logs) {
-        try {
-          const parsedLog = registry.interface.parseLog({
-            topics: log.topics as string[],
-            data: log.data
-          });
-          
-          if (parsedLog && parsedLog.name === "AssetRegistered") {
-            assetRegisteredEvents.push(parsedLog as any);
-          }
-        } catch (e) {
-          console.debug(e)
-          // Skip logs that can't be parsed
-        }
-      }
-    }
-    
-    if (assetRegisteredEvents && assetRegisteredEvents.length > 0) {
-      const assetId = assetRegisteredEvents[0].args.assetId;
-      console.log(`\nAsset successfully registered with ID: ${assetId}`);
-      console.log(`SFT Token Address: ${assetRegisteredEvents[0].args.propytosftAddress}`);
+      const sharePriceInput = await prompt("Price per share in USDT (default: asset price / total shares)");
+      const defaultSharePrice = assetPrice / BigInt(totalShares);
+      const sharePrice = sharePriceInput === "" ? 
+        defaultSharePrice : 
+        parsePrice(sharePriceInput);
+      
+      const minSharePurchaseInput = await prompt("Minimum shares per purchase (default: 1)");
+      const minSharePurchase = minSharePurchaseInput === "" ? 1 : parseInt(minSharePurchaseInput);
+      
+      const maxSharesPerOwnerInput = await prompt("Maximum shares per owner (default: no limit)");
+      const maxSharesPerOwner = maxSharesPerOwnerInput === "" ? totalShares : parseInt(maxSharesPerOwnerInput);
+      
+      const sellerSharesInput = await prompt("Shares retained by seller (default: 0)");
+      const sellerShares = sellerSharesInput === "" ? 0 : parseInt(sellerSharesInput);
+      
+      // Now enable partial ownership
+      console.log("\nEnabling partial ownership...");
       
-      // If partial ownership is enabled, prompt for that setup
-      if (isPartiallyOwnEnabled) {
-        console.log("\n--- Partial Ownership Setup ---");
-        
-        const totalSharesInput = await prompt("Total number of shares (default: 1000)");
-        const totalShares = totalSharesInput === "" ? 1000 : parseInt(totalSharesInput);
-        
-        const sharePriceInput = await prompt("Price per share in USDT (default: asset price / total shares)");
-        const defaultSharePrice = assetPrice / BigInt(totalShares);
-        const sharePrice = sharePriceInput === "" ? 
-          defaultSharePrice : 
-          parseUnits(sharePriceInput, 18);
-        
-        const minSharePurchaseInput = await prompt("Minimum shares per purchase (default: 1)");
-        const minSharePurchase = minSharePurchaseInput === "" ? 1 : parseInt(minSharePurchaseInput);
-        
-        const maxSharesPerOwnerInput = await prompt("Maximum shares per owner (default: no limit)");
-        const maxSharesPerOwner = maxSharesPerOwnerInput === "" ? totalShares : parseInt(maxSharesPerOwnerInput);
-        
-        const sellerSharesInput = await prompt("Shares retained by seller (default: 0)");
-        const sellerShares = sellerSharesInput === "" ? 0 : parseInt(sellerSharesInput);
-        
-        // Now enable partial ownership
-        console.log("\nEnabling partial ownership...");
-        
-        try {
-          const tx = await registry.enablePartialOwnership(
-            assetId,
-            totalShares,
-            sharePrice,
-            minSharePurchase,
-            maxSharesPerOwner,
-            sellerShares
-          );
-          await tx.wait();
-          console.log("Partial ownership enabled successfully!");
-        } catch (error) {
-          console.error("Failed to enable partial ownership:", error);
-        }
+      try {
+        await client.enableFractions(assetId, {
+          totalShares: BigInt(totalShares),
+          sharePrice,
+          minSharePurchase: BigInt(minSharePurchase),
+          maxSharesPerOwner: BigInt(maxSharesPerOwner),
+          sellerShares: BigInt(sellerShares)
+        });
+        console.log("Partial ownership enabled successfully!");
+      } catch (error) {
+        console.error("Failed to enable partial ownership:", describeError(error));
       }
-    } else {
-      console.log("\nAsset registered, but could not retrieve the asset ID from events");
     }
     
-  } catch (error: any) {
-    console.error("Error registering asset:", error, error?.stack);
+  } catch (error) {
+    console.error("Error registering asset:", describeError(error));
   }
   
   rl.close();
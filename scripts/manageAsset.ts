@@ -1,198 +1,42 @@
 import { ethers } from "hardhat";
-import * as readline from "readline";
-import { parseUnits, formatUnits, Signer, Contract } from "ethers";
-import { PropytoRegistry } from "../typechain-types";
+import { Signer } from "ethers";
 import chalk from "chalk";
 import Table from "cli-table3";
+import {
+  PropytoClient,
+  AssetDetails,
+  AssetStatus,
+  PartialOwnershipInfo,
+  PropytoAsset,
+  PropytoAssetMetadata,
+  PropytoAssetMedia,
+  formatPrice,
+  formatAssetType,
+  formatAssetStatus,
+  parsePrice,
+  describeError
+} from "../sdk";
+import { prompt, rl } from "./utils/prompt";
+import { syncIndex } from "./utils/indexer";
 import config from "./config.json";
 
-// Create an interface for reading user input
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
-
-// Prompt function that returns a promise
-const prompt = (question: string): Promise<string> => {
-  return new Promise((resolve) => {
-    rl.question(`${question}: `, (answer) => {
-      resolve(answer);
-    });
-  });
-};
-
-// ==================== Asset Type Definitions ====================
-
-// Enum mappings from the contract
-enum AssetType {
-  RESIDENTIAL = 0,
-  COMMERCIAL = 1,
-  LAND = 2,
-  OTHER = 3
-}
-
-enum AssetStatus {
-  FOR_SALE = 0,
-  FOR_RENT = 1,
-  SOLD = 2,
-  RENTED = 3,
-  DELISTED = 4,
-  OTHER = 5
-}
-
-enum AssetFurnishing {
-  UNFURNISHED = 0,
-  PARTIALLY_FURNISHED = 1,
-  FULLY_FURNISHED = 2,
-  OTHER = 3
-}
-
-enum AssetZone {
-  INDUSTRIAL = 0,
-  COMMERCIAL = 1,
-  RESIDENTIAL = 2,
-  LAND = 3,
-  OTHER = 4
-}
-
-// Define interfaces that match the contract structs
-interface IPropytoAsset {
-  name: string;
-  assetType: number;
-  assetAddress: string;
-  assetStatus: number;
-  assetFurnishing: number;
-  assetZone: number;
-  assetPrice: bigint;
-  assetArea: number;
-  assetAge: number;
-  assetOtherDetails: string;
-  isRentable: boolean;
-  isSellable: boolean;
-  isPartiallyOwnEnabled: boolean;
-  seller: string;
-  listingExpiry: bigint;
-}
-
-interface IPropytoAssetMetadata {
-  assetDescription: string;
-  assetFeatures: string;
-  assetAmenities: string;
-  assetLocation: string;
-}
-
-interface IPropytoAssetMedia {
-  assetImage: string;
-  assetVideo: string;
-  assetFloorPlan: string;
-}
-
-interface IAssetDetails {
-  asset: IPropytoAsset;
-  metadata: IPropytoAssetMetadata;
-  media: IPropytoAssetMedia;
-  otherDetails: Record<string, any>;
-}
-
-interface IAssetListItem extends IAssetDetails {
-  id: bigint;
-}
-
-interface IPartialOwnershipInfo {
-  totalShares: bigint;
-  availableShares: bigint;
-  sharePrice: bigint;
-  minSharePurchase: bigint;
-  maxSharesPerOwner: bigint;
-  owners: string[];
-  sharesByOwner: Record<string, bigint>; // Map of owner address to their share count
-}
-
 // ==================== Helper Functions ====================
 
-// Function to format a BigInt price to a readable string
-function formatPrice(priceWei: bigint): string {
-  return formatUnits(priceWei, 18);
-}
-
-// Format asset type for display
-function formatAssetType(type: number): string {
-  return AssetType[type] || "Unknown";
-}
-
-// Format asset status for display
-function formatAssetStatus(status: number): string {
-  return AssetStatus[status] || "Unknown";
-}
-
 // Get detailed asset information
-async function getAssetDetails(registry: PropytoRegistry, assetId: bigint): Promise<IAssetDetails | null> {
+async function getAssetDetails(client: PropytoClient, assetId: bigint): Promise<AssetDetails | null> {
   try {
-    // Fetch raw data from the blockchain
-    const assetRaw = await registry.assets(assetId);
-    const metadataRaw = await registry.assetMetadata(assetId);
-    const mediaRaw = await registry.assetMedia(assetId);
-    
-    // Map raw asset data to structured object (PropytoAsset struct)
-    const asset: IPropytoAsset = {
-      name: assetRaw.name,
-      assetType: Number(assetRaw.assetType),
-      assetAddress: assetRaw.assetAddress,
-      assetStatus: Number(assetRaw.assetStatus),
-      assetFurnishing: Number(assetRaw.assetFurnishing),
-      assetZone: Number(assetRaw.assetZone),
-      assetPrice: assetRaw.assetPrice,
-      assetArea: Number(assetRaw.assetArea),
-      assetAge: Number(assetRaw.assetAge),
-      assetOtherDetails: assetRaw.assetOtherDetails,
-      isRentable: assetRaw.isRentable,
-      isSellable: assetRaw.isSellable,
-      isPartiallyOwnEnabled: assetRaw.isPartiallyOwnEnabled,
-      seller: assetRaw.seller,
-      listingExpiry: assetRaw.listingExpiry
-    };
-    
-    // Map raw metadata to structured object (PropytoAssetMetadata struct)
-    const metadata: IPropytoAssetMetadata = {
-      assetDescription: metadataRaw.assetDescription,
-      assetFeatures: metadataRaw.assetFeatures,
-      assetAmenities: metadataRaw.assetAmenities,
-      assetLocation: metadataRaw.assetLocation
-    };
-    
-    // Map raw media data to structured object (PropytoAssetMedia struct)
-    const media: IPropytoAssetMedia = {
-      assetImage: mediaRaw.assetImage,
-      assetVideo: mediaRaw.assetVideo,
-      assetFloorPlan: mediaRaw.assetFloorPlan
-    };
-    
-    // Parse JSON other details if available
-    let otherDetails: Record<string, any> = {};
-    try {
-      otherDetails = JSON.parse(asset.assetOtherDetails);
-    } catch {
-      // If not valid JSON, use as is
-      otherDetails = { raw: asset.assetOtherDetails };
-    }
-    
-    return {
-      asset,
-      metadata,
-      media,
-      otherDetails
-    };
+    return await client.getAsset(assetId);
   } catch (error) {
-    console.error(`Error retrieving asset ${assetId} details:`, error);
+    console.error(`Error retrieving asset ${assetId} details:`, describeError(error));
     return null;
   }
 }
 
 // Display a single asset's full details
 function displayAssetDetails(
-  asset: IPropytoAsset, 
-  metadata: IPropytoAssetMetadata, 
-  media: IPropytoAssetMedia, 
+  asset: PropytoAsset, 
+  metadata: PropytoAssetMetadata, 
+  media: PropytoAssetMedia, 
   otherDetails: Record<string, any>
 ): void {
   console.log(chalk.bold("\n============================================"));
@@ -243,7 +87,7 @@ function displayAssetDetails(
 }
 
 // Display a list of assets in a table format
-function displayAssetsList(assets: Array<IAssetListItem>): void {
+function displayAssetsList(assets: Array<{ id: bigint; asset: PropytoAsset }>): void {
   if (assets.length === 0) {
     console.log(chalk.yellow("\nNo assets found."));
     return;
@@ -276,44 +120,15 @@ function displayAssetsList(assets: Array<IAssetListItem>): void {
   console.log(table.toString());
 }
 
-// Fetch and display partial ownership information for an asset
-async function getPartialOwnershipInfo(
-  registry: PropytoRegistry, 
-  assetId: bigint
-): Promise<IPartialOwnershipInfo | null> {
-  try {
-    // Get ownership information
-    // Note: This is a simplified version. In a real implementation, you'd need contract methods
-    // to get this information, as mapping data inside structs can't be directly accessed.
-    
-    // For now, we'll create a placeholder function until the contract provides this
-    const isPartialOwnershipEnabled = (await registry.assets(assetId)).isPartiallyOwnEnabled;
-    
-    if (!isPartialOwnershipEnabled) {
-      return null;
-    }
-    
-    // Placeholder for partial ownership data
-    // In a real implementation, you'd call contract methods to retrieve this data
-    return {
-      totalShares: 1000n,
-      availableShares: 500n,
-      sharePrice: (await registry.assets(assetId)).assetPrice / 1000n,
-      minSharePurchase: 1n,
-      maxSharesPerOwner: 200n,
-      owners: [(await registry.assets(assetId)).seller],
-      sharesByOwner: {
-        [(await registry.assets(assetId)).seller]: 500n
-      }
-    };
-  } catch (error) {
-    console.error(`Error retrieving partial ownership data for asset ${assetId}:`, error);
-    return null;
-  }
-}
+// Rows of the cap table shown per page
+const CAP_TABLE_PAGE_SIZE = 20n;
 
-// Display partial ownership information
-function displayPartialOwnershipInfo(ownershipInfo: IPartialOwnershipInfo): void {
+// Display partial ownership information, paging through the cap table
+async function displayPartialOwnershipInfo(
+  client: PropytoClient,
+  assetId: bigint,
+  ownershipInfo: PartialOwnershipInfo
+): Promise<void> {
   console.log(chalk.bold("\n🔄 Partial Ownership Information:"));
   console.log(`Total Shares: ${ownershipInfo.totalShares.toString()}`);
   console.log(`Available Shares: ${ownershipInfo.availableShares.toString()}`);
@@ -321,10 +136,13 @@ function displayPartialOwnershipInfo(ownershipInfo: IPartialOwnershipInfo): void
   console.log(`Minimum Purchase: ${ownershipInfo.minSharePurchase.toString()} shares`);
   console.log(`Maximum Per Owner: ${ownershipInfo.maxSharesPerOwner.toString()} shares`);
   
-  console.log(chalk.bold("\n👥 Current Owners:"));
-  if (ownershipInfo.owners.length === 0) {
+  console.log(chalk.bold(`\n👥 Current Owners (${ownershipInfo.ownerCount}):`));
+  if (ownershipInfo.ownerCount === 0n) {
     console.log("No owners yet");
-  } else {
+    return;
+  }
+
+  for (let offset = 0n; offset < ownershipInfo.ownerCount; offset += CAP_TABLE_PAGE_SIZE) {
     const ownerTable = new Table({
       head: [
         chalk.cyan('Owner Address'),
@@ -334,8 +152,8 @@ function displayPartialOwnershipInfo(ownershipInfo: IPartialOwnershipInfo): void
       colWidths: [45, 15, 15]
     });
     
-    ownershipInfo.owners.forEach(owner => {
-      const shares = ownershipInfo.sharesByOwner[owner] || 0n;
+    const capTable = await client.getCapTable(assetId, offset, CAP_TABLE_PAGE_SIZE);
+    capTable.forEach(({ owner, shares }) => {
       const percentage = Number(shares * 10000n / ownershipInfo.totalShares) / 100;
       
       // Using any to avoid type mismatches with cli-table3
@@ -347,6 +165,14 @@ function displayPartialOwnershipInfo(ownershipInfo: IPartialOwnershipInfo): void
     });
     
     console.log(ownerTable.toString());
+
+    const shown = offset + BigInt(capTable.length);
+    if (shown < ownershipInfo.ownerCount) {
+      const more = await prompt(`Showing ${shown} of ${ownershipInfo.ownerCount} owners. Show more? (yes/no)`);
+      if (more.toLowerCase() !== "yes") {
+        break;
+      }
+    }
   }
 }
 
@@ -368,12 +194,12 @@ async function displayMenu(): Promise<string> {
 
 // Update asset price
 async function updateAssetPrice(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
@@ -388,7 +214,7 @@ async function updateAssetPrice(
       return false;
     }
     
-    const newPrice = parseUnits(newPriceInput, 18);
+    const newPrice = parsePrice(newPriceInput);
     
     const confirmUpdate = await prompt(chalk.yellow(`Confirm price update from ${formatPrice(currentPrice)} to ${formatPrice(newPrice)}? (yes/no)`));
     if (confirmUpdate.toLowerCase() !== "yes") {
@@ -397,25 +223,24 @@ async function updateAssetPrice(
     }
     
     console.log("Updating asset price...");
-    const tx = await registry.updateAssetPrice(assetId, newPrice);
-    await tx.wait();
+    await client.updatePrice(assetId, newPrice);
     
     console.log(chalk.green("\n✅ Asset price updated successfully!"));
     return true;
   } catch (error) {
-    console.error("Error updating asset price:", error);
+    console.error("Error updating asset price:", describeError(error));
     return false;
   }
 }
 
 // Update asset status
 async function updateAssetStatus(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
@@ -427,7 +252,6 @@ async function updateAssetStatus(
     console.log("\nSelect new status:");
     console.log("0 - FOR_SALE");
     console.log("1 - FOR_RENT");
-    console.log("2 - SOLD");
     console.log("3 - RENTED");
     console.log("4 - DELISTED");
     console.log("5 - OTHER");
@@ -439,7 +263,8 @@ async function updateAssetStatus(
     }
     
     const newStatus = parseInt(newStatusInput);
-    if (isNaN(newStatus) || newStatus < 0 || newStatus > 5) {
+    // SOLD is only set by purchases
+    if (isNaN(newStatus) || newStatus < 0 || newStatus > 5 || newStatus === AssetStatus.SOLD) {
       console.log(chalk.red("Invalid status selection."));
       return false;
     }
@@ -451,25 +276,24 @@ async function updateAssetStatus(
     }
     
     console.log("Updating asset status...");
-    const tx = await (registry as any).updateAssetStatus(assetId, newStatus);
-    await tx.wait();
+    await client.updateStatus(assetId, newStatus);
     
     console.log(chalk.green("\n✅ Asset status updated successfully!"));
     return true;
   } catch (error) {
-    console.error("Error updating asset status:", error);
+    console.error("Error updating asset status:", describeError(error));
     return false;
   }
 }
 
 // Update asset metadata
 async function updateAssetMetadata(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
@@ -510,25 +334,24 @@ async function updateAssetMetadata(
     }
     
     console.log("Updating asset metadata...");
-    const tx = await (registry as any).updateAssetMetadata(assetId, newMetadata);
-    await tx.wait();
+    await client.updateMetadata(assetId, newMetadata);
     
     console.log(chalk.green("\n✅ Asset metadata updated successfully!"));
     return true;
   } catch (error) {
-    console.error("Error updating asset metadata:", error);
+    console.error("Error updating asset metadata:", describeError(error));
     return false;
   }
 }
 
 // Update asset media
 async function updateAssetMedia(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
@@ -567,25 +390,24 @@ async function updateAssetMedia(
     }
     
     console.log("Updating asset media...");
-    const tx = await (registry as any).updateAssetMedia(assetId, newMedia);
-    await tx.wait();
+    await client.updateMedia(assetId, newMedia);
     
     console.log(chalk.green("\n✅ Asset media updated successfully!"));
     return true;
   } catch (error) {
-    console.error("Error updating asset media:", error);
+    console.error("Error updating asset media:", describeError(error));
     return false;
   }
 }
 
 // Transfer asset ownership
 async function transferAssetOwnership(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
@@ -607,35 +429,39 @@ async function transferAssetOwnership(
     }
     
     console.log("Transferring asset ownership...");
-    const tx = await (registry as any).transferAssetOwnership(assetId, newOwnerAddress);
-    await tx.wait();
+    await client.transferSellership(assetId, newOwnerAddress);
     
     console.log(chalk.green("\n✅ Asset ownership transferred successfully!"));
     return true;
   } catch (error) {
-    console.error("Error transferring asset ownership:", error);
+    console.error("Error transferring asset ownership:", describeError(error));
     return false;
   }
 }
 
 // Manage partial ownership
 async function managePartialOwnership(
-  registry: PropytoRegistry,
+  client: PropytoClient,
   assetId: bigint,
   owner: Signer
 ): Promise<boolean> {
   try {
-    const assetDetails = await getAssetDetails(registry, assetId);
+    const assetDetails = await getAssetDetails(client, assetId);
     if (!assetDetails) {
       console.log(chalk.red("Asset not found."));
       return false;
     }
 
-    // Check if partial ownership is already enabled
-    const isPartiallyOwnable = assetDetails.asset.isPartiallyOwnEnabled;
+    // Partial ownership can only be set up on assets listed as partially ownable
+    if (!assetDetails.asset.isPartiallyOwnEnabled) {
+      console.log(chalk.yellow("This asset was not listed as partially ownable."));
+      return false;
+    }
+
+    const ownershipInfo = assetDetails.ownership.partialOwnership;
     
-    // If not enabled, prompt to enable it
-    if (!isPartiallyOwnable) {
+    // If not initialized yet, prompt to enable it
+    if (!ownershipInfo.isInitialized) {
       console.log(chalk.yellow("Partial ownership is not enabled for this asset."));
       const enablePartial = await prompt("Would you like to enable partial ownership? (yes/no)");
       if (enablePartial.toLowerCase() !== "yes") {
@@ -652,7 +478,7 @@ async function managePartialOwnership(
       const defaultSharePrice = assetDetails.asset.assetPrice / BigInt(totalShares);
       const sharePrice = sharePriceInput.trim() === "" ? 
         defaultSharePrice : 
-        parseUnits(sharePriceInput, 18);
+        parsePrice(sharePriceInput);
       
       const minSharePurchaseInput = await prompt("Minimum shares per purchase (default: 1)");
       const minSharePurchase = minSharePurchaseInput.trim() === "" ? 1 : parseInt(minSharePurchaseInput);
@@ -678,30 +504,21 @@ async function managePartialOwnership(
       }
       
       console.log("Enabling partial ownership...");
-      const tx = await registry.enablePartialOwnership(
-        assetId,
-        totalShares,
+      await client.enableFractions(assetId, {
+        totalShares: BigInt(totalShares),
         sharePrice,
-        minSharePurchase,
-        maxSharesPerOwner,
-        sellerShares
-      );
-      await tx.wait();
+        minSharePurchase: BigInt(minSharePurchase),
+        maxSharesPerOwner: BigInt(maxSharesPerOwner),
+        sellerShares: BigInt(sellerShares)
+      });
       
       console.log(chalk.green("\n✅ Partial ownership enabled successfully!"));
       return true;
     } 
     // If already enabled, display and manage it
     else {
-      // Get ownership info
-      const ownershipInfo = await getPartialOwnershipInfo(registry, assetId);
-      if (!ownershipInfo) {
-        console.log(chalk.red("Error retrieving partial ownership data."));
-        return false;
-      }
-      
       // Display ownership info
-      displayPartialOwnershipInfo(ownershipInfo);
+      await displayPartialOwnershipInfo(client, assetId, ownershipInfo);
       
       // Offer management options
       console.log(chalk.cyan("\n--- Partial Ownership Management ---"));
@@ -727,7 +544,7 @@ async function managePartialOwnership(
       }
     }
   } catch (error) {
-    console.error("Error managing partial ownership:", error);
+    console.error("Error managing partial ownership:", describeError(error));
     return false;
   }
 }
@@ -742,9 +559,7 @@ async function main() {
     // Get the registry contract address
     // const registryAddress = await prompt("Enter the PropytoRegistry contract address");
     
-    // Get the PropytoRegistry contract
-    const PropytoRegistryFactory = await ethers.getContractFactory("PropytoRegistry");
-    const registry = (await PropytoRegistryFactory.attach(config.registryAddress)) as PropytoRegistry;
+    const client = new PropytoClient(config.registryAddress, owner);
     
     console.log(chalk.green("\n🏢 Welcome to the Propyto Asset Management Portal! 🏢"));
     
@@ -756,21 +571,9 @@ async function main() {
         case "1": { // View my assets
           console.log(chalk.cyan("\nFetching your assets..."));
           
-          // Get total asset count
-          const assetCount = await registry.assetCount();
-          const ownerAssets: IAssetListItem[] = [];
-          const ownerAddress = await owner.getAddress();
-          
-          // Fetch owner's assets
-          for (let i = 0n; i < assetCount; i++) {
-            const assetDetails = await getAssetDetails(registry, i);
-            if (assetDetails && assetDetails.asset.seller.toLowerCase() === ownerAddress.toLowerCase()) {
-              ownerAssets.push({
-                id: i,
-                ...assetDetails
-              });
-            }
-          }
+          // Query the local index for owner's assets
+          const index = await syncIndex(client);
+          const ownerAssets = index.getSellerAssets(await owner.getAddress());
           
           // Display assets
           if (ownerAssets.length === 0) {
@@ -789,7 +592,7 @@ async function main() {
             const assetId = BigInt(assetIdInput);
             
             // Verify ownership
-            const assetDetails = await getAssetDetails(registry, assetId);
+            const assetDetails = await getAssetDetails(client, assetId);
             const ownerAddress = await owner.getAddress();
             
             if (!assetDetails) {
@@ -822,16 +625,16 @@ async function main() {
             
             switch (updateChoice) {
               case "1": 
-                await updateAssetPrice(registry, assetId, owner);
+                await updateAssetPrice(client, assetId, owner);
                 break;
               case "2": 
-                await updateAssetStatus(registry, assetId, owner);
+                await updateAssetStatus(client, assetId, owner);
                 break;
               case "3": 
-                await updateAssetMetadata(registry, assetId, owner);
+                await updateAssetMetadata(client, assetId, owner);
                 break;
               case "4": 
-                await updateAssetMedia(registry, assetId, owner);
+                await updateAssetMedia(client, assetId, owner);
                 break;
               default:
                 console.log("Returning to main menu.");
@@ -848,7 +651,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await updateAssetPrice(registry, assetId, owner);
+            await updateAssetPrice(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -860,7 +663,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await updateAssetStatus(registry, assetId, owner);
+            await updateAssetStatus(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -872,7 +675,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await updateAssetMetadata(registry, assetId, owner);
+            await updateAssetMetadata(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -884,7 +687,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await updateAssetMedia(registry, assetId, owner);
+            await updateAssetMedia(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -896,7 +699,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await managePartialOwnership(registry, assetId, owner);
+            await managePartialOwnership(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -908,7 +711,7 @@ async function main() {
           
           try {
             const assetId = BigInt(assetIdInput);
-            await transferAssetOwnership(registry, assetId, owner);
+            await transferAssetOwnership(client, assetId, owner);
           } catch (error) {
             console.log(chalk.red("Invalid asset ID. Please enter a valid number."));
           }
@@ -931,7 +734,7 @@ async function main() {
     
     rl.close();
   } catch (error) {
-    console.error("Error in main process:", error);
+    console.error("Error in main process:", describeError(error));
     rl.close();
     process.exit(1);
   }
@@ -0,0 +1,55 @@
+import { ethers, upgrades } from "hardhat";
+import fs from "fs";
+import config from "./config.json";
+
+// Move an existing deployment from the single registry owner to role-based access control:
+// 1. upgrade the registry proxy (the new `accessManager` slot is appended to its storage)
+// 2. upgrade the compliance module, which now also accepts compliance officers
+// 3. deploy a PropytoAccessManager with the registry owner holding every role
+// 4. connect it to the registry; until then the owner keeps holding every role
+// Safe to re-run: steps already done are skipped.
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const deployment: Record<string, unknown> = { ...config };
+  const registryAddress = config.registryAddress;
+
+  console.log(`Migrating the registry at ${registryAddress} to role-based access control`);
+  const owner = await (await ethers.getContractAt("PropytoRegistry", registryAddress)).owner();
+  if (owner !== signer.address) {
+    throw new Error(`Run the migration from the registry owner ${owner}, not ${signer.address}`);
+  }
+
+  const PropytoRegistry = await ethers.getContractFactory("PropytoRegistry");
+  const registry = await upgrades.upgradeProxy(registryAddress, PropytoRegistry);
+  console.log("PropytoRegistry upgraded");
+
+  if (deployment.complianceAddress) {
+    const PropytoCompliance = await ethers.getContractFactory("PropytoCompliance");
+    await upgrades.upgradeProxy(deployment.complianceAddress as string, PropytoCompliance);
+    console.log("PropytoCompliance upgraded");
+  }
+
+  let accessManagerAddress = await registry.accessManager();
+  if (accessManagerAddress !== ethers.ZeroAddress) {
+    console.log(`The registry already uses the access manager at ${accessManagerAddress}`);
+  } else {
+    const PropytoAccessManager = await ethers.getContractFactory("PropytoAccessManager");
+    const accessManager = await upgrades.deployProxy(PropytoAccessManager, [owner]);
+    accessManagerAddress = accessManager.target as string;
+    console.log(`PropytoAccessManager deployed to: ${accessManagerAddress}`);
+
+    await (await registry.connect(signer).updateAccessManager(accessManagerAddress)).wait();
+    console.log(`Roles handed over to the access manager; ${owner} holds every role`);
+  }
+
+  deployment.accessManagerAddress = accessManagerAddress;
+  fs.writeFileSync("./scripts/config.json", JSON.stringify(deployment, null, 2));
+  console.log("Grant the roles to their holders with `npx hardhat roles grant`, then revoke the ones the owner should not keep.");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -15,7 +15,7 @@ async function main() {
   console.log(`MockUSDT deployed to: ${usdt.target}`);
 
   const amount = "1000"
-  const txn = await usdt.transfer(deployer.address, ethers.parseEther(amount));
+  const txn = await usdt.transfer(deployer.address, ethers.parseUnits(amount, await usdt.decimals()));
   await txn.wait();
   console.log(`Transferred ${amount} USDT to ${deployer.address}`);
 }
@@ -0,0 +1,47 @@
+import { ethers, upgrades } from "hardhat";
+import fs from "fs";
+import config from "./config.json";
+
+// Upgrade a registry deployed before the SFT factory (initialized with the USDT token only) in place:
+// 1. upgrade the registry proxy; the new state variables are appended to its storage
+// 2. deploy a PropytoSFTFactory and call initializeV2, which sets it and accepts the USDT token as a payment token
+// Run it before scripts/migrateRoles.ts. Safe to re-run: steps already done are skipped.
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const deployment: Record<string, unknown> = { ...config };
+  const registryAddress = config.registryAddress;
+
+  console.log(`Upgrading the registry at ${registryAddress}`);
+  const owner = await (await ethers.getContractAt("PropytoRegistry", registryAddress)).owner();
+  if (owner !== signer.address) {
+    throw new Error(`Run the upgrade from the registry owner ${owner}, not ${signer.address}`);
+  }
+
+  const PropytoRegistry = await ethers.getContractFactory("PropytoRegistry");
+  const registry = await upgrades.upgradeProxy(registryAddress, PropytoRegistry);
+  console.log("PropytoRegistry upgraded");
+
+  let sftFactoryAddress = await registry.sftFactory();
+  if (sftFactoryAddress !== ethers.ZeroAddress) {
+    console.log(`The registry already uses the SFT factory at ${sftFactoryAddress}`);
+  } else {
+    const sftFactory = await ethers.deployContract("PropytoSFTFactory");
+    sftFactoryAddress = sftFactory.target as string;
+    console.log(`PropytoSFTFactory deployed to: ${sftFactoryAddress}`);
+
+    // Not passed to upgradeProxy: that call would come from the proxy admin, which holds no registry role
+    await (await registry.connect(signer).initializeV2(sftFactoryAddress)).wait();
+    console.log("Registry initialized for the SFT factory and payment tokens");
+  }
+
+  deployment.sftFactoryAddress = sftFactoryAddress;
+  fs.writeFileSync("./scripts/config.json", JSON.stringify(deployment, null, 2));
+  console.log("Next, run scripts/migrateRoles.ts to hand the registry's roles to an access manager.");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
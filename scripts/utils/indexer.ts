@@ -0,0 +1,17 @@
+import { PropytoClient } from "../../sdk";
+import { defaultIndexPath, JsonFileStore, PropytoIndex, PropytoIndexer } from "../../indexer";
+import { DeploymentConfig, requireDeploymentBlock } from "../../tasks/utils";
+import config from "../config.json";
+
+const deployment: DeploymentConfig = config;
+
+// Bring the local index up to date and return it, so listings are not read asset by asset
+export async function syncIndex(client: PropytoClient): Promise<PropytoIndex> {
+  const { chainId } = await client.runner.provider!.getNetwork();
+  const indexer = new PropytoIndexer(client, new JsonFileStore(defaultIndexPath(chainId)), {
+    startBlock: requireDeploymentBlock(deployment)
+  });
+
+  await indexer.sync();
+  return indexer.getIndex();
+}
@@ -0,0 +1,16 @@
+import * as readline from "readline";
+
+// Create an interface for reading user input
+export const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout
+});
+
+// Prompt function that returns a promise
+export const prompt = (question: string): Promise<string> => {
+  return new Promise((resolve) => {
+    rl.question(`${question}: `, (answer) => {
+      resolve(answer);
+    });
+  });
+};
@@ -0,0 +1,1600 @@
+import {
+  Addressable,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Provider,
+  Signature,
+  Signer,
+  TransactionReceipt,
+  TypedDataEncoder,
+  ZeroAddress
+} from "ethers";
+import {
+  IERC20,
+  IERC20__factory,
+  IERC20Metadata__factory,
+  IERC20Permit__factory,
+  PropytoAccessManager,
+  PropytoAccessManager__factory,
+  PropytoAuctions,
+  PropytoAuctions__factory,
+  PropytoCompliance,
+  PropytoCompliance__factory,
+  PropytoMetadataRenderer,
+  PropytoMetadataRenderer__factory,
+  PropytoRegistry,
+  PropytoRegistry__factory,
+  PropytoSFT,
+  PropytoSFT__factory,
+  PropytoCrowdfunding,
+  PropytoCrowdfunding__factory,
+  PropytoDividends,
+  PropytoDividends__factory,
+  PropytoEscrow,
+  PropytoEscrow__factory,
+  PropytoGovernance,
+  PropytoGovernance__factory,
+  PropytoModeration,
+  PropytoModeration__factory,
+  PropytoOffers,
+  PropytoOffers__factory,
+  PropytoRentals,
+  PropytoRentals__factory,
+  PropytoShareMarket,
+  PropytoShareMarket__factory
+} from "../typechain-types";
+import { decodeError, PropytoError } from "./errors";
+import { decodeJurisdiction, encodeJurisdiction, parseOtherDetails, roleId } from "./format";
+import {
+  AssetDetails,
+  AssetOwnership,
+  AssetStatus,
+  Auction,
+  CapTableEntry,
+  ComplianceRules,
+  DividendBalance,
+  DutchAuctionParams,
+  EnglishAuctionParams,
+  Escrow,
+  FundingCaps,
+  FundingContribution,
+  FundingGoal,
+  GovernanceConfig,
+  InvestorRecord,
+  KycStatus,
+  Lease,
+  ListingReview,
+  NewAsset,
+  Offer,
+  PartialOwnershipInfo,
+  PartialOwnershipParams,
+  PaymentToken,
+  PermitSignature,
+  PropytoAsset,
+  PropytoAssetMedia,
+  PropytoAssetMetadata,
+  Proposal,
+  ProposalType,
+  PropytoRentData,
+  PropytoRole,
+  PurchaseLimits,
+  PurchaseQuote,
+  RejectionReason,
+  RoleHolders,
+  SellOrder,
+  SellOrderFilter,
+  TokenMetadata
+} from "./types";
+
+// Cap table rows fetched per getCapTable call
+const CAP_TABLE_PAGE_SIZE = 100n;
+
+// Seconds a purchase built from a quote stays valid
+const DEFAULT_PURCHASE_WINDOW = 600n;
+
+export interface ListAssetResult {
+  assetId: bigint;
+  sftAddress: string;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface StartLeaseResult {
+  leaseId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface CreateProposalResult {
+  proposalId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface SnapshotResult {
+  snapshotId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface EscrowDepositResult {
+  escrowId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface PlaceOfferResult {
+  offerId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface AcceptOfferResult {
+  escrowId: bigint | null; // escrow holding an accepted whole-asset offer until the seller confirms the sale
+  receipt: ContractTransactionReceipt;
+}
+
+export interface StartAuctionResult {
+  auctionId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface ListSharesResult {
+  orderId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * Typed client for the PropytoRegistry and the per-asset PropytoSFT contracts.
+ *
+ * Reads work with any provider; transactions require the runner to be a Signer.
+ */
+export class PropytoClient {
+  readonly registry: PropytoRegistry;
+
+  constructor(registryAddress: string, readonly runner: ContractRunner) {
+    this.registry = PropytoRegistry__factory.connect(registryAddress, runner);
+  }
+
+  // ==================== Reads ====================
+
+  async getAssetCount(): Promise<bigint> {
+    return this.registry.assetCount();
+  }
+
+  async getAsset(assetId: bigint): Promise<AssetDetails> {
+    const [assetRaw, metadataRaw, mediaRaw, rentRaw] = await Promise.all([
+      this.registry.assets(assetId),
+      this.registry.assetMetadata(assetId),
+      this.registry.assetMedia(assetId),
+      this.registry.assetRentData(assetId)
+    ]);
+
+    const asset: PropytoAsset = {
+      name: assetRaw.name,
+      assetType: Number(assetRaw.assetType),
+      assetAddress: assetRaw.assetAddress,
+      assetStatus: Number(assetRaw.assetStatus),
+      assetFurnishing: Number(assetRaw.assetFurnishing),
+      assetZone: Number(assetRaw.assetZone),
+      assetPrice: assetRaw.assetPrice,
+      assetArea: assetRaw.assetArea,
+      assetAge: assetRaw.assetAge,
+      assetOtherDetails: assetRaw.assetOtherDetails,
+      isRentable: assetRaw.isRentable,
+      isSellable: assetRaw.isSellable,
+      isPartiallyOwnEnabled: assetRaw.isPartiallyOwnEnabled,
+      seller: assetRaw.seller,
+      listingExpiry: assetRaw.listingExpiry
+    };
+
+    const metadata: PropytoAssetMetadata = {
+      assetDescription: metadataRaw.assetDescription,
+      assetFeatures: metadataRaw.assetFeatures,
+      assetAmenities: metadataRaw.assetAmenities,
+      assetLocation: metadataRaw.assetLocation
+    };
+
+    const media: PropytoAssetMedia = {
+      assetImage: mediaRaw.assetImage,
+      assetVideo: mediaRaw.assetVideo,
+      assetFloorPlan: mediaRaw.assetFloorPlan
+    };
+
+    const rentData: PropytoRentData = {
+      rentPrice: rentRaw.rentPrice,
+      rentDeposit: rentRaw.rentDeposit,
+      rentPeriod: rentRaw.rentPeriod,
+      rentSecurityDeposit: rentRaw.rentSecurityDeposit
+    };
+
+    return {
+      id: assetId,
+      asset,
+      metadata,
+      media,
+      rentData,
+      ownership: await this.getOwnership(assetId),
+      otherDetails: parseOtherDetails(asset.assetOtherDetails)
+    };
+  }
+
+  // Fetch every registered asset, optionally filtered
+  async getAssets(filter?: (details: AssetDetails) => boolean): Promise<AssetDetails[]> {
+    const assetCount = await this.getAssetCount();
+    const assets: AssetDetails[] = [];
+
+    for (let i = 0n; i < assetCount; i++) {
+      const details = await this.getAsset(i);
+      if (!filter || filter(details)) {
+        assets.push(details);
+      }
+    }
+
+    return assets;
+  }
+
+  async getSellerAssets(seller: string): Promise<AssetDetails[]> {
+    const assetIds = await this.registry.getSellerAssets(seller);
+    return Promise.all(assetIds.map((assetId) => this.getAsset(assetId)));
+  }
+
+  async getOwnership(assetId: bigint): Promise<AssetOwnership> {
+    const [sftAddress, partialOwnership] = await Promise.all([
+      this.registry.propytosftAddress(assetId),
+      this.getPartialOwnership(assetId)
+    ]);
+
+    const owners: string[] = [];
+    const sharesByOwner: Record<string, bigint> = {};
+    for (let offset = 0n; offset < partialOwnership.ownerCount; offset += CAP_TABLE_PAGE_SIZE) {
+      for (const { owner, shares } of await this.getCapTable(assetId, offset, CAP_TABLE_PAGE_SIZE)) {
+        owners.push(owner);
+        sharesByOwner[owner] = shares;
+      }
+    }
+
+    return {
+      sftAddress,
+      tokenId: await this.getSFT(sftAddress).getTokenId(assetId),
+      partialOwnership,
+      owners,
+      sharesByOwner
+    };
+  }
+
+  async getPartialOwnership(assetId: bigint): Promise<PartialOwnershipInfo> {
+    const info = await this.registry.getPartialOwnership(assetId);
+    return {
+      totalShares: info.totalShares,
+      availableShares: info.availableShares,
+      sharePrice: info.sharePrice,
+      minSharePurchase: info.minSharePurchase,
+      maxSharesPerOwner: info.maxSharesPerOwner,
+      ownerCount: info.ownerCount,
+      isInitialized: info.isInitialized
+    };
+  }
+
+  // One page of the cap table, in the order owners joined (an owner who sold out is replaced by the last one)
+  async getCapTable(assetId: bigint, offset = 0n, limit = CAP_TABLE_PAGE_SIZE): Promise<CapTableEntry[]> {
+    const [owners, shares] = await this.registry.getCapTable(assetId, offset, limit);
+    return owners.map((owner, i) => ({ owner, shares: shares[i] }));
+  }
+
+  async getSharePrice(assetId: bigint): Promise<bigint> {
+    const { isInitialized, sharePrice } = await this.getPartialOwnership(assetId);
+    if (!isInitialized) {
+      throw new Error(`Partial ownership is not initialized for asset ${assetId}`);
+    }
+    return sharePrice;
+  }
+
+  // Exact amount deposited in escrow to buy the whole asset; reverts like the deposit would
+  async quoteWhole(assetId: bigint): Promise<PurchaseQuote> {
+    return this.quote(assetId, 0n, true);
+  }
+
+  // Exact cost of buying `shareCount` shares in `paymentToken` (the default one if omitted); reverts like the purchase would
+  async quoteShares(assetId: bigint, shareCount: bigint, paymentToken?: string): Promise<PurchaseQuote> {
+    return this.quote(assetId, shareCount, false, paymentToken);
+  }
+
+  private async quote(assetId: bigint, shareCount: bigint, isBuyAsset: boolean, paymentToken?: string): Promise<PurchaseQuote> {
+    paymentToken ??= await this.registry.usdtToken();
+    try {
+      const quote = await this.registry.quotePurchase(assetId, shareCount, isBuyAsset, paymentToken);
+      return {
+        totalPrice: quote.totalPrice,
+        platformFee: quote.platformFee,
+        sellerAmount: quote.sellerAmount,
+        availableShares: quote.availableShares
+      };
+    } catch (error) {
+      throw this.decodeError(error);
+    }
+  }
+
+  // Limits that only accept the quoted price, valid for `validFor` seconds of chain time
+  async purchaseLimits(quote: PurchaseQuote, validFor = DEFAULT_PURCHASE_WINDOW): Promise<PurchaseLimits> {
+    return { maxTotalPrice: quote.totalPrice, deadline: (await this.latestTimestamp()) + validFor };
+  }
+
+  getSFT(sftAddress: string): PropytoSFT {
+    return PropytoSFT__factory.connect(sftAddress, this.runner);
+  }
+
+  // The metadata URI served by the asset's SFT: a base64 JSON data URI while the registry has a
+  // metadata renderer (see decodeTokenURI), the off-chain metadata URL otherwise
+  async getTokenURI(assetId: bigint): Promise<string> {
+    const sft = this.getSFT(await this.registry.propytosftAddress(assetId));
+    const tokenId = await sft.getTokenId(assetId);
+    if (tokenId === 0n) {
+      throw new Error(`Asset ${assetId} is not tokenized yet, no shares were minted`);
+    }
+    return sft.uri(tokenId);
+  }
+
+  // The default payment token, or `token`
+  async getPaymentToken(token?: string): Promise<IERC20> {
+    return IERC20__factory.connect(token ?? (await this.registry.usdtToken()), this.runner);
+  }
+
+  async getPaymentTokenDecimals(token?: string): Promise<number> {
+    const metadata = IERC20Metadata__factory.connect(token ?? (await this.registry.usdtToken()), this.runner);
+    return Number(await metadata.decimals());
+  }
+
+  // The default payment token, or `token`, with its symbol and decimals
+  async getPaymentTokenInfo(token?: string): Promise<PaymentToken> {
+    const defaultToken = await this.registry.usdtToken();
+    const metadata = IERC20Metadata__factory.connect(token ?? defaultToken, this.runner);
+    const [address, symbol, decimals] = await Promise.all([metadata.getAddress(), metadata.symbol(), metadata.decimals()]);
+    return { address, symbol, decimals: Number(decimals), isDefault: address === defaultToken };
+  }
+
+  // Tokens currently accepted for share purchases, the default one included
+  async getPaymentTokens(): Promise<PaymentToken[]> {
+    const addresses = await this.registry.getPaymentTokens();
+    const units = await Promise.all(addresses.map((address) => this.registry.paymentTokenUnit(address)));
+    return Promise.all(addresses.filter((_, i) => units[i] > 0n).map((address) => this.getPaymentTokenInfo(address)));
+  }
+
+  // Convert a registry price (18 decimals) to what is paid in `token`, the default payment token if omitted
+  async toTokenAmount(price: bigint, token?: string): Promise<bigint> {
+    return this.registry.toTokenAmount(token ?? (await this.registry.usdtToken()), price);
+  }
+
+  // The secondary share market the registry records transfers from
+  async getShareMarket(): Promise<PropytoShareMarket> {
+    const marketAddress = await this.registry.shareMarket();
+    if (marketAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no share market configured");
+    }
+    return PropytoShareMarket__factory.connect(marketAddress, this.runner);
+  }
+
+  async getSellOrder(orderId: bigint): Promise<SellOrder> {
+    const market = await this.getShareMarket();
+    const order = await market.orders(orderId);
+    return {
+      id: orderId,
+      assetId: order.assetId,
+      seller: order.seller,
+      pricePerShare: order.pricePerShare,
+      remainingShares: order.remainingShares,
+      isActive: order.isActive,
+      paymentToken: order.paymentToken
+    };
+  }
+
+  // Sell orders of one asset (or all assets), oldest first
+  async getSellOrders(filter: SellOrderFilter = {}): Promise<SellOrder[]> {
+    const market = await this.getShareMarket();
+    let orderIds: bigint[];
+    if (filter.assetId !== undefined) {
+      orderIds = [...(await market.getAssetOrderIds(filter.assetId))];
+    } else {
+      const orderCount = await market.orderCount();
+      orderIds = [];
+      for (let i = 0n; i < orderCount; i++) {
+        orderIds.push(i);
+      }
+    }
+
+    const orders = await Promise.all(orderIds.map((orderId) => this.getSellOrder(orderId)));
+    return orders.filter(
+      (order) =>
+        (!filter.activeOnly || order.isActive) &&
+        (!filter.seller || order.seller.toLowerCase() === filter.seller.toLowerCase())
+    );
+  }
+
+  // The rental manager that runs leases and moves assets between FOR_RENT and RENTED
+  async getRentals(): Promise<PropytoRentals> {
+    const rentalsAddress = await this.registry.rentalManager();
+    if (rentalsAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no rental manager configured");
+    }
+    return PropytoRentals__factory.connect(rentalsAddress, this.runner);
+  }
+
+  async getLease(leaseId: bigint): Promise<Lease> {
+    const rentals = await this.getRentals();
+    const [lease, isOverdue] = await Promise.all([rentals.leases(leaseId), rentals.isOverdue(leaseId)]);
+    if (lease.tenant === ZeroAddress) {
+      throw new Error(`Lease ${leaseId} does not exist`);
+    }
+    return {
+      id: leaseId,
+      assetId: lease.assetId,
+      tenant: lease.tenant,
+      landlord: lease.landlord,
+      rentPrice: lease.rentPrice,
+      periodLength: lease.periodLength,
+      deposit: lease.deposit,
+      startTime: lease.startTime,
+      endTime: lease.endTime,
+      paidUntil: lease.paidUntil,
+      missedPayments: lease.missedPayments,
+      lastFlaggedAt: lease.lastFlaggedAt,
+      closedAt: lease.closedAt,
+      status: Number(lease.status),
+      depositSettled: lease.depositSettled,
+      paymentToken: lease.paymentToken,
+      isOverdue
+    };
+  }
+
+  // Leases of an asset, oldest first
+  async getAssetLeases(assetId: bigint): Promise<Lease[]> {
+    const rentals = await this.getRentals();
+    const leaseIds = await rentals.getAssetLeaseIds(assetId);
+    return Promise.all(leaseIds.map((leaseId) => this.getLease(leaseId)));
+  }
+
+  // The distributor that pays rental income and other deposits to share holders
+  async getDividends(): Promise<PropytoDividends> {
+    const dividendsAddress = await this.registry.dividendDistributor();
+    if (dividendsAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no dividend distributor configured");
+    }
+    return PropytoDividends__factory.connect(dividendsAddress, this.runner);
+  }
+
+  // Token the asset's dividends are paid in: the default payment token when they were first deposited
+  async getDividendToken(assetId: bigint): Promise<string> {
+    const dividends = await this.getDividends();
+    return dividends.paymentToken(assetId);
+  }
+
+  async getDividendBalance(assetId: bigint, holder: string): Promise<DividendBalance> {
+    const dividends = await this.getDividends();
+    const [shares, claimable, claimed] = await Promise.all([
+      this.registry.getSharesOwned(assetId, holder),
+      dividends.claimableDividends(assetId, holder),
+      dividends.claimedDividends(assetId, holder)
+    ]);
+    return { holder, shares, claimable, claimed };
+  }
+
+  // Balances of every current owner and of the seller, who earns the dividends of unsold shares;
+  // owners who sold out can still claim through getDividendBalance
+  async getDividendBalances(assetId: bigint): Promise<DividendBalance[]> {
+    const [{ owners }, { seller }] = await Promise.all([this.getOwnership(assetId), this.registry.assets(assetId)]);
+    const holders = owners.includes(seller) ? owners : [...owners, seller];
+    return Promise.all(holders.map((holder) => this.getDividendBalance(assetId, holder)));
+  }
+
+  // The escrow that holds whole-asset purchase payments until the sale is settled
+  async getPurchaseEscrow(): Promise<PropytoEscrow> {
+    const escrowAddress = await this.registry.purchaseEscrow();
+    if (escrowAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no purchase escrow configured");
+    }
+    return PropytoEscrow__factory.connect(escrowAddress, this.runner);
+  }
+
+  async getEscrow(escrowId: bigint): Promise<Escrow> {
+    const escrow = await this.getPurchaseEscrow();
+    const [record, isReclaimable] = await Promise.all([escrow.escrows(escrowId), escrow.isReclaimable(escrowId)]);
+    if (record.buyer === ZeroAddress) {
+      throw new Error(`Escrow ${escrowId} does not exist`);
+    }
+    return {
+      id: escrowId,
+      assetId: record.assetId,
+      buyer: record.buyer,
+      seller: record.seller,
+      agent: record.agent,
+      amount: record.amount,
+      platformFee: record.platformFee,
+      deadline: record.deadline,
+      status: Number(record.status),
+      paymentToken: record.paymentToken,
+      isReclaimable
+    };
+  }
+
+  // Escrowed purchases of an asset, oldest first
+  async getAssetEscrows(assetId: bigint): Promise<Escrow[]> {
+    const escrow = await this.getPurchaseEscrow();
+    const escrowIds = await escrow.getAssetEscrowIds(assetId);
+    return Promise.all(escrowIds.map((escrowId) => this.getEscrow(escrowId)));
+  }
+
+  // Agent that may settle or cancel new deposits on the asset; ZeroAddress when none is appointed
+  async getEscrowAgent(assetId: bigint): Promise<string> {
+    const escrow = await this.getPurchaseEscrow();
+    return escrow.escrowAgents(assetId);
+  }
+
+  // The offer book that holds buyers' offers below the list price
+  async getOfferBook(): Promise<PropytoOffers> {
+    const offerBookAddress = await this.registry.offerBook();
+    if (offerBookAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no offer book configured");
+    }
+    return PropytoOffers__factory.connect(offerBookAddress, this.runner);
+  }
+
+  async getOffer(offerId: bigint): Promise<Offer> {
+    const offerBook = await this.getOfferBook();
+    const [record, isExpired] = await Promise.all([offerBook.offers(offerId), offerBook.isExpired(offerId)]);
+    if (record.buyer === ZeroAddress) {
+      throw new Error(`Offer ${offerId} does not exist`);
+    }
+    return {
+      id: offerId,
+      assetId: record.assetId,
+      buyer: record.buyer,
+      shareCount: record.shareCount,
+      amount: record.amount,
+      counterAmount: record.counterAmount,
+      expiry: record.expiry,
+      status: Number(record.status),
+      paymentToken: record.paymentToken,
+      isExpired
+    };
+  }
+
+  // Offers on an asset, oldest first
+  async getAssetOffers(assetId: bigint): Promise<Offer[]> {
+    const offerBook = await this.getOfferBook();
+    const offerIds = await offerBook.getAssetOfferIds(assetId);
+    return Promise.all(offerIds.map((offerId) => this.getOffer(offerId)));
+  }
+
+  // The auction house that sells whole assets by English or Dutch auction
+  async getAuctionHouse(): Promise<PropytoAuctions> {
+    const auctionHouseAddress = await this.registry.auctionHouse();
+    if (auctionHouseAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no auction house configured");
+    }
+    return PropytoAuctions__factory.connect(auctionHouseAddress, this.runner);
+  }
+
+  async getAuction(auctionId: bigint): Promise<Auction> {
+    const auctionHouse = await this.getAuctionHouse();
+    const [record, currentPrice, minimumBid, isRefundable] = await Promise.all([
+      auctionHouse.auctions(auctionId),
+      auctionHouse.currentPrice(auctionId),
+      auctionHouse.minimumBid(auctionId),
+      auctionHouse.isRefundable(auctionId)
+    ]);
+    if (record.seller === ZeroAddress) {
+      throw new Error(`Auction ${auctionId} does not exist`);
+    }
+    return {
+      id: auctionId,
+      assetId: record.assetId,
+      seller: record.seller,
+      auctionType: Number(record.auctionType),
+      startPrice: record.startPrice,
+      floorPrice: record.floorPrice,
+      minIncrement: record.minIncrement,
+      startTime: record.startTime,
+      endTime: record.endTime,
+      highestBidder: record.highestBidder,
+      highestBid: record.highestBid,
+      status: Number(record.status),
+      paymentToken: record.paymentToken,
+      currentPrice,
+      minimumBid,
+      isRefundable
+    };
+  }
+
+  // Outbid and refunded bids `bidder` can withdraw in `paymentToken` (default: the default payment token)
+  async getPendingAuctionRefund(bidder: string, paymentToken?: string): Promise<bigint> {
+    const auctionHouse = await this.getAuctionHouse();
+    return auctionHouse.pendingRefunds(bidder, paymentToken ?? (await this.registry.usdtToken()));
+  }
+
+  // Auctions of an asset, oldest first
+  async getAssetAuctions(assetId: bigint): Promise<Auction[]> {
+    const auctionHouse = await this.getAuctionHouse();
+    const auctionIds = await auctionHouse.getAssetAuctionIds(assetId);
+    return Promise.all(auctionIds.map((auctionId) => this.getAuction(auctionId)));
+  }
+
+  // The module that holds share payments of offerings with a funding goal
+  async getCrowdfunding(): Promise<PropytoCrowdfunding> {
+    const crowdfundingAddress = await this.registry.crowdfunding();
+    if (crowdfundingAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no crowdfunding configured");
+    }
+    return PropytoCrowdfunding__factory.connect(crowdfundingAddress, this.runner);
+  }
+
+  // Funding goal of an asset; status is NONE when its shares are sold without one
+  async getFundingGoal(assetId: bigint): Promise<FundingGoal> {
+    const crowdfunding = await this.getCrowdfunding();
+    const [goal, status] = await Promise.all([
+      crowdfunding.fundingGoals(assetId),
+      crowdfunding.getFundingStatus(assetId)
+    ]);
+    return {
+      softCap: goal.softCap,
+      hardCap: goal.hardCap,
+      deadline: goal.deadline,
+      sharesSold: goal.sharesSold,
+      totalRaised: goal.totalRaised,
+      escrowedAmount: goal.escrowedAmount,
+      paymentToken: goal.paymentToken,
+      status: Number(status)
+    };
+  }
+
+  async getFundingContribution(assetId: bigint, buyer: string): Promise<FundingContribution> {
+    const crowdfunding = await this.getCrowdfunding();
+    const { shares, amount } = await crowdfunding.contributions(assetId, buyer);
+    return { shares, amount };
+  }
+
+  // Token the asset's shares are paid in by default: the token of its funding goal, or the default payment token
+  async getSharePaymentToken(assetId: bigint): Promise<string> {
+    const crowdfundingAddress = await this.registry.crowdfunding();
+    if (crowdfundingAddress !== ZeroAddress) {
+      const fundingToken = await PropytoCrowdfunding__factory.connect(crowdfundingAddress, this.runner).fundingToken(assetId);
+      if (fundingToken !== ZeroAddress) {
+        return fundingToken;
+      }
+    }
+    return this.registry.usdtToken();
+  }
+
+  // The compliance module deciding who may hold the shares of regulated assets
+  async getCompliance(): Promise<PropytoCompliance> {
+    const complianceAddress = await this.registry.compliance();
+    if (complianceAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no compliance module configured");
+    }
+    return PropytoCompliance__factory.connect(complianceAddress, this.runner);
+  }
+
+  async getInvestor(investor: string): Promise<InvestorRecord> {
+    const compliance = await this.getCompliance();
+    const record = await compliance.investors(investor);
+    return {
+      kycStatus: Number(record.kycStatus) as KycStatus,
+      kycExpiry: record.kycExpiry,
+      jurisdiction: decodeJurisdiction(record.jurisdiction),
+      accredited: record.accredited
+    };
+  }
+
+  async getComplianceRules(assetId: bigint): Promise<ComplianceRules> {
+    const compliance = await this.getCompliance();
+    const rules = await compliance.getAssetRules(assetId);
+    return {
+      enabled: rules.enabled,
+      allowedJurisdictions: rules.allowedJurisdictions.map(decodeJurisdiction),
+      accreditedOnly: rules.accreditedOnly,
+      maxHolders: rules.maxHolders
+    };
+  }
+
+  // Why `investor` may not buy or receive shares of the asset, or null if they may (always null without a compliance module)
+  async checkInvestor(assetId: bigint, investor: string): Promise<PropytoError | null> {
+    try {
+      await this.registry.checkInvestor(assetId, investor);
+      return null;
+    } catch (error) {
+      return this.decodeError(error);
+    }
+  }
+
+  // The access manager holding the platform roles
+  async getAccessManager(): Promise<PropytoAccessManager> {
+    const accessManagerAddress = await this.registry.accessManager();
+    if (accessManagerAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no access manager configured");
+    }
+    return PropytoAccessManager__factory.connect(accessManagerAddress, this.runner);
+  }
+
+  // Until an access manager is connected, the registry owner holds every role
+  async hasRole(role: PropytoRole, account: string): Promise<boolean> {
+    return this.registry.hasRole(roleId(role), account);
+  }
+
+  async getRoleHolders(): Promise<RoleHolders[]> {
+    const roles = Object.values(PropytoRole);
+    if ((await this.registry.accessManager()) === ZeroAddress) {
+      const owner = await this.registry.owner();
+      return roles.map((role) => ({ role, holders: [owner] }));
+    }
+    const accessManager = await this.getAccessManager();
+    return Promise.all(roles.map(async (role) => ({ role, holders: await accessManager.getRoleMembers(roleId(role)) })));
+  }
+
+  // The moderation module reviewing new listings before they go live
+  async getModeration(): Promise<PropytoModeration> {
+    const moderationAddress = await this.registry.moderation();
+    if (moderationAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no moderation module configured");
+    }
+    return PropytoModeration__factory.connect(moderationAddress, this.runner);
+  }
+
+  async getListingReview(assetId: bigint): Promise<ListingReview> {
+    const moderation = await this.getModeration();
+    const review = await moderation.getReview(assetId);
+    return {
+      status: Number(review.status),
+      requestedStatus: Number(review.requestedStatus),
+      feeToken: review.feeToken,
+      listingFee: review.listingFee,
+      moderator: review.moderator,
+      decidedAt: review.decidedAt,
+      reason: Number(review.reason),
+      feeRefunded: review.feeRefunded
+    };
+  }
+
+  // Listings awaiting a moderator's decision, oldest first
+  async getPendingListings(): Promise<AssetDetails[]> {
+    const moderation = await this.getModeration();
+    const assetIds = [...(await moderation.getPendingAssetIds())].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return Promise.all(assetIds.map((assetId) => this.getAsset(assetId)));
+  }
+
+  // The module building the SFT metadata on-chain
+  async getMetadataRenderer(): Promise<PropytoMetadataRenderer> {
+    const rendererAddress = await this.registry.metadataRenderer();
+    if (rendererAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no metadata renderer configured");
+    }
+    return PropytoMetadataRenderer__factory.connect(rendererAddress, this.runner);
+  }
+
+  // The on-chain metadata of an asset, available before its shares are minted as well
+  async getTokenMetadata(assetId: bigint): Promise<TokenMetadata> {
+    const renderer = await this.getMetadataRenderer();
+    return JSON.parse(await renderer.tokenMetadata(assetId));
+  }
+
+  // Share-weighted proposals of fractional owners
+  async getGovernance(): Promise<PropytoGovernance> {
+    const governanceAddress = await this.registry.governance();
+    if (governanceAddress === ZeroAddress) {
+      throw new Error("PropytoClient: the registry has no governance configured");
+    }
+    return PropytoGovernance__factory.connect(governanceAddress, this.runner);
+  }
+
+  async getGovernanceConfig(): Promise<GovernanceConfig> {
+    const governance = await this.getGovernance();
+    const config = await governance.governanceConfig();
+    return {
+      proposalThreshold: config.proposalThreshold,
+      quorum: config.quorum,
+      approvalThreshold: config.approvalThreshold,
+      votingPeriod: config.votingPeriod,
+      executionWindow: config.executionWindow
+    };
+  }
+
+  async getProposal(proposalId: bigint): Promise<Proposal> {
+    const governance = await this.getGovernance();
+    try {
+      const [proposal, tally, status] = await Promise.all([
+        governance.proposals(proposalId),
+        governance.tally(proposalId),
+        governance.getProposalStatus(proposalId)
+      ]);
+      return {
+        id: proposalId,
+        assetId: proposal.assetId,
+        proposer: proposal.proposer,
+        proposalType: Number(proposal.proposalType),
+        value: proposal.value,
+        description: proposal.description,
+        snapshotId: proposal.snapshotId,
+        snapshotSupply: proposal.snapshotSupply,
+        seller: proposal.seller,
+        unsoldShares: proposal.unsoldShares,
+        voteEnd: proposal.voteEnd,
+        forVotes: tally.forVotes,
+        againstVotes: tally.againstVotes,
+        quorumReached: tally.quorumReached,
+        approved: tally.approved,
+        status: Number(status)
+      };
+    } catch (error) {
+      throw this.decodeError(error);
+    }
+  }
+
+  // Proposals of an asset, oldest first
+  async getAssetProposals(assetId: bigint): Promise<Proposal[]> {
+    const governance = await this.getGovernance();
+    const proposalIds = await governance.getAssetProposalIds(assetId);
+    return Promise.all(proposalIds.map((proposalId) => this.getProposal(proposalId)));
+  }
+
+  // Shares `voter` can vote with on a proposal
+  async getVotingPower(proposalId: bigint, voter: string): Promise<bigint> {
+    const governance = await this.getGovernance();
+    return governance.getVotingPower(proposalId, voter);
+  }
+
+  // Shares of `holder` and all shares outstanding when snapshot `snapshotId` was taken
+  async getSharesAt(assetId: bigint, holder: string, snapshotId: bigint): Promise<bigint> {
+    return this.registry.sharesOfAt(assetId, holder, snapshotId);
+  }
+
+  async getTotalSharesAt(assetId: bigint, snapshotId: bigint): Promise<bigint> {
+    return this.registry.totalSharesAt(assetId, snapshotId);
+  }
+
+  // Exact cost of buying `shareCount` shares from a sell order
+  async quoteFill(orderId: bigint, shareCount: bigint): Promise<PurchaseQuote> {
+    const market = await this.getShareMarket();
+    try {
+      const quote = await market.quoteFill(orderId, shareCount);
+      return {
+        totalPrice: quote.totalPrice,
+        platformFee: quote.platformFee,
+        sellerAmount: quote.sellerAmount,
+        availableShares: quote.availableShares
+      };
+    } catch (error) {
+      throw this.decodeError(error);
+    }
+  }
+
+  // ==================== Transactions ====================
+
+  // Approve `spender` (the registry by default) to pull `amount` of `paymentToken` (the default one if omitted),
+  // if not already allowed
+  async ensureAllowance(
+    amount: bigint,
+    spender: string | Addressable = this.registry.target,
+    paymentToken?: string
+  ): Promise<ContractTransactionReceipt | null> {
+    const signer = this.requireSigner();
+    const token = await this.getPaymentToken(paymentToken);
+    const owner = await signer.getAddress();
+
+    const allowance = await token.allowance(owner, spender);
+    if (allowance >= amount) {
+      return null;
+    }
+
+    return this.send(token.approve(spender, amount));
+  }
+
+  // Sign an EIP-2612 permit letting `spender` (the registry by default) pull `value` of `paymentToken` (the default
+  // one if omitted) until `deadline`. Returns null when the token has no permit, or one whose EIP-712 domain
+  // (name, version "1", chain ID, token address) does not match DOMAIN_SEPARATOR; approve the token instead then
+  async signPermit(
+    value: bigint,
+    deadline: bigint,
+    spender: string | Addressable = this.registry.target,
+    paymentToken?: string
+  ): Promise<PermitSignature | null> {
+    const signer = this.requireSigner();
+    const tokenAddress = paymentToken ?? (await this.registry.usdtToken());
+    const token = IERC20Permit__factory.connect(tokenAddress, this.runner);
+    const owner = await signer.getAddress();
+
+    let nonce: bigint;
+    let domainSeparator: string;
+    try {
+      [nonce, domainSeparator] = await Promise.all([token.nonces(owner), token.DOMAIN_SEPARATOR()]);
+    } catch {
+      return null;
+    }
+
+    const domain = {
+      name: await IERC20Metadata__factory.connect(tokenAddress, this.runner).name(),
+      version: "1",
+      chainId: (await this.requireProvider().getNetwork()).chainId,
+      verifyingContract: tokenAddress
+    };
+    if (TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+      return null;
+    }
+
+    const types = {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+    const spenderAddress = typeof spender === "string" ? spender : await spender.getAddress();
+    const signature = Signature.from(
+      await signer.signTypedData(domain, types, { owner, spender: spenderAddress, value, nonce, deadline })
+    );
+    return { value, deadline, v: signature.v, r: signature.r, s: signature.s };
+  }
+
+  // A permit for the registry to pull `amount` of `paymentToken`, or null once an approval covers it: when the
+  // allowance already does, or after approving because the token has no usable permit
+  private async permitRegistry(amount: bigint, deadline: bigint, paymentToken?: string): Promise<PermitSignature | null> {
+    const signer = this.requireSigner();
+    const token = await this.getPaymentToken(paymentToken);
+    if ((await token.allowance(await signer.getAddress(), this.registry.target)) >= amount) {
+      return null;
+    }
+
+    const permit = await this.signPermit(amount, deadline, this.registry.target, paymentToken);
+    if (!permit) {
+      await this.ensureAllowance(amount, this.registry.target, paymentToken);
+    }
+    return permit;
+  }
+
+  // Register an asset, paying the listing fee through a permit when the payment token supports it (approving it
+  // otherwise), and optionally enable partial ownership
+  async listAsset(
+    asset: NewAsset,
+    metadata: PropytoAssetMetadata,
+    media: PropytoAssetMedia,
+    partialOwnership?: PartialOwnershipParams
+  ): Promise<ListAssetResult> {
+    this.requireSigner();
+    const marketplaceConfig = await this.registry.marketplaceConfig();
+
+    let permit: PermitSignature | null = null;
+    if (marketplaceConfig.feesEnabled && marketplaceConfig.listingFee > 0n) {
+      const listingFee = await this.toTokenAmount(marketplaceConfig.listingFee);
+      permit = await this.permitRegistry(listingFee, (await this.latestTimestamp()) + DEFAULT_PURCHASE_WINDOW);
+    }
+
+    const receipt = await this.send(this.sendRegisterAsset(asset, metadata, media, permit ?? undefined));
+    const registered = this.parseAssetRegistered(receipt);
+
+    if (partialOwnership) {
+      await this.enableFractions(registered.assetId, partialOwnership);
+    }
+
+    return { ...registered, receipt };
+  }
+
+  // Send registerAsset without waiting for it; the listing fee must already be approved, or be covered by `permit`
+  async sendRegisterAsset(
+    asset: NewAsset,
+    metadata: PropytoAssetMetadata,
+    media: PropytoAssetMedia,
+    permit?: PermitSignature
+  ): Promise<ContractTransactionResponse> {
+    const signer = this.requireSigner();
+    const registered = { ...asset, seller: await signer.getAddress() };
+    try {
+      return permit
+        ? await this.registry.registerAssetWithPermit(registered, metadata, media, permit)
+        : await this.registry.registerAsset(registered, metadata, media);
+    } catch (error) {
+      throw this.decodeError(error);
+    }
+  }
+
+  // Extract the asset ID and SFT address from a registerAsset receipt
+  parseAssetRegistered(receipt: TransactionReceipt): { assetId: bigint; sftAddress: string } {
+    for (const log of receipt.logs) {
+      const parsedLog = this.registry.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "AssetRegistered") {
+        return { assetId: parsedLog.args.assetId, sftAddress: parsedLog.args.propytosftAddress };
+      }
+    }
+
+    throw new Error(`Asset registered in ${receipt.hash}, but no AssetRegistered event was found`);
+  }
+
+  // With a funding goal, share payments are held by PropytoCrowdfunding until the soft cap is sold
+  async enableFractions(
+    assetId: bigint,
+    params: PartialOwnershipParams,
+    fundingGoal?: FundingCaps
+  ): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    if (fundingGoal) {
+      const crowdfunding = await this.getCrowdfunding();
+      await this.send(crowdfunding.setFundingGoal(assetId, fundingGoal.softCap, fundingGoal.hardCap));
+    }
+    return this.send(
+      this.registry.enablePartialOwnership(
+        assetId,
+        params.totalShares,
+        params.sharePrice,
+        params.minSharePurchase,
+        params.maxSharesPerOwner,
+        params.sellerShares
+      )
+    );
+  }
+
+  // Buy the entire asset by depositing its price in escrow; shares are minted when the seller settles
+  async buyWhole(assetId: bigint, limits?: PurchaseLimits): Promise<EscrowDepositResult> {
+    this.requireSigner();
+    const escrow = await this.getPurchaseEscrow();
+    limits ??= await this.purchaseLimits(await this.quoteWhole(assetId));
+
+    await this.ensureAllowance(limits.maxTotalPrice, escrow.target);
+    const receipt = await this.send(escrow.deposit(assetId, limits.maxTotalPrice, limits.deadline));
+    for (const log of receipt.logs) {
+      const parsedLog = escrow.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "EscrowDeposited") {
+        return { escrowId: parsedLog.args.escrowId, receipt };
+      }
+    }
+
+    throw new Error(`Escrow deposited in ${receipt.hash}, but no EscrowDeposited event was found`);
+  }
+
+  // Limits default to the current quote, in units of `paymentToken` (else the funding goal's or default token)
+  // Pays through a permit when the token supports one, and approves beforehand otherwise
+  async buyShares(
+    assetId: bigint,
+    shareCount: bigint,
+    limits?: PurchaseLimits,
+    paymentToken?: string
+  ): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const token = paymentToken ?? (await this.getSharePaymentToken(assetId));
+    const allowed = limits ?? (await this.purchaseLimits(await this.quoteShares(assetId, shareCount, token)));
+
+    const permit = await this.permitRegistry(allowed.maxTotalPrice, allowed.deadline, token);
+    if (permit) {
+      return this.send(
+        this.registry.purchaseSharesWithPermit(assetId, shareCount, allowed.maxTotalPrice, allowed.deadline, token, permit)
+      );
+    }
+    return this.send(
+      this.registry.purchaseSharesWithLimits(assetId, shareCount, false, allowed.maxTotalPrice, allowed.deadline, token)
+    );
+  }
+
+  async updatePrice(assetId: bigint, newPrice: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateAssetPrice(assetId, newPrice));
+  }
+
+  async updateStatus(assetId: bigint, newStatus: AssetStatus): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateAssetStatus(assetId, newStatus));
+  }
+
+  async updateMetadata(assetId: bigint, metadata: PropytoAssetMetadata): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateAssetMetadata(assetId, metadata));
+  }
+
+  async updateMedia(assetId: bigint, media: PropytoAssetMedia): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateAssetMedia(assetId, media));
+  }
+
+  async updateRentData(assetId: bigint, rentData: PropytoRentData): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateAssetRentData(assetId, rentData));
+  }
+
+  // Record the asset's share balances (seller or registry admin only); returns the snapshot ID
+  async snapshotShares(assetId: bigint): Promise<SnapshotResult> {
+    this.requireSigner();
+    const receipt = await this.send(this.registry.snapshotShares(assetId));
+    for (const log of receipt.logs) {
+      const parsedLog = this.registry.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "SharesSnapshot") {
+        return { snapshotId: parsedLog.args.snapshotId, receipt };
+      }
+    }
+
+    throw new Error(`Snapshot taken in ${receipt.hash}, but no SharesSnapshot event was found`);
+  }
+
+  // Hand the listing over to another seller; shares already sold are unaffected
+  async transferSellership(assetId: bigint, newSeller: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.transferSellership(assetId, newSeller));
+  }
+
+  // ==================== Share market ====================
+
+  // Offer held shares on the share market, approving it on the asset's SFT first if needed
+  async listShares(assetId: bigint, shareCount: bigint, pricePerShare: bigint): Promise<ListSharesResult> {
+    const signer = this.requireSigner();
+    const market = await this.getShareMarket();
+    const sft = this.getSFT(await this.registry.propytosftAddress(assetId));
+
+    if (!(await sft.isApprovedForAll(await signer.getAddress(), market.target))) {
+      await this.send(sft.setApprovalForAll(market.target, true));
+    }
+
+    const receipt = await this.send(market.createSellOrder(assetId, shareCount, pricePerShare));
+    for (const log of receipt.logs) {
+      const parsedLog = market.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "SellOrderCreated") {
+        return { orderId: parsedLog.args.orderId, receipt };
+      }
+    }
+
+    throw new Error(`Sell order created in ${receipt.hash}, but no SellOrderCreated event was found`);
+  }
+
+  // Buy shares from a sell order, approving exactly the quoted total in the order's payment token
+  async fillOrder(orderId: bigint, shareCount: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const market = await this.getShareMarket();
+    const [quote, order] = await Promise.all([this.quoteFill(orderId, shareCount), this.getSellOrder(orderId)]);
+
+    await this.ensureAllowance(quote.totalPrice, market.target, order.paymentToken);
+    return this.send(market.fillSellOrder(orderId, shareCount));
+  }
+
+  async cancelOrder(orderId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const market = await this.getShareMarket();
+    return this.send(market.cancelSellOrder(orderId));
+  }
+
+  // ==================== Rentals ====================
+
+  // Rent an asset for `periods` rent periods, approving the deposit plus the first period's rent
+  async startLease(assetId: bigint, periods: bigint): Promise<StartLeaseResult> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    const rentData = await this.registry.assetRentData(assetId);
+
+    const deposit = await this.toTokenAmount(rentData.rentDeposit + rentData.rentSecurityDeposit);
+    await this.ensureAllowance(deposit + (await this.toTokenAmount(rentData.rentPrice)), rentals.target);
+    const receipt = await this.send(rentals.startLease(assetId, periods));
+    for (const log of receipt.logs) {
+      const parsedLog = rentals.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "LeaseStarted") {
+        return { leaseId: parsedLog.args.leaseId, receipt };
+      }
+    }
+
+    throw new Error(`Lease started in ${receipt.hash}, but no LeaseStarted event was found`);
+  }
+
+  // Pay rent for the next `periods` periods of a lease
+  async payRent(leaseId: bigint, periods: bigint = 1n): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    const lease = await this.getLease(leaseId);
+
+    await this.ensureAllowance(lease.rentPrice * periods, rentals.target, lease.paymentToken);
+    return this.send(rentals.payRent(leaseId, periods));
+  }
+
+  async flagLatePayment(leaseId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    return this.send(rentals.flagLatePayment(leaseId));
+  }
+
+  async endLease(leaseId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    return this.send(rentals.endLease(leaseId));
+  }
+
+  async terminateLease(leaseId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    return this.send(rentals.terminateLease(leaseId));
+  }
+
+  // Refund the deposit of a closed lease, keeping `withheldAmount` for the landlord
+  async settleDeposit(leaseId: bigint, withheldAmount: bigint = 0n): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    return this.send(rentals.settleDeposit(leaseId, withheldAmount));
+  }
+
+  async claimDeposit(leaseId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const rentals = await this.getRentals();
+    return this.send(rentals.claimDeposit(leaseId));
+  }
+
+  // ==================== Crowdfunding ====================
+
+  // Burn the caller's shares of a failed offering for a full refund, approving PropytoCrowdfunding on the SFT first if needed
+  async claimFundingRefund(assetId: bigint): Promise<ContractTransactionReceipt> {
+    const signer = this.requireSigner();
+    const crowdfunding = await this.getCrowdfunding();
+    const sft = this.getSFT(await this.registry.propytosftAddress(assetId));
+
+    if (!(await sft.isApprovedForAll(await signer.getAddress(), crowdfunding.target))) {
+      await this.send(sft.setApprovalForAll(crowdfunding.target, true));
+    }
+    return this.send(crowdfunding.claimRefund(assetId));
+  }
+
+  // Pay the escrowed proceeds of a funded offering to the seller and the fee collector
+  async withdrawFundingProceeds(assetId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const crowdfunding = await this.getCrowdfunding();
+    return this.send(crowdfunding.withdrawProceeds(assetId));
+  }
+
+  // ==================== Offers ====================
+
+  // Offer `amount` USDT for `shareCount` shares, or for the whole asset with 0n, depositing it until `expiry`
+  async placeOffer(assetId: bigint, shareCount: bigint, amount: bigint, expiry: bigint): Promise<PlaceOfferResult> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    await this.ensureAllowance(amount, offerBook.target);
+
+    const receipt = await this.send(offerBook.placeOffer(assetId, shareCount, amount, expiry));
+    for (const log of receipt.logs) {
+      const parsedLog = offerBook.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "OfferPlaced") {
+        return { offerId: parsedLog.args.offerId, receipt };
+      }
+    }
+
+    throw new Error(`Offer placed in ${receipt.hash}, but no OfferPlaced event was found`);
+  }
+
+  // Sell at the offered price (seller only); settles a share purchase at once, and escrows a
+  // whole-asset purchase for the seller to confirm with confirmEscrow
+  async acceptOffer(offerId: bigint): Promise<AcceptOfferResult> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    return this.offerAccepted(await this.send(offerBook.acceptOffer(offerId)));
+  }
+
+  async rejectOffer(offerId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    return this.send(offerBook.rejectOffer(offerId));
+  }
+
+  // Ask the buyer for `counterAmount` instead, valid until `expiry` (seller only)
+  async counterOffer(offerId: bigint, counterAmount: bigint, expiry: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    return this.send(offerBook.counterOffer(offerId, counterAmount, expiry));
+  }
+
+  // Buy at the seller's counter-offer, approving the difference to the deposit first
+  async acceptCounterOffer(offerId: bigint): Promise<AcceptOfferResult> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    const { amount, counterAmount, paymentToken } = await offerBook.offers(offerId);
+    await this.ensureAllowance(counterAmount - amount, offerBook.target, paymentToken);
+    return this.offerAccepted(await this.send(offerBook.acceptCounterOffer(offerId)));
+  }
+
+  private async offerAccepted(receipt: ContractTransactionReceipt): Promise<AcceptOfferResult> {
+    const offerBook = await this.getOfferBook();
+    for (const log of receipt.logs) {
+      const parsedLog = offerBook.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "OfferEscrowed") {
+        return { escrowId: parsedLog.args.escrowId, receipt };
+      }
+    }
+    return { escrowId: null, receipt };
+  }
+
+  // Withdraw an unaccepted offer and take the deposit back (buyer only)
+  async cancelOffer(offerId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const offerBook = await this.getOfferBook();
+    return this.send(offerBook.cancelOffer(offerId));
+  }
+
+  // ==================== Auctions ====================
+
+  async startEnglishAuction(assetId: bigint, params: EnglishAuctionParams): Promise<StartAuctionResult> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.startAuction(
+      auctionHouse,
+      auctionHouse.startEnglishAuction(assetId, params.reservePrice, params.minIncrement, params.duration)
+    );
+  }
+
+  async startDutchAuction(assetId: bigint, params: DutchAuctionParams): Promise<StartAuctionResult> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.startAuction(
+      auctionHouse,
+      auctionHouse.startDutchAuction(assetId, params.startPrice, params.floorPrice, params.duration)
+    );
+  }
+
+  // English: escrow `amount` as the new highest bid. Dutch: buy now at the current price, paying at most `amount`
+  async placeBid(auctionId: bigint, amount: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    const { paymentToken } = await auctionHouse.auctions(auctionId);
+    await this.ensureAllowance(amount, auctionHouse.target, paymentToken);
+    return this.send(auctionHouse.bid(auctionId, amount));
+  }
+
+  // Close an auction that has ended; callable by anyone
+  async settleAuction(auctionId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.send(auctionHouse.settleAuction(auctionId));
+  }
+
+  // Credit the winning bid of an auction left unsettled past its settlement deadline back to the winner; callable by anyone
+  async refundWinningBid(auctionId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.send(auctionHouse.refundWinningBid(auctionId));
+  }
+
+  // Withdraw the signer's outbid and refunded bids paid in `paymentToken` (default: the default payment token)
+  async withdrawAuctionRefund(paymentToken?: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.send(auctionHouse.withdrawRefund(paymentToken ?? (await this.registry.usdtToken())));
+  }
+
+  // Call off an auction without bids (seller only)
+  async cancelAuction(auctionId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const auctionHouse = await this.getAuctionHouse();
+    return this.send(auctionHouse.cancelAuction(auctionId));
+  }
+
+  // ==================== Escrow ====================
+
+  // Complete an escrowed sale (seller or escrow agent): pays the seller, mints the shares and marks the asset SOLD
+  async confirmEscrow(escrowId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const escrow = await this.getPurchaseEscrow();
+    return this.send(escrow.confirmSettlement(escrowId));
+  }
+
+  // Call an escrowed sale off (seller or escrow agent); the buyer then reclaims the deposit
+  async cancelEscrow(escrowId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const escrow = await this.getPurchaseEscrow();
+    return this.send(escrow.cancelEscrow(escrowId));
+  }
+
+  async reclaimEscrowDeposit(escrowId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const escrow = await this.getPurchaseEscrow();
+    return this.send(escrow.reclaimDeposit(escrowId));
+  }
+
+  // Let `agent` settle or cancel future deposits on the asset; ZeroAddress removes the agent
+  async appointEscrowAgent(assetId: bigint, agent: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const escrow = await this.getPurchaseEscrow();
+    return this.send(escrow.appointEscrowAgent(assetId, agent));
+  }
+
+  // ==================== Dividends ====================
+
+  // Distribute `amount` of the asset's dividend token to its share holders in proportion to their shares
+  async depositDividends(assetId: bigint, amount: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const dividends = await this.getDividends();
+    await this.ensureAllowance(amount, dividends.target, await dividends.paymentToken(assetId));
+    return this.send(dividends.deposit(assetId, amount));
+  }
+
+  async claimDividends(assetId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const dividends = await this.getDividends();
+    return this.send(dividends.claim(assetId));
+  }
+
+  // ==================== Governance ====================
+
+  // `value` is the new asset price for PRICE_CHANGE and SELL_PROPERTY and ignored otherwise
+  async createProposal(
+    assetId: bigint,
+    proposalType: ProposalType,
+    value: bigint,
+    description: string
+  ): Promise<CreateProposalResult> {
+    this.requireSigner();
+    const governance = await this.getGovernance();
+    const receipt = await this.send(governance.createProposal(assetId, proposalType, value, description));
+    for (const log of receipt.logs) {
+      const parsedLog = governance.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "ProposalCreated") {
+        return { proposalId: parsedLog.args.proposalId, receipt };
+      }
+    }
+
+    throw new Error(`Proposal created in ${receipt.hash}, but no ProposalCreated event was found`);
+  }
+
+  async vote(proposalId: bigint, support: boolean): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const governance = await this.getGovernance();
+    return this.send(governance.castVote(proposalId, support));
+  }
+
+  // Apply a proposal that passed, or record that it was rejected or expired
+  async executeProposal(proposalId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const governance = await this.getGovernance();
+    return this.send(governance.executeProposal(proposalId));
+  }
+
+  // ==================== Compliance ====================
+
+  // Record an investor's KYC status and expiry, jurisdiction and accreditation (compliance owner, KYC agent or compliance officer)
+  async setInvestor(investor: string, record: InvestorRecord): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const compliance = await this.getCompliance();
+    const jurisdiction = record.jurisdiction ? encodeJurisdiction(record.jurisdiction) : "0x0000";
+    return this.send(compliance.setInvestor(investor, record.kycStatus, record.kycExpiry, jurisdiction, record.accredited));
+  }
+
+  // Let `agent` maintain investor records, or stop it (compliance owner only)
+  async setKycAgent(agent: string, enabled: boolean): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const compliance = await this.getCompliance();
+    return this.send(compliance.setKycAgent(agent, enabled));
+  }
+
+  // Put the asset under `rules`, replacing any it had (asset seller, compliance owner or compliance officer)
+  async setComplianceRules(assetId: bigint, rules: Omit<ComplianceRules, "enabled">): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const compliance = await this.getCompliance();
+    return this.send(
+      compliance.setAssetRules(assetId, rules.allowedJurisdictions.map(encodeJurisdiction), rules.accreditedOnly, rules.maxHolders)
+    );
+  }
+
+  // Open the asset to every investor again (asset seller, compliance owner or compliance officer)
+  async clearComplianceRules(assetId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const compliance = await this.getCompliance();
+    return this.send(compliance.clearAssetRules(assetId));
+  }
+
+  // ==================== Roles ====================
+
+  // Give `account` a role (admins only)
+  async grantRole(role: PropytoRole, account: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const accessManager = await this.getAccessManager();
+    return this.send(accessManager.grantRole(roleId(role), account));
+  }
+
+  // Take a role away from `account` (admins only)
+  async revokeRole(role: PropytoRole, account: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const accessManager = await this.getAccessManager();
+    return this.send(accessManager.revokeRole(roleId(role), account));
+  }
+
+  // Give up a role held by the signer
+  async renounceRole(role: PropytoRole): Promise<ContractTransactionReceipt> {
+    const signer = this.requireSigner();
+    const accessManager = await this.getAccessManager();
+    return this.send(accessManager.renounceRole(roleId(role), await signer.getAddress()));
+  }
+
+  // ==================== Moderation ====================
+
+  // Hold new listings for review by the moderation module at `moderationAddress` (admins only)
+  async enableModeration(moderationAddress: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateModeration(moderationAddress));
+  }
+
+  // Let new listings go live immediately again; decide the pending ones first, a disconnected module cannot (admins only)
+  async disableModeration(): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateModeration(ZeroAddress));
+  }
+
+  // Publish a pending listing with the status its seller registered it with (listing moderators only)
+  async approveListing(assetId: bigint): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const moderation = await this.getModeration();
+    return this.send(moderation.approveListing(assetId));
+  }
+
+  // Turn a pending listing down, refunding its listing fee to the seller or passing it to the fee collector (listing moderators only)
+  async rejectListing(assetId: bigint, reason: RejectionReason, refundFee: boolean): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    const moderation = await this.getModeration();
+    return this.send(moderation.rejectListing(assetId, reason, refundFee));
+  }
+
+  // ==================== Metadata ====================
+
+  // Have the SFTs serve metadata built on-chain by the renderer at `rendererAddress` (admins only)
+  async enableOnChainMetadata(rendererAddress: string): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateMetadataRenderer(rendererAddress));
+  }
+
+  // Serve the off-chain metadata URL again (admins only)
+  async disableOnChainMetadata(): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return this.send(this.registry.updateMetadataRenderer(ZeroAddress));
+  }
+
+  // Decode a revert of any call made through this client (see sdk/errors.ts)
+  decodeError(error: unknown): PropytoError {
+    return decodeError(error, [this.registry.interface]);
+  }
+
+  // ==================== Internals ====================
+
+  private async startAuction(
+    auctionHouse: PropytoAuctions,
+    pending: Promise<ContractTransactionResponse>
+  ): Promise<StartAuctionResult> {
+    const receipt = await this.send(pending);
+    for (const log of receipt.logs) {
+      const parsedLog = auctionHouse.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsedLog && parsedLog.name === "AuctionStarted") {
+        return { auctionId: parsedLog.args.auctionId, receipt };
+      }
+    }
+
+    throw new Error(`Auction started in ${receipt.hash}, but no AuctionStarted event was found`);
+  }
+
+  private requireSigner(): Signer {
+    if (!("getAddress" in this.runner) || typeof (this.runner as Signer).getAddress !== "function") {
+      throw new Error("PropytoClient: a signer is required to send transactions");
+    }
+    return this.runner as Signer;
+  }
+
+  // Timestamp of the latest block, which purchase and permit deadlines are measured against
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.requireProvider().getBlock("latest");
+    if (!block) {
+      throw new Error("PropytoClient: the provider returned no latest block");
+    }
+    return BigInt(block.timestamp);
+  }
+
+  private requireProvider(): Provider {
+    if (!this.runner.provider) {
+      throw new Error("PropytoClient: the runner must be connected to a provider");
+    }
+    return this.runner.provider;
+  }
+
+  // Wait for a transaction, converting reverts into PropytoErrors
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    let receipt: ContractTransactionReceipt | null;
+    let hash: string;
+    try {
+      const tx = await pending;
+      hash = tx.hash;
+      receipt = await tx.wait();
+    } catch (error) {
+      throw this.decodeError(error);
+    }
+
+    if (!receipt) {
+      throw new Error(`Transaction ${hash} was dropped`);
+    }
+    return receipt;
+  }
+}
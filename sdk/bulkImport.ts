@@ -0,0 +1,197 @@
+import { keccak256, toUtf8Bytes, TransactionReceipt } from "ethers";
+import { PropytoClient } from "./PropytoClient";
+import { AssetManifestEntry, ManifestError, ParsedListing, parseAssetEntry } from "./manifest";
+
+export interface ManifestRow {
+  row: number; // 1-based position in the manifest
+  hash: string; // keccak256 of the raw row, detects edited manifests on resume
+  listing: ParsedListing;
+}
+
+export interface RowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export type JournalStatus = "pending" | "registered" | "fractions-pending" | "done";
+
+// Progress of a single manifest row, persisted after every state change
+export interface JournalEntry {
+  row: number;
+  hash: string;
+  status: JournalStatus;
+  registerTx?: string;
+  assetId?: string;
+  sftAddress?: string;
+  fractionsTx?: string;
+}
+
+export interface ImportJournal {
+  get(row: number): JournalEntry | undefined;
+  set(entry: JournalEntry): void;
+}
+
+export interface ImportPlan {
+  rows: ManifestRow[];
+  toRegister: ManifestRow[]; // rows without a registered asset yet
+  toFractionalize: ManifestRow[]; // rows still needing enablePartialOwnership
+  totalListingFee: bigint;
+}
+
+export interface ImportProgress {
+  row: ManifestRow;
+  entry: JournalEntry;
+  resumed: boolean; // the row was already registered by a previous run
+}
+
+function rowHash(entry: AssetManifestEntry): string {
+  const keys = Object.keys(entry).sort();
+  return keccak256(toUtf8Bytes(JSON.stringify(keys.map((key) => [key, entry[key]]))));
+}
+
+/**
+ * Validate every manifest row. Returns all problems instead of stopping at the
+ * first one, so a manifest can be fixed in a single pass.
+ */
+export function validateManifest(
+  entries: AssetManifestEntry[],
+  now?: number
+): { rows: ManifestRow[]; errors: RowError[] } {
+  const rows: ManifestRow[] = [];
+  const errors: RowError[] = [];
+
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    try {
+      rows.push({ row, hash: rowHash(entry), listing: parseAssetEntry(entry, now) });
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        errors.push({ row, field: error.field, message: error.message });
+      } else {
+        throw error;
+      }
+    }
+  });
+
+  return { rows, errors };
+}
+
+// Work out what is left to do given the journal of previous runs
+export function planImport(rows: ManifestRow[], journal: ImportJournal, listingFee: bigint): ImportPlan {
+  for (const row of rows) {
+    const entry = journal.get(row.row);
+    if (entry && entry.hash !== row.hash) {
+      throw new Error(`Row ${row.row} changed since it was journaled; use a new journal for an edited manifest`);
+    }
+  }
+
+  const toRegister = rows.filter((row) => {
+    const entry = journal.get(row.row);
+    return !entry || entry.status === "pending";
+  });
+  const toFractionalize = rows.filter((row) => row.listing.partialOwnership && journal.get(row.row)?.status !== "done");
+
+  return {
+    rows,
+    toRegister,
+    toFractionalize,
+    totalListingFee: listingFee * BigInt(toRegister.length)
+  };
+}
+
+/**
+ * Register manifest rows one by one, journaling each transaction hash before
+ * waiting for it. A row whose transaction was sent by an interrupted run is
+ * reconciled from its receipt instead of being registered again.
+ */
+export async function* importAssets(
+  client: PropytoClient,
+  plan: ImportPlan,
+  journal: ImportJournal
+): AsyncGenerator<ImportProgress> {
+  const marketplaceConfig = await client.registry.marketplaceConfig();
+  const feesEnabled = marketplaceConfig.feesEnabled && marketplaceConfig.listingFee > 0n;
+  const provider = client.registry.runner?.provider;
+
+  if (!provider) {
+    throw new Error("importAssets: the client runner must be connected to a provider");
+  }
+
+  // Approve the listing fee of every remaining row at once
+  if (feesEnabled && plan.toRegister.length > 0) {
+    await client.ensureAllowance((await client.toTokenAmount(marketplaceConfig.listingFee)) * BigInt(plan.toRegister.length));
+  }
+
+  // Receipt of a journaled transaction, waiting for it if still in the mempool.
+  // Returns null when it is unknown or reverted, meaning the step must be re-sent.
+  const reconcile = async (hash: string): Promise<TransactionReceipt | null> => {
+    const tx = await provider.getTransaction(hash);
+    if (!tx) {
+      return null;
+    }
+    const receipt = await tx.wait().catch(() => null);
+    return receipt && receipt.status === 1 ? receipt : null;
+  };
+
+  for (const row of plan.rows) {
+    let entry: JournalEntry = journal.get(row.row) ?? { row: row.row, hash: row.hash, status: "pending" };
+    const resumed = entry.status !== "pending";
+
+    if (entry.status === "pending" && entry.registerTx) {
+      const receipt = await reconcile(entry.registerTx);
+      if (receipt) {
+        const { assetId, sftAddress } = client.parseAssetRegistered(receipt);
+        entry = { ...entry, status: "registered", assetId: assetId.toString(), sftAddress };
+        journal.set(entry);
+      }
+    }
+
+    if (entry.status === "pending") {
+      const { asset, metadata, media } = row.listing;
+      const tx = await client.sendRegisterAsset(asset, metadata, media);
+      entry = { ...entry, registerTx: tx.hash };
+      journal.set(entry);
+
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error(`Row ${row.row}: registration ${tx.hash} was dropped`);
+      }
+      const { assetId, sftAddress } = client.parseAssetRegistered(receipt);
+      entry = { ...entry, status: "registered", assetId: assetId.toString(), sftAddress };
+      journal.set(entry);
+    }
+
+    if (row.listing.partialOwnership && entry.status !== "done") {
+      const alreadyEnabled = entry.status === "fractions-pending" && entry.fractionsTx
+        ? await reconcile(entry.fractionsTx)
+        : null;
+
+      if (!alreadyEnabled) {
+        const params = row.listing.partialOwnership;
+        const tx = await client.registry
+          .enablePartialOwnership(
+            BigInt(entry.assetId!),
+            params.totalShares,
+            params.sharePrice,
+            params.minSharePurchase,
+            params.maxSharesPerOwner,
+            params.sellerShares
+          )
+          .catch((error) => {
+            throw client.decodeError(error);
+          });
+        entry = { ...entry, status: "fractions-pending", fractionsTx: tx.hash };
+        journal.set(entry);
+
+        await tx.wait();
+      }
+    }
+
+    if (entry.status !== "done") {
+      entry = { ...entry, status: "done" };
+      journal.set(entry);
+    }
+    yield { row, entry, resumed };
+  }
+}
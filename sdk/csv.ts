@@ -0,0 +1,66 @@
+/**
+ * Minimal RFC 4180 CSV reader: the first row is the header, fields may be
+ * quoted, and quoted fields may contain commas, newlines and "" escapes.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV: unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const header = nonEmpty[0].map((name) => name.trim());
+  return nonEmpty.slice(1).map((values, index) => {
+    if (values.length > header.length) {
+      throw new Error(`CSV: row ${index + 1} has ${values.length} fields, header has ${header.length}`);
+    }
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = values[i] ?? "";
+    });
+    return record;
+  });
+}
@@ -0,0 +1,370 @@
+import { AbiCoder, dataSlice, Interface } from "ethers";
+import errorCodes from "../errors.json";
+
+/**
+ * Decoding of contract reverts into typed errors with a human readable message
+ * and a suggested fix. Registry E-codes are described by errors.json; the
+ * free-text reverts of PropytoSFT, OpenZeppelin and ERC20 tokens are listed below.
+ */
+
+export const ERROR_MESSAGES: Readonly<Record<string, string>> = errorCodes;
+
+// Suggested fix for each registry error code
+export const ERROR_HINTS: Readonly<Record<string, string>> = {
+  E1: "Register the asset with isPartiallyOwnEnabled set to true.",
+  E2: "Partial ownership can only be enabled once per asset.",
+  E3: "Pass a total share count of at least 1.",
+  E4: "Pass a share price greater than zero.",
+  E5: "Use a minimum purchase between 1 and the total share count.",
+  E6: "Reduce the seller shares to at most the total share count.",
+  E7: "Check the asset ID; `npx hardhat asset list` shows the registered assets.",
+  E8: "Send the transaction from the account that listed the asset.",
+  E9: "Send the transaction from the asset seller, or from an account granted the role with `npx hardhat roles grant`.",
+  E10: "Approve the registry for the listing fee (or pass a permit for it) and make sure the account holds enough USDT.",
+  E11: "Only assets that are FOR_SALE or FOR_RENT can be bought.",
+  E12: "The seller must extend the listing expiry before it can be bought.",
+  E13: "The seller must enable partial ownership before shares can be bought.",
+  E14: "Buy at least the minimum share count of this asset.",
+  E15: "Buy fewer shares; check the shares still available.",
+  E16: "Buy fewer shares; this purchase would exceed the per-owner limit.",
+  E17: "Approve the registry for the purchase price (or pass a permit for it) and make sure the account holds enough USDT.",
+  E18: "Approve the registry for the purchase price including the platform fee.",
+  E19: "The seller must enable partial ownership first.",
+  E20: "Pass a price greater than zero.",
+  E21: "Rent data can only be set on assets registered as rentable.",
+  E22: "Pass a non-zero address for the new seller.",
+  E23: "Pass an address other than the current seller.",
+  E24: "Use a platform fee of at most 3000 basis points (30%).",
+  E25: "Pass a non-zero fee collector address.",
+  E26: "Pass a non-zero token address.",
+  E27: "Pass an expiry timestamp in the future.",
+  E28: "Pass an expiry later than the current listing expiry.",
+  E29: "Pass the address of a deployed PropytoSFTFactory.",
+  E30: "The asset has been sold; its status is final.",
+  E31: "Use DELISTED to withdraw a listing; SOLD is set by purchases.",
+  E32: "The price changed or the purchase took too long; request a new quote and retry.",
+  E33: "Share transfers are reported by the asset's PropytoSFT; transfer the tokens instead.",
+  E34: "Pass the address of a deployed PropytoShareMarket.",
+  E35: "List at least one share.",
+  E36: "List at most the shares you hold that are not already in an active order.",
+  E37: "Call setApprovalForAll(shareMarket, true) on the asset's SFT first.",
+  E38: "The order was filled or cancelled; `npx hardhat market orders` shows the open ones.",
+  E39: "Send the transaction from the account that created the order.",
+  E40: "Buy at most the shares remaining in the order.",
+  E41: "Cancel the order instead of filling it.",
+  E42: "Rental status changes through PropytoRentals, set with updateRentalManager.",
+  E43: "Pass the address of a deployed PropytoRentals.",
+  E44: "Start or end a lease instead of setting RENTED by hand.",
+  E45: "Only rentable assets with status FOR_RENT and no active lease can be rented.",
+  E46: "The landlord must set a rent price and period with updateAssetRentData.",
+  E47: "Pass at least one period.",
+  E48: "Rent the asset from another account.",
+  E49: "The lease has already ended or been terminated.",
+  E50: "Pay at most the periods left until the lease ends.",
+  E51: "Send the transaction from the landlord of the lease.",
+  E52: "Rent is only late once the grace period after its due date has passed.",
+  E53: "Overdue rent can be flagged once per rent period.",
+  E54: "Wait until the lease term is over, or terminate it if rent is overdue.",
+  E55: "Deposits are settled once, after the lease has ended or been terminated.",
+  E56: "Withhold at most the escrowed deposit.",
+  E57: "The landlord can still settle the deposit; claim it after the claim window.",
+  E58: "Send the transaction from the tenant of the lease.",
+  E59: "Approve PropytoRentals for the deposit and make sure the account holds enough USDT.",
+  E60: "Check the lease ID; `npx hardhat lease list` shows the leases of an asset.",
+  E61: "Deposit a positive USDT amount.",
+  E62: "Dividends are paid to share holders; wait until shares of the asset have been sold.",
+  E63: "Approve PropytoDividends for the amount and make sure the account holds enough USDT.",
+  E64: "Nothing is owed to this account yet; `npx hardhat dividends balances` lists what each owner can claim.",
+  E65: "Share movements are reported by the registry as shares are minted, transferred and burned.",
+  E66: "Pass the address of a deployed PropytoDividends.",
+  E67: "Pass the address of a deployed PropytoGovernance.",
+  E68: "Price and status changes voted by share holders are applied through PropytoGovernance.executeProposal.",
+  E69: "Proposing needs the share of the asset set as proposalThreshold, held before the current block.",
+  E70: "Check the proposal ID; the governance script lists the proposals of an asset.",
+  E71: "Votes are only accepted until the proposal's voting period ends.",
+  E72: "Each holder votes once per proposal.",
+  E73: "Only shares held before the proposal was created count; shares bought later cannot vote on it.",
+  E74: "Wait until the voting period is over before executing the proposal.",
+  E75: "The proposal was already executed, rejected or expired.",
+  E76: "Thresholds are in basis points: at most 10000, and approvalThreshold below 10000.",
+  E77: "Ask the asset seller or a registry admin to take the snapshot.",
+  E78: "Pass the address of a deployed PropytoEscrow.",
+  E79: "Escrowed purchases and auctions lock and settle assets through PropytoEscrow and PropytoAuctions.",
+  E80: "Another buyer's deposit is in escrow or the asset is being auctioned; wait until the sale closes.",
+  E81: "Deposit with PropytoEscrow instead; `npx hardhat buy` without --shares does this.",
+  E82: "Check the escrow ID; `npx hardhat escrow list` shows the escrows of an asset.",
+  E83: "Send from the seller or the escrow agent recorded on the escrow.",
+  E84: "The escrow was already settled, cancelled or refunded.",
+  E85: "The sale can no longer be confirmed; the buyer may reclaim the deposit.",
+  E86: "Approve PropytoEscrow for the asset price and make sure the account holds enough USDT.",
+  E87: "Buy from an account other than the seller.",
+  E88: "Only the buyer who made the deposit can reclaim it.",
+  E89: "Wait until the settlement deadline passes, or ask the seller or escrow agent to cancel the deal.",
+  E90: "Caps are share counts: pass a soft cap of at least 1 and a hard cap no lower than it.",
+  E91: "Contributions are recorded by the registry as funded shares are bought.",
+  E92: "Buy fewer shares; `npx hardhat fractions funding` shows how many can still be sold.",
+  E93: "The offering missed its soft cap; buyers can claim refunds with `npx hardhat fractions refund`.",
+  E94: "Refunds open once the funding deadline passes with the soft cap unsold.",
+  E95: "This account bought no shares of the offering, or already claimed its refund.",
+  E96: "Approve the registry for the full amount and make sure the account holds enough USDT.",
+  E97: "Proceeds are released once the soft cap is sold.",
+  E98: "Pass the address of a deployed PropytoCrowdfunding.",
+  E99: "Offers are settled by the registry's offer book; use PropytoOffers.",
+  E100: "Pass the address of a deployed PropytoOffers.",
+  E101: "Check the offer ID; `npx hardhat offer list` shows the offers on an asset.",
+  E102: "Offer more than zero and less than the quoted price; at the list price, buy directly.",
+  E103: "Pass an expiry timestamp in the future.",
+  E104: "The offer was already accepted, rejected or cancelled.",
+  E105: "The offer expired; the buyer can cancel it to take the deposit back.",
+  E106: "Send the transaction from the account that placed the offer.",
+  E107: "Counter with a price above the buyer's offer, or accept the offer as it is.",
+  E108: "Approve PropytoOffers for the amount and make sure the account holds enough USDT.",
+  E109: "The seller countered this offer; the buyer can accept the counter-offer or cancel.",
+  E110: "Only an offer the seller countered can be accepted by the buyer.",
+  E111: "Check the auction ID; `npx hardhat auction list` shows the auctions of an asset.",
+  E112: "The auction was already settled or cancelled.",
+  E113: "Bidding is closed; anyone can now settle the auction with `npx hardhat auction settle`.",
+  E114: "Wait until the auction ends; late bids may have extended it.",
+  E115: "Bid at least the minimum bid, or the current price of a Dutch auction.",
+  E116: "Approve PropytoAuctions for the bid and make sure the account holds enough USDT.",
+  E117: "Pass a positive duration and prices; English auctions need a reserve and an increment, Dutch auctions a floor below the opening price.",
+  E118: "Bids are binding; let the auction run to its end and settle it.",
+  E119: "Pass the address of a deployed PropytoAuctions.",
+  E120: "Make another accepted token the default payment token first.",
+  E121: "Pay with one of the tokens returned by getPaymentTokens; the owner adds tokens with setPaymentToken.",
+  E122: "Buy shares of assets with a funding goal with the token of the goal (`fundingGoals(assetId).paymentToken`).",
+  E123: "Only tokens with up to 18 decimals can be accepted for payment.",
+  E124: "Pass the address of a deployed PropytoCompliance.",
+  E125: "Ask a KYC agent to approve the account with `npx hardhat compliance set-investor`.",
+  E126: "The account's KYC approval has lapsed; a KYC agent must renew it.",
+  E127: "Investors from this jurisdiction cannot hold the asset; `npx hardhat compliance rules` lists the allowed ones.",
+  E128: "Only accredited investors can hold this asset.",
+  E129: "The asset has its maximum number of holders; buy from or sell to an existing holder instead.",
+  E130: "Use the compliance owner, an account appointed with `npx hardhat compliance set-agent` or a compliance officer.",
+  E131: "Only the asset seller, the compliance owner or a compliance officer can change its compliance rules.",
+  E132: "Approve investors with a KYC expiry in the future.",
+  E133: "Ask an admin to grant your account the role with `npx hardhat roles grant`; `npx hardhat roles list` shows who holds each role.",
+  E134: "Pass the address of a deployed PropytoAccessManager.",
+  E135: "Initialize the access manager with your account as admin, or grant it DEFAULT_ADMIN_ROLE there first.",
+  E136: "Listings are approved and rejected through the moderation module, with `npx hardhat moderation approve` or `reject`.",
+  E137: "Wait for a moderator to review the listing; rejected listings cannot be relisted, register the asset again instead.",
+  E138: "Listings are submitted for moderation by registering them in the registry.",
+  E139: "Ask an admin to grant your account LISTING_MODERATOR with `npx hardhat roles grant`.",
+  E140: "The listing was already reviewed; `npx hardhat moderation show` shows the decision.",
+  E141: "The fee token refused the transfer; check that the moderation module still holds the listing fee.",
+  E142: "Buyers keep their shares until the funding goal is reached; a failed offering's shares are only burned for refunds.",
+  E143: "The winning bid was not settled in time; `refundWinningBid` returns it to the winner and unlocks the asset.",
+  E144: "The auction can still be settled; a winning bid is only refunded once `settlementWindow` has passed since the end.",
+  E145: "Set a price of at least one wei per share; the share price is the asset price divided by `totalShares`, rounded down.",
+  E146: "The lease's payment token refused to approve the rent for PropytoDividends; check that the token follows the ERC-20 standard.",
+  E147: "PropytoOffers moves accepted whole-asset offers to PropytoEscrow; the seller confirms the sale there.",
+  E148: "Connect a PropytoEscrow with `updatePurchaseEscrow` before taking offers for the whole asset, or offer for shares.",
+  E149: "Nothing is owed to this account in that token; outbid and refunded bids are credited per payment token, so pass the token the auction was held in.",
+  E150: "Register the asset FOR_SALE or FOR_RENT; sold, rented and other statuses are reached through purchases, leases and status updates.",
+  E151: "Approve or reject every pending listing first; `npx hardhat moderation pending` lists them."
+};
+
+// Free-text reverts, by reason string
+const REASON_HINTS: Record<string, { category: ErrorCategory; hint: string }> = {
+  "Cannot buy your own shares": { category: "registry", hint: "Buy from an account other than the seller." },
+  "Registry address cannot be zero": { category: "sft", hint: "Pass a non-zero registry address." },
+  "Only registry or owner can tokenize assets": { category: "sft", hint: "Tokenization happens through the registry." },
+  "Asset already tokenized": { category: "sft", hint: "The asset already has a token ID; use getTokenId." },
+  "Only registry or owner can mint shares": { category: "sft", hint: "Shares are minted by the registry on purchase." },
+  "Cannot mint to zero address": { category: "sft", hint: "Pass a non-zero recipient." },
+  "Amount must be greater than zero": { category: "sft", hint: "Pass an amount of at least 1." },
+  "Asset not tokenized": { category: "sft", hint: "The asset is tokenized on its first purchase." },
+  "Not authorized to burn shares": { category: "sft", hint: "Only the holder, an approved operator or the registry can burn." },
+  "Insufficient shares to burn": { category: "sft", hint: "Burn at most the held balance." },
+  "Only registry or owner can set URI": { category: "sft", hint: "Token URIs are managed by the registry." },
+  "Token does not exist": { category: "sft", hint: "Check the token ID; it is created on the first purchase." },
+  "ERC1155: insufficient balance for transfer": { category: "sft", hint: "Transfer at most the held balance." },
+  "ERC1155: caller is not token owner or approved": { category: "sft", hint: "Call setApprovalForAll from the holder first." },
+  "ERC20: transfer amount exceeds balance": { category: "token", hint: "Top up the account's USDT balance." },
+  "ERC20: transfer amount exceeds allowance": { category: "token", hint: "Approve the registry for the full amount first." },
+  "ERC20: insufficient allowance": { category: "token", hint: "Approve the registry for the full amount first." },
+  "Ownable: caller is not the owner": { category: "access", hint: "Send the transaction from the contract owner." },
+  "Pausable: paused": { category: "access", hint: "The contract is paused; wait for the owner to unpause it." },
+  "ReentrancyGuard: reentrant call": { category: "access", hint: "The call re-entered the registry; send it separately." }
+};
+
+// Custom errors of OpenZeppelin 5 based payment tokens
+const TOKEN_ERRORS = new Interface([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)"
+]);
+
+const TOKEN_ERROR_HINTS: Record<string, string> = {
+  ERC20InsufficientBalance: "Top up the account's USDT balance.",
+  ERC20InsufficientAllowance: "Approve the registry for the full amount first.",
+  ERC20InvalidSender: "Send from a non-zero address.",
+  ERC20InvalidReceiver: "Pass a non-zero recipient."
+};
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x32: "array index out of bounds"
+};
+
+const ERROR_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+export type ErrorCategory = "registry" | "sft" | "token" | "access" | "panic" | "wallet" | "unknown";
+
+export class PropytoError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    readonly code?: string, // E-code, custom error name or raw reason string
+    readonly hint?: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "PropytoError";
+  }
+}
+
+// Revert of PropytoRegistry with an errors.json code
+export class RegistryError extends PropytoError {
+  constructor(code: string, cause?: unknown) {
+    super(ERROR_MESSAGES[code] ?? `Registry reverted with unknown code ${code}`, "registry", code, ERROR_HINTS[code], cause);
+    this.name = "RegistryError";
+  }
+}
+
+export class SFTError extends PropytoError {
+  constructor(message: string, hint?: string, cause?: unknown) {
+    super(message, "sft", message, hint, cause);
+    this.name = "SFTError";
+  }
+}
+
+// Failure of the payment token (balance, allowance)
+export class TokenError extends PropytoError {
+  constructor(message: string, code: string, hint?: string, cause?: unknown) {
+    super(message, "token", code, hint, cause);
+    this.name = "TokenError";
+  }
+}
+
+function findRevertData(error: any): string | undefined {
+  for (const candidate of [error?.data, error?.error?.data, error?.info?.error?.data, error?.error?.error?.data]) {
+    if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) {
+      return candidate;
+    }
+    if (typeof candidate?.data === "string" && candidate.data.startsWith("0x")) {
+      return candidate.data;
+    }
+  }
+  return undefined;
+}
+
+function findReason(error: any): string | undefined {
+  if (typeof error?.reason === "string" && error.reason) {
+    return error.reason;
+  }
+
+  const message = String(error?.message ?? "");
+  const match =
+    message.match(/reverted with reason string '([^']*)'/) ??
+    message.match(/execution reverted: "?([^"\n]*)"?/);
+  return match?.[1];
+}
+
+function fromReason(reason: string, cause: unknown): PropytoError {
+  if (ERROR_MESSAGES[reason]) {
+    return new RegistryError(reason, cause);
+  }
+
+  const known = REASON_HINTS[reason];
+  if (known?.category === "sft") {
+    return new SFTError(reason, known.hint, cause);
+  }
+  if (known?.category === "token") {
+    return new TokenError(reason, reason, known.hint, cause);
+  }
+  return new PropytoError(reason, known?.category ?? "unknown", reason, known?.hint, cause);
+}
+
+function fromRevertData(data: string, interfaces: Interface[], cause: unknown): PropytoError | undefined {
+  const selector = dataSlice(data, 0, 4);
+
+  if (selector === ERROR_SELECTOR) {
+    const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4));
+    return fromReason(reason, cause);
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(data, 4));
+    const reason = PANIC_REASONS[Number(code)] ?? `panic code 0x${code.toString(16)}`;
+    return new PropytoError(`Contract panicked: ${reason}`, "panic", `Panic(${code})`, undefined, cause);
+  }
+
+  const tokenError = TOKEN_ERRORS.parseError(data);
+  if (tokenError) {
+    return new TokenError(
+      `${tokenError.name}(${tokenError.args.join(", ")})`,
+      tokenError.name,
+      TOKEN_ERROR_HINTS[tokenError.name],
+      cause
+    );
+  }
+
+  for (const contractInterface of interfaces) {
+    const customError = contractInterface.parseError(data);
+    if (customError) {
+      return new PropytoError(
+        `${customError.name}(${customError.args.join(", ")})`,
+        "registry",
+        customError.name,
+        undefined,
+        cause
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn anything thrown by ethers, Hardhat or a wallet into a PropytoError.
+ * `interfaces` are consulted for custom errors not known to the decoder.
+ */
+export function decodeError(error: unknown, interfaces: Interface[] = []): PropytoError {
+  if (error instanceof PropytoError) {
+    return error;
+  }
+
+  const data = findRevertData(error);
+  const decoded = data ? fromRevertData(data, interfaces, error) : undefined;
+  if (decoded) {
+    return decoded;
+  }
+
+  const reason = findReason(error);
+  if (reason) {
+    return fromReason(reason, error);
+  }
+
+  const anyError = error as any;
+  if (anyError?.code === "INSUFFICIENT_FUNDS") {
+    return new PropytoError("Insufficient funds for gas", "wallet", anyError.code, "Top up the account's native balance.", error);
+  }
+  if (anyError?.code === "ACTION_REJECTED") {
+    return new PropytoError("Transaction rejected in the wallet", "wallet", anyError.code, undefined, error);
+  }
+
+  const message = anyError?.shortMessage || anyError?.message || String(error);
+  return new PropytoError(message, "unknown", undefined, undefined, error);
+}
+
+// One-line description: "E16: Purchase would exceed ... (hint)"
+export function describeError(error: unknown): string {
+  const decoded = decodeError(error);
+  const prefix = decoded instanceof RegistryError ? `${decoded.code}: ` : "";
+  return `${prefix}${decoded.message}${decoded.hint ? ` (${decoded.hint})` : ""}`;
+}
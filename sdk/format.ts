@@ -0,0 +1,116 @@
+import { decodeBase64, formatUnits, hexlify, id, parseUnits, toUtf8Bytes, toUtf8String, ZeroHash } from "ethers";
+import { AssetStatus, AssetType, AuctionStatus, AuctionType, EscrowStatus, FundingStatus, KycStatus, LeaseStatus, OfferStatus, ProposalStatus, ProposalType, PropytoAsset, PropytoRole, RejectionReason, ReviewStatus, TokenMetadata } from "./types";
+
+// Prices are stored with 18 decimals on the registry, whatever token they are paid in
+export const PRICE_DECIMALS = 18;
+
+// Format a BigInt price to a readable string. Pass the token's decimals for amounts in
+// payment token units (quotes, deposits, bids, balances)
+export function formatPrice(priceWei: bigint, decimals: number = PRICE_DECIMALS): string {
+  return formatUnits(priceWei, decimals);
+}
+
+// Parse a human readable price (e.g. "10000.5") into its on-chain value
+export function parsePrice(price: string, decimals: number = PRICE_DECIMALS): bigint {
+  return parseUnits(price, decimals);
+}
+
+// Format asset type for display
+export function formatAssetType(type: number | bigint): string {
+  return AssetType[Number(type)] || "Unknown";
+}
+
+// Format asset status for display
+export function formatAssetStatus(status: number | bigint): string {
+  return AssetStatus[Number(status)] || "Unknown";
+}
+
+// Format lease status for display
+export function formatLeaseStatus(status: number | bigint): string {
+  return LeaseStatus[Number(status)] || "Unknown";
+}
+
+export function formatEscrowStatus(status: number | bigint): string {
+  return EscrowStatus[Number(status)] || "Unknown";
+}
+
+export function formatOfferStatus(status: number | bigint): string {
+  return OfferStatus[Number(status)] || "Unknown";
+}
+
+export function formatAuctionType(type: number | bigint): string {
+  return AuctionType[Number(type)] || "Unknown";
+}
+
+export function formatAuctionStatus(status: number | bigint): string {
+  return AuctionStatus[Number(status)] || "Unknown";
+}
+
+export function formatFundingStatus(status: number | bigint): string {
+  return FundingStatus[Number(status)] || "Unknown";
+}
+
+export function formatKycStatus(status: number | bigint): string {
+  return KycStatus[Number(status)] || "Unknown";
+}
+
+export function formatReviewStatus(status: number | bigint): string {
+  return ReviewStatus[Number(status)] || "Unknown";
+}
+
+export function formatRejectionReason(reason: number | bigint): string {
+  return RejectionReason[Number(reason)] || "Unknown";
+}
+
+// Jurisdictions are ISO 3166-1 alpha-2 codes, stored on-chain as bytes2
+export function encodeJurisdiction(code: string): string {
+  if (!/^[A-Za-z]{2}$/.test(code)) {
+    throw new Error(`Invalid jurisdiction "${code}", expected a two-letter ISO 3166-1 code such as US`);
+  }
+  return hexlify(toUtf8Bytes(code.toUpperCase()));
+}
+
+export function decodeJurisdiction(value: string): string {
+  return value === "0x0000" ? "" : toUtf8String(value);
+}
+
+// Role ID used by PropytoAccessManager: keccak256("<ROLE>_ROLE"), zero for the admin role
+export function roleId(role: PropytoRole): string {
+  return role === PropytoRole.ADMIN ? ZeroHash : id(`${role}_ROLE`);
+}
+
+export function formatProposalType(type: number | bigint): string {
+  return ProposalType[Number(type)] || "Unknown";
+}
+
+export function formatProposalStatus(status: number | bigint): string {
+  return ProposalStatus[Number(status)] || "Unknown";
+}
+
+// Parse the assetOtherDetails JSON string, keeping non-JSON values under `raw`
+export function parseOtherDetails(details: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(details);
+    return typeof parsed === "object" && parsed !== null ? parsed : { raw: details };
+  } catch {
+    return { raw: details };
+  }
+}
+
+const JSON_DATA_URI_PREFIX = "data:application/json;base64,";
+
+// Decode the document of an on-chain token URI; null for off-chain URIs, which have to be fetched
+export function decodeTokenURI(uri: string): TokenMetadata | null {
+  if (!uri.startsWith(JSON_DATA_URI_PREFIX)) {
+    return null;
+  }
+  return JSON.parse(toUtf8String(decodeBase64(uri.slice(JSON_DATA_URI_PREFIX.length))));
+}
+
+// Check if an asset is available for purchase (mirrors the E11/E12 checks)
+export function isAssetAvailable(asset: PropytoAsset, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return (
+    (asset.assetStatus === AssetStatus.FOR_SALE || asset.assetStatus === AssetStatus.FOR_RENT)
+    && asset.listingExpiry > BigInt(now)
+  );
+}
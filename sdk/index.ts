@@ -0,0 +1,7 @@
+export * from "./types";
+export * from "./format";
+export * from "./PropytoClient";
+export * from "./manifest";
+export * from "./csv";
+export * from "./bulkImport";
+export * from "./errors";
@@ -0,0 +1,216 @@
+import { isAddress, ZeroAddress } from "ethers";
+import { parsePrice } from "./format";
+import {
+  AssetFurnishing,
+  AssetStatus,
+  AssetType,
+  AssetZone,
+  NewAsset,
+  PartialOwnershipParams,
+  PropytoAssetMedia,
+  PropytoAssetMetadata
+} from "./types";
+
+/**
+ * Flat, human friendly description of a listing, as found in a JSON asset file
+ * or a manifest row. Enums accept their names ("RESIDENTIAL") or numeric values,
+ * prices are in USDT (e.g. "10000.5").
+ */
+export type AssetManifestEntry = Record<string, unknown>;
+
+// A manifest entry converted to the arguments of registerAsset/enablePartialOwnership
+export interface ParsedListing {
+  asset: NewAsset;
+  metadata: PropytoAssetMetadata;
+  media: PropytoAssetMedia;
+  partialOwnership?: PartialOwnershipParams;
+}
+
+export class ManifestError extends Error {
+  constructor(readonly field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "ManifestError";
+  }
+}
+
+const DEFAULT_LISTING_DAYS = 90;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function readString(entry: AssetManifestEntry, field: string, fallback?: string): string {
+  const value = entry[field];
+  if (isBlank(value)) {
+    if (fallback === undefined) {
+      throw new ManifestError(field, "is required");
+    }
+    return fallback;
+  }
+  return String(value);
+}
+
+function readEnum<T extends Record<string, string | number>>(
+  entry: AssetManifestEntry,
+  field: string,
+  enumType: T,
+  fallback: number
+): number {
+  const value = entry[field];
+  if (isBlank(value)) {
+    return fallback;
+  }
+
+  const key = String(value).trim().toUpperCase();
+  if (/^\d+$/.test(key)) {
+    if (enumType[Number(key)] === undefined) {
+      throw new ManifestError(field, `unknown value ${key}`);
+    }
+    return Number(key);
+  }
+  if (typeof enumType[key] !== "number") {
+    const names = Object.keys(enumType).filter((name) => isNaN(Number(name)));
+    throw new ManifestError(field, `expected one of ${names.join(", ")}, got "${value}"`);
+  }
+  return enumType[key] as number;
+}
+
+function readInteger(entry: AssetManifestEntry, field: string, fallback?: bigint): bigint {
+  const value = entry[field];
+  if (isBlank(value)) {
+    if (fallback === undefined) {
+      throw new ManifestError(field, "is required");
+    }
+    return fallback;
+  }
+  if (!/^\d+$/.test(String(value).trim())) {
+    throw new ManifestError(field, `expected a non-negative integer, got "${value}"`);
+  }
+  return BigInt(String(value).trim());
+}
+
+function readPrice(entry: AssetManifestEntry, field: string): bigint {
+  const value = readString(entry, field);
+  try {
+    return parsePrice(value.trim());
+  } catch {
+    throw new ManifestError(field, `expected a USDT amount, got "${value}"`);
+  }
+}
+
+function readBoolean(entry: AssetManifestEntry, field: string, fallback: boolean): boolean {
+  const value = entry[field];
+  if (isBlank(value)) {
+    return fallback;
+  }
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (["true", "yes", "1"].includes(normalized)) return true;
+  if (["false", "no", "0"].includes(normalized)) return false;
+  throw new ManifestError(field, `expected true/false, got "${value}"`);
+}
+
+/**
+ * Validate a manifest entry and convert it to contract arguments.
+ * Throws a ManifestError naming the first invalid field.
+ */
+export function parseAssetEntry(entry: AssetManifestEntry, now: number = Math.floor(Date.now() / 1000)): ParsedListing {
+  const name = readString(entry, "name");
+  const assetType = readEnum(entry, "assetType", AssetType, AssetType.RESIDENTIAL);
+
+  const assetStatus = readEnum(entry, "assetStatus", AssetStatus, AssetStatus.FOR_SALE);
+  if (assetStatus !== AssetStatus.FOR_SALE && assetStatus !== AssetStatus.FOR_RENT) {
+    throw new ManifestError("assetStatus", "new listings must be FOR_SALE or FOR_RENT");
+  }
+
+  const assetAddress = readString(entry, "assetAddress", ZeroAddress);
+  if (!isAddress(assetAddress)) {
+    throw new ManifestError("assetAddress", `invalid address "${assetAddress}"`);
+  }
+
+  const assetPrice = readPrice(entry, "assetPrice");
+  if (assetPrice === 0n) {
+    throw new ManifestError("assetPrice", "must be greater than zero");
+  }
+
+  let listingExpiry = readInteger(entry, "listingExpiry", 0n);
+  if (listingExpiry === 0n) {
+    listingExpiry = BigInt(now) + readInteger(entry, "listingExpiryDays", BigInt(DEFAULT_LISTING_DAYS)) * 86400n;
+  } else if (listingExpiry <= BigInt(now)) {
+    throw new ManifestError("listingExpiry", "must be in the future");
+  }
+
+  const otherDetails = entry.assetOtherDetails;
+  const asset: NewAsset = {
+    name,
+    assetType,
+    assetAddress,
+    assetStatus,
+    assetFurnishing: readEnum(entry, "assetFurnishing", AssetFurnishing, AssetFurnishing.UNFURNISHED),
+    assetZone: readEnum(entry, "assetZone", AssetZone, assetType),
+    assetPrice,
+    assetArea: readInteger(entry, "assetArea"),
+    assetAge: readInteger(entry, "assetAge", 0n),
+    assetOtherDetails: typeof otherDetails === "object" && otherDetails !== null
+      ? JSON.stringify(otherDetails)
+      : readString(entry, "assetOtherDetails", "{}"),
+    isRentable: readBoolean(entry, "isRentable", true),
+    isSellable: readBoolean(entry, "isSellable", true),
+    isPartiallyOwnEnabled: readBoolean(entry, "isPartiallyOwnEnabled", false),
+    listingExpiry
+  };
+
+  const metadata: PropytoAssetMetadata = {
+    assetDescription: readString(entry, "assetDescription", ""),
+    assetFeatures: readString(entry, "assetFeatures", ""),
+    assetAmenities: readString(entry, "assetAmenities", ""),
+    assetLocation: readString(entry, "assetLocation", "")
+  };
+
+  const media: PropytoAssetMedia = {
+    assetImage: readString(entry, "assetImage", ""),
+    assetVideo: readString(entry, "assetVideo", ""),
+    assetFloorPlan: readString(entry, "assetFloorPlan", "")
+  };
+
+  // Partial ownership is only set up when totalShares is given (mirrors E1-E6)
+  let partialOwnership: PartialOwnershipParams | undefined;
+  if (!isBlank(entry.totalShares)) {
+    if (!asset.isPartiallyOwnEnabled) {
+      throw new ManifestError("totalShares", "requires isPartiallyOwnEnabled to be true");
+    }
+
+    const totalShares = readInteger(entry, "totalShares");
+    if (totalShares === 0n) {
+      throw new ManifestError("totalShares", "must be greater than zero");
+    }
+
+    const sharePrice = isBlank(entry.sharePrice) ? assetPrice / totalShares : readPrice(entry, "sharePrice");
+    if (sharePrice === 0n) {
+      throw new ManifestError("sharePrice", "must be greater than zero");
+    }
+
+    const minSharePurchase = readInteger(entry, "minSharePurchase", 1n);
+    if (minSharePurchase === 0n || minSharePurchase > totalShares) {
+      throw new ManifestError("minSharePurchase", "must be between 1 and totalShares");
+    }
+
+    const sellerShares = readInteger(entry, "sellerShares", 0n);
+    if (sellerShares > totalShares) {
+      throw new ManifestError("sellerShares", "cannot exceed totalShares");
+    }
+
+    partialOwnership = {
+      totalShares,
+      sharePrice,
+      minSharePurchase,
+      maxSharesPerOwner: readInteger(entry, "maxSharesPerOwner", totalShares),
+      sellerShares
+    };
+  }
+
+  return { asset, metadata, media, partialOwnership };
+}
@@ -0,0 +1,477 @@
+// Enum mappings from PropytoRegistry.sol (keep in declaration order)
+
+export enum AssetType {
+  RESIDENTIAL = 0,
+  COMMERCIAL = 1,
+  LAND = 2,
+  OTHER = 3
+}
+
+export enum ResidentialType {
+  NONE = 0,
+  APARTMENT = 1,
+  FARMHOUSE = 2,
+  VILLA = 3,
+  BUNGALOW = 4,
+  OTHER = 5
+}
+
+export enum CommercialType {
+  NONE = 0,
+  SHOP = 1,
+  OFFICE = 2,
+  GODOWN = 3,
+  OTHER = 4
+}
+
+export enum LandType {
+  NONE = 0,
+  PLOT = 1,
+  FARMS = 2,
+  OTHER = 3
+}
+
+export enum AssetStatus {
+  FOR_SALE = 0,
+  FOR_RENT = 1,
+  SOLD = 2,
+  RENTED = 3,
+  DELISTED = 4,
+  OTHER = 5,
+  PENDING = 6, // awaiting review by the moderation module
+  REJECTED = 7 // turned down by the moderation module
+}
+
+export enum AssetFurnishing {
+  UNFURNISHED = 0,
+  PARTIALLY_FURNISHED = 1,
+  FULLY_FURNISHED = 2,
+  OTHER = 3
+}
+
+export enum AssetZone {
+  INDUSTRIAL = 0,
+  COMMERCIAL = 1,
+  RESIDENTIAL = 2,
+  LAND = 3,
+  OTHER = 4
+}
+
+// Mirrors the PropytoAsset struct
+export interface PropytoAsset {
+  name: string;
+  assetType: AssetType;
+  assetAddress: string;
+  assetStatus: AssetStatus;
+  assetFurnishing: AssetFurnishing;
+  assetZone: AssetZone;
+  assetPrice: bigint;
+  assetArea: bigint;
+  assetAge: bigint;
+  assetOtherDetails: string;
+  isRentable: boolean;
+  isSellable: boolean;
+  isPartiallyOwnEnabled: boolean;
+  seller: string;
+  listingExpiry: bigint;
+}
+
+// Mirrors the PropytoAssetMetadata struct
+export interface PropytoAssetMetadata {
+  assetDescription: string;
+  assetFeatures: string;
+  assetAmenities: string;
+  assetLocation: string;
+}
+
+// Mirrors the PropytoAssetMedia struct
+export interface PropytoAssetMedia {
+  assetImage: string;
+  assetVideo: string;
+  assetFloorPlan: string;
+}
+
+// Mirrors the PropytoRentData struct
+export interface PropytoRentData {
+  rentPrice: bigint;
+  rentDeposit: bigint;
+  rentPeriod: bigint;
+  rentSecurityDeposit: bigint;
+}
+
+// Mirrors the PartialOwnershipInfo struct returned by getPartialOwnership
+export interface PartialOwnershipInfo {
+  totalShares: bigint;
+  availableShares: bigint;
+  sharePrice: bigint;
+  minSharePurchase: bigint;
+  maxSharesPerOwner: bigint;
+  ownerCount: bigint;
+  isInitialized: boolean;
+}
+
+// One row of the cap table returned by getCapTable
+export interface CapTableEntry {
+  owner: string;
+  shares: bigint;
+}
+
+// Mirrors the PurchaseQuote struct returned by quotePurchase; amounts are in payment token units
+export interface PurchaseQuote {
+  totalPrice: bigint; // amount the buyer pays (and must approve)
+  platformFee: bigint;
+  sellerAmount: bigint;
+  availableShares: bigint; // shares left for sale after the purchase
+}
+
+// Bounds passed to purchaseSharesWithLimits
+export interface PurchaseLimits {
+  maxTotalPrice: bigint; // revert if the purchase would cost more
+  deadline: bigint; // unix timestamp after which the purchase reverts
+}
+
+// Mirrors PropytoRegistry.PermitSignature: an EIP-2612 permit letting the registry pull `value` of a payment token
+export interface PermitSignature {
+  value: bigint;
+  deadline: bigint; // unix timestamp after which the permit is rejected
+  v: number;
+  r: string;
+  s: string;
+}
+
+// A token the registry accepts as payment
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  isDefault: boolean; // listing fees and new escrows, offers, auctions, leases and sell orders pay in the default token
+}
+
+// Mirrors PropytoShareMarket.SellOrder, with its ID
+export interface SellOrder {
+  id: bigint;
+  assetId: bigint;
+  seller: string;
+  pricePerShare: bigint; // in paymentToken units
+  remainingShares: bigint;
+  isActive: boolean; // false once filled or cancelled
+  paymentToken: string; // the default payment token when the order was created
+}
+
+export interface SellOrderFilter {
+  assetId?: bigint;
+  seller?: string;
+  activeOnly?: boolean;
+}
+
+export enum LeaseStatus {
+  ACTIVE,
+  ENDED,
+  TERMINATED
+}
+
+// Mirrors PropytoRentals.Lease, with its ID
+export interface Lease {
+  id: bigint;
+  assetId: bigint;
+  tenant: string;
+  landlord: string;
+  rentPrice: bigint; // per period, in paymentToken units
+  periodLength: bigint; // in seconds
+  deposit: bigint; // escrowed rentDeposit + rentSecurityDeposit
+  startTime: bigint;
+  endTime: bigint;
+  paidUntil: bigint; // rent is paid up to this timestamp
+  missedPayments: bigint;
+  lastFlaggedAt: bigint;
+  closedAt: bigint; // 0 while the lease is active
+  status: LeaseStatus;
+  depositSettled: boolean;
+  paymentToken: string; // the default payment token when the lease started
+  isOverdue: boolean;
+}
+
+export enum EscrowStatus {
+  PENDING,
+  SETTLED,
+  CANCELLED,
+  REFUNDED
+}
+
+// Mirrors PropytoEscrow.Escrow, with its ID
+export interface Escrow {
+  id: bigint;
+  assetId: bigint;
+  buyer: string;
+  seller: string;
+  agent: string; // ZeroAddress when the seller appointed no escrow agent
+  amount: bigint; // deposited in paymentToken
+  platformFee: bigint; // part of amount sent to the fee collector on settlement
+  deadline: bigint; // last moment the sale can be confirmed
+  status: EscrowStatus;
+  paymentToken: string; // the default payment token when the deposit was made
+  isReclaimable: boolean; // the buyer can take the deposit back now
+}
+
+export enum OfferStatus {
+  OPEN,
+  COUNTERED,
+  ACCEPTED,
+  REJECTED,
+  CANCELLED
+}
+
+// Mirrors PropytoOffers.Offer, with its ID
+export interface Offer {
+  id: bigint;
+  assetId: bigint;
+  buyer: string;
+  shareCount: bigint; // 0 for the whole asset
+  amount: bigint; // deposited in paymentToken, the offered total price
+  counterAmount: bigint; // the seller's counter-offer, 0 if none
+  expiry: bigint; // last moment the offer, or the counter-offer, can be accepted
+  status: OfferStatus;
+  paymentToken: string; // the default payment token when the offer was placed
+  isExpired: boolean; // past the expiry; the buyer can still cancel an unaccepted offer
+}
+
+export enum AuctionType {
+  ENGLISH,
+  DUTCH
+}
+
+export enum AuctionStatus {
+  ACTIVE,
+  SOLD,
+  UNSOLD,
+  CANCELLED,
+  REFUNDED
+}
+
+// Opening terms of an English auction
+export interface EnglishAuctionParams {
+  reservePrice: bigint; // the first bid must be at least this
+  minIncrement: bigint; // each later bid must beat the highest one by this much
+  duration: bigint; // in seconds; late bids extend it
+}
+
+// Opening terms of a Dutch auction
+export interface DutchAuctionParams {
+  startPrice: bigint;
+  floorPrice: bigint; // price reached at the end
+  duration: bigint; // in seconds
+}
+
+// Mirrors PropytoAuctions.Auction, with its ID and current prices
+export interface Auction {
+  id: bigint;
+  assetId: bigint;
+  seller: string; // when the auction started
+  auctionType: AuctionType;
+  startPrice: bigint; // English: reserve price; Dutch: opening price
+  floorPrice: bigint; // Dutch only
+  minIncrement: bigint; // English only
+  startTime: bigint;
+  endTime: bigint;
+  highestBidder: string; // ZeroAddress until the first bid
+  highestBid: bigint;
+  status: AuctionStatus;
+  paymentToken: string; // the default payment token when the auction started; prices and bids are in it
+  currentPrice: bigint; // English: the highest bid; Dutch: what a bid pays now
+  minimumBid: bigint; // English: the smallest valid next bid
+  isRefundable: boolean; // the winning bid was left unsettled past the settlement deadline
+}
+
+export enum FundingStatus {
+  NONE,
+  OPEN,
+  SUCCEEDED,
+  FAILED
+}
+
+// Caps of a crowdfunded offering, in shares
+export interface FundingCaps {
+  softCap: bigint; // shares that must sell before the seller is paid
+  hardCap: bigint; // shares that can sell in total
+}
+
+// Mirrors PropytoCrowdfunding.FundingGoal, with its current status
+export interface FundingGoal extends FundingCaps {
+  deadline: bigint; // the soft cap must be sold before this timestamp
+  sharesSold: bigint;
+  totalRaised: bigint; // platform fees included
+  escrowedAmount: bigint; // held for the seller or for refunds
+  paymentToken: string; // the default payment token when the goal was set; ZeroAddress without a goal
+  status: FundingStatus;
+}
+
+// Shares a buyer bought in a crowdfunded offering and what they paid for them
+export interface FundingContribution {
+  shares: bigint;
+  amount: bigint;
+}
+
+// Dividends of one holder of an asset, in USDT
+export interface DividendBalance {
+  holder: string;
+  shares: bigint;
+  claimable: bigint;
+  claimed: bigint;
+}
+
+export enum ProposalType {
+  PRICE_CHANGE,
+  MAINTENANCE,
+  SELL_PROPERTY,
+  RENOVATE,
+  OTHER
+}
+
+export enum ProposalStatus {
+  ACTIVE,
+  EXECUTED,
+  REJECTED,
+  EXPIRED
+}
+
+// Mirrors PropytoGovernance.Proposal, with its ID and current tally
+export interface Proposal {
+  id: bigint;
+  assetId: bigint;
+  proposer: string;
+  proposalType: ProposalType;
+  value: bigint; // new asset price for PRICE_CHANGE and SELL_PROPERTY
+  description: string;
+  snapshotId: bigint; // votes count the shares held at this PropytoSFT snapshot
+  snapshotSupply: bigint; // all of the asset's shares, sold or not
+  seller: string; // votes the unsold shares besides its own
+  unsoldShares: bigint;
+  voteEnd: bigint;
+  forVotes: bigint;
+  againstVotes: bigint;
+  quorumReached: boolean;
+  approved: boolean;
+  status: ProposalStatus; // includes outcomes executeProposal has not recorded yet
+}
+
+// Mirrors PropytoGovernance.GovernanceConfig; thresholds in basis points
+export interface GovernanceConfig {
+  proposalThreshold: bigint;
+  quorum: bigint;
+  approvalThreshold: bigint;
+  votingPeriod: bigint;
+  executionWindow: bigint;
+}
+
+// Ownership state of an asset as seen by the registry and its SFT
+export interface AssetOwnership {
+  sftAddress: string;
+  tokenId: bigint; // 0 until the asset is tokenized on first purchase
+  partialOwnership: PartialOwnershipInfo;
+  owners: string[];
+  sharesByOwner: Record<string, bigint>;
+}
+
+// Fully normalized asset, as returned by PropytoClient
+export interface AssetDetails {
+  id: bigint;
+  asset: PropytoAsset;
+  metadata: PropytoAssetMetadata;
+  media: PropytoAssetMedia;
+  rentData: PropytoRentData;
+  ownership: AssetOwnership;
+  otherDetails: Record<string, any>;
+}
+
+// Input accepted by PropytoClient.listAsset; seller is always set by the contract
+export type NewAsset = Omit<PropytoAsset, "seller">;
+
+// Arguments of PropytoRegistry.enablePartialOwnership
+export interface PartialOwnershipParams {
+  totalShares: bigint;
+  sharePrice: bigint;
+  minSharePurchase: bigint;
+  maxSharesPerOwner: bigint;
+  sellerShares: bigint;
+}
+
+export enum KycStatus {
+  NONE,
+  APPROVED,
+  REVOKED
+}
+
+// Mirrors PropytoCompliance.Investor; jurisdiction is an ISO 3166-1 alpha-2 code such as "US", "" when unset
+export interface InvestorRecord {
+  kycStatus: KycStatus;
+  kycExpiry: bigint; // the approval lapses at this timestamp
+  jurisdiction: string;
+  accredited: boolean;
+}
+
+// Mirrors PropytoCompliance.AssetRules; assets without rules (enabled false) are open to every investor
+export interface ComplianceRules {
+  enabled: boolean;
+  allowedJurisdictions: string[]; // empty to allow every jurisdiction
+  accreditedOnly: boolean;
+  maxHolders: bigint; // 0 for no limit
+}
+
+// Platform roles kept by PropytoAccessManager
+export enum PropytoRole {
+  ADMIN = "ADMIN", // grants and revokes roles, wires the registry's modules
+  FEE_MANAGER = "FEE_MANAGER",
+  PAUSER = "PAUSER",
+  LISTING_MODERATOR = "LISTING_MODERATOR",
+  COMPLIANCE_OFFICER = "COMPLIANCE_OFFICER",
+  APPRAISER = "APPRAISER"
+}
+
+// Accounts holding one role
+export interface RoleHolders {
+  role: PropytoRole;
+  holders: string[];
+}
+
+export enum ReviewStatus {
+  NONE,
+  PENDING,
+  APPROVED,
+  REJECTED
+}
+
+export enum RejectionReason {
+  OTHER,
+  INACCURATE_DETAILS,
+  PROHIBITED_CONTENT,
+  UNREALISTIC_PRICE,
+  DUPLICATE_LISTING,
+  MISSING_DOCUMENTS
+}
+
+// Mirrors PropytoModeration.Review; moderator is the zero address and decidedAt 0 while pending
+export interface ListingReview {
+  status: ReviewStatus;
+  requestedStatus: AssetStatus; // status the asset gets once approved
+  feeToken: string;
+  listingFee: bigint; // held by the moderation module until the decision
+  moderator: string;
+  decidedAt: bigint;
+  reason: RejectionReason; // only meaningful for rejected listings
+  feeRefunded: boolean;
+}
+
+// Token metadata document built on-chain by PropytoMetadataRenderer
+export interface TokenMetadata {
+  name: string;
+  description: string;
+  image?: string; // absent when the asset has no image
+  attributes: TokenAttribute[];
+}
+
+// Type, Zone and Furnishing are strings; Area (sq ft) and Price (USDT) are numbers
+export interface TokenAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: "number";
+}
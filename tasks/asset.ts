@@ -0,0 +1,172 @@
+import fs from "fs";
+import { scope, types } from "hardhat/config";
+import Table from "cli-table3";
+import { ZeroAddress } from "ethers";
+import type { AssetDetails } from "../sdk";
+import { AssetStatus, AssetType, PropytoAsset } from "../sdk/types";
+import { formatAssetStatus, formatAssetType, formatPrice, isAssetAvailable } from "../sdk/format";
+import { parseAssetEntry } from "../sdk/manifest";
+import { CommonArgs, confirm, createIndexer, getClient, output, parseAssetId, runCommand, withCommonArgs } from "./utils";
+
+const assetScope = scope("asset", "Browse and register Propyto assets");
+
+function printAssetTable(assets: { id: bigint; asset: PropytoAsset }[]): void {
+  if (assets.length === 0) {
+    console.log("No assets found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["ID", "Name", "Type", "Price (USDT)", "Status", "Expires"],
+    colWidths: [8, 30, 15, 15, 15, 15]
+  });
+
+  assets.forEach((details) => {
+    // Using any to avoid type mismatches with cli-table3
+    (table as any).push([
+      details.id.toString(),
+      details.asset.name.length > 28 ? details.asset.name.substring(0, 25) + "..." : details.asset.name,
+      formatAssetType(details.asset.assetType),
+      formatPrice(details.asset.assetPrice),
+      formatAssetStatus(details.asset.assetStatus),
+      new Date(Number(details.asset.listingExpiry) * 1000).toLocaleDateString()
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+export function printAssetDetails(details: AssetDetails): void {
+  const { asset, metadata, media, rentData, ownership } = details;
+
+  console.log(`Asset #${details.id}: ${asset.name}`);
+  console.log(`  Type:        ${formatAssetType(asset.assetType)}`);
+  console.log(`  Status:      ${formatAssetStatus(asset.assetStatus)}`);
+  console.log(`  Price:       ${formatPrice(asset.assetPrice)} USDT`);
+  console.log(`  Area:        ${asset.assetArea} sq ft`);
+  console.log(`  Age:         ${asset.assetAge} days`);
+  console.log(`  Expires:     ${new Date(Number(asset.listingExpiry) * 1000).toLocaleDateString()}`);
+  console.log(`  Seller:      ${asset.seller}`);
+  console.log(`  Rentable:    ${asset.isRentable ? "Yes" : "No"}`);
+  console.log(`  Fractional:  ${asset.isPartiallyOwnEnabled ? "Yes" : "No"}`);
+  console.log(`  Description: ${metadata.assetDescription}`);
+  console.log(`  Location:    ${metadata.assetLocation}`);
+  if (media.assetImage) console.log(`  Image:       ${media.assetImage}`);
+  if (asset.isRentable) console.log(`  Rent:        ${formatPrice(rentData.rentPrice)} USDT / ${rentData.rentPeriod} days`);
+  console.log(`  SFT:         ${ownership.sftAddress} (token ${ownership.tokenId})`);
+  if (ownership.partialOwnership.isInitialized) {
+    const info = ownership.partialOwnership;
+    console.log(`  Shares:      ${info.availableShares} of ${info.totalShares} available at ${formatPrice(info.sharePrice)} USDT`);
+    console.log(`  Limits:      min ${info.minSharePurchase} per purchase, max ${info.maxSharesPerOwner} per owner`);
+  }
+  for (const owner of ownership.owners) {
+    console.log(`  Owner:       ${owner} - ${ownership.sharesByOwner[owner]} shares`);
+  }
+}
+
+withCommonArgs(
+  assetScope
+    .task("list", "List registered assets")
+    .addOptionalParam("status", "Only show assets with this status (e.g. FOR_SALE)", "")
+    .addOptionalParam("type", "Only show assets of this type (e.g. RESIDENTIAL)", "")
+    .addOptionalParam("seller", "Only show assets listed by this seller", "")
+    .addFlag("available", "Only show assets that can currently be purchased")
+).setAction(async (args: CommonArgs & { status: string; type: string; seller: string; available: boolean }, hre) => {
+  await runCommand(args, async () => {
+    const status = args.status ? AssetStatus[args.status.toUpperCase() as keyof typeof AssetStatus] : undefined;
+    const type = args.type ? AssetType[args.type.toUpperCase() as keyof typeof AssetType] : undefined;
+    if (args.status && status === undefined) throw new Error(`Unknown status "${args.status}"`);
+    if (args.type && type === undefined) throw new Error(`Unknown asset type "${args.type}"`);
+
+    // Read from the local index, synced first, instead of fetching every asset from the registry
+    const indexer = await createIndexer(hre, args);
+    await indexer.sync();
+    const index = await indexer.getIndex();
+
+    const candidates = args.seller ? index.getSellerAssets(args.seller) : index.getAssets();
+    const assets = candidates.filter((indexed) =>
+      (status === undefined || indexed.asset.assetStatus === status)
+      && (type === undefined || indexed.asset.assetType === type)
+      && (!args.available || (isAssetAvailable(indexed.asset) && !indexed.inEscrow))
+    );
+
+    output(args, assets, () => printAssetTable(assets));
+  });
+});
+
+withCommonArgs(
+  assetScope
+    .task("show", "Show the full details of an asset")
+    .addPositionalParam("id", "Asset ID")
+).setAction(async (args: CommonArgs & { id: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.id);
+
+    if (assetId >= await client.getAssetCount()) {
+      throw new Error(`Asset ${assetId} does not exist`);
+    }
+
+    const details = await client.getAsset(assetId);
+    output(args, details, () => printAssetDetails(details));
+  });
+});
+
+withCommonArgs(
+  assetScope
+    .task("metadata", "Show the token metadata of an asset's SFT")
+    .addPositionalParam("id", "Asset ID")
+).setAction(async (args: CommonArgs & { id: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.id);
+
+    if (assetId >= await client.getAssetCount()) {
+      throw new Error(`Asset ${assetId} does not exist`);
+    }
+
+    // Without a renderer the SFTs serve the off-chain metadata API, which this command does not fetch
+    if ((await client.registry.metadataRenderer()) === ZeroAddress) {
+      const uri = await client.getTokenURI(assetId);
+      output(args, { assetId, uri }, () => console.log(`Asset ${assetId} metadata is served off-chain at ${uri}`));
+      return;
+    }
+
+    const metadata = await client.getTokenMetadata(assetId);
+    output(args, metadata, () => {
+      console.log(`Name:        ${metadata.name}`);
+      console.log(`Description: ${metadata.description}`);
+      console.log(`Image:       ${metadata.image ?? "none"}`);
+      metadata.attributes.forEach(({ trait_type, value }) => console.log(`${`${trait_type}:`.padEnd(13)}${value}`));
+    });
+  });
+});
+
+withCommonArgs(
+  assetScope
+    .task("register", "Register an asset described by a JSON file")
+    .addParam("file", "Path to a JSON file with the asset fields", undefined, types.inputFile)
+).setAction(async (args: CommonArgs & { file: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const listing = parseAssetEntry(JSON.parse(fs.readFileSync(args.file, "utf8")));
+
+    if (!args.json) {
+      console.log(`Registering "${listing.asset.name}" for ${formatPrice(listing.asset.assetPrice)} USDT`);
+      if (listing.partialOwnership) {
+        console.log(`Partial ownership: ${listing.partialOwnership.totalShares} shares at ${formatPrice(listing.partialOwnership.sharePrice)} USDT`);
+      }
+    }
+    if (!(await confirm("Confirm asset registration?", args))) {
+      console.log("Asset registration cancelled");
+      return;
+    }
+
+    const result = await client.listAsset(listing.asset, listing.metadata, listing.media, listing.partialOwnership);
+    output(
+      args,
+      { assetId: result.assetId, sftAddress: result.sftAddress, txHash: result.receipt.hash },
+      () => console.log(`Asset registered with ID ${result.assetId} (SFT ${result.sftAddress})`)
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { scope } from "hardhat/config";
+import Table from "cli-table3";
+import { ZeroAddress } from "ethers";
+import { Auction, AuctionStatus, AuctionType } from "../sdk";
+import { formatAuctionStatus, formatAuctionType, formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const auctionScope = scope("auction", "Sell whole assets by English or Dutch auction");
+
+function parseAuctionId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid auction ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function printAuction(auction: Auction, decimals: number): void {
+  console.log(`${formatAuctionType(auction.auctionType)} auction ${auction.id} on asset ${auction.assetId}`);
+  console.log(`  Status:        ${formatAuctionStatus(auction.status)}${auction.isRefundable ? " (winning bid refundable)" : ""}`);
+  console.log(`  Seller:        ${auction.seller}`);
+  if (auction.auctionType === AuctionType.ENGLISH) {
+    console.log(`  Reserve:       ${formatPrice(auction.startPrice, decimals)} USDT`);
+    console.log(`  Increment:     ${formatPrice(auction.minIncrement, decimals)} USDT`);
+    console.log(`  Highest Bid:   ${auction.highestBidder === ZeroAddress ? "None" : `${formatPrice(auction.highestBid, decimals)} USDT by ${auction.highestBidder}`}`);
+    if (auction.status === AuctionStatus.ACTIVE) {
+      console.log(`  Minimum Bid:   ${formatPrice(auction.minimumBid, decimals)} USDT`);
+    }
+  } else {
+    console.log(`  Opening Price: ${formatPrice(auction.startPrice, decimals)} USDT`);
+    console.log(`  Floor Price:   ${formatPrice(auction.floorPrice, decimals)} USDT`);
+    if (auction.status === AuctionStatus.ACTIVE) {
+      console.log(`  Current Price: ${formatPrice(auction.currentPrice, decimals)} USDT`);
+    } else if (auction.highestBidder !== ZeroAddress) {
+      console.log(`  Sold For:      ${formatPrice(auction.highestBid, decimals)} USDT to ${auction.highestBidder}`);
+    }
+  }
+  console.log(`  Ends:          ${formatTime(auction.endTime)}`);
+}
+
+// `decimals` holds the decimals of each auction's payment token
+function printAuctionTable(auctions: Auction[], decimals: number[]): void {
+  if (auctions.length === 0) {
+    console.log("No auctions found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Auction", "Type", "Price (USDT)", "Highest Bidder", "Ends", "Status"],
+    colWidths: [9, 9, 18, 46, 26, 11]
+  });
+
+  auctions.forEach((auction, index) => {
+    (table as any).push([
+      auction.id.toString(),
+      formatAuctionType(auction.auctionType),
+      formatPrice(auction.currentPrice, decimals[index]),
+      auction.highestBidder === ZeroAddress ? "-" : auction.highestBidder,
+      formatTime(auction.endTime),
+      formatAuctionStatus(auction.status)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  auctionScope.task("list", "List the auctions of an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auctions = await client.getAssetAuctions(parseAssetId(args.asset));
+    const decimals = await Promise.all(auctions.map((auction) => client.getPaymentTokenDecimals(auction.paymentToken)));
+    output(args, auctions, () => printAuctionTable(auctions, decimals));
+  });
+});
+
+withCommonArgs(
+  auctionScope.task("show", "Show an auction").addParam("auction", "Auction ID")
+).setAction(async (args: CommonArgs & { auction: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auction = await client.getAuction(parseAuctionId(args.auction));
+    const decimals = await client.getPaymentTokenDecimals(auction.paymentToken);
+    output(args, auction, () => printAuction(auction, decimals));
+  });
+});
+
+withCommonArgs(
+  auctionScope
+    .task("start", "Put a whole asset up for auction (seller only)")
+    .addParam("asset", "Asset ID")
+    .addParam("type", "english or dutch")
+    .addParam("price", "English: reserve price; Dutch: opening price (USDT)")
+    .addOptionalParam("increment", "English: minimum bid increment in USDT", "")
+    .addOptionalParam("floor", "Dutch: price reached at the end, in USDT", "")
+    .addOptionalParam("hours", "Auction duration in hours", "72")
+).setAction(
+  async (args: CommonArgs & { asset: string; type: string; price: string; increment: string; floor: string; hours: string }, hre) => {
+    await runCommand(args, async () => {
+      const type = args.type.toLowerCase();
+      if (type !== "english" && type !== "dutch") {
+        throw new Error(`Invalid auction type "${args.type}", expected english or dutch`);
+      }
+      if (type === "english" && !args.increment) {
+        throw new Error("English auctions need --increment");
+      }
+      if (type === "dutch" && !args.floor) {
+        throw new Error("Dutch auctions need --floor");
+      }
+
+      const client = await getClient(hre, args);
+      const decimals = await client.getPaymentTokenDecimals();
+      const assetId = parseAssetId(args.asset);
+      const price = parsePrice(args.price, decimals);
+      const increment = type === "english" ? parsePrice(args.increment, decimals) : 0n;
+      const floor = type === "dutch" ? parsePrice(args.floor, decimals) : 0n;
+      const duration = parseCount(args.hours, "hour count") * 3600n;
+      const { asset } = await client.getAsset(assetId);
+
+      const terms =
+        type === "english"
+          ? `reserve ${formatPrice(price, decimals)} USDT, increments of ${formatPrice(increment, decimals)} USDT`
+          : `from ${formatPrice(price, decimals)} down to ${formatPrice(floor, decimals)} USDT`;
+      if (!(await confirm(`Auction "${asset.name}" (${terms}) for ${args.hours} hours? The asset is locked until it closes.`, args))) {
+        console.log("Auction not started.");
+        return;
+      }
+
+      const { auctionId, receipt } =
+        type === "english"
+          ? await client.startEnglishAuction(assetId, { reservePrice: price, minIncrement: increment, duration })
+          : await client.startDutchAuction(assetId, { startPrice: price, floorPrice: floor, duration });
+      output(args, { auctionId, assetId, txHash: receipt.hash }, () =>
+        console.log(`Auction ${auctionId} started in ${receipt.hash}`)
+      );
+    });
+  }
+);
+
+withCommonArgs(
+  auctionScope
+    .task("bid", "Bid on an auction; on a Dutch auction this buys at the current price")
+    .addParam("auction", "Auction ID")
+    .addOptionalParam("amount", "Bid in USDT (defaults to the minimum bid, or the current Dutch price)", "")
+).setAction(async (args: CommonArgs & { auction: string; amount: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auctionId = parseAuctionId(args.auction);
+    const auction = await client.getAuction(auctionId);
+    const decimals = await client.getPaymentTokenDecimals(auction.paymentToken);
+    const isDutch = auction.auctionType === AuctionType.DUTCH;
+    const amount = args.amount ? parsePrice(args.amount, decimals) : isDutch ? auction.currentPrice : auction.minimumBid;
+
+    const question = isDutch
+      ? `Buy asset ${auction.assetId} now for at most ${formatPrice(amount, decimals)} USDT?`
+      : `Bid ${formatPrice(amount, decimals)} USDT on asset ${auction.assetId}? The bid is held until the auction closes; if you are outbid, withdraw it with \`npx hardhat auction withdraw\`.`;
+    if (!(await confirm(question, args))) {
+      console.log("Bid cancelled.");
+      return;
+    }
+
+    const receipt = await client.placeBid(auctionId, amount);
+    output(args, { auctionId, amount, txHash: receipt.hash }, () => console.log(`Bid placed in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  auctionScope.task("settle", "Close an auction that has ended").addParam("auction", "Auction ID")
+).setAction(async (args: CommonArgs & { auction: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auctionId = parseAuctionId(args.auction);
+    const receipt = await client.settleAuction(auctionId);
+    const auction = await client.getAuction(auctionId);
+    const decimals = await client.getPaymentTokenDecimals(auction.paymentToken);
+    output(args, { auctionId, status: formatAuctionStatus(auction.status), winner: auction.highestBidder, txHash: receipt.hash }, () =>
+      console.log(
+        auction.status === AuctionStatus.SOLD
+          ? `Sold to ${auction.highestBidder} for ${formatPrice(auction.highestBid, decimals)} USDT in ${receipt.hash}`
+          : `Auction closed without bids in ${receipt.hash}`
+      )
+    );
+  });
+});
+
+withCommonArgs(
+  auctionScope.task("refund", "Refund the winning bid of an auction left unsettled past its deadline").addParam("auction", "Auction ID")
+).setAction(async (args: CommonArgs & { auction: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auctionId = parseAuctionId(args.auction);
+    const receipt = await client.refundWinningBid(auctionId);
+    output(args, { auctionId, txHash: receipt.hash }, () =>
+      console.log(`Winning bid of auction ${auctionId} credited back in ${receipt.hash}; the winner withdraws it with \`npx hardhat auction withdraw\``)
+    );
+  });
+});
+
+withCommonArgs(
+  auctionScope
+    .task("withdraw", "Withdraw your outbid and refunded bids")
+    .addOptionalParam("token", "Payment token the auctions were held in (defaults to the default payment token)", "")
+).setAction(async (args: CommonArgs & { token: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const [signer] = await hre.ethers.getSigners();
+    const paymentToken = args.token || undefined;
+    const amount = await client.getPendingAuctionRefund(signer.address, paymentToken);
+    const decimals = await client.getPaymentTokenDecimals(paymentToken);
+    const receipt = await client.withdrawAuctionRefund(paymentToken);
+    output(args, { amount, txHash: receipt.hash }, () => console.log(`Withdrew ${formatPrice(amount, decimals)} USDT in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  auctionScope.task("cancel", "Call off an auction nobody has bid on (seller only)").addParam("auction", "Auction ID")
+).setAction(async (args: CommonArgs & { auction: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const auctionId = parseAuctionId(args.auction);
+    const receipt = await client.cancelAuction(auctionId);
+    output(args, { auctionId, txHash: receipt.hash }, () => console.log(`Auction ${auctionId} cancelled in ${receipt.hash}`));
+  });
+});
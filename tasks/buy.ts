@@ -0,0 +1,61 @@
+import { task } from "hardhat/config";
+import { formatPrice } from "../sdk/format";
+import { PaymentToken, PurchaseQuote } from "../sdk/types";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+// Quotes are in units of the token paid with
+function formatQuote(quote: PurchaseQuote, token: PaymentToken): string {
+  const format = (amount: bigint) => `${formatPrice(amount, token.decimals)} ${token.symbol}`;
+  return `${format(quote.totalPrice)} (platform fee ${format(quote.platformFee)})`;
+}
+
+withCommonArgs(
+  task("buy", "Buy an entire asset through the escrow, or shares of it when --shares is given")
+    .addParam("asset", "Asset ID")
+    .addOptionalParam("shares", "Number of shares to buy (omit to buy the whole asset)", "")
+    .addOptionalParam("token", "Address of an accepted payment token to pay for shares with (defaults to the registry's USDT, or the token of the asset's funding goal)", "")
+).setAction(async (args: CommonArgs & { asset: string; shares: string; token: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const details = await client.getAsset(assetId);
+
+    if (args.shares) {
+      const shareCount = parseCount(args.shares, "share count");
+      const token = await client.getPaymentTokenInfo(args.token || (await client.getSharePaymentToken(assetId)));
+      const quote = await client.quoteShares(assetId, shareCount, token.address);
+
+      if (!args.json) {
+        console.log(`Buying ${shareCount} shares of "${details.asset.name}" for ${formatQuote(quote, token)}`);
+      }
+      if (!(await confirm("Confirm share purchase?", args))) {
+        output(args, { assetId, cancelled: true }, () => console.log("Share purchase cancelled."));
+        return;
+      }
+
+      const receipt = await client.buyShares(assetId, shareCount, await client.purchaseLimits(quote), token.address);
+      output(args, { assetId, shares: shareCount, paymentToken: token.address, cost: quote.totalPrice, platformFee: quote.platformFee, txHash: receipt.hash }, () =>
+        console.log(`Shares purchased in ${receipt.hash}`)
+      );
+      return;
+    }
+
+    if (args.token) {
+      throw new Error("Whole assets are paid in the registry's USDT; --token only applies to share purchases");
+    }
+    const quote = await client.quoteWhole(assetId);
+    if (!args.json) {
+      console.log(`Buying "${details.asset.name}" for ${formatQuote(quote, await client.getPaymentTokenInfo())}`);
+      console.log("The payment is held in escrow until the seller or the escrow agent settles the sale.");
+    }
+    if (!(await confirm("Confirm asset purchase?", args))) {
+      output(args, { assetId, cancelled: true }, () => console.log("Asset purchase cancelled."));
+      return;
+    }
+
+    const { escrowId, receipt } = await client.buyWhole(assetId, await client.purchaseLimits(quote));
+    output(args, { assetId, escrowId, cost: quote.totalPrice, platformFee: quote.platformFee, txHash: receipt.hash }, () =>
+      console.log(`Payment deposited in escrow ${escrowId} in ${receipt.hash}`)
+    );
+  });
+});
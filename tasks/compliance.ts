@@ -0,0 +1,188 @@
+import { scope } from "hardhat/config";
+import { isAddress } from "ethers";
+import type { ComplianceRules, InvestorRecord } from "../sdk";
+import { formatKycStatus } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const complianceScope = scope("compliance", "Manage investor KYC records and the compliance rules of assets");
+
+// KYC statuses accepted by --status, in PropytoCompliance.KycStatus order
+const KYC_STATUSES = ["none", "approved", "revoked"];
+
+const DEFAULT_KYC_DAYS = 365;
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    throw new Error(`Invalid ${name} address "${value}"`);
+  }
+  return value;
+}
+
+function printInvestor(address: string, record: InvestorRecord): void {
+  console.log(`Investor ${address}`);
+  console.log(`  KYC Status:   ${formatKycStatus(record.kycStatus)}`);
+  console.log(`  KYC Expiry:   ${record.kycExpiry === 0n ? "-" : formatTime(record.kycExpiry)}`);
+  console.log(`  Jurisdiction: ${record.jurisdiction || "-"}`);
+  console.log(`  Accredited:   ${record.accredited ? "Yes" : "No"}`);
+}
+
+function printRules(assetId: bigint, rules: ComplianceRules): void {
+  if (!rules.enabled) {
+    console.log(`Asset ${assetId} has no compliance rules; every investor can hold it.`);
+    return;
+  }
+  console.log(`Compliance rules of asset ${assetId}`);
+  console.log(`  Jurisdictions:   ${rules.allowedJurisdictions.length > 0 ? rules.allowedJurisdictions.join(", ") : "Any"}`);
+  console.log(`  Accredited Only: ${rules.accreditedOnly ? "Yes" : "No"}`);
+  console.log(`  Max Holders:     ${rules.maxHolders === 0n ? "No limit" : rules.maxHolders.toString()}`);
+}
+
+withCommonArgs(
+  complianceScope.task("investor", "Show the KYC record of an investor").addParam("address", "Investor address")
+).setAction(async (args: CommonArgs & { address: string }, hre) => {
+  await runCommand(args, async () => {
+    const address = parseAddress(args.address, "investor");
+    const client = await getClient(hre, args);
+    const record = await client.getInvestor(address);
+    output(args, { address, ...record }, () => printInvestor(address, record));
+  });
+});
+
+withCommonArgs(
+  complianceScope
+    .task("set-investor", "Record the KYC status of an investor (compliance owner, KYC agent or compliance officer)")
+    .addParam("address", "Investor address")
+    .addParam("status", `KYC status: ${KYC_STATUSES.join(", ")}`)
+    .addOptionalParam("jurisdiction", "ISO 3166-1 alpha-2 country code, e.g. US", "")
+    .addOptionalParam("expires", `Date the KYC approval lapses, e.g. 2027-06-30 (defaults to ${DEFAULT_KYC_DAYS} days from now)`, "")
+    .addFlag("accredited", "The investor is accredited")
+).setAction(
+  async (args: CommonArgs & { address: string; status: string; jurisdiction: string; expires: string; accredited: boolean }, hre) => {
+    await runCommand(args, async () => {
+      const address = parseAddress(args.address, "investor");
+      const kycStatus = KYC_STATUSES.indexOf(args.status.toLowerCase());
+      if (kycStatus < 0) {
+        throw new Error(`Invalid KYC status "${args.status}", expected one of ${KYC_STATUSES.join(", ")}`);
+      }
+
+      let kycExpiry = 0n;
+      if (kycStatus === KYC_STATUSES.indexOf("approved")) {
+        const expiresAt = args.expires ? Date.parse(args.expires) : Date.now() + DEFAULT_KYC_DAYS * 86400 * 1000;
+        if (Number.isNaN(expiresAt)) {
+          throw new Error(`Invalid expiry date "${args.expires}"`);
+        }
+        kycExpiry = BigInt(Math.floor(expiresAt / 1000));
+      }
+
+      const record: InvestorRecord = { kycStatus, kycExpiry, jurisdiction: args.jurisdiction, accredited: args.accredited };
+      const client = await getClient(hre, args);
+      if (!args.json) {
+        printInvestor(address, record);
+      }
+      if (!(await confirm("Save this investor record?", args))) {
+        console.log("Investor record not saved.");
+        return;
+      }
+
+      const receipt = await client.setInvestor(address, record);
+      output(args, { address, ...record, txHash: receipt.hash }, () => console.log(`Investor record saved in ${receipt.hash}`));
+    });
+  }
+);
+
+withCommonArgs(
+  complianceScope
+    .task("set-agent", "Let an account maintain investor records (compliance owner only)")
+    .addParam("agent", "Agent address")
+    .addFlag("remove", "Stop the agent from maintaining investor records")
+).setAction(async (args: CommonArgs & { agent: string; remove: boolean }, hre) => {
+  await runCommand(args, async () => {
+    const agent = parseAddress(args.agent, "agent");
+    const client = await getClient(hre, args);
+    const receipt = await client.setKycAgent(agent, !args.remove);
+    output(args, { agent, enabled: !args.remove, txHash: receipt.hash }, () =>
+      console.log(`KYC agent ${args.remove ? "removed" : "appointed"} in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  complianceScope.task("rules", "Show the compliance rules of an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const rules = await client.getComplianceRules(assetId);
+    output(args, { assetId, ...rules }, () => printRules(assetId, rules));
+  });
+});
+
+withCommonArgs(
+  complianceScope
+    .task("set-rules", "Restrict who may hold an asset's shares (seller, compliance owner or compliance officer)")
+    .addParam("asset", "Asset ID")
+    .addOptionalParam("jurisdictions", "Comma-separated ISO 3166-1 alpha-2 codes allowed to hold the asset (defaults to any)", "")
+    .addFlag("accreditedOnly", "Only accredited investors may hold the asset")
+    .addOptionalParam("maxHolders", "Maximum number of holders (0 for no limit)", "0")
+).setAction(
+  async (args: CommonArgs & { asset: string; jurisdictions: string; accreditedOnly: boolean; maxHolders: string }, hre) => {
+    await runCommand(args, async () => {
+      const assetId = parseAssetId(args.asset);
+      const rules: ComplianceRules = {
+        enabled: true,
+        allowedJurisdictions: args.jurisdictions ? args.jurisdictions.split(",").map((code) => code.trim().toUpperCase()) : [],
+        accreditedOnly: args.accreditedOnly,
+        maxHolders: args.maxHolders === "0" ? 0n : parseCount(args.maxHolders, "holder count")
+      };
+
+      const client = await getClient(hre, args);
+      if (!args.json) {
+        printRules(assetId, rules);
+      }
+      if (!(await confirm("Apply these rules to later purchases and transfers? Shares already held are not affected.", args))) {
+        console.log("Rules not changed.");
+        return;
+      }
+
+      const receipt = await client.setComplianceRules(assetId, rules);
+      output(args, { assetId, ...rules, txHash: receipt.hash }, () => console.log(`Compliance rules set in ${receipt.hash}`));
+    });
+  }
+);
+
+withCommonArgs(
+  complianceScope.task("clear-rules", "Open an asset to every investor again (seller, compliance owner or compliance officer)").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const assetId = parseAssetId(args.asset);
+    if (!(await confirm(`Remove the compliance rules of asset ${assetId}?`, args))) {
+      console.log("Rules not changed.");
+      return;
+    }
+
+    const client = await getClient(hre, args);
+    const receipt = await client.clearComplianceRules(assetId);
+    output(args, { assetId, txHash: receipt.hash }, () => console.log(`Compliance rules cleared in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  complianceScope
+    .task("check", "Check whether an investor may buy or receive an asset's shares")
+    .addParam("asset", "Asset ID")
+    .addParam("address", "Investor address")
+).setAction(async (args: CommonArgs & { asset: string; address: string }, hre) => {
+  await runCommand(args, async () => {
+    const address = parseAddress(args.address, "investor");
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const reason = await client.checkInvestor(assetId, address);
+    output(args, { assetId, address, eligible: reason === null, code: reason?.code ?? null, reason: reason?.message ?? null }, () =>
+      console.log(reason === null ? `${address} may hold asset ${assetId}.` : `${address} may not hold asset ${assetId}: ${reason.message}`)
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { scope } from "hardhat/config";
+import { ZeroAddress } from "ethers";
+import { formatPrice } from "../sdk/format";
+import { CommonArgs, getClient, output, runCommand, withCommonArgs } from "./utils";
+
+const configScope = scope("config", "Inspect the Propyto deployment");
+
+withCommonArgs(
+  configScope.task("show", "Show the registry, payment token and marketplace configuration")
+).setAction(async (args: CommonArgs, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const [signer] = await hre.ethers.getSigners();
+    const marketplaceConfig = await client.registry.marketplaceConfig();
+
+    const info = {
+      network: hre.network.name,
+      account: signer.address,
+      registryAddress: await client.registry.getAddress(),
+      usdtToken: await client.registry.usdtToken(),
+      owner: await client.registry.owner(),
+      accessManager: await client.registry.accessManager(),
+      moderation: await client.registry.moderation(),
+      metadataRenderer: await client.registry.metadataRenderer(),
+      paymentTokens: await client.getPaymentTokens(),
+      assetCount: await client.getAssetCount(),
+      marketplaceConfig: {
+        platformFeePercentage: marketplaceConfig.platformFeePercentage,
+        feeCollector: marketplaceConfig.feeCollector,
+        listingFee: marketplaceConfig.listingFee,
+        feesEnabled: marketplaceConfig.feesEnabled
+      }
+    };
+
+    output(args, info, () => {
+      console.log(`Network:       ${info.network}`);
+      console.log(`Account:       ${info.account}`);
+      console.log(`Registry:      ${info.registryAddress}`);
+      console.log(`USDT Token:    ${info.usdtToken}`);
+      info.paymentTokens.forEach((token) => {
+        console.log(`Payment Token: ${token.address} (${token.symbol}, ${token.decimals} decimals${token.isDefault ? ", default" : ""})`);
+      });
+      console.log(`Owner:         ${info.owner}`);
+      console.log(`Roles:         ${info.accessManager === ZeroAddress ? "held by the owner" : info.accessManager}`);
+      console.log(`Moderation:    ${info.moderation === ZeroAddress ? "off, listings go live immediately" : info.moderation}`);
+      console.log(`Metadata:      ${info.metadataRenderer === ZeroAddress ? "served off-chain" : `built on-chain by ${info.metadataRenderer}`}`);
+      console.log(`Asset Count:   ${info.assetCount}`);
+      console.log(`Platform Fee:  ${Number(info.marketplaceConfig.platformFeePercentage) / 100}%`);
+      console.log(`Fee Collector: ${info.marketplaceConfig.feeCollector}`);
+      console.log(`Listing Fee:   ${formatPrice(info.marketplaceConfig.listingFee)} USDT`);
+      console.log(`Fees Enabled:  ${info.marketplaceConfig.feesEnabled ? "Yes" : "No"}`);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { scope } from "hardhat/config";
+import Table from "cli-table3";
+import type { DividendBalance } from "../sdk";
+import { formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, runCommand, withCommonArgs } from "./utils";
+
+const dividendsScope = scope("dividends", "Distribute rental income to share holders and claim it");
+
+function printBalanceTable(balances: DividendBalance[], decimals: number): void {
+  if (balances.length === 0) {
+    console.log("No share holders found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Holder", "Shares", "Claimable (USDT)", "Claimed (USDT)"],
+    colWidths: [46, 10, 20, 20]
+  });
+
+  balances.forEach((balance) => {
+    (table as any).push([
+      balance.holder,
+      balance.shares.toString(),
+      formatPrice(balance.claimable, decimals),
+      formatPrice(balance.claimed, decimals)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  dividendsScope
+    .task("balances", "Show what each owner of an asset can claim")
+    .addParam("asset", "Asset ID")
+    .addOptionalParam("holder", "Only show this address (also works for former owners)", "")
+).setAction(async (args: CommonArgs & { asset: string; holder: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const balances = args.holder
+      ? [await client.getDividendBalance(assetId, args.holder)]
+      : await client.getDividendBalances(assetId);
+    const decimals = await client.getPaymentTokenDecimals(await client.getDividendToken(assetId));
+
+    output(args, balances, () => printBalanceTable(balances, decimals));
+  });
+});
+
+withCommonArgs(
+  dividendsScope.task("claim", "Claim your dividends of an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const [signer] = await hre.ethers.getSigners();
+    const { claimable } = await client.getDividendBalance(assetId, signer.address);
+    const decimals = await client.getPaymentTokenDecimals(await client.getDividendToken(assetId));
+
+    if (!(await confirm(`Claim ${formatPrice(claimable, decimals)} USDT of dividends?`, args))) {
+      console.log("Claim cancelled.");
+      return;
+    }
+
+    const receipt = await client.claimDividends(assetId);
+    output(args, { assetId, amount: claimable, txHash: receipt.hash }, () =>
+      console.log(`Claimed ${formatPrice(claimable, decimals)} USDT in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  dividendsScope
+    .task("deposit", "Distribute USDT to the holders of an asset")
+    .addParam("asset", "Asset ID")
+    .addParam("amount", "Amount in USDT")
+).setAction(async (args: CommonArgs & { asset: string; amount: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const decimals = await client.getPaymentTokenDecimals(await client.getDividendToken(assetId));
+    const amount = parsePrice(args.amount, decimals);
+
+    if (!(await confirm(`Distribute ${formatPrice(amount, decimals)} USDT to the holders of asset ${assetId}?`, args))) {
+      console.log("Deposit cancelled.");
+      return;
+    }
+
+    const receipt = await client.depositDividends(assetId, amount);
+    output(args, { assetId, amount, txHash: receipt.hash }, () => console.log(`Dividends deposited in ${receipt.hash}`));
+  });
+});
@@ -0,0 +1,152 @@
+import { scope } from "hardhat/config";
+import Table from "cli-table3";
+import { ZeroAddress } from "ethers";
+import type { Escrow } from "../sdk";
+import { formatEscrowStatus, formatPrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, runCommand, withCommonArgs } from "./utils";
+
+const escrowScope = scope("escrow", "Settle, cancel and reclaim escrowed whole-asset purchases");
+
+function parseEscrowId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid escrow ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function printEscrow(escrow: Escrow, decimals: number): void {
+  console.log(`Escrow ${escrow.id} on asset ${escrow.assetId}`);
+  console.log(`  Status:       ${formatEscrowStatus(escrow.status)}${escrow.isReclaimable ? " (reclaimable by the buyer)" : ""}`);
+  console.log(`  Buyer:        ${escrow.buyer}`);
+  console.log(`  Seller:       ${escrow.seller}`);
+  console.log(`  Escrow Agent: ${escrow.agent === ZeroAddress ? "None" : escrow.agent}`);
+  console.log(`  Deposit:      ${formatPrice(escrow.amount, decimals)} USDT (platform fee ${formatPrice(escrow.platformFee, decimals)} USDT)`);
+  console.log(`  Settle By:    ${formatTime(escrow.deadline)}`);
+}
+
+// `decimals` holds the decimals of each escrow's payment token
+function printEscrowTable(escrows: Escrow[], decimals: number[]): void {
+  if (escrows.length === 0) {
+    console.log("No escrows found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Escrow", "Buyer", "Deposit (USDT)", "Settle By", "Status"],
+    colWidths: [8, 46, 18, 26, 12]
+  });
+
+  escrows.forEach((escrow, index) => {
+    (table as any).push([
+      escrow.id.toString(),
+      escrow.buyer,
+      formatPrice(escrow.amount, decimals[index]),
+      formatTime(escrow.deadline),
+      formatEscrowStatus(escrow.status)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  escrowScope.task("list", "List the escrowed purchases of an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const escrows = await client.getAssetEscrows(parseAssetId(args.asset));
+    const decimals = await Promise.all(escrows.map((escrow) => client.getPaymentTokenDecimals(escrow.paymentToken)));
+    output(args, escrows, () => printEscrowTable(escrows, decimals));
+  });
+});
+
+withCommonArgs(
+  escrowScope.task("show", "Show an escrowed purchase").addParam("escrow", "Escrow ID")
+).setAction(async (args: CommonArgs & { escrow: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const escrow = await client.getEscrow(parseEscrowId(args.escrow));
+    const decimals = await client.getPaymentTokenDecimals(escrow.paymentToken);
+    output(args, escrow, () => printEscrow(escrow, decimals));
+  });
+});
+
+withCommonArgs(
+  escrowScope
+    .task("confirm", "Complete the sale, paying the seller and minting the shares (seller or escrow agent)")
+    .addParam("escrow", "Escrow ID")
+).setAction(async (args: CommonArgs & { escrow: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const escrowId = parseEscrowId(args.escrow);
+    const escrow = await client.getEscrow(escrowId);
+    const decimals = await client.getPaymentTokenDecimals(escrow.paymentToken);
+
+    if (!(await confirm(`Sell asset ${escrow.assetId} to ${escrow.buyer} for ${formatPrice(escrow.amount, decimals)} USDT?`, args))) {
+      console.log("Settlement cancelled.");
+      return;
+    }
+
+    const receipt = await client.confirmEscrow(escrowId);
+    output(args, { escrowId, assetId: escrow.assetId, buyer: escrow.buyer, txHash: receipt.hash }, () =>
+      console.log(`Sale settled in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  escrowScope.task("cancel", "Call an escrowed sale off (seller or escrow agent)").addParam("escrow", "Escrow ID")
+).setAction(async (args: CommonArgs & { escrow: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const escrowId = parseEscrowId(args.escrow);
+
+    if (!(await confirm(`Cancel escrow ${escrowId}? The buyer can then reclaim the deposit.`, args))) {
+      console.log("Escrow kept.");
+      return;
+    }
+
+    const receipt = await client.cancelEscrow(escrowId);
+    output(args, { escrowId, txHash: receipt.hash }, () => console.log(`Escrow ${escrowId} cancelled in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  escrowScope
+    .task("reclaim", "Take back the deposit of a cancelled or unsettled purchase (buyer only)")
+    .addParam("escrow", "Escrow ID")
+).setAction(async (args: CommonArgs & { escrow: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const escrowId = parseEscrowId(args.escrow);
+    const { amount, paymentToken } = await client.getEscrow(escrowId);
+    const decimals = await client.getPaymentTokenDecimals(paymentToken);
+    const receipt = await client.reclaimEscrowDeposit(escrowId);
+    output(args, { escrowId, amount, txHash: receipt.hash }, () =>
+      console.log(`Reclaimed ${formatPrice(amount, decimals)} USDT in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  escrowScope
+    .task("agent", "Appoint the escrow agent of an asset (seller only)")
+    .addParam("asset", "Asset ID")
+    .addParam("agent", "Agent address, or the zero address to remove the agent")
+).setAction(async (args: CommonArgs & { asset: string; agent: string }, hre) => {
+  await runCommand(args, async () => {
+    if (!hre.ethers.isAddress(args.agent)) {
+      throw new Error(`Invalid agent address "${args.agent}"`);
+    }
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const receipt = await client.appointEscrowAgent(assetId, args.agent);
+    output(args, { assetId, agent: args.agent, txHash: receipt.hash }, () =>
+      console.log(`Escrow agent appointed in ${receipt.hash}`)
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { scope, types } from "hardhat/config";
+import type { ImportJournal, JournalEntry } from "../sdk/bulkImport";
+import { parseCsv } from "../sdk/csv";
+import { formatPrice } from "../sdk/format";
+import type { AssetManifestEntry } from "../sdk/manifest";
+import { CommonArgs, confirm, getClient, output, runCommand, withCommonArgs } from "./utils";
+
+const assetScope = scope("asset");
+
+interface ImportArgs extends CommonArgs {
+  file: string;
+  journal: string;
+  dryRun: boolean;
+}
+
+// Journal persisted as JSON next to the manifest; rewritten atomically on every update
+class FileJournal implements ImportJournal {
+  private entries: Record<string, JournalEntry> = {};
+
+  constructor(readonly filePath: string, readonly registry: string) {
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      if (saved.registry.toLowerCase() !== registry.toLowerCase()) {
+        throw new Error(`Journal ${filePath} belongs to registry ${saved.registry}`);
+      }
+      this.entries = saved.entries;
+    }
+  }
+
+  get(row: number): JournalEntry | undefined {
+    return this.entries[row];
+  }
+
+  set(entry: JournalEntry): void {
+    this.entries[entry.row] = entry;
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ registry: this.registry, entries: this.entries }, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+function readManifest(file: string): AssetManifestEntry[] {
+  const text = fs.readFileSync(file, "utf8");
+
+  if (path.extname(file).toLowerCase() === ".csv") {
+    return parseCsv(text);
+  }
+
+  const parsed = JSON.parse(text);
+  const entries = Array.isArray(parsed) ? parsed : parsed.assets;
+  if (!Array.isArray(entries)) {
+    throw new Error("JSON manifest must be an array of assets or an object with an `assets` array");
+  }
+  return entries;
+}
+
+withCommonArgs(
+  assetScope
+    .task("import", "Register every asset of a CSV or JSON manifest")
+    .addParam("file", "Path to the .csv or .json manifest", undefined, types.inputFile)
+    .addOptionalParam("journal", "Journal used to resume an interrupted import (default: <file>.journal.json)", "")
+    .addFlag("dryRun", "Validate the manifest and show the fees without sending transactions")
+).setAction(async (args: ImportArgs, hre) => {
+  await runCommand(args, async () => {
+    const { validateManifest, planImport, importAssets } = await import("../sdk/bulkImport");
+
+    const { rows, errors } = validateManifest(readManifest(args.file));
+    if (errors.length > 0) {
+      output(args, { errors }, () => {
+        console.log(`Manifest has ${errors.length} invalid row(s):`);
+        errors.forEach((error) => console.log(`  Row ${error.row}: ${error.message}`));
+      });
+      throw new Error("Manifest validation failed; nothing was registered");
+    }
+
+    const client = await getClient(hre, args);
+    const journal = new FileJournal(args.journal || `${args.file}.journal.json`, await client.registry.getAddress());
+    const marketplaceConfig = await client.registry.marketplaceConfig();
+    const listingFee = marketplaceConfig.feesEnabled ? marketplaceConfig.listingFee : 0n;
+    const plan = planImport(rows, journal, listingFee);
+
+    const summary = {
+      rows: rows.length,
+      toRegister: plan.toRegister.length,
+      toFractionalize: plan.toFractionalize.length,
+      alreadyImported: rows.length - plan.toRegister.length,
+      totalListingFee: plan.totalListingFee
+    };
+
+    if (!args.json) {
+      console.log(`Manifest rows:        ${summary.rows}`);
+      console.log(`Already imported:     ${summary.alreadyImported}`);
+      console.log(`To register:          ${summary.toRegister}`);
+      console.log(`To fractionalize:     ${summary.toFractionalize}`);
+      console.log(`Total listing fee:    ${formatPrice(summary.totalListingFee)} USDT`);
+    }
+
+    if (args.dryRun) {
+      output(args, { dryRun: true, ...summary }, () => console.log("Dry run: no transactions sent."));
+      return;
+    }
+    if (plan.toRegister.length === 0 && plan.toFractionalize.length === 0) {
+      output(args, { ...summary, imported: [] }, () => console.log("Nothing left to import."));
+      return;
+    }
+    if (!(await confirm("Confirm bulk import?", args))) {
+      console.log("Bulk import cancelled.");
+      return;
+    }
+
+    const imported: JournalEntry[] = [];
+    for await (const progress of importAssets(client, plan, journal)) {
+      imported.push(progress.entry);
+      if (!args.json) {
+        const status = progress.resumed ? "already registered" : "registered";
+        console.log(`Row ${progress.row.row}: "${progress.row.listing.asset.name}" ${status} as asset ${progress.entry.assetId}`);
+      }
+    }
+
+    output(args, { ...summary, imported }, () => console.log(`Imported ${imported.length} row(s).`));
+  });
+});
@@ -0,0 +1,15 @@
+import "./asset";
+import "./buy";
+import "./manage";
+import "./config";
+import "./import";
+import "./indexer";
+import "./market";
+import "./lease";
+import "./dividends";
+import "./escrow";
+import "./offer";
+import "./auction";
+import "./compliance";
+import "./roles";
+import "./moderation";
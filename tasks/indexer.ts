@@ -0,0 +1,92 @@
+import { scope, types } from "hardhat/config";
+import type { ConfigurableTaskDefinition } from "hardhat/types";
+import { CommonArgs, createIndexer, output, runCommand, withCommonArgs } from "./utils";
+
+const indexerScope = scope("indexer", "Follow registry and SFT events into a local index");
+
+interface IndexerArgs extends CommonArgs {
+  store: string;
+  fromBlock: number;
+  confirmations: number;
+  batchSize: number;
+}
+
+interface SyncArgs extends IndexerArgs {
+  follow: boolean;
+  interval: number;
+}
+
+function withIndexerArgs(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return withCommonArgs(
+    definition
+      .addOptionalParam("store", "Index file (default: .propyto/index-<chainId>.json)", "")
+      .addOptionalParam("fromBlock", "Block to backfill from (default: deploymentBlock from scripts/config.json)", -1, types.int)
+      .addOptionalParam("confirmations", "Blocks to stay behind the chain head", 0, types.int)
+      .addOptionalParam("batchSize", "Blocks per log request", 2000, types.int)
+  );
+}
+
+function indexerOptions(args: IndexerArgs) {
+  return {
+    store: args.store,
+    startBlock: args.fromBlock < 0 ? undefined : args.fromBlock,
+    confirmations: args.confirmations,
+    batchSize: args.batchSize
+  };
+}
+
+withIndexerArgs(indexerScope.task("sync", "Backfill and follow new blocks, rolling back reorganized ones"))
+  .addFlag("follow", "Keep polling for new blocks until interrupted")
+  .addOptionalParam("interval", "Polling interval in seconds with --follow", 12, types.int)
+  .setAction(async (args: SyncArgs, hre) => {
+    await runCommand(args, async () => {
+      const indexer = await createIndexer(hre, args, indexerOptions(args));
+
+      do {
+        const result = await indexer.sync((toBlock, head) => {
+          if (!args.json) {
+            console.log(`Indexed up to block ${toBlock} of ${head}`);
+          }
+        });
+
+        output(args, result, () => {
+          if (result.rolledBackTo !== undefined) {
+            console.log(`Reorg detected: rolled back to block ${result.rolledBackTo}`);
+          }
+          console.log(`Synced to block ${result.toBlock}: ${result.newEvents} new event(s)`);
+        });
+
+        if (args.follow) {
+          await new Promise((resolve) => setTimeout(resolve, args.interval * 1000));
+        }
+      } while (args.follow);
+    });
+  });
+
+withIndexerArgs(indexerScope.task("status", "Show what the local index contains"))
+  .setAction(async (args: IndexerArgs, hre) => {
+    await runCommand(args, async () => {
+      const indexer = await createIndexer(hre, args, indexerOptions(args));
+      const index = await indexer.getIndex();
+      const head = await hre.ethers.provider.getBlockNumber();
+
+      const status = {
+        store: (indexer.store as { file?: string }).file,
+        registry: index.snapshot.registry,
+        startBlock: index.snapshot.startBlock,
+        lastBlock: index.lastBlock,
+        chainHead: head,
+        assets: index.assetCount,
+        events: index.snapshot.events.length
+      };
+
+      output(args, status, () => {
+        console.log(`Store:       ${status.store}`);
+        console.log(`Registry:    ${status.registry}`);
+        console.log(`Start Block: ${status.startBlock}`);
+        console.log(`Last Block:  ${status.lastBlock} (chain head ${status.chainHead})`);
+        console.log(`Assets:      ${status.assets}`);
+        console.log(`Events:      ${status.events}`);
+      });
+    });
+  });
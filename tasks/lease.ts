@@ -0,0 +1,216 @@
+import { scope } from "hardhat/config";
+import Table from "cli-table3";
+import type { Lease } from "../sdk";
+import { formatLeaseStatus, formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const leaseScope = scope("lease", "Rent assets and manage their leases");
+
+function parseLeaseId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid lease ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// Lease amounts are in units of the lease's payment token
+function printLease(lease: Lease, decimals: number): void {
+  console.log(`Lease ${lease.id} on asset ${lease.assetId}`);
+  console.log(`  Status:          ${formatLeaseStatus(lease.status)}${lease.isOverdue ? " (rent overdue)" : ""}`);
+  console.log(`  Tenant:          ${lease.tenant}`);
+  console.log(`  Landlord:        ${lease.landlord}`);
+  console.log(`  Rent:            ${formatPrice(lease.rentPrice, decimals)} USDT / ${lease.periodLength / 86400n} days`);
+  console.log(`  Term:            ${formatTime(lease.startTime)} - ${formatTime(lease.endTime)}`);
+  console.log(`  Paid Until:      ${formatTime(lease.paidUntil)}`);
+  console.log(`  Missed Payments: ${lease.missedPayments}`);
+  console.log(`  Deposit:         ${formatPrice(lease.deposit, decimals)} USDT${lease.depositSettled ? " (settled)" : ""}`);
+}
+
+function printLeaseTable(leases: Lease[]): void {
+  if (leases.length === 0) {
+    console.log("No leases found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Lease", "Tenant", "Paid Until", "Ends", "Status"],
+    colWidths: [8, 46, 26, 26, 14]
+  });
+
+  leases.forEach((lease) => {
+    (table as any).push([
+      lease.id.toString(),
+      lease.tenant,
+      formatTime(lease.paidUntil),
+      formatTime(lease.endTime),
+      lease.isOverdue ? "OVERDUE" : formatLeaseStatus(lease.status)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  leaseScope.task("list", "List the leases of an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leases = await client.getAssetLeases(parseAssetId(args.asset));
+    output(args, leases, () => printLeaseTable(leases));
+  });
+});
+
+withCommonArgs(
+  leaseScope.task("show", "Show a lease").addParam("lease", "Lease ID")
+).setAction(async (args: CommonArgs & { lease: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const lease = await client.getLease(parseLeaseId(args.lease));
+    const decimals = await client.getPaymentTokenDecimals(lease.paymentToken);
+    output(args, lease, () => printLease(lease, decimals));
+  });
+});
+
+withCommonArgs(
+  leaseScope
+    .task("start", "Rent an asset, escrowing its deposit and paying the first period")
+    .addParam("asset", "Asset ID")
+    .addParam("periods", "Number of rent periods the lease runs for")
+).setAction(async (args: CommonArgs & { asset: string; periods: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const periods = parseCount(args.periods, "period count");
+    const { asset, rentData } = await client.getAsset(assetId);
+    const deposit = rentData.rentDeposit + rentData.rentSecurityDeposit;
+
+    if (!args.json) {
+      console.log(`Renting "${asset.name}" for ${periods} periods of ${rentData.rentPeriod} days`);
+      console.log(`  Rent:    ${formatPrice(rentData.rentPrice)} USDT per period`);
+      console.log(`  Deposit: ${formatPrice(deposit)} USDT (held until the lease is settled)`);
+      console.log(`  Due now: ${formatPrice(deposit + rentData.rentPrice)} USDT`);
+    }
+    if (!(await confirm("Confirm lease?", args))) {
+      console.log("Lease cancelled.");
+      return;
+    }
+
+    const { leaseId, receipt } = await client.startLease(assetId, periods);
+    output(args, { leaseId, assetId, periods, deposit, txHash: receipt.hash }, () =>
+      console.log(`Lease ${leaseId} started in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  leaseScope
+    .task("pay", "Pay rent in advance")
+    .addParam("lease", "Lease ID")
+    .addOptionalParam("periods", "Number of periods to pay", "1")
+).setAction(async (args: CommonArgs & { lease: string; periods: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+    const periods = parseCount(args.periods, "period count");
+    const lease = await client.getLease(leaseId);
+    const amount = lease.rentPrice * periods;
+    const decimals = await client.getPaymentTokenDecimals(lease.paymentToken);
+
+    if (!(await confirm(`Pay ${formatPrice(amount, decimals)} USDT of rent for lease ${leaseId}?`, args))) {
+      console.log("Payment cancelled.");
+      return;
+    }
+
+    const receipt = await client.payRent(leaseId, periods);
+    output(args, { leaseId, periods, amount, txHash: receipt.hash }, () => console.log(`Rent paid in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  leaseScope.task("flag", "Record overdue rent (landlord only)").addParam("lease", "Lease ID")
+).setAction(async (args: CommonArgs & { lease: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+    const receipt = await client.flagLatePayment(leaseId);
+    output(args, { leaseId, txHash: receipt.hash }, () => console.log(`Late payment flagged in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  leaseScope.task("end", "Close a lease whose term is over").addParam("lease", "Lease ID")
+).setAction(async (args: CommonArgs & { lease: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+    const receipt = await client.endLease(leaseId);
+    output(args, { leaseId, txHash: receipt.hash }, () => console.log(`Lease ${leaseId} ended in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  leaseScope.task("terminate", "Terminate a lease with overdue rent (landlord only)").addParam("lease", "Lease ID")
+).setAction(async (args: CommonArgs & { lease: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+
+    if (!(await confirm(`Terminate lease ${leaseId}?`, args))) {
+      console.log("Lease kept.");
+      return;
+    }
+
+    const receipt = await client.terminateLease(leaseId);
+    output(args, { leaseId, txHash: receipt.hash }, () => console.log(`Lease ${leaseId} terminated in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  leaseScope
+    .task("settle", "Refund the deposit of a closed lease (landlord only)")
+    .addParam("lease", "Lease ID")
+    .addOptionalParam("withhold", "USDT to keep from the deposit", "0")
+).setAction(async (args: CommonArgs & { lease: string; withhold: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+    const lease = await client.getLease(leaseId);
+    const decimals = await client.getPaymentTokenDecimals(lease.paymentToken);
+    const withheld = parsePrice(args.withhold, decimals);
+    if (withheld > lease.deposit) {
+      throw new Error(`Cannot withhold more than the ${formatPrice(lease.deposit, decimals)} USDT deposit`);
+    }
+
+    if (!args.json) {
+      console.log(
+        `Refunding ${formatPrice(lease.deposit - withheld, decimals)} USDT and withholding ${formatPrice(withheld, decimals)} USDT`
+      );
+    }
+    if (!(await confirm("Confirm settlement?", args))) {
+      console.log("Settlement cancelled.");
+      return;
+    }
+
+    const receipt = await client.settleDeposit(leaseId, withheld);
+    output(args, { leaseId, refunded: lease.deposit - withheld, withheld, txHash: receipt.hash }, () =>
+      console.log(`Deposit settled in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  leaseScope
+    .task("claim", "Reclaim your deposit after the landlord let the claim window pass")
+    .addParam("lease", "Lease ID")
+).setAction(async (args: CommonArgs & { lease: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const leaseId = parseLeaseId(args.lease);
+    const receipt = await client.claimDeposit(leaseId);
+    output(args, { leaseId, txHash: receipt.hash }, () => console.log(`Deposit claimed in ${receipt.hash}`));
+  });
+});
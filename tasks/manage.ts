@@ -0,0 +1,166 @@
+import { scope } from "hardhat/config";
+import { formatFundingStatus, formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const priceScope = scope("price", "Manage asset prices");
+const fractionsScope = scope("fractions", "Manage fractional ownership");
+
+withCommonArgs(
+  priceScope
+    .task("set", "Update the price of an asset you listed")
+    .addParam("asset", "Asset ID")
+    .addParam("price", "New price in USDT")
+).setAction(async (args: CommonArgs & { asset: string; price: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const newPrice = parsePrice(args.price);
+    const { asset } = await client.getAsset(assetId);
+
+    if (!args.json) {
+      console.log(`Updating price of "${asset.name}" from ${formatPrice(asset.assetPrice)} to ${formatPrice(newPrice)} USDT`);
+    }
+    if (!(await confirm("Confirm price update?", args))) {
+      console.log("Price update cancelled.");
+      return;
+    }
+
+    const receipt = await client.updatePrice(assetId, newPrice);
+    output(args, { assetId, oldPrice: asset.assetPrice, newPrice, txHash: receipt.hash }, () =>
+      console.log(`Price updated in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  fractionsScope
+    .task("enable", "Enable partial ownership for an asset you listed")
+    .addParam("asset", "Asset ID")
+    .addParam("totalShares", "Total number of shares")
+    .addOptionalParam("sharePrice", "Price per share in USDT (default: asset price / total shares)", "")
+    .addOptionalParam("minPurchase", "Minimum shares per purchase", "1")
+    .addOptionalParam("maxPerOwner", "Maximum shares per owner (default: no limit)", "")
+    .addOptionalParam("sellerShares", "Shares retained by the seller", "0")
+    .addOptionalParam("softCap", "Shares that must sell before the listing expires, or buyers are refunded (default: no funding goal)", "")
+    .addOptionalParam("hardCap", "Maximum shares sold under the funding goal (default: all offered shares)", "")
+).setAction(async (
+  args: CommonArgs & {
+    asset: string;
+    totalShares: string;
+    sharePrice: string;
+    minPurchase: string;
+    maxPerOwner: string;
+    sellerShares: string;
+    softCap: string;
+    hardCap: string;
+  },
+  hre
+) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const { asset } = await client.getAsset(assetId);
+
+    const totalShares = BigInt(args.totalShares);
+    const params = {
+      totalShares,
+      sharePrice: args.sharePrice ? parsePrice(args.sharePrice) : asset.assetPrice / totalShares,
+      minSharePurchase: BigInt(args.minPurchase),
+      maxSharesPerOwner: args.maxPerOwner ? BigInt(args.maxPerOwner) : totalShares,
+      sellerShares: BigInt(args.sellerShares)
+    };
+    const fundingGoal = args.softCap
+      ? {
+          softCap: parseCount(args.softCap, "soft cap"),
+          hardCap: args.hardCap ? parseCount(args.hardCap, "hard cap") : params.totalShares - params.sellerShares
+        }
+      : undefined;
+
+    if (!args.json) {
+      console.log(`Enabling partial ownership of "${asset.name}"`);
+      console.log(`  Total Shares:      ${params.totalShares}`);
+      console.log(`  Share Price:       ${formatPrice(params.sharePrice)} USDT`);
+      console.log(`  Minimum Purchase:  ${params.minSharePurchase} shares`);
+      console.log(`  Maximum Per Owner: ${params.maxSharesPerOwner} shares`);
+      console.log(`  Seller's Shares:   ${params.sellerShares}`);
+      if (fundingGoal) {
+        console.log(`  Funding Goal:      ${fundingGoal.softCap} to ${fundingGoal.hardCap} shares before ${new Date(Number(asset.listingExpiry) * 1000).toISOString()}`);
+      }
+    }
+    if (!(await confirm("Confirm partial ownership setup?", args))) {
+      console.log("Partial ownership setup cancelled.");
+      return;
+    }
+
+    const receipt = await client.enableFractions(assetId, params, fundingGoal);
+    output(args, { assetId, ...params, ...fundingGoal, txHash: receipt.hash }, () =>
+      console.log(`Partial ownership enabled in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  fractionsScope
+    .task("funding", "Show the funding goal of an asset and what an account contributed")
+    .addParam("asset", "Asset ID")
+    .addOptionalParam("buyer", "Account to show the contribution of (default: the signer)", "")
+).setAction(async (args: CommonArgs & { asset: string; buyer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const [signer] = await hre.ethers.getSigners();
+    const buyer = args.buyer || signer.address;
+    const [goal, contribution, decimals] = await Promise.all([
+      client.getFundingGoal(assetId),
+      client.getFundingContribution(assetId, buyer),
+      client.getSharePaymentToken(assetId).then((token) => client.getPaymentTokenDecimals(token))
+    ]);
+
+    output(args, { assetId, ...goal, buyer, contribution }, () => {
+      console.log(`Funding goal of asset ${assetId}: ${formatFundingStatus(goal.status)}`);
+      console.log(`  Sold:         ${goal.sharesSold} shares (soft cap ${goal.softCap}, hard cap ${goal.hardCap})`);
+      console.log(`  Deadline:     ${new Date(Number(goal.deadline) * 1000).toISOString()}`);
+      console.log(`  Raised:       ${formatPrice(goal.totalRaised, decimals)} USDT (${formatPrice(goal.escrowedAmount, decimals)} USDT in escrow)`);
+      console.log(`  Contribution: ${contribution.shares} shares for ${formatPrice(contribution.amount, decimals)} USDT (${buyer})`);
+    });
+  });
+});
+
+withCommonArgs(
+  fractionsScope
+    .task("refund", "Burn your shares of an offering that missed its soft cap for a full refund")
+    .addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const [signer] = await hre.ethers.getSigners();
+    const contribution = await client.getFundingContribution(assetId, signer.address);
+    const decimals = await client.getPaymentTokenDecimals(await client.getSharePaymentToken(assetId));
+
+    if (!(await confirm(`Burn ${contribution.shares} shares for a refund of ${formatPrice(contribution.amount, decimals)} USDT?`, args))) {
+      console.log("Refund cancelled.");
+      return;
+    }
+
+    const receipt = await client.claimFundingRefund(assetId);
+    output(args, { assetId, ...contribution, txHash: receipt.hash }, () => console.log(`Refund claimed in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  fractionsScope
+    .task("withdraw", "Withdraw the proceeds of an offering that reached its soft cap (seller only)")
+    .addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const { escrowedAmount, paymentToken } = await client.getFundingGoal(assetId);
+    const decimals = await client.getPaymentTokenDecimals(paymentToken);
+    const receipt = await client.withdrawFundingProceeds(assetId);
+    output(args, { assetId, amount: escrowedAmount, txHash: receipt.hash }, () =>
+      console.log(`Withdrew ${formatPrice(escrowedAmount, decimals)} USDT (platform fee included) in ${receipt.hash}`)
+    );
+  });
+});
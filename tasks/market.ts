@@ -0,0 +1,141 @@
+import { scope } from "hardhat/config";
+import Table from "cli-table3";
+import type { SellOrder } from "../sdk";
+import { formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const marketScope = scope("market", "Trade asset shares with other holders");
+
+function parseOrderId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid order ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+// Orders are priced in units of their payment token; `decimals` holds the decimals of each order's token
+function printOrderTable(orders: SellOrder[], decimals: number[]): void {
+  if (orders.length === 0) {
+    console.log("No sell orders found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Order", "Asset", "Seller", "Shares", "Price/Share (USDT)", "Status"],
+    colWidths: [8, 8, 46, 10, 20, 12]
+  });
+
+  orders.forEach((order, index) => {
+    (table as any).push([
+      order.id.toString(),
+      order.assetId.toString(),
+      order.seller,
+      order.remainingShares.toString(),
+      formatPrice(order.pricePerShare, decimals[index]),
+      order.isActive ? "Open" : "Closed"
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  marketScope
+    .task("orders", "Browse share sell orders")
+    .addOptionalParam("asset", "Only show orders for this asset", "")
+    .addOptionalParam("seller", "Only show orders of this seller", "")
+    .addFlag("all", "Include filled and cancelled orders")
+).setAction(async (args: CommonArgs & { asset: string; seller: string; all: boolean }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const orders = await client.getSellOrders({
+      assetId: args.asset ? parseAssetId(args.asset) : undefined,
+      seller: args.seller || undefined,
+      activeOnly: !args.all
+    });
+    const decimals = await Promise.all(orders.map((order) => client.getPaymentTokenDecimals(order.paymentToken)));
+
+    output(args, orders, () => printOrderTable(orders, decimals));
+  });
+});
+
+withCommonArgs(
+  marketScope
+    .task("sell", "Offer shares you hold for sale")
+    .addParam("asset", "Asset ID")
+    .addParam("shares", "Number of shares to sell")
+    .addParam("price", "Price per share in USDT")
+).setAction(async (args: CommonArgs & { asset: string; shares: string; price: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const assetId = parseAssetId(args.asset);
+    const shareCount = parseCount(args.shares, "share count");
+    const decimals = await client.getPaymentTokenDecimals();
+    const pricePerShare = parsePrice(args.price, decimals);
+    const { asset } = await client.getAsset(assetId);
+
+    if (!args.json) {
+      console.log(`Offering ${shareCount} shares of "${asset.name}" at ${formatPrice(pricePerShare, decimals)} USDT per share`);
+    }
+    if (!(await confirm("Confirm sell order?", args))) {
+      console.log("Sell order cancelled.");
+      return;
+    }
+
+    const { orderId, receipt } = await client.listShares(assetId, shareCount, pricePerShare);
+    output(args, { orderId, assetId, shares: shareCount, pricePerShare, txHash: receipt.hash }, () =>
+      console.log(`Sell order ${orderId} created in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  marketScope
+    .task("fill", "Buy shares from a sell order")
+    .addParam("order", "Order ID")
+    .addOptionalParam("shares", "Number of shares to buy (default: all remaining)", "")
+).setAction(async (args: CommonArgs & { order: string; shares: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const orderId = parseOrderId(args.order);
+    const order = await client.getSellOrder(orderId);
+    const shareCount = args.shares ? parseCount(args.shares, "share count") : order.remainingShares;
+    const quote = await client.quoteFill(orderId, shareCount);
+    const decimals = await client.getPaymentTokenDecimals(order.paymentToken);
+
+    if (!args.json) {
+      console.log(`Buying ${shareCount} shares of asset ${order.assetId} from ${order.seller}`);
+      console.log(`  Total Price:  ${formatPrice(quote.totalPrice, decimals)} USDT`);
+      console.log(`  Platform Fee: ${formatPrice(quote.platformFee, decimals)} USDT`);
+      console.log(`  To Seller:    ${formatPrice(quote.sellerAmount, decimals)} USDT`);
+    }
+    if (!(await confirm("Confirm purchase?", args))) {
+      console.log("Purchase cancelled.");
+      return;
+    }
+
+    const receipt = await client.fillOrder(orderId, shareCount);
+    output(args, { orderId, assetId: order.assetId, shares: shareCount, ...quote, txHash: receipt.hash }, () =>
+      console.log(`Shares bought in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  marketScope
+    .task("cancel", "Cancel a sell order you created")
+    .addParam("order", "Order ID")
+).setAction(async (args: CommonArgs & { order: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const orderId = parseOrderId(args.order);
+
+    if (!(await confirm(`Cancel sell order ${orderId}?`, args))) {
+      console.log("Sell order kept.");
+      return;
+    }
+
+    const receipt = await client.cancelOrder(orderId);
+    output(args, { orderId, txHash: receipt.hash }, () => console.log(`Sell order ${orderId} cancelled in ${receipt.hash}`));
+  });
+});
@@ -0,0 +1,150 @@
+import { scope } from "hardhat/config";
+import type { ListingReview } from "../sdk";
+import { RejectionReason, ReviewStatus } from "../sdk/types";
+import { formatAssetStatus, formatPrice, formatRejectionReason, formatReviewStatus } from "../sdk/format";
+import { printAssetDetails } from "./asset";
+import { CommonArgs, confirm, getClient, output, parseAssetId, readDeploymentConfig, runCommand, withCommonArgs } from "./utils";
+
+const moderationScope = scope("moderation", "Review new listings before they go live");
+
+// --reason accepts kebab-case names such as inaccurate-details
+const REASONS = Object.keys(RejectionReason)
+  .filter((key) => Number.isNaN(Number(key)))
+  .map((reason) => reason.toLowerCase().replace(/_/g, "-"));
+
+function parseReason(value: string): RejectionReason {
+  const reason = RejectionReason[value.toUpperCase().replace(/-/g, "_") as keyof typeof RejectionReason];
+  if (reason === undefined) {
+    throw new Error(`Invalid rejection reason "${value}", expected one of ${REASONS.join(", ")}`);
+  }
+  return reason;
+}
+
+function printReview(assetId: bigint, review: ListingReview, decimals: number): void {
+  console.log(`Review of asset ${assetId}`);
+  console.log(`  Status:       ${formatReviewStatus(review.status)}`);
+  console.log(`  Requested:    ${formatAssetStatus(review.requestedStatus)}`);
+  console.log(`  Listing Fee:  ${formatPrice(review.listingFee, decimals)}`);
+  if (review.status === ReviewStatus.PENDING) {
+    return;
+  }
+  console.log(`  Moderator:    ${review.moderator}`);
+  console.log(`  Decided:      ${new Date(Number(review.decidedAt) * 1000).toISOString()}`);
+  if (review.status === ReviewStatus.REJECTED) {
+    console.log(`  Reason:       ${formatRejectionReason(review.reason)}`);
+    console.log(`  Fee Refunded: ${review.feeRefunded ? "Yes" : "No"}`);
+  }
+}
+
+withCommonArgs(moderationScope.task("pending", "Show the full details of every listing awaiting review")).setAction(
+  async (args: CommonArgs, hre) => {
+    await runCommand(args, async () => {
+      const client = await getClient(hre, args);
+      const listings = await client.getPendingListings();
+      output(args, listings, () => {
+        if (listings.length === 0) {
+          console.log("No listings are awaiting review.");
+        }
+        listings.forEach((details) => {
+          printAssetDetails(details);
+          console.log();
+        });
+      });
+    });
+  }
+);
+
+withCommonArgs(
+  moderationScope.task("show", "Show the moderation decision on a listing").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const assetId = parseAssetId(args.asset);
+    const client = await getClient(hre, args);
+    const review = await client.getListingReview(assetId);
+    if (review.status === ReviewStatus.NONE) {
+      throw new Error(`Asset ${assetId} was never submitted for moderation`);
+    }
+    const decimals = await client.getPaymentTokenDecimals(review.feeToken);
+    output(args, { assetId, ...review }, () => printReview(assetId, review, decimals));
+  });
+});
+
+withCommonArgs(
+  moderationScope.task("approve", "Publish a pending listing (listing moderators only)").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const assetId = parseAssetId(args.asset);
+    const client = await getClient(hre, args);
+    const { asset } = await client.getAsset(assetId);
+    const review = await client.getListingReview(assetId);
+    if (!(await confirm(`Publish "${asset.name}" as ${formatAssetStatus(review.requestedStatus)}?`, args))) {
+      console.log("Listing not approved.");
+      return;
+    }
+
+    const receipt = await client.approveListing(assetId);
+    output(args, { assetId, txHash: receipt.hash }, () => console.log(`Asset ${assetId} approved in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  moderationScope
+    .task("reject", "Turn a pending listing down for good (listing moderators only)")
+    .addParam("asset", "Asset ID")
+    .addParam("reason", `Reason: ${REASONS.join(", ")}`)
+    .addFlag("refund", "Refund the listing fee to the seller instead of passing it to the fee collector")
+).setAction(async (args: CommonArgs & { asset: string; reason: string; refund: boolean }, hre) => {
+  await runCommand(args, async () => {
+    const assetId = parseAssetId(args.asset);
+    const reason = parseReason(args.reason);
+    const client = await getClient(hre, args);
+    const { asset } = await client.getAsset(assetId);
+    const fee = args.refund ? "refunding the listing fee" : "passing the listing fee to the fee collector";
+    if (!(await confirm(`Reject "${asset.name}" as ${formatRejectionReason(reason)}, ${fee}? The seller cannot relist it.`, args))) {
+      console.log("Listing not rejected.");
+      return;
+    }
+
+    const receipt = await client.rejectListing(assetId, reason, args.refund);
+    output(args, { assetId, reason: formatRejectionReason(reason), refunded: args.refund, txHash: receipt.hash }, () =>
+      console.log(`Asset ${assetId} rejected in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  moderationScope
+    .task("enable", "Hold new listings for review (admins only)")
+    .addOptionalParam("module", "PropytoModeration address (defaults to moderationAddress in scripts/config.json)", "")
+).setAction(async (args: CommonArgs & { module: string }, hre) => {
+  await runCommand(args, async () => {
+    const moderationAddress = args.module || readDeploymentConfig().moderationAddress;
+    if (!moderationAddress) {
+      throw new Error("No moderation module deployed; pass its address with --module");
+    }
+    const client = await getClient(hre, args);
+    const receipt = await client.enableModeration(moderationAddress);
+    output(args, { moderation: moderationAddress, txHash: receipt.hash }, () =>
+      console.log(`New listings are held for review by ${moderationAddress} from ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(moderationScope.task("disable", "Let new listings go live immediately (admins only)")).setAction(
+  async (args: CommonArgs, hre) => {
+    await runCommand(args, async () => {
+      const client = await getClient(hre, args);
+      const pending = await client.getPendingListings();
+      if (pending.length > 0) {
+        throw new Error(`Approve or reject the ${pending.length} pending listings first; the module cannot decide them once disconnected`);
+      }
+      if (!(await confirm("Turn moderation off? New listings will go live immediately.", args))) {
+        console.log("Moderation left on.");
+        return;
+      }
+
+      const receipt = await client.disableModeration();
+      output(args, { txHash: receipt.hash }, () => console.log(`Moderation turned off in ${receipt.hash}`));
+    });
+  }
+);
@@ -0,0 +1,225 @@
+import { scope } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import Table from "cli-table3";
+import { Offer, OfferStatus } from "../sdk";
+import { formatOfferStatus, formatPrice, parsePrice } from "../sdk/format";
+import { CommonArgs, confirm, getClient, output, parseAssetId, parseCount, runCommand, withCommonArgs } from "./utils";
+
+const offerScope = scope("offer", "Negotiate below the list price with offers and counter-offers");
+
+function parseOfferId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid offer ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+// Chain timestamp `days` from now
+async function expiryIn(hre: HardhatRuntimeEnvironment, days: string): Promise<bigint> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return BigInt(block!.timestamp) + parseCount(days, "day count") * 86400n;
+}
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function describeTarget(offer: Offer): string {
+  return offer.shareCount === 0n ? "the whole asset" : `${offer.shareCount} shares`;
+}
+
+// Whole-asset offers move to the purchase escrow until the seller confirms the sale
+function describeEscrow(escrowId: bigint | null): string {
+  return escrowId === null ? "" : `; the sale is held in escrow ${escrowId} until the seller confirms it with \`npx hardhat escrow confirm\``;
+}
+
+function isActive(offer: Offer): boolean {
+  return offer.status === OfferStatus.OPEN || offer.status === OfferStatus.COUNTERED;
+}
+
+function printOffer(offer: Offer, decimals: number): void {
+  console.log(`Offer ${offer.id} on asset ${offer.assetId}`);
+  console.log(`  Status:   ${formatOfferStatus(offer.status)}${offer.isExpired && isActive(offer) ? " (expired)" : ""}`);
+  console.log(`  Buyer:    ${offer.buyer}`);
+  console.log(`  For:      ${describeTarget(offer)}`);
+  console.log(`  Offered:  ${formatPrice(offer.amount, decimals)} USDT`);
+  if (offer.counterAmount > 0n) {
+    console.log(`  Counter:  ${formatPrice(offer.counterAmount, decimals)} USDT`);
+  }
+  console.log(`  Expires:  ${formatTime(offer.expiry)}`);
+}
+
+// `decimals` holds the decimals of each offer's payment token
+function printOfferTable(offers: Offer[], decimals: number[]): void {
+  if (offers.length === 0) {
+    console.log("No offers found.");
+    return;
+  }
+
+  const table = new Table({
+    head: ["Offer", "Buyer", "Shares", "Offered (USDT)", "Counter (USDT)", "Expires", "Status"],
+    colWidths: [8, 46, 10, 18, 18, 26, 12]
+  });
+
+  offers.forEach((offer, index) => {
+    (table as any).push([
+      offer.id.toString(),
+      offer.buyer,
+      offer.shareCount === 0n ? "Whole" : offer.shareCount.toString(),
+      formatPrice(offer.amount, decimals[index]),
+      offer.counterAmount > 0n ? formatPrice(offer.counterAmount, decimals[index]) : "-",
+      formatTime(offer.expiry),
+      offer.isExpired && isActive(offer) ? "EXPIRED" : formatOfferStatus(offer.status)
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+withCommonArgs(
+  offerScope.task("list", "List the offers on an asset").addParam("asset", "Asset ID")
+).setAction(async (args: CommonArgs & { asset: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offers = await client.getAssetOffers(parseAssetId(args.asset));
+    const decimals = await Promise.all(offers.map((offer) => client.getPaymentTokenDecimals(offer.paymentToken)));
+    output(args, offers, () => printOfferTable(offers, decimals));
+  });
+});
+
+withCommonArgs(
+  offerScope.task("show", "Show an offer").addParam("offer", "Offer ID")
+).setAction(async (args: CommonArgs & { offer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offer = await client.getOffer(parseOfferId(args.offer));
+    const decimals = await client.getPaymentTokenDecimals(offer.paymentToken);
+    output(args, offer, () => printOffer(offer, decimals));
+  });
+});
+
+withCommonArgs(
+  offerScope
+    .task("place", "Offer a total price for shares or the whole asset, depositing it until the offer expires")
+    .addParam("asset", "Asset ID")
+    .addParam("amount", "Total price offered in USDT")
+    .addOptionalParam("shares", "Number of shares (omit to offer for the whole asset)", "")
+    .addOptionalParam("days", "Days the offer stays open", "7")
+).setAction(async (args: CommonArgs & { asset: string; amount: string; shares: string; days: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const decimals = await client.getPaymentTokenDecimals();
+    const assetId = parseAssetId(args.asset);
+    const shareCount = args.shares ? parseCount(args.shares, "share count") : 0n;
+    const amount = parsePrice(args.amount, decimals);
+    const expiry = await expiryIn(hre, args.days);
+    const quote = shareCount === 0n ? await client.quoteWhole(assetId) : await client.quoteShares(assetId, shareCount);
+
+    if (!args.json) {
+      const target = shareCount === 0n ? "the whole asset" : `${shareCount} shares`;
+      console.log(`Offering ${formatPrice(amount, decimals)} USDT for ${target} (listed at ${formatPrice(quote.totalPrice, decimals)} USDT)`);
+      console.log(`The amount is deposited until ${formatTime(expiry)} or until you cancel the offer.`);
+    }
+    if (!(await confirm("Place offer?", args))) {
+      console.log("Offer not placed.");
+      return;
+    }
+
+    const { offerId, receipt } = await client.placeOffer(assetId, shareCount, amount, expiry);
+    output(args, { offerId, assetId, shareCount, amount, expiry, txHash: receipt.hash }, () =>
+      console.log(`Offer ${offerId} placed in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  offerScope.task("accept", "Sell at the offered price (seller only)").addParam("offer", "Offer ID")
+).setAction(async (args: CommonArgs & { offer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offerId = parseOfferId(args.offer);
+    const offer = await client.getOffer(offerId);
+    const decimals = await client.getPaymentTokenDecimals(offer.paymentToken);
+
+    if (!(await confirm(`Sell ${describeTarget(offer)} of asset ${offer.assetId} to ${offer.buyer} for ${formatPrice(offer.amount, decimals)} USDT?`, args))) {
+      console.log("Offer not accepted.");
+      return;
+    }
+
+    const { escrowId, receipt } = await client.acceptOffer(offerId);
+    output(args, { offerId, assetId: offer.assetId, totalPrice: offer.amount, escrowId, txHash: receipt.hash }, () =>
+      console.log(`Offer accepted in ${receipt.hash}${describeEscrow(escrowId)}`)
+    );
+  });
+});
+
+withCommonArgs(
+  offerScope
+    .task("counter", "Ask the buyer for a higher price (seller only)")
+    .addParam("offer", "Offer ID")
+    .addParam("amount", "Total price asked in USDT")
+    .addOptionalParam("days", "Days the counter-offer stays open", "7")
+).setAction(async (args: CommonArgs & { offer: string; amount: string; days: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offerId = parseOfferId(args.offer);
+    const { paymentToken } = await client.getOffer(offerId);
+    const decimals = await client.getPaymentTokenDecimals(paymentToken);
+    const counterAmount = parsePrice(args.amount, decimals);
+    const expiry = await expiryIn(hre, args.days);
+    const receipt = await client.counterOffer(offerId, counterAmount, expiry);
+    output(args, { offerId, counterAmount, expiry, txHash: receipt.hash }, () =>
+      console.log(`Countered with ${formatPrice(counterAmount, decimals)} USDT in ${receipt.hash}`)
+    );
+  });
+});
+
+withCommonArgs(
+  offerScope
+    .task("accept-counter", "Buy at the seller's counter-offer, paying the difference (buyer only)")
+    .addParam("offer", "Offer ID")
+).setAction(async (args: CommonArgs & { offer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offerId = parseOfferId(args.offer);
+    const offer = await client.getOffer(offerId);
+    const decimals = await client.getPaymentTokenDecimals(offer.paymentToken);
+
+    const extra = offer.counterAmount - offer.amount;
+    if (!(await confirm(`Buy ${describeTarget(offer)} for ${formatPrice(offer.counterAmount, decimals)} USDT, paying ${formatPrice(extra, decimals)} USDT more?`, args))) {
+      console.log("Counter-offer not accepted.");
+      return;
+    }
+
+    const { escrowId, receipt } = await client.acceptCounterOffer(offerId);
+    output(args, { offerId, assetId: offer.assetId, totalPrice: offer.counterAmount, escrowId, txHash: receipt.hash }, () =>
+      console.log(`Counter-offer accepted in ${receipt.hash}${describeEscrow(escrowId)}`)
+    );
+  });
+});
+
+withCommonArgs(
+  offerScope.task("reject", "Turn an offer down and refund the buyer (seller only)").addParam("offer", "Offer ID")
+).setAction(async (args: CommonArgs & { offer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offerId = parseOfferId(args.offer);
+    const receipt = await client.rejectOffer(offerId);
+    output(args, { offerId, txHash: receipt.hash }, () => console.log(`Offer ${offerId} rejected in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  offerScope.task("cancel", "Withdraw your offer and take the deposit back (buyer only)").addParam("offer", "Offer ID")
+).setAction(async (args: CommonArgs & { offer: string }, hre) => {
+  await runCommand(args, async () => {
+    const client = await getClient(hre, args);
+    const offerId = parseOfferId(args.offer);
+    const { amount, paymentToken } = await client.getOffer(offerId);
+    const decimals = await client.getPaymentTokenDecimals(paymentToken);
+    const receipt = await client.cancelOffer(offerId);
+    output(args, { offerId, amount, txHash: receipt.hash }, () =>
+      console.log(`Offer withdrawn, ${formatPrice(amount, decimals)} USDT returned in ${receipt.hash}`)
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { scope } from "hardhat/config";
+import { isAddress } from "ethers";
+import { PropytoRole, RoleHolders } from "../sdk/types";
+import { CommonArgs, confirm, getClient, output, runCommand, withCommonArgs } from "./utils";
+
+const rolesScope = scope("roles", "List and manage the holders of the platform roles");
+
+// --role accepts kebab-case names such as fee-manager
+const ROLE_NAMES = Object.values(PropytoRole).map((role) => role.toLowerCase().replace(/_/g, "-"));
+
+function parseRole(value: string): PropytoRole {
+  const role = value.toUpperCase().replace(/-/g, "_");
+  if (!Object.values(PropytoRole).includes(role as PropytoRole)) {
+    throw new Error(`Invalid role "${value}", expected one of ${ROLE_NAMES.join(", ")}`);
+  }
+  return role as PropytoRole;
+}
+
+function parseAccount(value: string): string {
+  if (!isAddress(value)) {
+    throw new Error(`Invalid account address "${value}"`);
+  }
+  return value;
+}
+
+function printRoleHolders(roles: RoleHolders[]): void {
+  for (const { role, holders } of roles) {
+    console.log(`${role}:`);
+    if (holders.length === 0) {
+      console.log("  (none)");
+    }
+    holders.forEach((holder) => console.log(`  ${holder}`));
+  }
+}
+
+withCommonArgs(
+  rolesScope
+    .task("list", "Show who holds each role")
+    .addOptionalParam("role", `Only this role: ${ROLE_NAMES.join(", ")}`, "")
+).setAction(async (args: CommonArgs & { role: string }, hre) => {
+  await runCommand(args, async () => {
+    const role = args.role ? parseRole(args.role) : undefined;
+    const client = await getClient(hre, args);
+    const roles = (await client.getRoleHolders()).filter((entry) => !role || entry.role === role);
+    output(args, roles, () => printRoleHolders(roles));
+  });
+});
+
+withCommonArgs(
+  rolesScope
+    .task("grant", "Give an account a role (admins only)")
+    .addParam("role", `Role: ${ROLE_NAMES.join(", ")}`)
+    .addParam("account", "Account address")
+).setAction(async (args: CommonArgs & { role: string; account: string }, hre) => {
+  await runCommand(args, async () => {
+    const role = parseRole(args.role);
+    const account = parseAccount(args.account);
+    const client = await getClient(hre, args);
+    if (role === PropytoRole.ADMIN && !(await confirm(`Make ${account} an admin? Admins can grant and revoke every role.`, args))) {
+      console.log("Role not granted.");
+      return;
+    }
+
+    const receipt = await client.grantRole(role, account);
+    output(args, { role, account, txHash: receipt.hash }, () => console.log(`${role} granted to ${account} in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  rolesScope
+    .task("revoke", "Take a role away from an account (admins only)")
+    .addParam("role", `Role: ${ROLE_NAMES.join(", ")}`)
+    .addParam("account", "Account address")
+).setAction(async (args: CommonArgs & { role: string; account: string }, hre) => {
+  await runCommand(args, async () => {
+    const role = parseRole(args.role);
+    const account = parseAccount(args.account);
+    const client = await getClient(hre, args);
+    if (!(await confirm(`Revoke ${role} from ${account}?`, args))) {
+      console.log("Role not revoked.");
+      return;
+    }
+
+    const receipt = await client.revokeRole(role, account);
+    output(args, { role, account, txHash: receipt.hash }, () => console.log(`${role} revoked from ${account} in ${receipt.hash}`));
+  });
+});
+
+withCommonArgs(
+  rolesScope.task("renounce", "Give up a role held by your account").addParam("role", `Role: ${ROLE_NAMES.join(", ")}`)
+).setAction(async (args: CommonArgs & { role: string }, hre) => {
+  await runCommand(args, async () => {
+    const role = parseRole(args.role);
+    const client = await getClient(hre, args);
+    if (!(await confirm(`Give up ${role}? Only an admin can grant it back.`, args))) {
+      console.log("Role kept.");
+      return;
+    }
+
+    const receipt = await client.renounceRole(role);
+    output(args, { role, txHash: receipt.hash }, () => console.log(`${role} renounced in ${receipt.hash}`));
+  });
+});
@@ -0,0 +1,147 @@
+import fs from "fs";
+import path from "path";
+import * as readline from "readline";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { IndexerOptions, PropytoIndexer } from "../indexer";
+import type { PropytoClient } from "../sdk";
+import { decodeError } from "../sdk/errors";
+
+export interface CommonArgs {
+  registry: string;
+  json: boolean;
+  yes: boolean;
+}
+
+export interface DeploymentConfig {
+  registryAddress: string;
+  usdtAddress: string;
+  sftFactoryAddress?: string;
+  shareMarketAddress?: string;
+  rentalsAddress?: string;
+  dividendsAddress?: string;
+  governanceAddress?: string;
+  escrowAddress?: string;
+  crowdfundingAddress?: string;
+  offerBookAddress?: string;
+  auctionHouseAddress?: string;
+  complianceAddress?: string;
+  moderationAddress?: string;
+  metadataRendererAddress?: string;
+  accessManagerAddress?: string;
+  deploymentBlock?: number; // first block the indexer needs to scan
+}
+
+const CONFIG_PATH = path.join(__dirname, "..", "scripts", "config.json");
+
+// Flags shared by every propyto command
+export function withCommonArgs(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return definition
+    .addOptionalParam("registry", "PropytoRegistry address (defaults to scripts/config.json)", "")
+    .addFlag("json", "Print machine readable JSON instead of text")
+    .addFlag("yes", "Skip confirmation prompts");
+}
+
+export function readDeploymentConfig(): DeploymentConfig {
+  return JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8"));
+}
+
+// Indexing from block 0 would scan the whole chain, so a config without the deployment block is an error
+export function requireDeploymentBlock(config: DeploymentConfig): number {
+  if (config.deploymentBlock === undefined) {
+    throw new Error("scripts/config.json has no deploymentBlock: add the block the registry was deployed in");
+  }
+  return config.deploymentBlock;
+}
+
+// Build a client for the selected network, signing with the first configured account
+export async function getClient(hre: HardhatRuntimeEnvironment, args: CommonArgs): Promise<PropytoClient> {
+  // Loaded lazily: the SDK depends on typechain-types, which only exist after compilation
+  const { PropytoClient } = await import("../sdk");
+  const [signer] = await hre.ethers.getSigners();
+  const registryAddress = args.registry || readDeploymentConfig().registryAddress;
+
+  if (!hre.ethers.isAddress(registryAddress)) {
+    throw new Error(`Invalid registry address "${registryAddress}"`);
+  }
+  return new PropytoClient(registryAddress, signer);
+}
+
+// Indexer over the selected network's local index, starting at the registry's deployment block unless told otherwise
+export async function createIndexer(
+  hre: HardhatRuntimeEnvironment,
+  args: CommonArgs,
+  options: IndexerOptions & { store?: string } = {}
+): Promise<PropytoIndexer> {
+  const { PropytoIndexer, JsonFileStore, defaultIndexPath } = await import("../indexer");
+  const client = await getClient(hre, args);
+  const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+  const { store, ...indexerOptions } = options;
+
+  // A registry given with --registry has no recorded deployment block, so it is indexed from genesis
+  const startBlock = indexerOptions.startBlock ?? (args.registry ? 0 : requireDeploymentBlock(readDeploymentConfig()));
+  return new PropytoIndexer(client, new JsonFileStore(store || defaultIndexPath(chainId)), { ...indexerOptions, startBlock });
+}
+
+export function parseAssetId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid asset ID "${value}"`);
+  }
+  return BigInt(value);
+}
+
+// Positive integer argument such as a share or period count
+export function parseCount(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) === 0n) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return BigInt(value);
+}
+
+// Ask for confirmation unless --yes was given; refuses to block when there is no terminal
+export async function confirm(question: string, args: CommonArgs): Promise<boolean> {
+  if (args.yes) {
+    return true;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error("Confirmation required: re-run with --yes to run non-interactively");
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} (yes/no): `, resolve));
+  rl.close();
+  return answer.trim().toLowerCase() === "yes";
+}
+
+// JSON.stringify that writes bigints as decimal strings
+export function toJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+export function output(args: CommonArgs, data: unknown, printText: () => void): void {
+  if (args.json) {
+    console.log(toJSON(data));
+  } else {
+    printText();
+  }
+}
+
+/**
+ * Run a command body, reporting failures (including reverts) on stderr and
+ * setting a non-zero exit code instead of printing a Hardhat stack trace.
+ */
+export async function runCommand(args: CommonArgs, body: () => Promise<void>): Promise<void> {
+  try {
+    await body();
+  } catch (error) {
+    const { message, code, category, hint } = decodeError(error);
+    if (args.json) {
+      console.error(toJSON({ error: message, code, category, hint }));
+    } else {
+      console.error(`Error: ${code && code !== message ? `${code}: ` : ""}${message}`);
+      if (hint) {
+        console.error(`Hint: ${hint}`);
+      }
+    }
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, KycStatus, NewAsset, PropytoRole, roleId } from "../sdk";
+import { deployAccessManager, deployCompliance, deployRegistry, deployShareMarket } from "./fixtures";
+
+describe("PropytoAccessManager", function () {
+  let admin: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let feeManager: SignerWithAddress;
+  let pauser: SignerWithAddress;
+  let moderator: SignerWithAddress;
+  let officer: SignerWithAddress;
+  let appraiser: SignerWithAddress;
+  let registry: any;
+  let adminClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Harbour Lofts",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 900n,
+    assetAge: 5n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: false,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "Lofts", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+
+  beforeEach(async function () {
+    [admin, seller, feeManager, pauser, moderator, officer, appraiser] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    adminClient = new PropytoClient(await registry.getAddress(), admin);
+    ({ assetId } = await new PropytoClient(await registry.getAddress(), seller).listAsset(newAsset(), metadata, media));
+  });
+
+  it("should let the owner hold every role until an access manager is connected", async function () {
+    for (const role of Object.values(PropytoRole)) {
+      expect(await adminClient.hasRole(role, admin.address)).to.be.true;
+      expect(await adminClient.hasRole(role, seller.address)).to.be.false;
+    }
+    expect(await adminClient.getRoleHolders()).to.deep.include({ role: PropytoRole.PAUSER, holders: [admin.address] });
+    await expect(registry.connect(seller).pause()).to.be.revertedWith("E133");
+    await registry.pause();
+  });
+
+  it("should only connect an access manager that keeps the caller an admin", async function () {
+    const AccessManagerFactory = await ethers.getContractFactory("PropytoAccessManager");
+    const foreign = await upgrades.deployProxy(AccessManagerFactory, [seller.address]);
+
+    await expect(registry.updateAccessManager(ethers.ZeroAddress)).to.be.revertedWith("E134");
+    await expect(registry.updateAccessManager(await foreign.getAddress())).to.be.revertedWith("E135");
+    await expect(registry.connect(seller).updateAccessManager(await foreign.getAddress())).to.be.revertedWith("E133");
+
+    const accessManager = await deployAccessManager(registry, admin.address);
+    expect(await registry.accessManager()).to.equal(await accessManager.getAddress());
+    for (const role of Object.values(PropytoRole)) {
+      expect(await adminClient.hasRole(role, admin.address)).to.be.true;
+    }
+  });
+
+  describe("with an access manager", function () {
+    let accessManager: any;
+
+    beforeEach(async function () {
+      accessManager = await deployAccessManager(registry, admin.address);
+      await adminClient.grantRole(PropytoRole.FEE_MANAGER, feeManager.address);
+      await adminClient.grantRole(PropytoRole.PAUSER, pauser.address);
+      await adminClient.grantRole(PropytoRole.LISTING_MODERATOR, moderator.address);
+      await adminClient.grantRole(PropytoRole.COMPLIANCE_OFFICER, officer.address);
+      await adminClient.grantRole(PropytoRole.APPRAISER, appraiser.address);
+    });
+
+    it("should emit events and list the holders of each role", async function () {
+      await expect(accessManager.revokeRole(roleId(PropytoRole.PAUSER), pauser.address))
+        .to.emit(accessManager, "RoleRevoked")
+        .withArgs(roleId(PropytoRole.PAUSER), pauser.address, admin.address);
+      await expect(accessManager.grantRole(roleId(PropytoRole.PAUSER), seller.address))
+        .to.emit(accessManager, "RoleGranted")
+        .withArgs(roleId(PropytoRole.PAUSER), seller.address, admin.address);
+
+      const holders = await adminClient.getRoleHolders();
+      expect(holders.find(({ role }) => role === PropytoRole.PAUSER)?.holders).to.deep.equal([admin.address, seller.address]);
+      expect(holders.find(({ role }) => role === PropytoRole.APPRAISER)?.holders).to.deep.equal([admin.address, appraiser.address]);
+
+      await expect(new PropytoClient(await registry.getAddress(), pauser).grantRole(PropytoRole.PAUSER, pauser.address)).to.be.rejectedWith(
+        "AccessControl: account"
+      );
+    });
+
+    it("should give each role only its own permissions", async function () {
+      await registry.connect(feeManager).updateMarketplaceConfig(300, feeManager.address, ethers.parseEther("5"), true);
+      await expect(registry.connect(feeManager).pause()).to.be.revertedWith("E133");
+      await expect(registry.connect(feeManager).updateCompliance(feeManager.address)).to.be.revertedWith("E133");
+
+      await registry.connect(pauser).pause();
+      await registry.connect(pauser).unpause();
+      await expect(
+        registry.connect(pauser).updateMarketplaceConfig(300, pauser.address, ethers.parseEther("5"), true)
+      ).to.be.revertedWith("E133");
+
+      // Admins lose what they give up
+      await adminClient.renounceRole(PropytoRole.FEE_MANAGER);
+      await expect(registry.updateMarketplaceConfig(300, admin.address, ethers.parseEther("5"), true)).to.be.revertedWith("E133");
+      await deployShareMarket(registry);
+    });
+
+    it("should let listing moderators and appraisers manage any listing", async function () {
+      const moderated = { ...metadata, assetDescription: "Moderated" };
+      await registry.connect(moderator).updateAssetMetadata(assetId, moderated);
+      await registry.connect(moderator).updateAssetStatus(assetId, AssetStatus.DELISTED);
+      expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.DELISTED);
+      expect((await registry.assetMetadata(assetId)).assetDescription).to.equal("Moderated");
+      await expect(registry.connect(moderator).updateAssetPrice(assetId, ethers.parseEther("1"))).to.be.revertedWith("E9");
+
+      await registry.connect(appraiser).updateAssetPrice(assetId, ethers.parseEther("120000"));
+      expect((await registry.assets(assetId)).assetPrice).to.equal(ethers.parseEther("120000"));
+      await expect(registry.connect(appraiser).updateAssetStatus(assetId, AssetStatus.FOR_SALE)).to.be.revertedWith("E9");
+      await expect(registry.connect(appraiser).transferSellership(assetId, appraiser.address)).to.be.revertedWith("E8");
+    });
+
+    it("should let compliance officers keep investor records and asset rules", async function () {
+      const compliance = await deployCompliance(registry);
+      const expiry = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 86400n;
+
+      await compliance.connect(officer).setInvestor(seller.address, KycStatus.APPROVED, expiry, "0x5553", false);
+      await compliance.connect(officer).setAssetRules(assetId, [], true, 0);
+      await expect(
+        compliance.connect(appraiser).setInvestor(seller.address, KycStatus.APPROVED, expiry, "0x5553", false)
+      ).to.be.revertedWith("E130");
+      await expect(compliance.connect(appraiser).setAssetRules(assetId, [], true, 0)).to.be.revertedWith("E131");
+    });
+  });
+
+  it("should migrate a deployed registry in place", async function () {
+    await deployShareMarket(registry);
+    const RegistryFactory = await ethers.getContractFactory("PropytoRegistry");
+    const upgraded = await upgrades.upgradeProxy(await registry.getAddress(), RegistryFactory);
+
+    await deployAccessManager(upgraded, admin.address);
+    await adminClient.grantRole(PropytoRole.PAUSER, pauser.address);
+    await adminClient.revokeRole(PropytoRole.PAUSER, admin.address);
+
+    expect(await upgraded.assetCount()).to.equal(1n);
+    expect(await upgraded.shareMarket()).to.not.equal(ethers.ZeroAddress);
+    await expect(upgraded.pause()).to.be.revertedWith("E133");
+    await upgraded.connect(pauser).pause();
+  });
+});
@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, AuctionStatus, NewAsset } from "../sdk";
+import { deployAuctionHouse, deployEscrow, deployRegistry } from "./fixtures";
+
+describe("PropytoAuctions", function () {
+  const HOUR = 3600n;
+  const RESERVE = ethers.parseEther("50000");
+  const INCREMENT = ethers.parseEther("1000");
+  const BALANCE = ethers.parseEther("200000");
+  const fee = (amount: bigint) => (amount * 250n) / 10000n; // default 2.5% platform fee
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let auctionHouse: any;
+  let sellerClient: PropytoClient;
+  let assetId: bigint;
+
+  const client = (signer: SignerWithAddress) => new PropytoClient(registry.target, signer);
+
+  const newAsset = (): NewAsset => ({
+    name: "Dune Plot 7",
+    assetType: AssetType.LAND,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("80000"),
+    assetArea: 5000n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: false,
+    listingExpiry: 0n
+  });
+
+  beforeEach(async function () {
+    [owner, seller, alice, bob] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(alice.address, BALANCE);
+    await mockUSDT.mint(bob.address, BALANCE);
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    auctionHouse = await deployAuctionHouse(registry);
+    await deployEscrow(registry);
+
+    sellerClient = client(seller);
+    ({ assetId } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    ));
+  });
+
+  describe("English auctions", function () {
+    let auctionId: bigint;
+
+    beforeEach(async function () {
+      ({ auctionId } = await sellerClient.startEnglishAuction(assetId, {
+        reservePrice: RESERVE,
+        minIncrement: INCREMENT,
+        duration: 24n * HOUR
+      }));
+    });
+
+    it("should escrow the highest bid, credit outbid bidders and sell to the winner", async function () {
+      await expect(client(alice).placeBid(auctionId, RESERVE - 1n)).to.be.rejectedWith("Bid is too low");
+      await client(alice).placeBid(auctionId, RESERVE);
+      expect((await sellerClient.getAuction(auctionId)).minimumBid).to.equal(RESERVE + INCREMENT);
+      await expect(client(bob).placeBid(auctionId, RESERVE + INCREMENT - 1n)).to.be.rejectedWith("Bid is too low");
+
+      const winningBid = RESERVE + 2n * INCREMENT;
+      await expect(client(bob).placeBid(auctionId, winningBid))
+        .to.emit(auctionHouse, "BidRefunded")
+        .withArgs(auctionId, alice.address, RESERVE);
+      expect(await client(alice).getPendingAuctionRefund(alice.address)).to.equal(RESERVE);
+      await client(alice).withdrawAuctionRefund();
+      expect(await mockUSDT.balanceOf(alice.address)).to.equal(BALANCE);
+      expect(await mockUSDT.balanceOf(await auctionHouse.getAddress())).to.equal(winningBid);
+      await expect(client(alice).withdrawAuctionRefund()).to.be.rejectedWith("No refund to withdraw");
+
+      // The asset is locked while the auction runs
+      await expect(client(alice).buyWhole(assetId)).to.be.rejectedWith("Asset is locked by an escrowed purchase or a running auction");
+      await expect(auctionHouse.connect(bob).settleAuction(auctionId)).to.be.revertedWith("E114");
+      await expect(auctionHouse.connect(seller).cancelAuction(auctionId)).to.be.revertedWith("E118");
+
+      await time.increase(24n * HOUR);
+      await expect(auctionHouse.connect(alice).bid(auctionId, winningBid + INCREMENT)).to.be.revertedWith("E113");
+
+      const sellerBalance = await mockUSDT.balanceOf(seller.address);
+      const ownerBalance = await mockUSDT.balanceOf(owner.address);
+      await client(alice).settleAuction(auctionId); // anyone can settle
+
+      expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + winningBid - fee(winningBid));
+      expect(await mockUSDT.balanceOf(owner.address)).to.equal(ownerBalance + fee(winningBid));
+      expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.SOLD);
+      expect(await registry.getSharesOwned(assetId, bob.address)).to.equal(100n);
+      expect(await registry.inEscrow(assetId)).to.be.false;
+
+      const settled = await sellerClient.getAuction(auctionId);
+      expect(settled.status).to.equal(AuctionStatus.SOLD);
+      expect(settled.highestBidder).to.equal(bob.address);
+      await expect(auctionHouse.settleAuction(auctionId)).to.be.revertedWith("E112");
+    });
+
+    it("should pay whoever is the seller at settlement", async function () {
+      await client(alice).placeBid(auctionId, RESERVE);
+      await sellerClient.transferSellership(assetId, bob.address);
+      await expect(auctionHouse.connect(bob).bid(auctionId, RESERVE + INCREMENT)).to.be.revertedWith("E87");
+
+      await time.increase(24n * HOUR);
+      const sellerBalance = await mockUSDT.balanceOf(seller.address);
+      const bobBalance = await mockUSDT.balanceOf(bob.address);
+      await client(alice).settleAuction(auctionId);
+
+      expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance);
+      expect(await mockUSDT.balanceOf(bob.address)).to.equal(bobBalance + RESERVE - fee(RESERVE));
+    });
+
+    it("should refund the winner and unlock the asset when the sale cannot be settled in time", async function () {
+      await client(bob).placeBid(auctionId, RESERVE);
+      await time.increase(24n * HOUR);
+      await registry.connect(owner).pause();
+      await expect(client(alice).settleAuction(auctionId)).to.be.rejected;
+
+      await expect(auctionHouse.refundWinningBid(auctionId)).to.be.revertedWith("E144");
+      expect((await sellerClient.getAuction(auctionId)).isRefundable).to.be.false;
+
+      const { endTime } = await sellerClient.getAuction(auctionId);
+      await time.increaseTo(endTime + 14n * 24n * HOUR + 1n);
+      await registry.connect(owner).unpause();
+      await expect(auctionHouse.settleAuction(auctionId)).to.be.revertedWith("E143");
+      expect((await sellerClient.getAuction(auctionId)).isRefundable).to.be.true;
+
+      await client(alice).refundWinningBid(auctionId); // anyone can trigger the refund
+      await client(bob).withdrawAuctionRefund();
+      expect(await mockUSDT.balanceOf(bob.address)).to.equal(BALANCE);
+      expect(await mockUSDT.balanceOf(await auctionHouse.getAddress())).to.equal(0n);
+      expect(await registry.inEscrow(assetId)).to.be.false;
+      expect((await sellerClient.getAuction(auctionId)).status).to.equal(AuctionStatus.REFUNDED);
+      await expect(auctionHouse.refundWinningBid(auctionId)).to.be.revertedWith("E144");
+
+      // The asset can be sold again
+      await client(alice).buyWhole(assetId);
+    });
+
+    it("should keep taking bids when an outbid bidder cannot receive the token", async function () {
+      await client(alice).placeBid(auctionId, RESERVE);
+      await mockUSDT.setBlocked(alice.address, true);
+
+      await client(bob).placeBid(auctionId, RESERVE + INCREMENT);
+      expect((await sellerClient.getAuction(auctionId)).highestBidder).to.equal(bob.address);
+      await expect(client(alice).withdrawAuctionRefund()).to.be.rejectedWith("recipient is blocked");
+
+      // The refund stays credited until the bidder can receive it
+      await mockUSDT.setBlocked(alice.address, false);
+      await client(alice).withdrawAuctionRefund();
+      expect(await mockUSDT.balanceOf(alice.address)).to.equal(BALANCE);
+    });
+
+    it("should extend the auction when a bid lands in the anti-sniping window", async function () {
+      const { endTime } = await sellerClient.getAuction(auctionId);
+      await time.increaseTo(endTime - 60n);
+
+      await client(alice).placeBid(auctionId, RESERVE);
+      const extended = (await sellerClient.getAuction(auctionId)).endTime;
+      expect(extended).to.equal(BigInt(await time.latest()) + 600n);
+
+      await time.increaseTo(endTime);
+      await client(bob).placeBid(auctionId, RESERVE + INCREMENT); // still open thanks to the extension
+      await expect(auctionHouse.settleAuction(auctionId)).to.be.revertedWith("E114");
+    });
+
+    it("should unlock the asset when the auction is cancelled or ends without bids", async function () {
+      await expect(auctionHouse.connect(alice).cancelAuction(auctionId)).to.be.revertedWith("E8");
+      await sellerClient.cancelAuction(auctionId);
+      expect(await registry.inEscrow(assetId)).to.be.false;
+      expect((await sellerClient.getAuction(auctionId)).status).to.equal(AuctionStatus.CANCELLED);
+
+      const { auctionId: unsold } = await sellerClient.startEnglishAuction(assetId, {
+        reservePrice: RESERVE,
+        minIncrement: INCREMENT,
+        duration: HOUR
+      });
+      await time.increase(HOUR);
+      await sellerClient.settleAuction(unsold);
+
+      expect((await sellerClient.getAuction(unsold)).status).to.equal(AuctionStatus.UNSOLD);
+      expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+      expect((await sellerClient.getAssetAuctions(assetId)).map((auction) => auction.id)).to.deep.equal([auctionId, unsold]);
+    });
+  });
+
+  describe("Dutch auctions", function () {
+    const START = ethers.parseEther("90000");
+    const FLOOR = ethers.parseEther("60000");
+
+    it("should sell to the first bid at the declining price", async function () {
+      const { auctionId } = await sellerClient.startDutchAuction(assetId, {
+        startPrice: START,
+        floorPrice: FLOOR,
+        duration: 10n * HOUR
+      });
+      const { startTime } = await sellerClient.getAuction(auctionId);
+
+      await time.increaseTo(startTime + 5n * HOUR);
+      expect(await auctionHouse.currentPrice(auctionId)).to.equal(ethers.parseEther("75000"));
+      await expect(auctionHouse.connect(alice).bid(auctionId, ethers.parseEther("70000"))).to.be.revertedWith("E115");
+
+      // The bid pays the price at inclusion, not the maximum offered
+      const sellerBalance = await mockUSDT.balanceOf(seller.address);
+      await client(alice).placeBid(auctionId, START);
+      const { highestBid, status } = await sellerClient.getAuction(auctionId);
+      expect(status).to.equal(AuctionStatus.SOLD);
+      expect(await mockUSDT.balanceOf(alice.address)).to.equal(BALANCE - highestBid);
+      expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + highestBid - fee(highestBid));
+      expect(await registry.getSharesOwned(assetId, alice.address)).to.equal(100n);
+      await expect(auctionHouse.connect(bob).bid(auctionId, START)).to.be.revertedWith("E112");
+    });
+
+    it("should stop at the floor price and close unsold", async function () {
+      const { auctionId } = await sellerClient.startDutchAuction(assetId, {
+        startPrice: START,
+        floorPrice: FLOOR,
+        duration: HOUR
+      });
+      await time.increase(2n * HOUR);
+      expect(await auctionHouse.currentPrice(auctionId)).to.equal(FLOOR);
+      await expect(auctionHouse.connect(alice).bid(auctionId, FLOOR)).to.be.revertedWith("E113");
+
+      await sellerClient.settleAuction(auctionId);
+      expect((await sellerClient.getAuction(auctionId)).status).to.equal(AuctionStatus.UNSOLD);
+      expect(await registry.inEscrow(assetId)).to.be.false;
+    });
+  });
+
+  it("should only start auctions of the seller's assets that can be bought", async function () {
+    await expect(auctionHouse.connect(alice).startEnglishAuction(assetId, RESERVE, INCREMENT, HOUR)).to.be.revertedWith("E8");
+    await expect(auctionHouse.connect(seller).startEnglishAuction(assetId, 0, INCREMENT, HOUR)).to.be.revertedWith("E117");
+    await expect(auctionHouse.connect(seller).startDutchAuction(assetId, RESERVE, RESERVE, HOUR)).to.be.revertedWith("E117");
+    await expect(auctionHouse.bid(0, RESERVE)).to.be.revertedWith("E111");
+    await expect(registry.connect(alice).setEscrowStatus(assetId, true)).to.be.revertedWith("E79");
+
+    // Only one sale process at a time: an escrowed purchase blocks auctions
+    await client(alice).buyWhole(assetId);
+    await expect(auctionHouse.connect(seller).startDutchAuction(assetId, RESERVE, INCREMENT, HOUR)).to.be.revertedWith("E80");
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import { deployEscrow, deployRegistry } from "./fixtures";
+
+describe("PropytoClient", function () {
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let mockUSDT: any;
+  let registryAddress: string;
+
+  const newAsset = (): NewAsset => ({
+    name: "Sea View Apartment",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.FULLY_FURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 1200n,
+    assetAge: 365n,
+    assetOtherDetails: '{"bedrooms": 2}',
+    isRentable: true,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const metadata = {
+    assetDescription: "Two bedroom apartment",
+    assetFeatures: "Balcony, lift",
+    assetAmenities: "Pool",
+    assetLocation: "Goa"
+  };
+
+  const media = {
+    assetImage: "ipfs://QmImage",
+    assetVideo: "",
+    assetFloorPlan: ""
+  };
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(buyer.address, ethers.parseEther("1000000"));
+
+    const registry = await deployRegistry(await mockUSDT.getAddress());
+    registryAddress = await registry.getAddress();
+    await deployEscrow(registry);
+  });
+
+  it("should list an asset and return normalized details", async function () {
+    const client = new PropytoClient(registryAddress, seller);
+    const { assetId, sftAddress } = await client.listAsset(newAsset(), metadata, media);
+
+    expect(assetId).to.equal(0n);
+
+    const details = await client.getAsset(assetId);
+    expect(details.asset.name).to.equal("Sea View Apartment");
+    expect(details.asset.assetType).to.equal(AssetType.RESIDENTIAL);
+    expect(details.asset.assetStatus).to.equal(AssetStatus.FOR_SALE);
+    expect(details.asset.seller).to.equal(seller.address);
+    expect(details.asset.listingExpiry).to.be.greaterThan(BigInt(await time.latest()));
+    expect(details.metadata.assetLocation).to.equal("Goa");
+    expect(details.media.assetImage).to.equal("ipfs://QmImage");
+    expect(details.otherDetails).to.deep.equal({ bedrooms: 2 });
+    expect(details.ownership.sftAddress).to.equal(sftAddress);
+    expect(details.ownership.tokenId).to.equal(0n);
+  });
+
+  it("should enable fractions and buy shares at the current share price", async function () {
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, {
+      totalShares: 1000n,
+      sharePrice: ethers.parseEther("100"),
+      minSharePurchase: 1n,
+      maxSharesPerOwner: 500n,
+      sellerShares: 0n
+    });
+
+    await sellerClient.updatePrice(assetId, ethers.parseEther("200000"));
+
+    const buyerClient = new PropytoClient(registryAddress, buyer);
+    expect(await buyerClient.getSharePrice(assetId)).to.equal(ethers.parseEther("200"));
+
+    const quote = await buyerClient.quoteShares(assetId, 10n);
+    expect(quote.totalPrice).to.equal(ethers.parseEther("2000"));
+    expect(quote.platformFee + quote.sellerAmount).to.equal(quote.totalPrice);
+
+    await buyerClient.buyShares(assetId, 10n);
+    // Exactly the quoted amount was approved and spent
+    expect(await mockUSDT.allowance(buyer.address, registryAddress)).to.equal(0n);
+
+    const ownership = await buyerClient.getOwnership(assetId);
+    expect(ownership.owners).to.deep.equal([buyer.address]);
+    expect(ownership.sharesByOwner[buyer.address]).to.equal(10n);
+    expect(ownership.tokenId).to.not.equal(0n);
+    expect(ownership.partialOwnership.availableShares).to.equal(990n);
+    expect(ownership.partialOwnership.ownerCount).to.equal(1n);
+  });
+
+  it("should buy a whole asset through the escrow", async function () {
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    const { assetId } = await sellerClient.listAsset({ ...newAsset(), isPartiallyOwnEnabled: false }, metadata, media);
+
+    const buyerClient = new PropytoClient(registryAddress, buyer);
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+    expect((await buyerClient.getEscrow(escrowId)).amount).to.equal(newAsset().assetPrice);
+    expect((await buyerClient.getAsset(assetId)).asset.assetStatus).to.equal(AssetStatus.FOR_SALE);
+
+    await sellerClient.confirmEscrow(escrowId);
+    const details = await buyerClient.getAsset(assetId);
+    expect(details.asset.assetStatus).to.equal(AssetStatus.SOLD);
+    expect(await buyerClient.getAssets((d) => d.asset.assetStatus === AssetStatus.FOR_SALE)).to.have.length(0);
+  });
+
+  it("should require a signer for transactions", async function () {
+    const client = new PropytoClient(registryAddress, ethers.provider);
+    await expect(client.updatePrice(0n, 1n)).to.be.rejectedWith("a signer is required");
+  });
+
+  it("should not buy at a price above the quote it was given", async function () {
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, {
+      totalShares: 1000n,
+      sharePrice: ethers.parseEther("100"),
+      minSharePurchase: 1n,
+      maxSharesPerOwner: 500n,
+      sellerShares: 0n
+    });
+
+    const buyerClient = new PropytoClient(registryAddress, buyer);
+    const limits = await buyerClient.purchaseLimits(await buyerClient.quoteShares(assetId, 10n));
+    await sellerClient.updatePrice(assetId, ethers.parseEther("200000"));
+
+    await expect(buyerClient.buyShares(assetId, 10n, limits)).to.be.rejectedWith(
+      "Purchase price above maximum total price"
+    );
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(ethers.parseEther("1000000"));
+  });
+
+  it("should limit purchases to the current quote when no limits are given", async function () {
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, {
+      totalShares: 1000n,
+      sharePrice: ethers.parseEther("100"),
+      minSharePurchase: 1n,
+      maxSharesPerOwner: 500n,
+      sellerShares: 0n
+    });
+    await mockUSDT.setPermitSupported(false);
+
+    const buyerClient = new PropytoClient(registryAddress, buyer);
+    const quote = await buyerClient.quoteShares(assetId, 10n);
+    const receipt = await buyerClient.buyShares(assetId, 10n);
+
+    const registry = await ethers.getContractAt("PropytoRegistry", registryAddress);
+    const call = registry.interface.parseTransaction((await ethers.provider.getTransaction(receipt.hash))!)!;
+    expect(call.name).to.equal("purchaseSharesWithLimits");
+    expect(call.args.maxTotalPrice).to.equal(quote.totalPrice);
+    expect(call.args.deadline).to.be.greaterThan(BigInt(await time.latest()));
+  });
+
+  it("should reject quotes the purchase would revert on", async function () {
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media);
+
+    await expect(sellerClient.quoteShares(assetId, 10n)).to.be.rejectedWith("Partial ownership not initialized");
+  });
+});
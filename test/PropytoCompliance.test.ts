@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, KycStatus, NewAsset } from "../sdk";
+import { deployCompliance, deployEscrow, deployRegistry } from "./fixtures";
+
+describe("PropytoCompliance", function () {
+  const YEAR = 365n * 86400n;
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let agent: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let registry: any;
+  let compliance: any;
+  let sellerClient: PropytoClient;
+  let assetId: bigint;
+
+  const client = (signer: SignerWithAddress) => new PropytoClient(registry.target, signer);
+
+  const newAsset = (isPartiallyOwnEnabled = true): NewAsset => ({
+    name: "Rue Lafayette 12",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 700n,
+    assetAge: 20n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled,
+    listingExpiry: 0n
+  });
+
+  const list = async (isPartiallyOwnEnabled = true) => {
+    const { assetId } = await sellerClient.listAsset(
+      newAsset(isPartiallyOwnEnabled),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      isPartiallyOwnEnabled
+        ? { totalShares: 1000n, sharePrice: ethers.parseEther("10"), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 0n }
+        : undefined
+    );
+    return assetId;
+  };
+
+  const approve = async (investor: SignerWithAddress, jurisdiction: string, accredited = false) =>
+    client(agent).setInvestor(investor.address, {
+      kycStatus: KycStatus.APPROVED,
+      kycExpiry: BigInt(await time.latest()) + YEAR,
+      jurisdiction,
+      accredited
+    });
+
+  const transferShares = async (from: SignerWithAddress, to: SignerWithAddress, shareCount: bigint) => {
+    const sft = client(from).getSFT(await registry.propytosftAddress(assetId));
+    return sft.connect(from).safeTransferFrom(from.address, to.address, await sft.getTokenId(assetId), shareCount, "0x");
+  };
+
+  beforeEach(async function () {
+    [owner, seller, agent, alice, bob, carol] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    for (const account of [seller, alice, bob, carol]) {
+      await mockUSDT.mint(account.address, ethers.parseEther("200000"));
+    }
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    compliance = await deployCompliance(registry);
+    await compliance.setKycAgent(agent.address, true);
+
+    sellerClient = client(seller);
+    assetId = await list();
+  });
+
+  it("should let only the owner and KYC agents keep investor records", async function () {
+    const expiry = BigInt(await time.latest()) + YEAR;
+    await expect(compliance.connect(alice).setInvestor(alice.address, KycStatus.APPROVED, expiry, "0x5553", true)).to.be.revertedWith("E130");
+    await expect(compliance.connect(agent).setInvestor(alice.address, KycStatus.APPROVED, 0, "0x5553", true)).to.be.revertedWith("E132");
+    await expect(compliance.connect(agent).setKycAgent(alice.address, true)).to.be.revertedWith("Ownable: caller is not the owner");
+
+    await client(agent).setInvestor(alice.address, { kycStatus: KycStatus.APPROVED, kycExpiry: expiry, jurisdiction: "us", accredited: true });
+    expect(await sellerClient.getInvestor(alice.address)).to.deep.equal({
+      kycStatus: KycStatus.APPROVED,
+      kycExpiry: expiry,
+      jurisdiction: "US",
+      accredited: true
+    });
+
+    await compliance.setKycAgent(agent.address, false);
+    await expect(approve(bob, "FR")).to.be.rejectedWith("Only the compliance owner, a KYC agent or a compliance officer can update investor records");
+  });
+
+  it("should leave assets without rules open to everyone", async function () {
+    expect((await sellerClient.getComplianceRules(assetId)).enabled).to.be.false;
+    expect(await sellerClient.checkInvestor(assetId, alice.address)).to.be.null;
+    await client(alice).buyShares(assetId, 10n);
+    await transferShares(alice, bob, 5n);
+    expect(await registry.getSharesOwned(assetId, bob.address)).to.equal(5n);
+  });
+
+  it("should block purchases by investors without a valid KYC, an allowed jurisdiction or accreditation", async function () {
+    await expect(compliance.connect(alice).setAssetRules(assetId, [], false, 0)).to.be.revertedWith("E131");
+    await sellerClient.setComplianceRules(assetId, { allowedJurisdictions: ["FR", "DE"], accreditedOnly: true, maxHolders: 0n });
+    expect(await sellerClient.getComplianceRules(assetId)).to.deep.equal({
+      enabled: true,
+      allowedJurisdictions: ["FR", "DE"],
+      accreditedOnly: true,
+      maxHolders: 0n
+    });
+
+    await expect(client(alice).buyShares(assetId, 10n)).to.be.rejectedWith("Investor KYC is not approved");
+
+    await approve(alice, "US", true);
+    expect((await sellerClient.checkInvestor(assetId, alice.address))?.code).to.equal("E127");
+    await expect(client(alice).buyShares(assetId, 10n)).to.be.rejectedWith("Investor jurisdiction is not allowed for this asset");
+
+    await approve(alice, "FR");
+    await expect(client(alice).buyShares(assetId, 10n)).to.be.rejectedWith("Asset is restricted to accredited investors");
+
+    await approve(alice, "FR", true);
+    await client(alice).buyShares(assetId, 10n);
+    expect(await registry.getSharesOwned(assetId, alice.address)).to.equal(10n);
+
+    // Let the approval lapse well before the listing does
+    const expiry = BigInt(await time.latest()) + 60n;
+    await client(agent).setInvestor(alice.address, { kycStatus: KycStatus.APPROVED, kycExpiry: expiry, jurisdiction: "FR", accredited: true });
+    await time.increaseTo(expiry);
+    await expect(client(alice).buyShares(assetId, 10n)).to.be.rejectedWith("Investor KYC has expired");
+
+    await client(agent).setInvestor(alice.address, { kycStatus: KycStatus.REVOKED, kycExpiry: 0n, jurisdiction: "FR", accredited: true });
+    await expect(client(alice).buyShares(assetId, 10n)).to.be.rejectedWith("Investor KYC is not approved");
+  });
+
+  it("should check every SFT transfer against the recipient", async function () {
+    await approve(alice, "FR");
+    await client(alice).buyShares(assetId, 10n);
+    await sellerClient.setComplianceRules(assetId, { allowedJurisdictions: ["FR"], accreditedOnly: false, maxHolders: 0n });
+
+    await expect(transferShares(alice, bob, 5n)).to.be.revertedWith("E125");
+    await approve(bob, "GB");
+    await expect(transferShares(alice, bob, 5n)).to.be.revertedWith("E127");
+
+    await approve(bob, "FR");
+    await transferShares(alice, bob, 5n);
+    expect(await registry.getSharesOwned(assetId, bob.address)).to.equal(5n);
+
+    // Rules apply from now on only: clearing them opens transfers to anyone again
+    await sellerClient.clearComplianceRules(assetId);
+    expect(await compliance.isJurisdictionAllowed(assetId, "0x4652")).to.be.false;
+    await transferShares(bob, carol, 5n);
+    expect(await registry.getSharesOwned(assetId, carol.address)).to.equal(5n);
+  });
+
+  it("should cap the number of holders on purchases and transfers", async function () {
+    for (const investor of [alice, bob, carol]) {
+      await approve(investor, "FR");
+    }
+    await sellerClient.setComplianceRules(assetId, { allowedJurisdictions: [], accreditedOnly: false, maxHolders: 2n });
+
+    await client(alice).buyShares(assetId, 10n);
+    await client(bob).buyShares(assetId, 10n);
+    await client(bob).buyShares(assetId, 10n); // existing holders can buy more
+    await expect(client(carol).buyShares(assetId, 10n)).to.be.rejectedWith("Transfer would exceed the asset's maximum number of holders");
+
+    await expect(transferShares(alice, carol, 5n)).to.be.revertedWith("E129");
+    await transferShares(alice, carol, 10n); // alice sells out, so carol takes her place
+    expect([...(await registry.getAssetOwners(assetId))]).to.have.members([bob.address, carol.address]);
+  });
+
+  it("should check buyers before modules take their payment", async function () {
+    await deployEscrow(registry);
+    const wholeAssetId = await list(false);
+    await compliance.setAssetRules(wholeAssetId, [], true, 0); // the compliance owner may set rules as well
+
+    await expect(client(alice).buyWhole(wholeAssetId)).to.be.rejectedWith("Investor KYC is not approved");
+    await approve(alice, "FR", true);
+    const { escrowId } = await client(alice).buyWhole(wholeAssetId);
+
+    // Settlement checks the buyer again
+    await client(agent).setInvestor(alice.address, { kycStatus: KycStatus.REVOKED, kycExpiry: 0n, jurisdiction: "FR", accredited: true });
+    await expect(sellerClient.confirmEscrow(escrowId)).to.be.rejectedWith("Investor KYC is not approved");
+    await approve(alice, "FR", true);
+    await sellerClient.confirmEscrow(escrowId);
+    expect(await registry.getSharesOwned(wholeAssetId, alice.address)).to.equal(100n);
+  });
+});
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, FundingStatus, NewAsset } from "../sdk";
+import { deployCrowdfunding, deployRegistry } from "./fixtures";
+
+describe("PropytoCrowdfunding", function () {
+  const DAY = 86400;
+  const SHARE_PRICE = ethers.parseEther("100");
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let crowdfunding: any;
+  let sellerClient: PropytoClient;
+  let assetId: bigint;
+  let listingExpiry: number;
+
+  const client = (signer: SignerWithAddress) => new PropytoClient(registry.target, signer);
+
+  const newAsset = (): NewAsset => ({
+    name: "Orchard Row",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 2000n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: BigInt(listingExpiry)
+  });
+
+  const fractions = {
+    totalShares: 1000n,
+    sharePrice: SHARE_PRICE,
+    minSharePurchase: 1n,
+    maxSharesPerOwner: 1000n,
+    sellerShares: 200n
+  };
+
+  beforeEach(async function () {
+    [owner, seller, alice, bob] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(alice.address, ethers.parseEther("100000"));
+    await mockUSDT.mint(bob.address, ethers.parseEther("100000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    crowdfunding = await deployCrowdfunding(registry);
+
+    listingExpiry = (await time.latest()) + 30 * DAY;
+    sellerClient = client(seller);
+    ({ assetId } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    ));
+  });
+
+  it("should hold proceeds until the soft cap is sold and then pay the seller", async function () {
+    await sellerClient.enableFractions(assetId, fractions, { softCap: 300n, hardCap: 500n });
+    const goal = await sellerClient.getFundingGoal(assetId);
+    expect(goal.deadline).to.equal(BigInt(listingExpiry));
+    expect(goal.status).to.equal(FundingStatus.OPEN);
+
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    await client(alice).buyShares(assetId, 200n);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance);
+    expect(await mockUSDT.balanceOf(crowdfunding.target)).to.equal(200n * SHARE_PRICE);
+    await expect(crowdfunding.connect(seller).withdrawProceeds(assetId)).to.be.revertedWith("E97");
+
+    await client(bob).buyShares(assetId, 150n);
+    expect((await sellerClient.getFundingGoal(assetId)).status).to.equal(FundingStatus.SUCCEEDED);
+    // The hard cap stops sales even though shares are still available
+    await expect(client(bob).buyShares(assetId, 151n)).to.be.rejectedWith("Purchase would exceed the funding hard cap");
+
+    const raised = 350n * SHARE_PRICE;
+    const fee = (raised * 250n) / 10000n;
+    const ownerBalance = await mockUSDT.balanceOf(owner.address);
+    await expect(crowdfunding.connect(alice).withdrawProceeds(assetId)).to.be.revertedWith("E8");
+    await sellerClient.withdrawFundingProceeds(assetId);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + raised - fee);
+    expect(await mockUSDT.balanceOf(owner.address)).to.equal(ownerBalance + fee);
+
+    // No refunds once the cap was reached, even after the deadline
+    await time.increaseTo(listingExpiry);
+    await expect(crowdfunding.connect(alice).claimRefund(assetId)).to.be.revertedWith("E94");
+  });
+
+  it("should refund buyers and burn their shares when the deadline passes below the soft cap", async function () {
+    await sellerClient.enableFractions(assetId, fractions, { softCap: 500n, hardCap: 800n });
+    await client(alice).buyShares(assetId, 120n);
+    await client(alice).buyShares(assetId, 80n);
+    await client(bob).buyShares(assetId, 100n);
+    await expect(client(alice).claimFundingRefund(assetId)).to.be.rejectedWith("Funding has not failed");
+
+    await time.increaseTo(listingExpiry);
+    expect((await sellerClient.getFundingGoal(assetId)).status).to.equal(FundingStatus.FAILED);
+    await expect(crowdfunding.connect(seller).withdrawProceeds(assetId)).to.be.revertedWith("E97");
+
+    const aliceBalance = await mockUSDT.balanceOf(alice.address);
+    await client(alice).claimFundingRefund(assetId);
+    expect(await mockUSDT.balanceOf(alice.address)).to.equal(aliceBalance + 200n * SHARE_PRICE);
+    expect(await registry.getSharesOwned(assetId, alice.address)).to.equal(0n);
+    expect(await registry.getAssetOwners(assetId)).to.not.include(alice.address);
+    expect((await sellerClient.getFundingContribution(assetId, alice.address)).amount).to.equal(0n);
+    await expect(crowdfunding.connect(alice).claimRefund(assetId)).to.be.revertedWith("E95");
+    // The seller's retained shares were never paid for
+    await expect(crowdfunding.connect(seller).claimRefund(assetId)).to.be.revertedWith("E95");
+
+    await client(bob).claimFundingRefund(assetId);
+    expect(await mockUSDT.balanceOf(crowdfunding.target)).to.equal(0n);
+  });
+
+  it("should keep shares with their buyers until the soft cap is sold, so refunds can burn them", async function () {
+    await sellerClient.enableFractions(assetId, fractions, { softCap: 500n, hardCap: 800n });
+    await client(alice).buyShares(assetId, 100n);
+    const sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+    const tokenId = await sft.getTokenId(assetId);
+    const transfer = (from: SignerWithAddress, to: SignerWithAddress, shareCount: bigint) =>
+      sft.connect(from).safeTransferFrom(from.address, to.address, tokenId, shareCount, "0x");
+
+    await expect(transfer(alice, bob, 40n)).to.be.revertedWith("E142");
+    await expect(crowdfunding.checkShareTransfer(assetId)).to.be.revertedWith("E142");
+
+    await time.increaseTo(listingExpiry);
+    await expect(transfer(alice, bob, 40n)).to.be.revertedWith("E142");
+    const aliceBalance = await mockUSDT.balanceOf(alice.address);
+    await client(alice).claimFundingRefund(assetId);
+    expect(await mockUSDT.balanceOf(alice.address)).to.equal(aliceBalance + 100n * SHARE_PRICE);
+    expect(await sft.balanceOf(alice.address, tokenId)).to.equal(0n);
+  });
+
+  it("should let holders transfer shares once the soft cap is sold", async function () {
+    await sellerClient.enableFractions(assetId, fractions, { softCap: 300n, hardCap: 500n });
+    await client(alice).buyShares(assetId, 300n);
+    const sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+
+    await sft.connect(alice).safeTransferFrom(alice.address, bob.address, await sft.getTokenId(assetId), 40n, "0x");
+    expect(await registry.getSharesOwned(assetId, bob.address)).to.equal(40n);
+  });
+
+  it("should stop sales of a failed offering even if the listing is extended", async function () {
+    await sellerClient.enableFractions(assetId, fractions, { softCap: 500n, hardCap: 800n });
+    await client(alice).buyShares(assetId, 100n);
+
+    await registry.connect(seller).extendListingExpiry(assetId, listingExpiry + 30 * DAY);
+    await time.increaseTo(listingExpiry);
+    await expect(client(bob).buyShares(assetId, 100n)).to.be.rejectedWith("Funding ended below the soft cap");
+  });
+
+  it("should only accept funding goals from the seller before partial ownership is enabled", async function () {
+    await expect(crowdfunding.connect(alice).setFundingGoal(assetId, 100, 200)).to.be.revertedWith("E8");
+    await expect(crowdfunding.connect(seller).setFundingGoal(assetId, 0, 200)).to.be.revertedWith("E90");
+    await expect(crowdfunding.connect(seller).setFundingGoal(assetId, 300, 200)).to.be.revertedWith("E90");
+    await expect(
+      crowdfunding.connect(alice).recordContribution(assetId, alice.address, 1, SHARE_PRICE, 0)
+    ).to.be.revertedWith("E91");
+
+    await sellerClient.enableFractions(assetId, fractions);
+    await expect(crowdfunding.connect(seller).setFundingGoal(assetId, 100, 200)).to.be.revertedWith("E2");
+
+    // Without a goal, shares are paid to the seller directly
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    await client(alice).buyShares(assetId, 10n);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + (10n * SHARE_PRICE * 9750n) / 10000n);
+    expect((await sellerClient.getFundingGoal(assetId)).status).to.equal(FundingStatus.NONE);
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import { deployDividends, deployRegistry, deployRentals } from "./fixtures";
+
+describe("PropytoDividends", function () {
+  const usdt = (amount: string | number) => ethers.parseEther(amount.toString());
+
+  let seller: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let dividends: any;
+  let sft: any;
+  let tokenId: bigint;
+  let sellerClient: PropytoClient;
+  let clients: Record<string, PropytoClient>;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Orchard Flats",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_RENT,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: usdt(100000),
+    assetArea: 2000n,
+    assetAge: 5n,
+    assetOtherDetails: "{}",
+    isRentable: true,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  async function claimable(account: SignerWithAddress): Promise<bigint> {
+    return dividends.claimableDividends(assetId, account.address);
+  }
+
+  beforeEach(async function () {
+    [, seller, alice, bob, carol] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    for (const account of [seller, alice, bob, carol]) {
+      await mockUSDT.mint(account.address, usdt(100000));
+    }
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    dividends = await deployDividends(registry);
+    const registryAddress = await registry.getAddress();
+
+    sellerClient = new PropytoClient(registryAddress, seller);
+    ({ assetId } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      { totalShares: 1000n, sharePrice: usdt(100), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 200n }
+    ));
+
+    clients = {};
+    for (const account of [alice, bob, carol]) {
+      clients[account.address] = new PropytoClient(registryAddress, account);
+    }
+    await clients[alice.address].buyShares(assetId, 300n);
+    await clients[bob.address].buyShares(assetId, 400n);
+
+    sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+    tokenId = await sft.getTokenId(assetId);
+  });
+
+  it("should split deposits over all shares and pay claims once", async function () {
+    // 1000 shares: 200 kept by the seller, 300 and 400 sold, 100 unsold and credited to the seller
+    await expect(sellerClient.depositDividends(assetId, usdt(1000)))
+      .to.emit(dividends, "DividendsDeposited")
+      .withArgs(assetId, seller.address, usdt(1000), 1000);
+
+    expect(await claimable(seller)).to.equal(usdt(300));
+    expect(await claimable(alice)).to.equal(usdt(300));
+    expect(await claimable(bob)).to.equal(usdt(400));
+
+    const balance = await mockUSDT.balanceOf(alice.address);
+    await clients[alice.address].claimDividends(assetId);
+    expect(await mockUSDT.balanceOf(alice.address)).to.equal(balance + usdt(300));
+    expect(await claimable(alice)).to.equal(0n);
+    await expect(clients[alice.address].claimDividends(assetId)).to.be.rejectedWith("No dividends to claim");
+
+    const balances = await sellerClient.getDividendBalances(assetId);
+    expect(balances.map((b) => [b.holder, b.shares, b.claimable, b.claimed])).to.deep.equal([
+      [seller.address, 200n, usdt(300), 0n],
+      [alice.address, 300n, 0n, usdt(300)],
+      [bob.address, 400n, usdt(400), 0n]
+    ]);
+  });
+
+  it("should not move earned dividends with shares that change hands", async function () {
+    await sellerClient.depositDividends(assetId, usdt(1000));
+
+    await sft.connect(alice).safeTransferFrom(alice.address, bob.address, tokenId, 150, "0x");
+    await sft.connect(bob).burnShares(bob.address, assetId, 50);
+    await clients[carol.address].buyShares(assetId, 50n);
+    expect(await claimable(alice)).to.equal(usdt(300));
+    expect(await claimable(bob)).to.equal(usdt(400));
+    expect(await claimable(carol)).to.equal(0n);
+
+    // Still 900 of 1000 minted: seller 200 (plus 100 unsold), alice 150, bob 500, carol 50
+    await sellerClient.depositDividends(assetId, usdt(2000));
+    expect(await claimable(seller)).to.equal(usdt(900));
+    expect(await claimable(alice)).to.equal(usdt(600));
+    expect(await claimable(bob)).to.equal(usdt(1400));
+    expect(await claimable(carol)).to.equal(usdt(100));
+
+    // A holder who sold out keeps what they earned
+    await sft.connect(alice).safeTransferFrom(alice.address, carol.address, tokenId, 150, "0x");
+    await sellerClient.depositDividends(assetId, usdt(1000));
+    expect(await claimable(alice)).to.equal(usdt(600));
+    expect(await claimable(carol)).to.equal(usdt(100 + 200));
+    expect((await sellerClient.getDividendBalances(assetId)).map((b) => b.holder)).to.not.include(alice.address);
+    await clients[alice.address].claimDividends(assetId);
+  });
+
+  it("should pay everything deposited out to the holders", async function () {
+    const deposits = [usdt(1000), usdt("333.333333333333333333"), 7n];
+    for (const amount of deposits) {
+      await sellerClient.depositDividends(assetId, amount);
+      await sft.connect(bob).safeTransferFrom(bob.address, alice.address, tokenId, 100, "0x");
+    }
+
+    let claimed = 0n;
+    for (const account of [seller, alice, bob]) {
+      claimed += await claimable(account);
+      await (account === seller ? sellerClient : clients[account.address]).claimDividends(assetId);
+    }
+
+    const deposited = deposits.reduce((sum, amount) => sum + amount, 0n);
+    const dust = await mockUSDT.balanceOf(await dividends.getAddress());
+    expect(claimed + dust).to.equal(deposited);
+    expect(dust).to.be.lessThan(10n); // rounding leaves at most a few wei behind
+  });
+
+  it("should send the rent of a fractionally owned asset to its holders", async function () {
+    const rentals = await deployRentals(registry);
+    await sellerClient.updateRentData(assetId, {
+      rentPrice: usdt(1000),
+      rentDeposit: 0n,
+      rentPeriod: 30n,
+      rentSecurityDeposit: 0n
+    });
+
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    await clients[carol.address].startLease(assetId, 12n);
+
+    // 2.5% platform fee, the remaining 975 USDT split over 1000 shares, 100 of them unsold
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance);
+    expect(await mockUSDT.balanceOf(await rentals.getAddress())).to.equal(0n);
+    expect(await dividends.totalDistributed(assetId)).to.equal(usdt(975));
+    expect(await claimable(seller)).to.equal(usdt(975) * 300n / 1000n);
+    expect(await claimable(bob)).to.equal(usdt(975) * 400n / 1000n);
+  });
+
+  it("should credit the seller with the dividends of unsold shares", async function () {
+    const { assetId: fresh } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      { totalShares: 1000n, sharePrice: usdt(100), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 0n }
+    );
+    await clients[carol.address].buyShares(fresh, 1n);
+
+    // The seller still owns 999 of the 1000 shares
+    await clients[carol.address].depositDividends(fresh, usdt(1000));
+    expect(await dividends.totalShares(fresh)).to.equal(1000n);
+    expect(await dividends.claimableDividends(fresh, carol.address)).to.equal(usdt(1));
+    expect(await dividends.claimableDividends(fresh, seller.address)).to.equal(usdt(999));
+
+    const balances = await sellerClient.getDividendBalances(fresh);
+    expect(balances.map((b) => [b.holder, b.shares, b.claimable])).to.deep.equal([
+      [carol.address, 1n, usdt(1)],
+      [seller.address, 0n, usdt(999)]
+    ]);
+    const balance = await mockUSDT.balanceOf(seller.address);
+    await sellerClient.claimDividends(fresh);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(balance + usdt(999));
+    expect(await dividends.claimableDividends(fresh, seller.address)).to.equal(0n);
+  });
+
+  it("should reject empty deposits, assets without shares and hooks not sent by the registry", async function () {
+    await expect(dividends.connect(seller).deposit(assetId, 0)).to.be.revertedWith("E61");
+
+    const { assetId: unsoldAssetId } = await sellerClient.listAsset(
+      { ...newAsset(), isPartiallyOwnEnabled: false },
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    );
+    await expect(sellerClient.depositDividends(unsoldAssetId, usdt(10))).to.be.rejectedWith(
+      "Asset has no shares outstanding"
+    );
+
+    await expect(dividends.connect(alice).onSharesMoved(assetId, bob.address, alice.address, 400)).to.be.revertedWith(
+      "E65"
+    );
+    await expect(registry.updateDividendDistributor(ethers.ZeroAddress)).to.be.revertedWith("E66");
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, EscrowStatus, NewAsset } from "../sdk";
+import { deployEscrow, deployRegistry } from "./fixtures";
+
+describe("PropytoEscrow", function () {
+  const DAY = 86400;
+  const PRICE = ethers.parseEther("100000");
+  const FEE = ethers.parseEther("2500"); // default 2.5% platform fee
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let agent: SignerWithAddress;
+  let other: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let escrow: any;
+  let sellerClient: PropytoClient;
+  let buyerClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Harbour Loft",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: PRICE,
+    assetArea: 900n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: false,
+    listingExpiry: 0n
+  });
+
+  beforeEach(async function () {
+    [owner, seller, buyer, agent, other] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(buyer.address, ethers.parseEther("200000"));
+    await mockUSDT.mint(other.address, ethers.parseEther("200000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    escrow = await deployEscrow(registry);
+    const registryAddress = await registry.getAddress();
+
+    sellerClient = new PropytoClient(registryAddress, seller);
+    buyerClient = new PropytoClient(registryAddress, buyer);
+    ({ assetId } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    ));
+  });
+
+  it("should hold the deposit and lock the asset until the seller settles", async function () {
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+
+    const pending = await buyerClient.getEscrow(escrowId);
+    expect(pending.buyer).to.equal(buyer.address);
+    expect(pending.seller).to.equal(seller.address);
+    expect(pending.amount).to.equal(PRICE);
+    expect(pending.platformFee).to.equal(FEE);
+    expect(pending.status).to.equal(EscrowStatus.PENDING);
+    expect(pending.isReclaimable).to.be.false;
+    expect(await mockUSDT.balanceOf(await escrow.getAddress())).to.equal(PRICE);
+
+    // Nothing is minted or sold yet, and the asset cannot be bought or relisted meanwhile
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+    expect((await buyerClient.getOwnership(assetId)).tokenId).to.equal(0n);
+    await expect(registry.quotePurchase(assetId, 0, true, mockUSDT.target)).to.be.revertedWith("E80");
+    await expect(sellerClient.updateStatus(assetId, AssetStatus.DELISTED)).to.be.rejectedWith(
+      "Asset is locked by an escrowed purchase or a running auction"
+    );
+    await expect(escrow.connect(buyer).reclaimDeposit(escrowId)).to.be.revertedWith("E89");
+    await expect(escrow.connect(other).confirmSettlement(escrowId)).to.be.revertedWith("E83");
+
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    const ownerBalance = await mockUSDT.balanceOf(owner.address);
+    await sellerClient.confirmEscrow(escrowId);
+
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + PRICE - FEE);
+    expect(await mockUSDT.balanceOf(owner.address)).to.equal(ownerBalance + FEE);
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.SOLD);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(100n);
+    expect(await registry.inEscrow(assetId)).to.be.false;
+    expect((await buyerClient.getEscrow(escrowId)).status).to.equal(EscrowStatus.SETTLED);
+    await expect(escrow.connect(seller).cancelEscrow(escrowId)).to.be.revertedWith("E84");
+  });
+
+  it("should route whole-asset purchases through the escrow", async function () {
+    await mockUSDT.connect(buyer).approve(await registry.getAddress(), PRICE);
+    await expect(registry.connect(buyer).purchaseShares(assetId, 0, true)).to.be.revertedWith("E81");
+    await expect(registry.connect(buyer).settleWholePurchase(assetId, buyer.address)).to.be.revertedWith("E79");
+    await expect(registry.connect(buyer).setEscrowStatus(assetId, true)).to.be.revertedWith("E79");
+
+    await mockUSDT.connect(seller).approve(await escrow.getAddress(), PRICE);
+    await expect(escrow.connect(seller).deposit(assetId, PRICE, ethers.MaxUint256)).to.be.revertedWith("E87");
+    await mockUSDT.connect(buyer).approve(await escrow.getAddress(), PRICE);
+    await expect(escrow.connect(buyer).deposit(assetId, PRICE - 1n, ethers.MaxUint256)).to.be.revertedWith("E32");
+  });
+
+  it("should let an appointed agent settle the sale", async function () {
+    await expect(escrow.connect(other).appointEscrowAgent(assetId, agent.address)).to.be.revertedWith("E8");
+    await sellerClient.appointEscrowAgent(assetId, agent.address);
+    expect(await buyerClient.getEscrowAgent(assetId)).to.equal(agent.address);
+
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+    expect((await buyerClient.getEscrow(escrowId)).agent).to.equal(agent.address);
+
+    await new PropytoClient(await registry.getAddress(), agent).confirmEscrow(escrowId);
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.SOLD);
+  });
+
+  it("should refund the buyer after a cancellation and reopen the asset", async function () {
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+    const buyerBalance = await mockUSDT.balanceOf(buyer.address);
+
+    await expect(escrow.connect(buyer).cancelEscrow(escrowId)).to.be.revertedWith("E83");
+    await sellerClient.cancelEscrow(escrowId);
+    expect(await registry.inEscrow(assetId)).to.be.false;
+    await expect(escrow.connect(seller).confirmSettlement(escrowId)).to.be.revertedWith("E84");
+    await expect(escrow.connect(other).reclaimDeposit(escrowId)).to.be.revertedWith("E88");
+
+    await buyerClient.reclaimEscrowDeposit(escrowId);
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(buyerBalance + PRICE);
+    expect((await buyerClient.getEscrow(escrowId)).status).to.equal(EscrowStatus.REFUNDED);
+    await expect(escrow.connect(buyer).reclaimDeposit(escrowId)).to.be.revertedWith("E89");
+
+    // Another buyer can now deposit
+    const otherClient = new PropytoClient(await registry.getAddress(), other);
+    const { escrowId: nextId } = await otherClient.buyWhole(assetId);
+    expect((await buyerClient.getAssetEscrows(assetId)).map((entry) => entry.id)).to.deep.equal([escrowId, nextId]);
+  });
+
+  it("should let the buyer reclaim the deposit once the settlement deadline passes", async function () {
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+    const { deadline } = await buyerClient.getEscrow(escrowId);
+    expect(deadline - BigInt(await time.latest())).to.equal(BigInt(14 * DAY));
+
+    await time.increaseTo(deadline + 1n);
+    expect((await buyerClient.getEscrow(escrowId)).isReclaimable).to.be.true;
+    await expect(escrow.connect(seller).confirmSettlement(escrowId)).to.be.revertedWith("E85");
+
+    await buyerClient.reclaimEscrowDeposit(escrowId);
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(ethers.parseEther("200000"));
+    expect(await registry.inEscrow(assetId)).to.be.false;
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+  });
+});
@@ -0,0 +1,233 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  PropytoClient,
+  AssetStatus,
+  AssetType,
+  AssetFurnishing,
+  AssetZone,
+  NewAsset,
+  ProposalStatus,
+  ProposalType
+} from "../sdk";
+import { deployEscrow, deployGovernance, deployRegistry } from "./fixtures";
+
+describe("PropytoGovernance", function () {
+  const VOTING_PERIOD = 7 * 86400;
+  const usdt = (amount: number) => ethers.parseEther(amount.toString());
+
+  let seller: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let dave: SignerWithAddress;
+  let registry: any;
+  let governance: any;
+  let sft: any;
+  let tokenId: bigint;
+  let clients: Record<string, PropytoClient>;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Market Street Offices",
+    assetType: AssetType.COMMERCIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.COMMERCIAL,
+    assetPrice: usdt(100000),
+    assetArea: 5000n,
+    assetAge: 365n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const client = (account: SignerWithAddress) => clients[account.address];
+
+  beforeEach(async function () {
+    [, seller, alice, bob, carol, dave] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT: any = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    governance = await deployGovernance(registry);
+
+    clients = {};
+    for (const account of [seller, alice, bob, carol, dave]) {
+      await mockUSDT.mint(account.address, usdt(100000));
+      clients[account.address] = new PropytoClient(await registry.getAddress(), account);
+    }
+
+    ({ assetId } = await client(seller).listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      { totalShares: 1000n, sharePrice: usdt(100), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 100n }
+    ));
+    // 900 of 1000 shares sold or retained: seller 100 (plus 100 unsold), alice 400, bob 300, carol 100
+    await client(alice).buyShares(assetId, 400n);
+    await client(bob).buyShares(assetId, 300n);
+    await client(carol).buyShares(assetId, 100n);
+
+    sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+    tokenId = await sft.getTokenId(assetId);
+  });
+
+  it("should pass a PRICE_CHANGE proposal and update the asset price", async function () {
+    const { proposalId } = await client(alice).createProposal(assetId, ProposalType.PRICE_CHANGE, usdt(120000), "Reprice");
+    await client(alice).vote(proposalId, true);
+    await client(bob).vote(proposalId, false);
+
+    const proposal = await client(alice).getProposal(proposalId);
+    expect(proposal.snapshotSupply).to.equal(1000n);
+    expect([proposal.forVotes, proposal.againstVotes]).to.deep.equal([400n, 300n]);
+    expect(proposal.quorumReached && proposal.approved).to.be.true;
+    expect(proposal.status).to.equal(ProposalStatus.ACTIVE);
+    await expect(client(carol).executeProposal(proposalId)).to.be.rejectedWith("Voting has not ended yet");
+
+    await time.increase(VOTING_PERIOD + 1);
+    await expect(client(carol).executeProposal(proposalId))
+      .to.emit(registry, "AssetPriceUpdated")
+      .withArgs(assetId, usdt(100000), usdt(120000));
+
+    expect((await registry.assets(assetId)).assetPrice).to.equal(usdt(120000));
+    expect((await registry.getPartialOwnership(assetId)).sharePrice).to.equal(usdt(120));
+    expect((await client(alice).getProposal(proposalId)).status).to.equal(ProposalStatus.EXECUTED);
+    await expect(governance.executeProposal(proposalId)).to.be.revertedWith("E75");
+  });
+
+  it("should weigh votes by the shares held when the proposal was created", async function () {
+    const { proposalId } = await client(bob).createProposal(assetId, ProposalType.MAINTENANCE, 0n, "Fix the roof");
+
+    // Moving shares after the snapshot moves no votes
+    await sft.connect(alice).safeTransferFrom(alice.address, dave.address, tokenId, 400, "0x");
+    await expect(governance.connect(dave).castVote(proposalId, true)).to.be.revertedWith("E73");
+    expect(await client(alice).getVotingPower(proposalId, alice.address)).to.equal(400n);
+    await client(alice).vote(proposalId, true);
+    await expect(client(alice).vote(proposalId, false)).to.be.rejectedWith("Already voted on this proposal");
+
+    // A later proposal sees the new balances
+    const { proposalId: nextId } = await client(dave).createProposal(assetId, ProposalType.RENOVATE, 0n, "New lobby");
+    expect(await client(dave).getVotingPower(nextId, dave.address)).to.equal(400n);
+    expect(await client(dave).getVotingPower(nextId, alice.address)).to.equal(0n);
+    expect((await client(dave).getProposal(nextId)).snapshotSupply).to.equal(1000n);
+  });
+
+  it("should require the proposal threshold", async function () {
+    await expect(client(dave).createProposal(assetId, ProposalType.OTHER, 0n, "")).to.be.rejectedWith(
+      "Proposer holds too few shares"
+    );
+    await expect(client(carol).createProposal(assetId, ProposalType.PRICE_CHANGE, 0n, "")).to.be.rejectedWith(
+      "Price must be greater than zero"
+    );
+
+    // carol holds 100 of 1000 shares (10%)
+    await governance.updateGovernanceConfig({
+      proposalThreshold: 2000,
+      quorum: 2000,
+      approvalThreshold: 5000,
+      votingPeriod: VOTING_PERIOD,
+      executionWindow: VOTING_PERIOD
+    });
+    await expect(client(carol).createProposal(assetId, ProposalType.OTHER, 0n, "")).to.be.rejectedWith(
+      "Proposer holds too few shares"
+    );
+    await client(bob).createProposal(assetId, ProposalType.OTHER, 0n, "");
+
+    await expect(
+      governance.updateGovernanceConfig({
+        proposalThreshold: 100,
+        quorum: 2000,
+        approvalThreshold: 10000,
+        votingPeriod: VOTING_PERIOD,
+        executionWindow: VOTING_PERIOD
+      })
+    ).to.be.revertedWith("E76");
+  });
+
+  it("should reject proposals without quorum or majority and expire unexecuted ones", async function () {
+    const { proposalId: lowTurnout } = await client(carol).createProposal(assetId, ProposalType.PRICE_CHANGE, usdt(1), "");
+    const { proposalId: outvoted } = await client(carol).createProposal(assetId, ProposalType.PRICE_CHANGE, usdt(2), "");
+    const { proposalId: late } = await client(bob).createProposal(assetId, ProposalType.PRICE_CHANGE, usdt(3), "");
+
+    await client(carol).vote(lowTurnout, true); // 100 of 1000 shares, below the 20% quorum
+    await client(carol).vote(outvoted, true);
+    await client(bob).vote(outvoted, false);
+    await client(bob).vote(late, true);
+
+    await time.increase(VOTING_PERIOD + 1);
+    await expect(client(alice).vote(late, true)).to.be.rejectedWith("Voting is closed");
+    expect((await client(alice).getProposal(lowTurnout)).status).to.equal(ProposalStatus.REJECTED);
+    await client(alice).executeProposal(lowTurnout);
+    await client(alice).executeProposal(outvoted);
+
+    await time.increase(VOTING_PERIOD);
+    expect((await client(alice).getProposal(late)).status).to.equal(ProposalStatus.EXPIRED);
+    await expect(governance.executeProposal(late))
+      .to.emit(governance, "ProposalFinalized")
+      .withArgs(late, ProposalStatus.EXPIRED);
+
+    const statuses = (await client(alice).getAssetProposals(assetId)).map((proposal) => proposal.status);
+    expect(statuses).to.deep.equal([ProposalStatus.REJECTED, ProposalStatus.REJECTED, ProposalStatus.EXPIRED]);
+    expect((await registry.assets(assetId)).assetPrice).to.equal(usdt(100000));
+  });
+
+  it("should put the asset up for sale on SELL_PROPERTY and only take actions from governance", async function () {
+    await client(seller).updateStatus(assetId, AssetStatus.DELISTED);
+    const { proposalId } = await client(alice).createProposal(assetId, ProposalType.SELL_PROPERTY, usdt(150000), "Sell");
+    await client(alice).vote(proposalId, true);
+    await time.increase(VOTING_PERIOD + 1);
+    await client(alice).executeProposal(proposalId);
+
+    const asset = await registry.assets(assetId);
+    expect(asset.assetStatus).to.equal(AssetStatus.FOR_SALE);
+    expect(asset.assetPrice).to.equal(usdt(150000));
+
+    await expect(
+      registry.connect(alice).executeGovernanceAction(assetId, ProposalType.PRICE_CHANGE, usdt(1))
+    ).to.be.revertedWith("E68");
+    await expect(registry.updateGovernance(ethers.ZeroAddress)).to.be.revertedWith("E67");
+  });
+
+  it("should give the seller the votes of unsold shares and keep the share price above zero", async function () {
+    const { assetId: fresh } = await client(seller).listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      { totalShares: 1000n, sharePrice: usdt(100), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 0n }
+    );
+    await client(dave).buyShares(fresh, 10n);
+
+    // dave's 10 shares are 1% of the asset, enough to propose but not to pass alone
+    const { proposalId: cheap } = await client(dave).createProposal(fresh, ProposalType.PRICE_CHANGE, usdt(1), "Give it away");
+    const proposal = await client(dave).getProposal(cheap);
+    expect([proposal.snapshotSupply, proposal.unsoldShares, proposal.seller]).to.deep.equal([1000n, 990n, seller.address]);
+    expect(await client(dave).getVotingPower(cheap, seller.address)).to.equal(990n);
+    await client(dave).vote(cheap, true);
+    await time.increase(VOTING_PERIOD + 1);
+    expect((await client(dave).getProposal(cheap)).status).to.equal(ProposalStatus.REJECTED);
+
+    // A price below one wei per share would make the shares free
+    const { proposalId: dust } = await client(seller).createProposal(fresh, ProposalType.PRICE_CHANGE, 999n, "");
+    await client(seller).vote(dust, true);
+    await time.increase(VOTING_PERIOD + 1);
+    await expect(governance.executeProposal(dust)).to.be.revertedWith("E145");
+    await expect(client(seller).updatePrice(fresh, 999n)).to.be.rejectedWith("Price must leave every share a price above zero");
+  });
+
+  it("should not change the price of an asset in escrow", async function () {
+    await deployEscrow(registry);
+    const { proposalId } = await client(alice).createProposal(assetId, ProposalType.PRICE_CHANGE, usdt(50000), "");
+    await client(alice).vote(proposalId, true);
+    await client(bob).vote(proposalId, true);
+    await client(dave).buyWhole(assetId);
+
+    await time.increase(VOTING_PERIOD + 1);
+    await expect(governance.executeProposal(proposalId)).to.be.revertedWith("E80");
+  });
+});
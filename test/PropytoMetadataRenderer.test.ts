@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset, decodeTokenURI } from "../sdk";
+import { deployMetadataRenderer, deployRegistry } from "./fixtures";
+
+describe("PropytoMetadataRenderer", function () {
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let registry: any;
+  let sft: any;
+  let sellerClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: 'The "Old Mill"',
+    assetType: AssetType.COMMERCIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.PARTIALLY_FURNISHED,
+    assetZone: AssetZone.INDUSTRIAL,
+    assetPrice: ethers.parseEther("250000.5"),
+    assetArea: 5200n,
+    assetAge: 120n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "Brick mill\non the river", assetFeatures: "", assetAmenities: "", assetLocation: "Leeds" };
+  const media = { assetImage: "QmMill", assetVideo: "", assetFloorPlan: "" };
+
+  beforeEach(async function () {
+    [owner, seller, buyer] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    for (const account of [seller, buyer]) {
+      await mockUSDT.mint(account.address, ethers.parseEther("100000"));
+    }
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    sellerClient = new PropytoClient(await registry.getAddress(), seller);
+    ({ assetId } = await sellerClient.listAsset(newAsset(), metadata, media, {
+      totalShares: 1000n,
+      sharePrice: ethers.parseEther("250"),
+      minSharePurchase: 1n,
+      maxSharesPerOwner: 0n,
+      sellerShares: 0n
+    }));
+    sft = sellerClient.getSFT(await registry.propytosftAddress(assetId));
+  });
+
+  it("should serve the off-chain metadata until a renderer is connected", async function () {
+    await new PropytoClient(await registry.getAddress(), buyer).buyShares(assetId, 10n);
+    expect(await sellerClient.getTokenURI(assetId)).to.equal(`https://api.propy.to/metadata/${assetId}`);
+    expect(decodeTokenURI(await sellerClient.getTokenURI(assetId))).to.be.null;
+    await expect(sellerClient.getTokenMetadata(assetId)).to.be.rejectedWith("the registry has no metadata renderer configured");
+
+    const renderer = await deployMetadataRenderer(registry);
+    const uri = await sellerClient.getTokenURI(assetId);
+    expect(uri).to.equal(await renderer.tokenURI(assetId));
+    expect(uri.startsWith("data:application/json;base64,")).to.be.true;
+
+    await expect(registry.connect(seller).updateMetadataRenderer(ethers.ZeroAddress)).to.be.revertedWith("E133");
+    await new PropytoClient(await registry.getAddress(), owner).disableOnChainMetadata();
+    expect(await sellerClient.getTokenURI(assetId)).to.equal(`https://api.propy.to/metadata/${assetId}`);
+  });
+
+  it("should build the document from the asset details, escaping seller text", async function () {
+    const renderer = await deployMetadataRenderer(registry);
+    await new PropytoClient(await registry.getAddress(), buyer).buyShares(assetId, 10n);
+
+    expect(await renderer.tokenMetadata(assetId)).to.equal(
+      '{"name":"The \\"Old Mill\\"","description":"Brick mill\\u000aon the river","image":"ipfs://QmMill","attributes":[' +
+        '{"trait_type":"Type","value":"Commercial"},{"trait_type":"Zone","value":"Industrial"},' +
+        '{"trait_type":"Furnishing","value":"Partially furnished"},' +
+        '{"display_type":"number","trait_type":"Area (sq ft)","value":5200},' +
+        '{"display_type":"number","trait_type":"Price (USDT)","value":250000.5}]}'
+    );
+    expect(decodeTokenURI(await sellerClient.getTokenURI(assetId))).to.deep.equal({
+      name: 'The "Old Mill"',
+      description: "Brick mill\non the river",
+      image: "ipfs://QmMill",
+      attributes: [
+        { trait_type: "Type", value: "Commercial" },
+        { trait_type: "Zone", value: "Industrial" },
+        { trait_type: "Furnishing", value: "Partially furnished" },
+        { display_type: "number", trait_type: "Area (sq ft)", value: 5200 },
+        { display_type: "number", trait_type: "Price (USDT)", value: 250000.5 }
+      ]
+    });
+  });
+
+  it("should keep image links with a scheme, leave out missing images and format small prices", async function () {
+    await deployMetadataRenderer(registry);
+
+    await sellerClient.updateMedia(assetId, { ...media, assetImage: "https://cdn.propy.to/mill.jpg" });
+    await sellerClient.updatePrice(assetId, ethers.parseEther("0.05"));
+    let document = await sellerClient.getTokenMetadata(assetId); // no shares minted yet
+    expect(document.image).to.equal("https://cdn.propy.to/mill.jpg");
+    expect(document.attributes[4].value).to.equal(0.05);
+
+    await sellerClient.updateMedia(assetId, { ...media, assetImage: "" });
+    document = await sellerClient.getTokenMetadata(assetId);
+    expect(document).to.not.have.property("image");
+  });
+
+  it("should emit ERC-4906 events when the details behind the metadata change", async function () {
+    expect(await sft.supportsInterface("0x49064906")).to.be.true;
+    expect(await sft.supportsInterface("0xd9b67a26")).to.be.true; // ERC-1155
+
+    // Nothing to refresh before the first shares are minted
+    await expect(registry.connect(seller).updateAssetMetadata(assetId, metadata)).to.not.emit(sft, "MetadataUpdate");
+
+    await new PropytoClient(await registry.getAddress(), buyer).buyShares(assetId, 10n);
+    const tokenId = await sft.getTokenId(assetId);
+    await expect(registry.connect(seller).updateAssetMetadata(assetId, metadata)).to.emit(sft, "MetadataUpdate").withArgs(tokenId);
+    await expect(registry.connect(seller).updateAssetMedia(assetId, media)).to.emit(sft, "MetadataUpdate").withArgs(tokenId);
+    await expect(registry.connect(seller).updateAssetPrice(assetId, ethers.parseEther("300000")))
+      .to.emit(sft, "MetadataUpdate")
+      .withArgs(tokenId);
+    await expect(registry.connect(seller).updateAssetStatus(assetId, AssetStatus.DELISTED)).to.not.emit(sft, "MetadataUpdate");
+
+    await expect(sft.connect(seller).notifyMetadataUpdate(assetId)).to.be.revertedWith("Only registry or owner can update metadata");
+  });
+});
@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  PropytoClient,
+  AssetStatus,
+  AssetType,
+  AssetFurnishing,
+  AssetZone,
+  NewAsset,
+  PropytoRole,
+  ProposalType,
+  RejectionReason,
+  ReviewStatus
+} from "../sdk";
+import { deployAccessManager, deployModeration, deployRegistry } from "./fixtures";
+
+describe("PropytoModeration", function () {
+  const LISTING_FEE = ethers.parseUnits("10", 6); // 10 USDT in a 6-decimal token
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let moderator: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let feeCollector: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let moderation: any;
+
+  const client = (signer: SignerWithAddress) => new PropytoClient(registry.target, signer);
+
+  const newAsset = (assetStatus = AssetStatus.FOR_SALE): NewAsset => ({
+    name: "Canal House 7",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus,
+    assetFurnishing: AssetFurnishing.FULLY_FURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("250000"),
+    assetArea: 1400n,
+    assetAge: 90n,
+    assetOtherDetails: "{}",
+    isRentable: assetStatus === AssetStatus.FOR_RENT,
+    isSellable: true,
+    isPartiallyOwnEnabled: false,
+    listingExpiry: 0n
+  });
+
+  const list = async (assetStatus = AssetStatus.FOR_SALE) => {
+    const { assetId } = await client(seller).listAsset(
+      newAsset(assetStatus),
+      { assetDescription: "Four floors on the canal", assetFeatures: "", assetAmenities: "", assetLocation: "Amsterdam" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    );
+    return assetId;
+  };
+
+  beforeEach(async function () {
+    [owner, seller, moderator, buyer, feeCollector] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 6, 0);
+    await mockUSDT.mint(seller.address, ethers.parseUnits("1000", 6));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    await registry.updateMarketplaceConfig(250, feeCollector.address, ethers.parseEther("10"), true);
+    moderation = await deployModeration(registry);
+    await deployAccessManager(registry, owner.address);
+    await client(owner).grantRole(PropytoRole.LISTING_MODERATOR, moderator.address);
+  });
+
+  it("should hold new listings and their fee until a moderator decides", async function () {
+    const assetId = await list();
+
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.PENDING);
+    expect(await mockUSDT.balanceOf(await moderation.getAddress())).to.equal(LISTING_FEE);
+    expect(await client(moderator).getListingReview(assetId)).to.deep.include({
+      status: ReviewStatus.PENDING,
+      requestedStatus: AssetStatus.FOR_SALE,
+      feeToken: await mockUSDT.getAddress(),
+      listingFee: LISTING_FEE,
+      moderator: ethers.ZeroAddress
+    });
+
+    const pending = await client(moderator).getPendingListings();
+    expect(pending.map(({ id }) => id)).to.deep.equal([assetId]);
+    expect(pending[0].metadata.assetLocation).to.equal("Amsterdam");
+
+    // Pending listings cannot be bought, nor published by their seller
+    await expect(client(buyer).quoteWhole(assetId)).to.be.rejectedWith("Asset is not available for purchase");
+    await expect(registry.connect(seller).updateAssetStatus(assetId, AssetStatus.FOR_SALE)).to.be.revertedWith("E137");
+    await expect(registry.connect(seller).setModerationStatus(assetId, AssetStatus.FOR_SALE)).to.be.revertedWith("E136");
+    for (const status of [AssetStatus.PENDING, AssetStatus.SOLD, AssetStatus.RENTED, AssetStatus.DELISTED, AssetStatus.OTHER]) {
+      await expect(
+        registry.connect(seller).registerAsset({ ...newAsset(status), seller: seller.address }, {
+          assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: ""
+        }, { assetImage: "", assetVideo: "", assetFloorPlan: "" })
+      ).to.be.revertedWith("E150");
+    }
+  });
+
+  it("should publish approved listings with the status they were registered with", async function () {
+    const forSale = await list();
+    const forRent = await list(AssetStatus.FOR_RENT);
+
+    await expect(moderation.connect(seller).approveListing(forSale)).to.be.revertedWith("E139");
+    await expect(moderation.connect(moderator).approveListing(forSale))
+      .to.emit(moderation, "ListingApproved")
+      .withArgs(forSale, moderator.address, AssetStatus.FOR_SALE)
+      .and.to.emit(registry, "AssetStatusUpdated")
+      .withArgs(forSale, AssetStatus.PENDING, AssetStatus.FOR_SALE);
+    await client(moderator).approveListing(forRent);
+
+    expect((await registry.assets(forSale)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+    expect((await registry.assets(forRent)).assetStatus).to.equal(AssetStatus.FOR_RENT);
+    expect(await mockUSDT.balanceOf(feeCollector.address)).to.equal(2n * LISTING_FEE);
+    expect(await moderation.getPendingAssetIds()).to.deep.equal([]);
+    await expect(moderation.connect(moderator).approveListing(forSale)).to.be.revertedWith("E140");
+    expect((await client(buyer).quoteWhole(forSale)).totalPrice).to.be.greaterThan(0n);
+  });
+
+  it("should reject listings for good, refunding the fee when asked", async function () {
+    const refunded = await list();
+    const kept = await list();
+    const balance = await mockUSDT.balanceOf(seller.address);
+
+    await expect(client(moderator).rejectListing(refunded, RejectionReason.UNREALISTIC_PRICE, true))
+      .to.emit(moderation, "ListingRejected")
+      .withArgs(refunded, moderator.address, RejectionReason.UNREALISTIC_PRICE, LISTING_FEE);
+    await expect(moderation.connect(moderator).rejectListing(kept, RejectionReason.PROHIBITED_CONTENT, false))
+      .to.emit(moderation, "ListingRejected")
+      .withArgs(kept, moderator.address, RejectionReason.PROHIBITED_CONTENT, 0);
+
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(balance + LISTING_FEE);
+    expect(await mockUSDT.balanceOf(feeCollector.address)).to.equal(LISTING_FEE);
+    expect(await client(moderator).getListingReview(kept)).to.deep.include({
+      status: ReviewStatus.REJECTED,
+      moderator: moderator.address,
+      reason: RejectionReason.PROHIBITED_CONTENT,
+      feeRefunded: false
+    });
+
+    expect((await registry.assets(refunded)).assetStatus).to.equal(AssetStatus.REJECTED);
+    await expect(registry.connect(seller).updateAssetStatus(refunded, AssetStatus.FOR_SALE)).to.be.revertedWith("E137");
+    await expect(registry.connect(moderator).updateAssetStatus(refunded, AssetStatus.DELISTED)).to.be.revertedWith("E137");
+  });
+
+  it("should keep the pending queue intact when listings are decided out of order", async function () {
+    const assetIds = [await list(), await list(), await list(), await list()];
+
+    await client(moderator).approveListing(assetIds[1]);
+    await client(moderator).rejectListing(assetIds[0], RejectionReason.DUPLICATE_LISTING, false);
+    expect((await client(moderator).getPendingListings()).map(({ id }) => id)).to.deep.equal([assetIds[2], assetIds[3]]);
+
+    await client(moderator).approveListing(assetIds[3]);
+    await client(moderator).approveListing(assetIds[2]);
+    expect(await client(moderator).getPendingListings()).to.deep.equal([]);
+  });
+
+  it("should stop governance from selling pending listings", async function () {
+    const assetId = await list();
+    await registry.updateGovernance(owner.address); // stand in for the governance module
+    await expect(registry.executeGovernanceAction(assetId, ProposalType.SELL_PROPERTY, ethers.parseEther("200000"))).to.be.revertedWith(
+      "E137"
+    );
+  });
+
+  it("should only switch modules once no listing is pending", async function () {
+    const assetId = await list();
+    await expect(registry.updateModeration(buyer.address)).to.be.revertedWith("E151");
+    await expect(client(owner).disableModeration()).to.be.rejectedWith("Listings are still pending moderation");
+
+    await client(moderator).rejectListing(assetId, RejectionReason.OTHER, true);
+    await client(owner).disableModeration();
+    expect(await registry.moderation()).to.equal(ethers.ZeroAddress);
+  });
+
+  it("should let listings go live immediately once moderation is turned off", async function () {
+    await expect(moderation.onAssetRegistered(0, AssetStatus.FOR_SALE, 0)).to.be.revertedWith("E138");
+    await client(owner).disableModeration();
+    const assetId = await list();
+
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+    expect(await mockUSDT.balanceOf(feeCollector.address)).to.equal(LISTING_FEE);
+    expect((await moderation.getReview(assetId)).status).to.equal(ReviewStatus.NONE);
+  });
+});
@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset, OfferStatus } from "../sdk";
+import { deployEscrow, deployOfferBook, deployRegistry } from "./fixtures";
+
+describe("PropytoOffers", function () {
+  const DAY = 86400n;
+  const PRICE = ethers.parseEther("100000");
+  const SHARE_PRICE = ethers.parseEther("100");
+  const fee = (amount: bigint) => (amount * 250n) / 10000n; // default 2.5% platform fee
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let other: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let offerBook: any;
+  let sellerClient: PropytoClient;
+  let buyerClient: PropytoClient;
+
+  const newAsset = (isPartiallyOwnEnabled: boolean): NewAsset => ({
+    name: "Canal House",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: PRICE,
+    assetArea: 1200n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+  const fractions = {
+    totalShares: 1000n,
+    sharePrice: SHARE_PRICE,
+    minSharePurchase: 1n,
+    maxSharesPerOwner: 100n,
+    sellerShares: 0n
+  };
+
+  const inDays = async (days: bigint) => BigInt(await time.latest()) + days * DAY;
+
+  beforeEach(async function () {
+    [owner, seller, buyer, other] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(buyer.address, ethers.parseEther("200000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    offerBook = await deployOfferBook(registry);
+
+    sellerClient = new PropytoClient(await registry.getAddress(), seller);
+    buyerClient = new PropytoClient(await registry.getAddress(), buyer);
+  });
+
+  it("should settle an accepted share offer at the offered price with the platform fee", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset(true), metadata, media, fractions);
+    const amount = ethers.parseEther("4500"); // 50 shares listed at 5000 USDT
+    const { offerId } = await buyerClient.placeOffer(assetId, 50n, amount, await inDays(7n));
+
+    const offer = await buyerClient.getOffer(offerId);
+    expect(offer.buyer).to.equal(buyer.address);
+    expect(offer.shareCount).to.equal(50n);
+    expect(offer.status).to.equal(OfferStatus.OPEN);
+    expect(await mockUSDT.balanceOf(await offerBook.getAddress())).to.equal(amount);
+    await expect(offerBook.connect(other).acceptOffer(offerId)).to.be.revertedWith("E8");
+
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    const ownerBalance = await mockUSDT.balanceOf(owner.address);
+    await sellerClient.acceptOffer(offerId);
+
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + amount - fee(amount));
+    expect(await mockUSDT.balanceOf(owner.address)).to.equal(ownerBalance + fee(amount));
+    expect(await mockUSDT.balanceOf(await offerBook.getAddress())).to.equal(0n);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(50n);
+    expect((await buyerClient.getPartialOwnership(assetId)).availableShares).to.equal(950n);
+    expect((await buyerClient.getOffer(offerId)).status).to.equal(OfferStatus.ACCEPTED);
+    await expect(buyerClient.cancelOffer(offerId)).to.be.rejectedWith("Offer is no longer active");
+  });
+
+  it("should escrow a whole-asset counter-offer the buyer accepts by paying the difference", async function () {
+    await deployEscrow(registry);
+    const { assetId } = await sellerClient.listAsset(newAsset(false), metadata, media);
+    const amount = ethers.parseEther("80000");
+    const counterAmount = ethers.parseEther("90000");
+    const { offerId } = await buyerClient.placeOffer(assetId, 0n, amount, await inDays(7n));
+
+    await expect(offerBook.connect(seller).counterOffer(offerId, amount, await inDays(3n))).to.be.revertedWith("E107");
+    await sellerClient.counterOffer(offerId, counterAmount, await inDays(3n));
+    const countered = await buyerClient.getOffer(offerId);
+    expect(countered.status).to.equal(OfferStatus.COUNTERED);
+    expect(countered.counterAmount).to.equal(counterAmount);
+
+    // The original price is no longer on the table
+    await expect(offerBook.connect(seller).acceptOffer(offerId)).to.be.revertedWith("E109");
+    await expect(offerBook.connect(other).acceptCounterOffer(offerId)).to.be.revertedWith("E106");
+
+    const buyerBalance = await mockUSDT.balanceOf(buyer.address);
+    const sellerBalance = await mockUSDT.balanceOf(seller.address);
+    const { escrowId } = await buyerClient.acceptCounterOffer(offerId);
+    expect((await buyerClient.getOffer(offerId)).status).to.equal(OfferStatus.ACCEPTED);
+
+    // The agreed price waits in escrow, locking the asset, until the seller confirms the sale
+    const escrow = await buyerClient.getEscrow(escrowId!);
+    expect([escrow.buyer, escrow.amount, escrow.platformFee]).to.deep.equal([buyer.address, counterAmount, fee(counterAmount)]);
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(buyerBalance - (counterAmount - amount));
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance);
+    expect(await registry.inEscrow(assetId)).to.be.true;
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_SALE);
+
+    await sellerClient.confirmEscrow(escrowId!);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(sellerBalance + counterAmount - fee(counterAmount));
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.SOLD);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(100n);
+  });
+
+  it("should return the deposit when the seller rejects or the buyer withdraws", async function () {
+    await deployEscrow(registry);
+    const { assetId } = await sellerClient.listAsset(newAsset(true), metadata, media, fractions);
+    const { offerId: rejected } = await buyerClient.placeOffer(assetId, 10n, ethers.parseEther("900"), await inDays(7n));
+    const { offerId: withdrawn } = await buyerClient.placeOffer(assetId, 0n, ethers.parseEther("95000"), await inDays(7n));
+
+    await expect(offerBook.connect(other).rejectOffer(rejected)).to.be.revertedWith("E8");
+    await sellerClient.rejectOffer(rejected);
+    await expect(offerBook.connect(other).cancelOffer(withdrawn)).to.be.revertedWith("E106");
+    await buyerClient.cancelOffer(withdrawn);
+
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(ethers.parseEther("200000"));
+    expect((await buyerClient.getAssetOffers(assetId)).map((offer) => offer.status)).to.deep.equal([
+      OfferStatus.REJECTED,
+      OfferStatus.CANCELLED
+    ]);
+    await expect(offerBook.connect(seller).acceptOffer(withdrawn)).to.be.revertedWith("E109");
+  });
+
+  it("should not settle expired offers or counter-offers", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset(true), metadata, media, fractions);
+    const { offerId } = await buyerClient.placeOffer(assetId, 10n, ethers.parseEther("900"), await inDays(1n));
+    await sellerClient.counterOffer(offerId, ethers.parseEther("950"), await inDays(2n));
+
+    await time.increase(3n * DAY);
+    expect((await buyerClient.getOffer(offerId)).isExpired).to.be.true;
+    await expect(offerBook.connect(buyer).acceptCounterOffer(offerId)).to.be.revertedWith("E105");
+
+    // The buyer still gets the deposit back
+    await buyerClient.cancelOffer(offerId);
+    expect(await mockUSDT.balanceOf(buyer.address)).to.equal(ethers.parseEther("200000"));
+  });
+
+  it("should only take offers below the list price on purchasable assets", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset(true), metadata, media, fractions);
+    const expiry = await inDays(7n);
+    await mockUSDT.connect(buyer).approve(await offerBook.getAddress(), PRICE);
+    await mockUSDT.connect(seller).approve(await offerBook.getAddress(), PRICE);
+
+    await expect(offerBook.connect(buyer).placeOffer(assetId, 10n, 10n * SHARE_PRICE, expiry)).to.be.revertedWith("E102");
+    await expect(offerBook.connect(buyer).placeOffer(assetId, 10n, 0n, expiry)).to.be.revertedWith("E102");
+    await expect(offerBook.connect(buyer).placeOffer(assetId, 10n, SHARE_PRICE, await time.latest())).to.be.revertedWith("E103");
+    await expect(offerBook.connect(buyer).placeOffer(assetId, 1001n, SHARE_PRICE, expiry)).to.be.revertedWith("E15");
+    await expect(offerBook.connect(seller).placeOffer(assetId, 10n, SHARE_PRICE, expiry)).to.be.revertedWith("E87");
+    await expect(offerBook.connect(seller).acceptOffer(0n)).to.be.revertedWith("E101");
+    await expect(registry.connect(buyer).settleOffer(assetId, buyer.address, 10n, SHARE_PRICE, await mockUSDT.getAddress())).to.be.revertedWith("E99");
+
+    // Whole-asset offers settle through the purchase escrow, which this registry does not have
+    await expect(offerBook.connect(buyer).placeOffer(assetId, 0n, SHARE_PRICE, expiry)).to.be.revertedWith("E148");
+    const escrow = await deployEscrow(registry);
+    await expect(escrow.connect(buyer).depositAcceptedOffer(assetId, buyer.address, SHARE_PRICE, await mockUSDT.getAddress())).to.be.revertedWith("E99");
+
+    // The per-owner limit is checked when the offer settles
+    const { offerId } = await buyerClient.placeOffer(assetId, 100n, ethers.parseEther("9000"), expiry);
+    await buyerClient.buyShares(assetId, 1n);
+    await expect(sellerClient.acceptOffer(offerId)).to.be.rejectedWith("Purchase would exceed maximum shares per owner");
+  });
+});
@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEscrow, deployRegistry } from "./fixtures";
 
 describe("PropytoRegistry", function () {
   let owner: SignerWithAddress;
@@ -82,25 +83,8 @@ describe("PropytoRegistry", function () {
     await mintMockUSDT(buyer1.address, ethers.parseEther("1000000"));
     await mintMockUSDT(buyer2.address, ethers.parseEther("1000000"));
     
-    // Deploy PropytoRegistry with proxy
-    const RegistryFactory = await ethers.getContractFactory("PropytoRegistry");
-    registry = await upgrades.deployProxy(
-      RegistryFactory,
-      [await mockUSDT.getAddress()],
-      { initializer: "initialize" }
-    );
-    
-    // Deploy PropytoSFT with proxy
-    const SFTFactory = await ethers.getContractFactory("PropytoSFT");
-    sft = await upgrades.deployProxy(
-      SFTFactory,
-      ["https://api.propy.to/api/token/"],
-      { initializer: "initialize" }
-    );
-    
-    // Link contracts
-    await registry.setPropytoSFTAddress(await sft.getAddress());
-    await sft.setRegistryAddress(await registry.getAddress());
+    // Deploy PropytoRegistry with proxy (each asset gets its own SFT from the factory)
+    registry = await deployRegistry(await mockUSDT.getAddress());
     
     // Update mockAsset with seller address
     mockAsset.seller = seller.address;
@@ -115,7 +99,7 @@ describe("PropytoRegistry", function () {
   describe("Initialization and Configuration", function () {
     it("should initialize with correct state", async function () {
       expect(await registry.usdtToken()).to.equal(await mockUSDT.getAddress());
-      expect(await registry.propytosftAddress()).to.equal(await sft.getAddress());
+      expect(await registry.sftFactory()).to.not.equal(ethers.ZeroAddress);
       expect(await registry.owner()).to.equal(owner.address);
       
       const config = await registry.marketplaceConfig();
@@ -148,15 +132,30 @@ describe("PropytoRegistry", function () {
           ethers.parseEther("15"),
           true
         )
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWith("E133");
     });
 
     it("should allow owner to update USDT token address", async function () {
       const newToken = await deployMockUSDT();
+      await expect(registry.updateUsdtToken(await newToken.getAddress())).to.be.revertedWith("E121");
+      await registry.setPaymentToken(await newToken.getAddress(), true);
       await registry.updateUsdtToken(await newToken.getAddress());
       expect(await registry.usdtToken()).to.equal(await newToken.getAddress());
     });
 
+    it("should let an admin run the upgrade initializer once", async function () {
+      const newFactory = await ethers.deployContract("PropytoSFTFactory");
+      await expect(registry.connect(seller).initializeV2(await newFactory.getAddress())).to.be.revertedWith("E133");
+      await expect(registry.initializeV2(ethers.ZeroAddress)).to.be.revertedWith("E29");
+
+      await registry.initializeV2(await newFactory.getAddress());
+      expect(await registry.sftFactory()).to.equal(await newFactory.getAddress());
+      expect(await registry.getPaymentTokens()).to.deep.equal([await mockUSDT.getAddress()]);
+      await expect(registry.initializeV2(await newFactory.getAddress())).to.be.revertedWith(
+        "Initializable: contract is already initialized"
+      );
+    });
+
     it("should allow owner to pause and unpause the contract", async function () {
       await registry.pause();
       expect(await registry.isPaused()).to.be.true;
@@ -266,7 +265,7 @@ describe("PropytoRegistry", function () {
       );
       
       // Buyer 1 purchases 50 shares
-      await registry.connect(buyer1).purchaseShares(assetId, 50);
+      await registry.connect(buyer1).purchaseShares(assetId, 50, false);
       
       // Check buyer1's ownership
       const buyer1Percentage = await registry.getOwnershipPercentage(assetId, buyer1.address);
@@ -276,7 +275,7 @@ describe("PropytoRegistry", function () {
       expect(buyer1Shares).to.equal(50);
       
       // Buyer 2 purchases 100 shares
-      await registry.connect(buyer2).purchaseShares(assetId, 100);
+      await registry.connect(buyer2).purchaseShares(assetId, 100, false);
       
       // Check buyer2's ownership
       const buyer2Percentage = await registry.getOwnershipPercentage(assetId, buyer2.address);
@@ -287,6 +286,103 @@ describe("PropytoRegistry", function () {
       expect(owners.length).to.equal(3); // seller, buyer1, buyer2
     });
 
+    it("should quote share and whole-asset purchases with the exact fee split", async function () {
+      await expect(registry.quotePurchase(assetId, 50, false, mockUSDT.target)).to.be.revertedWith("E13");
+
+      await registry.connect(seller).enablePartialOwnership(
+        assetId,
+        1000, // 1000 total shares
+        ethers.parseEther("500"), // 500 USDT per share
+        10, // Minimum 10 shares purchase
+        100, // Maximum 100 shares per owner
+        200 // Seller keeps 200 shares
+      );
+      await expect(registry.quotePurchase(assetId, 5, false, mockUSDT.target)).to.be.revertedWith("E14");
+
+      // 50 shares at 500 USDT with the default 2.5% platform fee
+      const quote = await registry.quotePurchase(assetId, 50, false, mockUSDT.target);
+      expect(quote.totalPrice).to.equal(ethers.parseEther("25000"));
+      expect(quote.platformFee).to.equal(ethers.parseEther("625"));
+      expect(quote.sellerAmount).to.equal(ethers.parseEther("24375"));
+      expect(quote.availableShares).to.equal(750);
+
+      const wholeQuote = await registry.quotePurchase(assetId, 0, true, mockUSDT.target);
+      expect(wholeQuote.totalPrice).to.equal(mockAsset.assetPrice);
+      expect(wholeQuote.platformFee).to.equal(mockAsset.assetPrice * 250n / 10000n);
+      expect(wholeQuote.availableShares).to.equal(0);
+
+      await expect(registry.connect(buyer1).purchaseShares(assetId, 50, false)).to.changeTokenBalances(
+        mockUSDT,
+        [buyer1, seller, owner],
+        [-quote.totalPrice, quote.sellerAmount, quote.platformFee]
+      );
+      expect((await registry.getPartialOwnership(assetId)).availableShares).to.equal(quote.availableShares);
+    });
+
+    it("should enforce the maximum total price and deadline of a limited purchase", async function () {
+      await registry.connect(seller).enablePartialOwnership(
+        assetId,
+        1000, // 1000 total shares
+        ethers.parseEther("500"), // 500 USDT per share
+        10, // Minimum 10 shares purchase
+        100, // Maximum 100 shares per owner
+        200 // Seller keeps 200 shares
+      );
+      const quote = await registry.quotePurchase(assetId, 20, false, mockUSDT.target);
+      const deadline = (await time.latest()) + 600;
+
+      // The seller raises the price between the quote and the purchase
+      await registry.connect(seller).updateAssetPrice(assetId, mockAsset.assetPrice * 2n);
+      await expect(
+        registry.connect(buyer1).purchaseSharesWithLimits(assetId, 20, false, quote.totalPrice, deadline, mockUSDT.target)
+      ).to.be.revertedWith("E32");
+
+      await registry.connect(seller).updateAssetPrice(assetId, mockAsset.assetPrice);
+      await time.increase(601);
+      await expect(
+        registry.connect(buyer1).purchaseSharesWithLimits(assetId, 20, false, quote.totalPrice, deadline, mockUSDT.target)
+      ).to.be.revertedWith("E32");
+
+      await registry.connect(buyer1).purchaseSharesWithLimits(assetId, 20, false, quote.totalPrice, (await time.latest()) + 600, mockUSDT.target);
+      expect(await registry.getSharesOwned(assetId, buyer1.address)).to.equal(20);
+    });
+
+    it("should expose the partial ownership state and a paginated cap table", async function () {
+      let info = await registry.getPartialOwnership(assetId);
+      expect(info.isInitialized).to.be.false;
+
+      await registry.connect(seller).enablePartialOwnership(
+        assetId,
+        1000, // 1000 total shares
+        ethers.parseEther("500"), // 500 USDT per share
+        10, // Minimum 10 shares purchase
+        100, // Maximum 100 shares per owner
+        200 // Seller keeps 200 shares
+      );
+      await registry.connect(buyer1).purchaseShares(assetId, 50, false);
+      await registry.connect(buyer2).purchaseShares(assetId, 30, false);
+
+      info = await registry.getPartialOwnership(assetId);
+      expect(info.totalShares).to.equal(1000);
+      expect(info.availableShares).to.equal(720);
+      expect(info.sharePrice).to.equal(ethers.parseEther("500"));
+      expect(info.minSharePurchase).to.equal(10);
+      expect(info.maxSharesPerOwner).to.equal(100);
+      expect(info.ownerCount).to.equal(3);
+      expect(info.isInitialized).to.be.true;
+
+      const [firstOwners, firstShares] = await registry.getCapTable(assetId, 0, 2);
+      expect(firstOwners).to.deep.equal([seller.address, buyer1.address]);
+      expect(firstShares).to.deep.equal([200n, 50n]);
+
+      const [lastOwners, lastShares] = await registry.getCapTable(assetId, 2, 2);
+      expect(lastOwners).to.deep.equal([buyer2.address]);
+      expect(lastShares).to.deep.equal([30n]);
+
+      const [pastEnd] = await registry.getCapTable(assetId, 5, ethers.MaxUint256);
+      expect(pastEnd).to.have.length(0);
+    });
+
     it("should enforce minimum and maximum share purchase limits", async function () {
       // Enable partial ownership with specific limits
       await registry.connect(seller).enablePartialOwnership(
@@ -300,11 +396,11 @@ describe("PropytoRegistry", function () {
       
       // Try to purchase below minimum
       await expect(
-        registry.connect(buyer1).purchaseShares(assetId, 10)
-      ).to.be.revertedWith("Share count below minimum purchase amount");
+        registry.connect(buyer1).purchaseShares(assetId, 10, false)
+      ).to.be.revertedWith("E14");
       
       // Purchase shares up to the maximum allowed (100)
-      await registry.connect(buyer1).purchaseShares(assetId, 100);
+      await registry.connect(buyer1).purchaseShares(assetId, 100, false);
       
       // Verify buyer1 has 100 shares
       const buyer1Shares = await registry.getSharesOwned(assetId, buyer1.address);
@@ -312,8 +408,8 @@ describe("PropytoRegistry", function () {
       
       // Now try to purchase just 1 more - this should fail due to max limit
       await expect(
-        registry.connect(buyer1).purchaseShares(assetId, 20)
-      ).to.be.revertedWith("Purchase would exceed maximum shares per owner");
+        registry.connect(buyer1).purchaseShares(assetId, 20, false)
+      ).to.be.revertedWith("E16");
     });
 
     it("should update asset status when all shares are sold", async function () {
@@ -341,7 +437,7 @@ describe("PropytoRegistry", function () {
       expect(asset.assetStatus).to.equal(0); // FOR_SALE
       
       // Buyer 1 purchases all remaining shares
-      await registry.connect(buyer1).purchaseShares(newAssetId, 800);
+      await registry.connect(buyer1).purchaseShares(newAssetId, 800, false);
       
       // Check asset status was updated to SOLD
       asset = await registry.assets(newAssetId);
@@ -364,10 +460,10 @@ describe("PropytoRegistry", function () {
     });
 
     it("should update asset status", async function () {
-      await registry.connect(seller).updateAssetStatus(assetId, 3); // RENTED
+      await registry.connect(seller).updateAssetStatus(assetId, 4); // DELISTED
       
       const asset = await registry.assets(assetId);
-      expect(asset.assetStatus).to.equal(3); // RENTED
+      expect(asset.assetStatus).to.equal(4); // DELISTED
     });
 
     it("should update asset price", async function () {
@@ -450,14 +546,87 @@ describe("PropytoRegistry", function () {
       expect(updatedAsset.listingExpiry).to.equal(newExpiry);
     });
 
+    it("should emit events for metadata, media, rent data and sellership updates", async function () {
+      await expect(registry.connect(seller).updateAssetMetadata(assetId, mockAssetMetadata))
+        .to.emit(registry, "AssetMetadataUpdated").withArgs(assetId);
+      await expect(registry.connect(seller).updateAssetMedia(assetId, mockAssetMedia))
+        .to.emit(registry, "AssetMediaUpdated").withArgs(assetId);
+      await expect(registry.connect(seller).updateAssetRentData(assetId, mockRentData))
+        .to.emit(registry, "AssetRentDataUpdated").withArgs(assetId);
+      await expect(registry.connect(seller).transferSellership(assetId, buyer1.address))
+        .to.emit(registry, "AssetSellershipTransferred").withArgs(assetId, seller.address, buyer1.address);
+    });
+
+    it("should only accept rent data for rentable assets", async function () {
+      await registry.connect(seller).registerAsset(
+        { ...mockAsset, isRentable: false },
+        mockAssetMetadata,
+        mockAssetMedia
+      );
+
+      await expect(
+        registry.connect(seller).updateAssetRentData(1, mockRentData)
+      ).to.be.revertedWith("E21");
+    });
+
+    it("should validate the new seller", async function () {
+      await expect(
+        registry.connect(seller).transferSellership(assetId, ethers.ZeroAddress)
+      ).to.be.revertedWith("E22");
+
+      await expect(
+        registry.connect(seller).transferSellership(assetId, seller.address)
+      ).to.be.revertedWith("E23");
+    });
+
+    it("should hand management over to the new seller", async function () {
+      await registry.connect(seller).transferSellership(assetId, buyer1.address);
+
+      await expect(
+        registry.connect(seller).updateAssetStatus(assetId, 4)
+      ).to.be.revertedWith("E9");
+
+      await registry.connect(buyer1).updateAssetStatus(assetId, 4); // DELISTED
+      expect((await registry.assets(assetId)).assetStatus).to.equal(4);
+    });
+
+    it("should keep the status of sold assets final", async function () {
+      await expect(
+        registry.connect(seller).updateAssetStatus(assetId, 2) // SOLD
+      ).to.be.revertedWith("E31");
+
+      await expect(registry.connect(buyer1).purchaseShares(assetId, 0, true)).to.be.revertedWith("E81");
+
+      const escrow = await deployEscrow(registry);
+      await mockUSDT.connect(buyer1).approve(await escrow.getAddress(), mockAsset.assetPrice);
+      await escrow.connect(buyer1).deposit(assetId, mockAsset.assetPrice, ethers.MaxUint256);
+      await escrow.connect(seller).confirmSettlement(0);
+
+      await expect(
+        registry.connect(seller).updateAssetStatus(assetId, 0) // FOR_SALE
+      ).to.be.revertedWith("E30");
+    });
+
+    it("should block management and purchases while paused", async function () {
+      await registry.pause();
+
+      await expect(
+        registry.connect(seller).updateAssetMetadata(assetId, mockAssetMetadata)
+      ).to.be.revertedWith("Pausable: paused");
+
+      await expect(
+        registry.connect(buyer1).purchaseShares(assetId, 0, true)
+      ).to.be.revertedWith("Pausable: paused");
+    });
+
     it("should prevent non-seller from managing the asset", async function () {
       await expect(
         registry.connect(buyer1).updateAssetStatus(assetId, 3)
-      ).to.be.revertedWith("Only the asset seller can call this function");
+      ).to.be.revertedWith("E9");
       
       await expect(
         registry.connect(buyer1).updateAssetPrice(assetId, ethers.parseEther("600000"))
-      ).to.be.revertedWith("Only the asset seller can call this function");
+      ).to.be.revertedWith("E9");
     });
   });
 
@@ -483,11 +652,13 @@ describe("PropytoRegistry", function () {
         100, // Maximum 100 shares per owner
         200 // Seller keeps 200 shares
       );
+
+      sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
     });
 
     it("should tokenize asset and mint shares when purchased", async function () {
       // Buyer purchases shares
-      await registry.connect(buyer1).purchaseShares(assetId, 50);
+      await registry.connect(buyer1).purchaseShares(assetId, 50, false);
       
       // Check if tokenization occurred
       const tokenId = await sft.getTokenId(assetId);
@@ -500,13 +671,14 @@ describe("PropytoRegistry", function () {
 
     it("should track asset ID to token ID mapping", async function () {
       // Buyer purchases shares to trigger tokenization
-      await registry.connect(buyer1).purchaseShares(assetId, 50);
+      await registry.connect(buyer1).purchaseShares(assetId, 50, false);
       
       // Check mappings
       const tokenId = await sft.getTokenId(assetId);
       const mappedAssetId = await sft.getAssetId(tokenId);
       
       expect(mappedAssetId).to.equal(assetId);
+      expect(await sft.uri(tokenId)).to.equal(`https://api.propy.to/metadata/${assetId}`);
     });
   });
 
@@ -540,8 +712,8 @@ describe("PropytoRegistry", function () {
       
       // Try to purchase shares
       await expect(
-        registry.connect(buyer1).purchaseShares(assetId, 50)
-      ).to.be.revertedWith("Asset listing has expired");
+        registry.connect(buyer1).purchaseShares(assetId, 50, false)
+      ).to.be.revertedWith("E12");
     });
     
     it("should handle invalid asset ID", async function () {
@@ -549,7 +721,7 @@ describe("PropytoRegistry", function () {
       
       await expect(
         registry.connect(seller).updateAssetStatus(invalidAssetId, 3)
-      ).to.be.revertedWith("Asset does not exist");
+      ).to.be.revertedWith("E7");
     });
     
     it("should have nonReentrant modifier on critical functions", async function () {
@@ -578,7 +750,7 @@ describe("PropytoRegistry", function () {
         mockAssetMedia
       );
       
-      await registry.connect(buyer1).purchaseShares(0, 50);
+      await registry.connect(buyer1).purchaseShares(0, 50, false);
       
       // If we get here without errors, the functions with nonReentrant executed normally
       expect(true).to.be.true;
@@ -588,16 +760,16 @@ describe("PropytoRegistry", function () {
       // Try to call owner-only functions as non-owner
       await expect(
         registry.connect(seller).updateMarketplaceConfig(300, feeCollector.address, ethers.parseEther("15"), true)
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWith("E133");
       
       await expect(
         registry.connect(seller).pause()
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWith("E133");
       
       // Try to call seller-only functions as non-seller
       await expect(
         registry.connect(buyer1).updateAssetStatus(assetId, 3)
-      ).to.be.revertedWith("Only the asset seller can call this function");
+      ).to.be.revertedWith("E9");
     });
   });
 });
\ No newline at end of file
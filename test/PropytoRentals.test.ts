@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, LeaseStatus, NewAsset } from "../sdk";
+import { deployRegistry, deployRentals } from "./fixtures";
+
+describe("PropytoRentals", function () {
+  const DAY = 86400;
+  const PERIOD = 30 * DAY;
+  const RENT = ethers.parseEther("2000");
+  const DEPOSIT = ethers.parseEther("1500"); // rentDeposit + rentSecurityDeposit
+
+  let owner: SignerWithAddress;
+  let landlord: SignerWithAddress;
+  let tenant: SignerWithAddress;
+  let other: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let rentals: any;
+  let landlordClient: PropytoClient;
+  let tenantClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Canal House",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_RENT,
+    assetFurnishing: AssetFurnishing.FULLY_FURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("250000"),
+    assetArea: 1200n,
+    assetAge: 10n,
+    assetOtherDetails: "{}",
+    isRentable: true,
+    isSellable: false,
+    isPartiallyOwnEnabled: false,
+    listingExpiry: 0n
+  });
+
+  beforeEach(async function () {
+    [owner, landlord, tenant, other] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(landlord.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(tenant.address, ethers.parseEther("100000"));
+    await mockUSDT.mint(other.address, ethers.parseEther("100000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    rentals = await deployRentals(registry);
+    const registryAddress = await registry.getAddress();
+
+    landlordClient = new PropytoClient(registryAddress, landlord);
+    tenantClient = new PropytoClient(registryAddress, tenant);
+    ({ assetId } = await landlordClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    ));
+    await landlordClient.updateRentData(assetId, {
+      rentPrice: RENT,
+      rentDeposit: ethers.parseEther("1000"),
+      rentPeriod: 30n,
+      rentSecurityDeposit: ethers.parseEther("500")
+    });
+  });
+
+  it("should escrow the deposit, pay the first period and mark the asset RENTED", async function () {
+    const tenantBalance = await mockUSDT.balanceOf(tenant.address);
+    const landlordBalance = await mockUSDT.balanceOf(landlord.address);
+    const { leaseId } = await tenantClient.startLease(assetId, 3n);
+
+    // Default 2.5% platform fee on rent
+    expect(await mockUSDT.balanceOf(tenant.address)).to.equal(tenantBalance - DEPOSIT - RENT);
+    expect(await mockUSDT.balanceOf(landlord.address)).to.equal(landlordBalance + ethers.parseEther("1950"));
+    expect(await mockUSDT.balanceOf(await rentals.getAddress())).to.equal(DEPOSIT);
+
+    const lease = await tenantClient.getLease(leaseId);
+    expect(lease.tenant).to.equal(tenant.address);
+    expect(lease.landlord).to.equal(landlord.address);
+    expect(lease.endTime - lease.startTime).to.equal(BigInt(3 * PERIOD));
+    expect(lease.paidUntil).to.equal(lease.startTime + BigInt(PERIOD));
+    expect(lease.status).to.equal(LeaseStatus.ACTIVE);
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.RENTED);
+
+    await expect(rentals.connect(other).startLease(assetId, 1)).to.be.revertedWith("E45");
+    await expect(rentals.connect(landlord).startLease(assetId, 1)).to.be.revertedWith("E45");
+  });
+
+  it("should keep RENTED under lease control", async function () {
+    await expect(landlordClient.updateStatus(assetId, AssetStatus.RENTED)).to.be.rejectedWith(
+      "Rented status is managed by leases"
+    );
+    await expect(rentals.connect(landlord).startLease(assetId, 1)).to.be.revertedWith("E48");
+    await expect(registry.connect(landlord).setRentalStatus(assetId, true)).to.be.revertedWith("E42");
+
+    await tenantClient.startLease(assetId, 1n);
+    await expect(landlordClient.updateStatus(assetId, AssetStatus.FOR_RENT)).to.be.rejectedWith(
+      "Rented status is managed by leases"
+    );
+  });
+
+  it("should take rent in advance up to the end of the lease", async function () {
+    const { leaseId } = await tenantClient.startLease(assetId, 3n);
+
+    await expect(rentals.connect(tenant).payRent(leaseId, 3)).to.be.revertedWith("E50");
+    await expect(tenantClient.payRent(leaseId, 2n))
+      .to.emit(rentals, "RentPaid")
+      .withArgs(leaseId, tenant.address, 2, RENT * 2n, ethers.parseEther("100"));
+
+    const lease = await tenantClient.getLease(leaseId);
+    expect(lease.paidUntil).to.equal(lease.endTime);
+
+    // Fully paid rent is never overdue
+    await time.increase(3 * PERIOD - DAY);
+    expect(await rentals.isOverdue(leaseId)).to.be.false;
+    await expect(rentals.connect(landlord).endLease(leaseId)).to.be.revertedWith("E54");
+    await expect(rentals.connect(tenant).payRent(7, 1)).to.be.revertedWith("E60");
+  });
+
+  it("should flag overdue rent once per period after the grace period", async function () {
+    const { leaseId } = await tenantClient.startLease(assetId, 6n);
+
+    await time.increase(PERIOD + 2 * DAY);
+    await expect(rentals.connect(landlord).flagLatePayment(leaseId)).to.be.revertedWith("E52");
+
+    await time.increase(2 * DAY);
+    await expect(rentals.connect(tenant).flagLatePayment(leaseId)).to.be.revertedWith("E51");
+    await landlordClient.flagLatePayment(leaseId);
+    await expect(landlordClient.flagLatePayment(leaseId)).to.be.rejectedWith("Late payment already flagged");
+
+    await time.increase(PERIOD);
+    await landlordClient.flagLatePayment(leaseId);
+    expect((await landlordClient.getLease(leaseId)).missedPayments).to.equal(2n);
+
+    // Catching up clears the overdue state
+    await tenantClient.payRent(leaseId, 2n);
+    expect(await rentals.isOverdue(leaseId)).to.be.false;
+    await expect(landlordClient.terminateLease(leaseId)).to.be.rejectedWith("Rent is not overdue");
+  });
+
+  it("should let the landlord terminate a lease and withhold part of the deposit", async function () {
+    const { leaseId } = await tenantClient.startLease(assetId, 6n);
+    await time.increase(PERIOD + 4 * DAY);
+
+    await expect(landlordClient.settleDeposit(leaseId)).to.be.rejectedWith("Lease must be closed");
+    await landlordClient.terminateLease(leaseId);
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_RENT);
+    expect((await landlordClient.getLease(leaseId)).status).to.equal(LeaseStatus.TERMINATED);
+
+    const withheld = ethers.parseEther("1200");
+    await expect(landlordClient.settleDeposit(leaseId, DEPOSIT + 1n)).to.be.rejectedWith("exceeds the deposit");
+
+    const tenantBalance = await mockUSDT.balanceOf(tenant.address);
+    const landlordBalance = await mockUSDT.balanceOf(landlord.address);
+    await expect(landlordClient.settleDeposit(leaseId, withheld))
+      .to.emit(rentals, "DepositSettled")
+      .withArgs(leaseId, DEPOSIT - withheld, withheld);
+
+    expect(await mockUSDT.balanceOf(tenant.address)).to.equal(tenantBalance + DEPOSIT - withheld);
+    expect(await mockUSDT.balanceOf(landlord.address)).to.equal(landlordBalance + withheld);
+    await expect(tenantClient.claimDeposit(leaseId)).to.be.rejectedWith("Lease must be closed");
+
+    // The asset can be let again
+    const { leaseId: nextLeaseId } = await new PropytoClient(await registry.getAddress(), other).startLease(assetId, 1n);
+    expect(await rentals.getAssetLeaseIds(assetId)).to.deep.equal([leaseId, nextLeaseId]);
+  });
+
+  it("should end a lease after its term and refund the tenant once the claim window passes", async function () {
+    const { leaseId } = await tenantClient.startLease(assetId, 1n);
+
+    await time.increase(PERIOD);
+    await expect(rentals.connect(other).endLease(leaseId))
+      .to.emit(rentals, "LeaseEnded")
+      .withArgs(leaseId, LeaseStatus.ENDED);
+    expect((await registry.assets(assetId)).assetStatus).to.equal(AssetStatus.FOR_RENT);
+    await expect(rentals.connect(tenant).payRent(leaseId, 1)).to.be.revertedWith("E49");
+
+    await expect(rentals.connect(landlord).claimDeposit(leaseId)).to.be.revertedWith("E58");
+    await expect(tenantClient.claimDeposit(leaseId)).to.be.rejectedWith("Deposit claim window has not passed");
+
+    await time.increase(14 * DAY);
+    const tenantBalance = await mockUSDT.balanceOf(tenant.address);
+    await tenantClient.claimDeposit(leaseId);
+    expect(await mockUSDT.balanceOf(tenant.address)).to.equal(tenantBalance + DEPOSIT);
+    expect(await mockUSDT.balanceOf(await rentals.getAddress())).to.equal(0n);
+    await expect(landlordClient.settleDeposit(leaseId)).to.be.rejectedWith("Lease must be closed");
+  });
+});
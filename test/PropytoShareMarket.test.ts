@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import { deployRegistry, deployShareMarket } from "./fixtures";
+
+describe("PropytoShareMarket", function () {
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let market: any;
+  let sft: any;
+  let holderClient: PropytoClient;
+  let buyerClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Harbour Loft",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 900n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+
+  beforeEach(async function () {
+    [owner, seller, holder, buyer] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(holder.address, ethers.parseEther("100000"));
+    await mockUSDT.mint(buyer.address, ethers.parseEther("100000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    market = await deployShareMarket(registry);
+    const registryAddress = await registry.getAddress();
+
+    const sellerClient = new PropytoClient(registryAddress, seller);
+    ({ assetId } = await sellerClient.listAsset(newAsset(), metadata, media, {
+      totalShares: 1000n,
+      sharePrice: ethers.parseEther("100"),
+      minSharePurchase: 1n,
+      maxSharesPerOwner: 150n,
+      sellerShares: 0n
+    }));
+
+    holderClient = new PropytoClient(registryAddress, holder);
+    buyerClient = new PropytoClient(registryAddress, buyer);
+    await holderClient.buyShares(assetId, 100n);
+    sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+  });
+
+  it("should list held shares after approving the market", async function () {
+    await expect(market.connect(holder).createSellOrder(assetId, 10, ethers.parseEther("150"))).to.be.revertedWith("E37");
+
+    const { orderId } = await holderClient.listShares(assetId, 60n, ethers.parseEther("150"));
+    expect(await sft.isApprovedForAll(holder.address, await market.getAddress())).to.be.true;
+
+    const order = await holderClient.getSellOrder(orderId);
+    expect(order.seller).to.equal(holder.address);
+    expect(order.remainingShares).to.equal(60n);
+    expect(order.isActive).to.be.true;
+
+    // Only 40 of the 100 held shares are not listed yet
+    await expect(holderClient.listShares(assetId, 41n, ethers.parseEther("150"))).to.be.rejectedWith(
+      "Seller does not hold enough shares"
+    );
+    await expect(buyerClient.listShares(assetId, 1n, ethers.parseEther("150"))).to.be.rejectedWith(
+      "Seller does not hold enough shares"
+    );
+  });
+
+  it("should fill orders partially, charge the platform fee and update the ownership ledger", async function () {
+    const { orderId } = await holderClient.listShares(assetId, 60n, ethers.parseEther("150"));
+
+    // 40 shares at 150 USDT with the default 2.5% platform fee
+    const quote = await buyerClient.quoteFill(orderId, 40n);
+    expect(quote.totalPrice).to.equal(ethers.parseEther("6000"));
+    expect(quote.platformFee).to.equal(ethers.parseEther("150"));
+    expect(quote.availableShares).to.equal(20n);
+
+    await expect(market.connect(buyer).fillSellOrder(orderId, 40)).to.be.reverted; // no USDT allowance yet
+    const holderBalance = await mockUSDT.balanceOf(holder.address);
+    const feeBalance = await mockUSDT.balanceOf(owner.address);
+    await buyerClient.fillOrder(orderId, 40n);
+
+    expect(await mockUSDT.balanceOf(holder.address)).to.equal(holderBalance + quote.sellerAmount);
+    expect(await mockUSDT.balanceOf(owner.address)).to.equal(feeBalance + quote.platformFee);
+    expect(await mockUSDT.allowance(buyer.address, await market.getAddress())).to.equal(0n);
+
+    const tokenId = await sft.getTokenId(assetId);
+    expect(await sft.balanceOf(holder.address, tokenId)).to.equal(60n);
+    expect(await sft.balanceOf(buyer.address, tokenId)).to.equal(40n);
+    expect(await registry.getSharesOwned(assetId, holder.address)).to.equal(60n);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(40n);
+    expect(await registry.getAssetOwners(assetId)).to.deep.equal([holder.address, buyer.address]);
+
+    const order = await buyerClient.getSellOrder(orderId);
+    expect(order.remainingShares).to.equal(20n);
+    expect(order.isActive).to.be.true;
+  });
+
+  it("should close a fully filled order and drop sellers who sold out from the cap table", async function () {
+    const { orderId } = await holderClient.listShares(assetId, 100n, ethers.parseEther("120"));
+    await buyerClient.fillOrder(orderId, 100n);
+
+    expect((await buyerClient.getSellOrder(orderId)).isActive).to.be.false;
+    expect(await buyerClient.getSellOrders({ assetId, activeOnly: true })).to.have.length(0);
+    expect(await registry.getAssetOwners(assetId)).to.deep.equal([buyer.address]);
+    expect(await market.listedShares(assetId, holder.address)).to.equal(0);
+
+    await expect(buyerClient.quoteFill(orderId, 1n)).to.be.rejectedWith("Sell order is not active");
+  });
+
+  it("should only let the order seller cancel an order", async function () {
+    const { orderId } = await holderClient.listShares(assetId, 50n, ethers.parseEther("150"));
+
+    await expect(market.connect(buyer).cancelSellOrder(orderId)).to.be.revertedWith("E39");
+    await holderClient.cancelOrder(orderId);
+
+    await expect(market.connect(buyer).fillSellOrder(orderId, 10)).to.be.revertedWith("E38");
+    expect(await market.listedShares(assetId, holder.address)).to.equal(0);
+    await holderClient.listShares(assetId, 100n, ethers.parseEther("150"));
+  });
+
+  it("should enforce the per-owner limit, self fills and pausing", async function () {
+    await buyerClient.buyShares(assetId, 100n);
+    const { orderId } = await holderClient.listShares(assetId, 100n, ethers.parseEther("150"));
+
+    // The buyer already holds 100 of at most 150 shares
+    await expect(buyerClient.fillOrder(orderId, 60n)).to.be.rejectedWith(
+      "Purchase would exceed maximum shares per owner"
+    );
+    await expect(market.connect(holder).fillSellOrder(orderId, 10)).to.be.revertedWith("E41");
+    await expect(market.connect(buyer).fillSellOrder(orderId, 101)).to.be.revertedWith("E40");
+
+    await registry.pause();
+    await expect(buyerClient.fillOrder(orderId, 10n)).to.be.rejectedWith("paused");
+    await registry.unpause();
+    await buyerClient.fillOrder(orderId, 50n);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(150n);
+  });
+});
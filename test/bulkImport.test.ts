@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, parseCsv, validateManifest, planImport, importAssets, JournalEntry, ImportJournal } from "../sdk";
+import { deployRegistry } from "./fixtures";
+
+class MemoryJournal implements ImportJournal {
+  entries: Record<number, JournalEntry> = {};
+
+  get(row: number) {
+    return this.entries[row];
+  }
+
+  set(entry: JournalEntry) {
+    this.entries[entry.row] = entry;
+  }
+}
+
+describe("Bulk asset import", function () {
+  let seller: SignerWithAddress;
+  let mockUSDT: any;
+  let registry: any;
+  let client: PropytoClient;
+
+  const manifest = `name,assetType,assetPrice,assetArea,isPartiallyOwnEnabled,totalShares,assetDescription
+Plot A,LAND,1000,5000,false,,"Corner plot, near highway"
+Villa B,RESIDENTIAL,250000,3200,true,1000,Villa with pool
+Shop C,1,75000.5,400,false,,`;
+
+  beforeEach(async function () {
+    [, seller] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+
+    registry = await deployRegistry(await mockUSDT.getAddress());
+
+    client = new PropytoClient(await registry.getAddress(), seller);
+  });
+
+  it("should parse quoted CSV fields", function () {
+    const rows = parseCsv(manifest);
+    expect(rows).to.have.length(3);
+    expect(rows[0].assetDescription).to.equal("Corner plot, near highway");
+    expect(rows[2].assetDescription).to.equal("");
+  });
+
+  it("should report every invalid row", function () {
+    const { rows, errors } = validateManifest([
+      { name: "Ok", assetPrice: "10", assetArea: 1 },
+      { name: "", assetPrice: "10", assetArea: 1 },
+      { name: "Bad type", assetType: "CASTLE", assetPrice: "10", assetArea: 1 },
+      { name: "Bad shares", assetPrice: "10", assetArea: 1, isPartiallyOwnEnabled: true, totalShares: 10, sellerShares: 11 }
+    ]);
+
+    expect(rows).to.have.length(1);
+    expect(errors.map((error) => [error.row, error.field])).to.deep.equal([
+      [2, "name"],
+      [3, "assetType"],
+      [4, "sellerShares"]
+    ]);
+  });
+
+  it("should approve the total listing fee once and register every row", async function () {
+    const { rows } = validateManifest(parseCsv(manifest));
+    const journal = new MemoryJournal();
+    const plan = planImport(rows, journal, ethers.parseEther("10"));
+    expect(plan.totalListingFee).to.equal(ethers.parseEther("30"));
+
+    for await (const _ of importAssets(client, plan, journal)) {
+      // consume progress
+    }
+
+    expect(await registry.assetCount()).to.equal(3);
+    expect(await mockUSDT.balanceOf(seller.address)).to.equal(ethers.parseEther("970"));
+    expect(Object.values(journal.entries).map((entry) => entry.status)).to.deep.equal(["done", "done", "done"]);
+
+    // Partial ownership of row 2 was enabled
+    await expect(
+      registry.connect(seller).enablePartialOwnership(1, 10, 1, 1, 10, 0)
+    ).to.be.revertedWith("E2");
+  });
+
+  it("should resume without registering journaled rows twice", async function () {
+    const { rows } = validateManifest(parseCsv(manifest));
+    const journal = new MemoryJournal();
+
+    // A previous run registered row 1 and crashed after sending row 2
+    const first = await client.listAsset(rows[0].listing.asset, rows[0].listing.metadata, rows[0].listing.media);
+    journal.set({ row: 1, hash: rows[0].hash, status: "done", assetId: first.assetId.toString() });
+    await client.ensureAllowance(ethers.parseEther("10"));
+    const sent = await client.sendRegisterAsset(rows[1].listing.asset, rows[1].listing.metadata, rows[1].listing.media);
+    journal.set({ row: 2, hash: rows[1].hash, status: "pending", registerTx: sent.hash });
+
+    const plan = planImport(rows, journal, ethers.parseEther("10"));
+    const progress = [];
+    for await (const item of importAssets(client, plan, journal)) {
+      progress.push(item);
+    }
+
+    expect(await registry.assetCount()).to.equal(3);
+    expect(progress.map((item) => item.entry.assetId)).to.deep.equal(["0", "1", "2"]);
+  });
+
+  it("should refuse a journal written for a different manifest", async function () {
+    const { rows } = validateManifest(parseCsv(manifest));
+    const journal = new MemoryJournal();
+    journal.set({ row: 1, hash: ethers.ZeroHash, status: "done", assetId: "0" });
+
+    expect(() => planImport(rows, journal, 0n)).to.throw("Row 1 changed");
+  });
+});
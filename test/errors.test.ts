@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  PropytoClient,
+  PropytoError,
+  RegistryError,
+  SFTError,
+  TokenError,
+  ERROR_HINTS,
+  ERROR_MESSAGES,
+  decodeError,
+  describeError
+} from "../sdk";
+import { deployRegistry } from "./fixtures";
+
+describe("Error decoding", function () {
+  describe("errors.json", function () {
+    const contractsDir = path.join(__dirname, "..", "contracts");
+    const usedCodes = new Set<string>();
+
+    for (const file of fs.readdirSync(contractsDir).filter((name) => name.endsWith(".sol"))) {
+      const source = fs.readFileSync(path.join(contractsDir, file), "utf8")
+        .replace(/\/\*[\s\S]*?\*\//g, "")
+        .replace(/\/\/.*$/gm, "");
+      for (const match of source.matchAll(/"(E\d+)"/g)) {
+        usedCodes.add(match[1]);
+      }
+    }
+
+    it("should describe every code used by the contracts", function () {
+      const missing = [...usedCodes].filter((code) => !ERROR_MESSAGES[code]);
+      expect(missing, "codes missing from errors.json").to.deep.equal([]);
+    });
+
+    it("should not list codes the contracts never use", function () {
+      const unused = Object.keys(ERROR_MESSAGES).filter((code) => !usedCodes.has(code));
+      expect(unused, "unused codes in errors.json").to.deep.equal([]);
+    });
+
+    it("should have a suggested fix for every code", function () {
+      expect(Object.keys(ERROR_HINTS).sort()).to.deep.equal(Object.keys(ERROR_MESSAGES).sort());
+    });
+  });
+
+  describe("decodeError", function () {
+    let seller: SignerWithAddress;
+    let buyer: SignerWithAddress;
+    let client: PropytoClient;
+
+    beforeEach(async function () {
+      [, seller, buyer] = await ethers.getSigners();
+
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      const mockUSDT: any = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+      const registry = await deployRegistry(await mockUSDT.getAddress());
+      client = new PropytoClient(await registry.getAddress(), buyer);
+    });
+
+    it("should decode registry E-codes", async function () {
+      const error = await client.updatePrice(7n, 1n).catch((e) => e);
+
+      expect(error).to.be.instanceOf(RegistryError);
+      expect(error.code).to.equal("E7");
+      expect(error.message).to.equal("Asset does not exist");
+      expect(describeError(error)).to.match(/^E7: Asset does not exist \(.+\)$/);
+    });
+
+    it("should decode ERC20 failures", async function () {
+      // The seller holds no USDT for the listing fee
+      const sellerClient = new PropytoClient(await client.registry.getAddress(), seller);
+      const asset = {
+        name: "No Funds",
+        assetType: 0,
+        assetAddress: ethers.ZeroAddress,
+        assetStatus: 0,
+        assetFurnishing: 0,
+        assetZone: 0,
+        assetPrice: 1n,
+        assetArea: 1n,
+        assetAge: 0n,
+        assetOtherDetails: "{}",
+        isRentable: false,
+        isSellable: true,
+        isPartiallyOwnEnabled: false,
+        listingExpiry: 0n
+      };
+      const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+      const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+      const error = await sellerClient.listAsset(asset, metadata, media).catch((e) => e);
+
+      expect(error).to.be.instanceOf(TokenError);
+      expect(error.message).to.equal("ERC20: transfer amount exceeds balance");
+      expect(error.hint).to.include("USDT balance");
+    });
+
+    it("should decode PropytoSFT reverts", async function () {
+      const sft: any = await ethers.deployContract("PropytoSFT", ["uri", "Asset", "PROPYTO"]);
+      const error = decodeError(await sft.connect(buyer).mintShares(buyer.address, 0, 1).catch((e: unknown) => e));
+
+      expect(error).to.be.instanceOf(SFTError);
+      expect(error.message).to.equal("Only registry or owner can mint shares");
+    });
+
+    it("should decode raw revert data and keep unknown errors", function () {
+      const data = ethers.concat([
+        "0x4e487b71",
+        ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0x11])
+      ]);
+      const panic = decodeError({ data });
+      expect(panic.category).to.equal("panic");
+      expect(panic.message).to.include("overflow");
+
+      const unknown = decodeError(new Error("socket hang up"));
+      expect(unknown).to.be.instanceOf(PropytoError);
+      expect(unknown.category).to.equal("unknown");
+      expect(unknown.message).to.equal("socket hang up");
+    });
+  });
+});
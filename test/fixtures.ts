@@ -0,0 +1,143 @@
+import { ethers, upgrades } from "hardhat";
+
+// Deploy the SFT factory and a PropytoRegistry proxy paying in `usdtAddress`
+export async function deployRegistry(usdtAddress: string): Promise<any> {
+  const sftFactory = await ethers.deployContract("PropytoSFTFactory");
+  const RegistryFactory = await ethers.getContractFactory("PropytoRegistry");
+
+  return upgrades.deployProxy(RegistryFactory, [usdtAddress, await sftFactory.getAddress()], {
+    initializer: "initialize"
+  });
+}
+
+// Deploy a PropytoShareMarket proxy and register it with `registry`
+export async function deployShareMarket(registry: any): Promise<any> {
+  const MarketFactory = await ethers.getContractFactory("PropytoShareMarket");
+  const market = await upgrades.deployProxy(MarketFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateShareMarket(await market.getAddress());
+  return market;
+}
+
+// Deploy a PropytoDividends proxy and register it with `registry` as its dividend distributor
+export async function deployDividends(registry: any): Promise<any> {
+  const DividendsFactory = await ethers.getContractFactory("PropytoDividends");
+  const dividends = await upgrades.deployProxy(DividendsFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateDividendDistributor(await dividends.getAddress());
+  return dividends;
+}
+
+// Deploy a PropytoCrowdfunding proxy and register it with `registry`
+export async function deployCrowdfunding(registry: any): Promise<any> {
+  const CrowdfundingFactory = await ethers.getContractFactory("PropytoCrowdfunding");
+  const crowdfunding = await upgrades.deployProxy(CrowdfundingFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateCrowdfunding(await crowdfunding.getAddress());
+  return crowdfunding;
+}
+
+// Deploy a PropytoOffers proxy and register it with `registry` as its offer book
+export async function deployOfferBook(registry: any): Promise<any> {
+  const OffersFactory = await ethers.getContractFactory("PropytoOffers");
+  const offerBook = await upgrades.deployProxy(OffersFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateOfferBook(await offerBook.getAddress());
+  return offerBook;
+}
+
+// Deploy a PropytoAuctions proxy and register it with `registry` as its auction house
+export async function deployAuctionHouse(registry: any): Promise<any> {
+  const AuctionsFactory = await ethers.getContractFactory("PropytoAuctions");
+  const auctionHouse = await upgrades.deployProxy(AuctionsFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateAuctionHouse(await auctionHouse.getAddress());
+  return auctionHouse;
+}
+
+// Deploy a PropytoCompliance proxy and register it with `registry` as its compliance module
+export async function deployCompliance(registry: any): Promise<any> {
+  const ComplianceFactory = await ethers.getContractFactory("PropytoCompliance");
+  const compliance = await upgrades.deployProxy(ComplianceFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateCompliance(await compliance.getAddress());
+  return compliance;
+}
+
+// Deploy a PropytoModeration proxy and register it with `registry`, which then holds new listings for review
+export async function deployModeration(registry: any): Promise<any> {
+  const ModerationFactory = await ethers.getContractFactory("PropytoModeration");
+  const moderation = await upgrades.deployProxy(ModerationFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateModeration(await moderation.getAddress());
+  return moderation;
+}
+
+// Deploy a PropytoMetadataRenderer proxy and register it with `registry`, whose SFTs then serve on-chain metadata
+export async function deployMetadataRenderer(registry: any): Promise<any> {
+  const RendererFactory = await ethers.getContractFactory("PropytoMetadataRenderer");
+  const renderer = await upgrades.deployProxy(RendererFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateMetadataRenderer(await renderer.getAddress());
+  return renderer;
+}
+
+// Deploy a PropytoAccessManager proxy with `admin` holding every role, and hand the registry's roles over to it
+export async function deployAccessManager(registry: any, admin: string): Promise<any> {
+  const AccessManagerFactory = await ethers.getContractFactory("PropytoAccessManager");
+  const accessManager = await upgrades.deployProxy(AccessManagerFactory, [admin], {
+    initializer: "initialize"
+  });
+
+  await registry.updateAccessManager(await accessManager.getAddress());
+  return accessManager;
+}
+
+// Deploy a PropytoEscrow proxy and register it with `registry` as its purchase escrow
+export async function deployEscrow(registry: any): Promise<any> {
+  const EscrowFactory = await ethers.getContractFactory("PropytoEscrow");
+  const escrow = await upgrades.deployProxy(EscrowFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updatePurchaseEscrow(await escrow.getAddress());
+  return escrow;
+}
+
+// Deploy a PropytoGovernance proxy and register it with `registry`
+export async function deployGovernance(registry: any): Promise<any> {
+  const GovernanceFactory = await ethers.getContractFactory("PropytoGovernance");
+  const governance = await upgrades.deployProxy(GovernanceFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateGovernance(await governance.getAddress());
+  return governance;
+}
+
+// Deploy a PropytoRentals proxy and register it with `registry` as its rental manager
+export async function deployRentals(registry: any): Promise<any> {
+  const RentalsFactory = await ethers.getContractFactory("PropytoRentals");
+  const rentals = await upgrades.deployProxy(RentalsFactory, [await registry.getAddress()], {
+    initializer: "initialize"
+  });
+
+  await registry.updateRentalManager(await rentals.getAddress());
+  return rentals;
+}
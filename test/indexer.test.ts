@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset, OfferStatus } from "../sdk";
+import { MemoryStore, PropytoIndexer } from "../indexer";
+import { deployEscrow, deployOfferBook, deployRegistry } from "./fixtures";
+
+describe("PropytoIndexer", function () {
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let sellerClient: PropytoClient;
+  let buyerClient: PropytoClient;
+  let startBlock: number;
+
+  const newAsset = (name: string, isPartiallyOwnEnabled = true): NewAsset => ({
+    name,
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("1000"),
+    assetArea: 800n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+  const fractions = {
+    totalShares: 100n,
+    sharePrice: ethers.parseEther("10"),
+    minSharePurchase: 1n,
+    maxSharesPerOwner: 50n,
+    sellerShares: 0n
+  };
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT: any = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.mint(buyer.address, ethers.parseEther("100000"));
+
+    startBlock = await ethers.provider.getBlockNumber();
+    const registry = await deployRegistry(await mockUSDT.getAddress());
+    await deployEscrow(registry);
+    await deployOfferBook(registry);
+
+    sellerClient = new PropytoClient(await registry.getAddress(), seller);
+    buyerClient = new PropytoClient(await registry.getAddress(), buyer);
+  });
+
+  it("should backfill registrations, purchases and SFT holders in small batches", async function () {
+    const { assetId: fractional } = await sellerClient.listAsset(newAsset("Fractional"), metadata, media, fractions);
+    const { assetId: whole } = await sellerClient.listAsset(newAsset("Whole", false), metadata, media);
+    await buyerClient.buyShares(fractional, 20n);
+    const { escrowId } = await buyerClient.buyWhole(whole);
+    await sellerClient.confirmEscrow(escrowId);
+    await sellerClient.updatePrice(fractional, ethers.parseEther("2000"));
+
+    const indexer = new PropytoIndexer(buyerClient, new MemoryStore(), { startBlock, batchSize: 3 });
+    const result = await indexer.sync();
+    expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const index = await indexer.getIndex();
+    expect(index.getAssets().map((view) => view.asset.name)).to.deep.equal(["Fractional", "Whole"]);
+
+    const fractionalView = index.getAsset(fractional)!;
+    expect(fractionalView.sharesSold).to.equal(20n);
+    expect(fractionalView.holders).to.deep.equal({ [buyer.address]: 20n });
+    expect(fractionalView.asset.assetPrice).to.equal(ethers.parseEther("2000"));
+
+    const wholeView = index.getAsset(whole)!;
+    expect(wholeView.asset.assetStatus).to.equal(AssetStatus.SOLD);
+    expect(wholeView.holders).to.deep.equal({ [buyer.address]: 100n });
+    expect(index.getSellerAssets(seller.address)).to.have.length(2);
+  });
+
+  it("should only ingest new blocks on the next sync", async function () {
+    const store = new MemoryStore();
+    const indexer = new PropytoIndexer(sellerClient, store, { startBlock });
+    const { assetId } = await sellerClient.listAsset(newAsset("First"), metadata, media, fractions);
+    await indexer.sync();
+
+    await buyerClient.buyShares(assetId, 5n);
+    const result = await indexer.sync();
+
+    expect(result.newEvents).to.equal(3); // FeesCollected, SharesPurchased and TransferSingle
+    expect((await indexer.getIndex()).getAsset(assetId)!.sharesSold).to.equal(5n);
+  });
+
+  it("should follow offers and counter-offers from the offer book", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset("Negotiated"), metadata, media, fractions);
+    const expiry = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 86400);
+    const { offerId: countered } = await buyerClient.placeOffer(assetId, 10n, ethers.parseEther("80"), expiry);
+    const { offerId: rejected } = await buyerClient.placeOffer(assetId, 5n, ethers.parseEther("40"), expiry);
+    await sellerClient.counterOffer(countered, ethers.parseEther("90"), expiry);
+    await sellerClient.rejectOffer(rejected);
+    await buyerClient.acceptCounterOffer(countered);
+
+    const indexer = new PropytoIndexer(sellerClient, new MemoryStore(), { startBlock });
+    await indexer.sync();
+
+    const view = (await indexer.getIndex()).getAsset(assetId)!;
+    expect(view.offers.map((offer) => [offer.id, offer.status])).to.deep.equal([
+      [countered, OfferStatus.ACCEPTED],
+      [rejected, OfferStatus.REJECTED]
+    ]);
+    expect(view.offers[0].counterAmount).to.equal(ethers.parseEther("90"));
+    expect(view.sharesSold).to.equal(10n);
+    expect(view.holders).to.deep.equal({ [buyer.address]: 10n });
+  });
+
+  it("should follow expiry extensions and escrow locks, reading registrations as they were", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset("Extended", false), metadata, media);
+    const registeredExpiry = (await sellerClient.getAsset(assetId)).asset.listingExpiry;
+    await sellerClient.registry.extendListingExpiry(assetId, registeredExpiry + 86400n);
+    const { escrowId } = await buyerClient.buyWhole(assetId);
+
+    const indexer = new PropytoIndexer(sellerClient, new MemoryStore(), { startBlock });
+    await indexer.sync();
+    let index = await indexer.getIndex();
+    const [registered] = index.getEvents(assetId);
+    expect(registered.snapshot!.listingExpiry).to.equal(registeredExpiry.toString());
+    expect(index.getAsset(assetId)!.asset.listingExpiry).to.equal(registeredExpiry + 86400n);
+    expect(index.getAsset(assetId)!.inEscrow).to.be.true;
+
+    await sellerClient.cancelEscrow(escrowId);
+    await indexer.sync();
+    index = await indexer.getIndex();
+    expect(index.getAsset(assetId)!.inEscrow).to.be.false;
+  });
+
+  it("should roll back events from reorganized blocks", async function () {
+    const indexer = new PropytoIndexer(sellerClient, new MemoryStore(), { startBlock });
+    const { assetId } = await sellerClient.listAsset(newAsset("Reorged"), metadata, media, fractions);
+    const forkBlock = await ethers.provider.getBlockNumber();
+    await indexer.sync();
+
+    // Index a purchase, then replace its block with a different one
+    const snapshotId = await network.provider.send("evm_snapshot");
+    await buyerClient.buyShares(assetId, 10n);
+    await indexer.sync();
+    expect((await indexer.getIndex()).getAsset(assetId)!.sharesSold).to.equal(10n);
+
+    await network.provider.send("evm_revert", [snapshotId]);
+    await sellerClient.updatePrice(assetId, ethers.parseEther("500"));
+
+    const result = await indexer.sync();
+    expect(result.rolledBackTo).to.equal(forkBlock);
+
+    const view = (await indexer.getIndex()).getAsset(assetId)!;
+    expect(view.sharesSold).to.equal(0n);
+    expect(view.holders).to.deep.equal({});
+    expect(view.asset.assetPrice).to.equal(ethers.parseEther("500"));
+  });
+});
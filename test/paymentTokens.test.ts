@@ -0,0 +1,262 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import {
+  deployAuctionHouse,
+  deployCrowdfunding,
+  deployDividends,
+  deployEscrow,
+  deployOfferBook,
+  deployRegistry,
+  deployRentals,
+  deployShareMarket
+} from "./fixtures";
+
+describe("Payment tokens", function () {
+  const PRICE = ethers.parseEther("100000");
+  const SHARE_PRICE = ethers.parseEther("100.123456789"); // more precision than a 6-decimal token has
+  const fee = (amount: bigint) => (amount * 250n) / 10000n; // default 2.5% platform fee
+
+  const newAsset = (): NewAsset => ({
+    name: "Harbour Loft",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: PRICE,
+    assetArea: 900n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+  const fractions = {
+    totalShares: 1000n,
+    sharePrice: SHARE_PRICE,
+    minSharePurchase: 1n,
+    maxSharesPerOwner: 500n,
+    sellerShares: 0n
+  };
+
+  const deployToken = async (symbol: string, decimals: number) => {
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    return MockERC20Factory.deploy(`Mock ${symbol}`, symbol, decimals, 0);
+  };
+
+  // Registry prices have 18 decimals; tokens with fewer are paid the price rounded up to their unit
+  const toTokenAmount = (price: bigint, decimals: number) => {
+    const unit = 10n ** BigInt(18 - decimals);
+    return (price + unit - 1n) / unit;
+  };
+
+  const balancesOf = (token: any, signers: SignerWithAddress[]): Promise<bigint[]> =>
+    Promise.all(signers.map((signer) => token.balanceOf(signer.address)));
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let registry: any;
+
+  for (const decimals of [6, 18]) {
+    describe(`with a ${decimals}-decimal default token`, function () {
+      const otherDecimals = decimals === 6 ? 18 : 6;
+      let usdt: any;
+      let otherToken: any;
+      let sellerClient: PropytoClient;
+      let buyerClient: PropytoClient;
+
+      beforeEach(async function () {
+        [owner, seller, buyer] = await ethers.getSigners();
+        usdt = await deployToken("USDT", decimals);
+        otherToken = await deployToken("OTHER", otherDecimals);
+        for (const [token, tokenDecimals] of [[usdt, decimals], [otherToken, otherDecimals]]) {
+          await token.mint(seller.address, ethers.parseUnits("1000", tokenDecimals));
+          await token.mint(buyer.address, ethers.parseUnits("200000", tokenDecimals));
+        }
+
+        registry = await deployRegistry(await usdt.getAddress());
+        await registry.setPaymentToken(await otherToken.getAddress(), true);
+        sellerClient = new PropytoClient(await registry.getAddress(), seller);
+        buyerClient = new PropytoClient(await registry.getAddress(), buyer);
+      });
+
+      it("should list both tokens with their decimals and charge the listing fee in the default one", async function () {
+        expect(await buyerClient.getPaymentTokens()).to.deep.equal([
+          { address: await usdt.getAddress(), symbol: "USDT", decimals, isDefault: true },
+          { address: await otherToken.getAddress(), symbol: "OTHER", decimals: otherDecimals, isDefault: false }
+        ]);
+
+        const listingFee = ethers.parseUnits("10", decimals);
+        const [sellerBalance, ownerBalance] = await balancesOf(usdt, [seller, owner]);
+        await sellerClient.listAsset(newAsset(), metadata, media);
+        expect(await balancesOf(usdt, [seller, owner])).to.deep.equal([sellerBalance - listingFee, ownerBalance + listingFee]);
+      });
+
+      it("should convert share prices to the token paid with and split the fee without rounding loss", async function () {
+        const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, fractions);
+
+        for (const [token, tokenDecimals] of [[otherToken, otherDecimals], [usdt, decimals]]) {
+          const quote = await buyerClient.quoteShares(assetId, 3n, await token.getAddress());
+          expect(quote.totalPrice).to.equal(toTokenAmount(3n * SHARE_PRICE, tokenDecimals));
+          expect(quote.platformFee).to.equal(fee(quote.totalPrice));
+          expect(quote.platformFee + quote.sellerAmount).to.equal(quote.totalPrice);
+
+          const [buyerBalance, sellerBalance, ownerBalance] = await balancesOf(token, [buyer, seller, owner]);
+          await buyerClient.buyShares(assetId, 3n, undefined, await token.getAddress());
+          expect(await balancesOf(token, [buyer, seller, owner])).to.deep.equal([
+            buyerBalance - quote.totalPrice,
+            sellerBalance + quote.sellerAmount,
+            ownerBalance + quote.platformFee
+          ]);
+        }
+        expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(6n);
+      });
+
+      it("should take module payments in the default token's units", async function () {
+        const escrow = await deployEscrow(registry);
+        const { assetId } = await sellerClient.listAsset({ ...newAsset(), isPartiallyOwnEnabled: false }, metadata, media);
+
+        const { escrowId } = await buyerClient.buyWhole(assetId);
+        expect((await buyerClient.getEscrow(escrowId)).amount).to.equal(ethers.parseUnits("100000", decimals));
+        expect(await usdt.balanceOf(await escrow.getAddress())).to.equal(ethers.parseUnits("100000", decimals));
+      });
+
+      it("should keep paying open positions in the token they were opened in after the default changes", async function () {
+        const amount = (value: string) => ethers.parseUnits(value, decimals);
+        await Promise.all([
+          deployEscrow(registry),
+          deployOfferBook(registry),
+          deployAuctionHouse(registry),
+          deployShareMarket(registry),
+          deployRentals(registry),
+          deployDividends(registry),
+          deployCrowdfunding(registry)
+        ]);
+        const wholeAsset = () => sellerClient.listAsset({ ...newAsset(), isPartiallyOwnEnabled: false }, metadata, media);
+
+        // Positions opened while USDT is the default
+        const { escrowId } = await buyerClient.buyWhole((await wholeAsset()).assetId);
+        const { assetId: auctioned } = await wholeAsset();
+        const { auctionId } = await sellerClient.startEnglishAuction(auctioned, {
+          reservePrice: amount("50000"),
+          minIncrement: amount("1000"),
+          duration: 3600n
+        });
+        await buyerClient.placeBid(auctionId, amount("50000"));
+
+        const { assetId: fractional } = await sellerClient.listAsset(newAsset(), metadata, media, fractions);
+        await buyerClient.buyShares(fractional, 100n);
+        const { offerId } = await buyerClient.placeOffer(fractional, 10n, amount("900"), BigInt(await time.latest()) + 86400n);
+        const { orderId } = await buyerClient.listShares(fractional, 10n, amount("150"));
+        await sellerClient.depositDividends(fractional, amount("100"));
+
+        const { assetId: rented } = await sellerClient.listAsset(
+          { ...newAsset(), assetStatus: AssetStatus.FOR_RENT, isRentable: true, isSellable: false, isPartiallyOwnEnabled: false },
+          metadata,
+          media
+        );
+        await sellerClient.updateRentData(rented, { rentPrice: ethers.parseEther("1000"), rentDeposit: ethers.parseEther("500"), rentPeriod: 30n, rentSecurityDeposit: 0n });
+        const { leaseId } = await buyerClient.startLease(rented, 3n);
+
+        const { assetId: funded } = await sellerClient.listAsset(newAsset(), metadata, media);
+        await sellerClient.enableFractions(funded, fractions, { softCap: 500n, hardCap: 800n });
+        await buyerClient.buyShares(funded, 10n);
+
+        await registry.updateUsdtToken(await otherToken.getAddress());
+        const [usdtAddress, otherAddress] = [await usdt.getAddress(), await otherToken.getAddress()];
+        for (const position of [
+          await buyerClient.getEscrow(escrowId),
+          await buyerClient.getAuction(auctionId),
+          await buyerClient.getOffer(offerId),
+          await buyerClient.getSellOrder(orderId),
+          await buyerClient.getLease(leaseId),
+          await buyerClient.getFundingGoal(funded)
+        ]) {
+          expect(position.paymentToken).to.equal(usdtAddress);
+        }
+        expect(await buyerClient.getDividendToken(fractional)).to.equal(usdtAddress);
+
+        // Every open position settles and refunds in USDT, at its USDT amounts
+        let sellerBalance = await usdt.balanceOf(seller.address);
+        const expectSellerPaid = async (total: bigint) => {
+          expect(await usdt.balanceOf(seller.address)).to.equal(sellerBalance + total - fee(total));
+          sellerBalance = await usdt.balanceOf(seller.address);
+        };
+        await sellerClient.confirmEscrow(escrowId);
+        await expectSellerPaid(amount("100000"));
+        await sellerClient.acceptOffer(offerId);
+        await expectSellerPaid(amount("900"));
+        await buyerClient.payRent(leaseId);
+        await expectSellerPaid(amount("1000"));
+        await time.increase(3600);
+        await buyerClient.settleAuction(auctionId);
+        await expectSellerPaid(amount("50000"));
+
+        const buyerBalance = await usdt.balanceOf(buyer.address);
+        await sellerClient.fillOrder(orderId, 10n); // pricePerShare is still in USDT units
+        await buyerClient.claimDividends(fractional); // 100 of the 1000 shares, the rest unsold
+        expect(await usdt.balanceOf(buyer.address)).to.equal(buyerBalance + amount("1500") - fee(amount("1500")) + amount("10"));
+
+        // New positions use the new default
+        const expiry = BigInt(await time.latest()) + 86400n;
+        const { offerId: newOffer } = await buyerClient.placeOffer(fractional, 10n, ethers.parseUnits("900", otherDecimals), expiry);
+        expect((await buyerClient.getOffer(newOffer)).paymentToken).to.equal(otherAddress);
+
+        // The funded offering keeps selling in its token, and refunds in it
+        await buyerClient.buyShares(funded, 5n);
+        const contribution = await buyerClient.getFundingContribution(funded, buyer.address);
+        await time.increaseTo((await buyerClient.getFundingGoal(funded)).deadline);
+        const refundedBalance = await usdt.balanceOf(buyer.address);
+        await buyerClient.claimFundingRefund(funded);
+        expect(await usdt.balanceOf(buyer.address)).to.equal(refundedBalance + contribution.amount);
+        expect(await otherToken.balanceOf(await registry.crowdfunding())).to.equal(0n);
+
+      });
+    });
+  }
+
+  it("should only take payments in accepted tokens", async function () {
+    [owner, seller, buyer] = await ethers.getSigners();
+    const usdt = await deployToken("USDT", 6);
+    const usdc = await deployToken("USDC", 6);
+    await usdt.mint(seller.address, ethers.parseUnits("1000", 6));
+    await usdc.mint(buyer.address, ethers.parseUnits("1000", 6));
+    registry = await deployRegistry(await usdt.getAddress());
+    await deployCrowdfunding(registry);
+
+    const sellerClient = new PropytoClient(await registry.getAddress(), seller);
+    const buyerClient = new PropytoClient(await registry.getAddress(), buyer);
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, fractions);
+
+    await expect(buyerClient.quoteShares(assetId, 1n, await usdc.getAddress())).to.be.rejectedWith("Payment token is not accepted");
+    await expect(registry.connect(seller).setPaymentToken(await usdc.getAddress(), true)).to.be.revertedWith(
+      "E133"
+    );
+    await expect(registry.setPaymentToken(await (await deployToken("WIDE", 24)).getAddress(), true)).to.be.revertedWith("E123");
+    await expect(registry.setPaymentToken(await usdt.getAddress(), false)).to.be.revertedWith("E120");
+
+    await registry.setPaymentToken(await usdc.getAddress(), true);
+    await buyerClient.buyShares(assetId, 1n, undefined, await usdc.getAddress());
+    await registry.setPaymentToken(await usdc.getAddress(), false);
+    await expect(buyerClient.buyShares(assetId, 1n, undefined, await usdc.getAddress())).to.be.rejectedWith(
+      "Payment token is not accepted"
+    );
+    expect((await buyerClient.getPaymentTokens()).map((token) => token.symbol)).to.deep.equal(["USDT"]);
+
+    // Funding goals escrow one token, so funded offerings only take the token their goal was set in
+    await registry.setPaymentToken(await usdc.getAddress(), true);
+    const { assetId: funded } = await sellerClient.listAsset(newAsset(), metadata, media);
+    await sellerClient.enableFractions(funded, fractions, { softCap: 100n, hardCap: 500n });
+    await expect(buyerClient.buyShares(funded, 1n, undefined, await usdc.getAddress())).to.be.rejectedWith(
+      "Funded offerings are paid in the payment token their funding goal was set in"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import { deployRegistry } from "./fixtures";
+
+describe("Permit payments", function () {
+  const SHARE_PRICE = ethers.parseUnits("100", 6);
+  const LISTING_FEE = ethers.parseUnits("10", 6);
+
+  const newAsset = (): NewAsset => ({
+    name: "Canal House",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.FULLY_FURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 1100n,
+    assetAge: 40n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  const metadata = { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" };
+  const media = { assetImage: "", assetVideo: "", assetFloorPlan: "" };
+  const fractions = {
+    totalShares: 1000n,
+    sharePrice: ethers.parseEther("100"),
+    minSharePurchase: 1n,
+    maxSharesPerOwner: 500n,
+    sellerShares: 0n
+  };
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let usdt: any;
+  let registry: any;
+  let sellerClient: PropytoClient;
+  let buyerClient: PropytoClient;
+
+  // Transactions sent by `signer` while running `action`
+  const transactionsOf = async (signer: SignerWithAddress, action: () => Promise<unknown>): Promise<number> => {
+    const before = await ethers.provider.getTransactionCount(signer.address);
+    await action();
+    return (await ethers.provider.getTransactionCount(signer.address)) - before;
+  };
+
+  beforeEach(async function () {
+    [owner, seller, buyer] = await ethers.getSigners();
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    usdt = await MockERC20Factory.deploy("Mock USDT", "USDT", 6, 0);
+    await usdt.mint(seller.address, ethers.parseUnits("1000", 6));
+    await usdt.mint(buyer.address, ethers.parseUnits("100000", 6));
+
+    registry = await deployRegistry(await usdt.getAddress());
+    sellerClient = new PropytoClient(await registry.getAddress(), seller);
+    buyerClient = new PropytoClient(await registry.getAddress(), buyer);
+  });
+
+  it("should list and buy shares in one transaction each with a permit", async function () {
+    let assetId = 0n;
+    expect(await transactionsOf(seller, async () => ({ assetId } = await sellerClient.listAsset(newAsset(), metadata, media)))).to.equal(1);
+    expect(await usdt.balanceOf(owner.address)).to.equal(LISTING_FEE);
+    expect(await usdt.nonces(seller.address)).to.equal(1n);
+
+    await sellerClient.enableFractions(assetId, fractions);
+    expect(await transactionsOf(buyer, () => buyerClient.buyShares(assetId, 5n))).to.equal(1);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(5n);
+    expect(await usdt.balanceOf(buyer.address)).to.equal(ethers.parseUnits("100000", 6) - 5n * SHARE_PRICE);
+    expect(await usdt.allowance(buyer.address, await registry.getAddress())).to.equal(0n);
+  });
+
+  it("should fall back to approving tokens without permit", async function () {
+    await usdt.setPermitSupported(false);
+    expect(await sellerClient.signPermit(LISTING_FEE, BigInt(await time.latest()) + 600n)).to.be.null;
+
+    let assetId = 0n;
+    expect(
+      await transactionsOf(seller, async () => ({ assetId } = await sellerClient.listAsset(newAsset(), metadata, media, fractions)))
+    ).to.equal(3); // approve, registerAsset, enablePartialOwnership
+    expect(await transactionsOf(buyer, () => buyerClient.buyShares(assetId, 5n))).to.equal(2);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(5n);
+  });
+
+  it("should accept a front-run permit and reject purchases without an allowance", async function () {
+    const { assetId } = await sellerClient.listAsset(newAsset(), metadata, media, fractions);
+    const deadline = BigInt(await time.latest()) + 600n;
+    const total = 5n * SHARE_PRICE;
+    const permit = await buyerClient.signPermit(total, deadline);
+
+    // Someone submits the signed permit first; the purchase still goes through on the allowance it set
+    await usdt.permit(buyer.address, await registry.getAddress(), permit!.value, permit!.deadline, permit!.v, permit!.r, permit!.s);
+    await registry.connect(buyer).purchaseSharesWithPermit(assetId, 5n, total, deadline, await usdt.getAddress(), permit);
+    expect(await registry.getSharesOwned(assetId, buyer.address)).to.equal(5n);
+
+    // A permit signed by someone else grants nothing
+    const forged = await sellerClient.signPermit(total, deadline);
+    await expect(
+      registry.connect(buyer).purchaseSharesWithPermit(assetId, 5n, total, deadline, await usdt.getAddress(), forged)
+    ).to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+
+    await time.increaseTo(deadline + 1n);
+    await expect(
+      registry.connect(buyer).purchaseSharesWithPermit(assetId, 5n, total, deadline, await usdt.getAddress(), forged)
+    ).to.be.revertedWith("E32");
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { PropytoClient, AssetStatus, AssetType, AssetFurnishing, AssetZone, NewAsset } from "../sdk";
+import { deployRegistry } from "./fixtures";
+
+// PropytoSFT balance snapshots, taken through the registry
+describe("Share snapshots", function () {
+  let seller: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let registry: any;
+  let sft: any;
+  let tokenId: bigint;
+  let sellerClient: PropytoClient;
+  let aliceClient: PropytoClient;
+  let assetId: bigint;
+
+  const newAsset = (): NewAsset => ({
+    name: "Snapshot Towers",
+    assetType: AssetType.RESIDENTIAL,
+    assetAddress: ethers.ZeroAddress,
+    assetStatus: AssetStatus.FOR_SALE,
+    assetFurnishing: AssetFurnishing.UNFURNISHED,
+    assetZone: AssetZone.RESIDENTIAL,
+    assetPrice: ethers.parseEther("100000"),
+    assetArea: 1000n,
+    assetAge: 0n,
+    assetOtherDetails: "{}",
+    isRentable: false,
+    isSellable: true,
+    isPartiallyOwnEnabled: true,
+    listingExpiry: 0n
+  });
+
+  async function snapshot(): Promise<bigint> {
+    return (await sellerClient.snapshotShares(assetId)).snapshotId;
+  }
+
+  async function expectSharesAt(snapshotId: bigint, expected: Record<string, bigint>, supply: bigint): Promise<void> {
+    for (const [account, shares] of Object.entries(expected)) {
+      expect(await sellerClient.getSharesAt(assetId, account, snapshotId)).to.equal(shares, `shares of ${account}`);
+    }
+    expect(await sellerClient.getTotalSharesAt(assetId, snapshotId)).to.equal(supply);
+  }
+
+  beforeEach(async function () {
+    [, seller, alice, bob] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const mockUSDT: any = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    registry = await deployRegistry(await mockUSDT.getAddress());
+    const registryAddress = await registry.getAddress();
+    for (const account of [seller, alice, bob]) {
+      await mockUSDT.mint(account.address, ethers.parseEther("100000"));
+    }
+
+    sellerClient = new PropytoClient(registryAddress, seller);
+    aliceClient = new PropytoClient(registryAddress, alice);
+    ({ assetId } = await sellerClient.listAsset(
+      newAsset(),
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" },
+      { totalShares: 1000n, sharePrice: ethers.parseEther("10"), minSharePurchase: 1n, maxSharesPerOwner: 0n, sellerShares: 200n }
+    ));
+    await aliceClient.buyShares(assetId, 300n);
+
+    sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+    tokenId = await sft.getTokenId(assetId);
+  });
+
+  it("should keep balances at a snapshot across transfers", async function () {
+    const first = await snapshot();
+    await sft.connect(alice).safeTransferFrom(alice.address, bob.address, tokenId, 100, "0x");
+    await sft.connect(alice).safeTransferFrom(alice.address, bob.address, tokenId, 50, "0x");
+    const second = await snapshot();
+    await sft.connect(bob).safeBatchTransferFrom(bob.address, seller.address, [tokenId, tokenId], [20, 30], "0x");
+
+    await expectSharesAt(first, { [seller.address]: 200n, [alice.address]: 300n, [bob.address]: 0n }, 500n);
+    await expectSharesAt(second, { [seller.address]: 200n, [alice.address]: 150n, [bob.address]: 150n }, 500n);
+    expect(await sft.balanceOf(bob.address, tokenId)).to.equal(100n);
+    expect(await sft.balanceOf(seller.address, tokenId)).to.equal(250n);
+  });
+
+  it("should record supply changes from mints and burns", async function () {
+    const beforeMint = await snapshot();
+    await new PropytoClient(await registry.getAddress(), bob).buyShares(assetId, 100n);
+    const beforeBurn = await snapshot();
+    await sft.connect(alice).burnShares(alice.address, assetId, 300);
+    const afterBurn = await snapshot();
+
+    await expectSharesAt(beforeMint, { [alice.address]: 300n, [bob.address]: 0n }, 500n);
+    await expectSharesAt(beforeBurn, { [alice.address]: 300n, [bob.address]: 100n }, 600n);
+    await expectSharesAt(afterBurn, { [alice.address]: 0n, [bob.address]: 100n }, 300n);
+  });
+
+  it("should answer consecutive snapshots without changes between them", async function () {
+    const first = await snapshot();
+    const second = await snapshot();
+    const third = await snapshot();
+    expect([first, second, third]).to.deep.equal([1n, 2n, 3n]);
+
+    await sft.connect(alice).safeTransferFrom(alice.address, bob.address, tokenId, 300, "0x");
+    for (const snapshotId of [first, second, third]) {
+      await expectSharesAt(snapshotId, { [alice.address]: 300n, [bob.address]: 0n }, 500n);
+    }
+    expect(await sft.getCurrentSnapshotId()).to.equal(3n);
+    await expect(sft.balanceOfAt(alice.address, tokenId, 4)).to.be.revertedWith("Nonexistent snapshot ID");
+    await expect(sft.totalSupplyAt(tokenId, 0)).to.be.revertedWith("Snapshot ID is 0");
+  });
+
+  it("should only let the owner, the seller and registry modules take snapshots", async function () {
+    await expect(aliceClient.snapshotShares(assetId)).to.be.rejectedWith("can snapshot shares");
+    await expect(sft.connect(alice).snapshot()).to.be.revertedWith("Only registry or owner can take snapshots");
+
+    await expect(registry.snapshotShares(assetId)).to.emit(registry, "SharesSnapshot").withArgs(assetId, 1);
+    await expect(sft.connect(seller).snapshot()).to.be.revertedWith("Only registry or owner can take snapshots");
+    expect(await snapshot()).to.equal(2n);
+    expect(await sft.getCurrentSnapshotId()).to.equal(2n);
+  });
+});
@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployRegistry } from "./fixtures";
+
+// Registry ownership ledger vs. PropytoSFT balances
+describe("Share ledger", function () {
+  const MAX_PER_OWNER = 300n;
+
+  let seller: SignerWithAddress;
+  let holders: SignerWithAddress[];
+  let mockUSDT: any;
+  let registry: any;
+  let sft: any;
+  let tokenId: bigint;
+  const assetId = 0;
+
+  // Deterministic PRNG (mulberry32) so failures can be replayed
+  function random(seed: number): () => number {
+    return () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  async function expectLedgerMatchesToken(): Promise<void> {
+    const accounts = [seller, ...holders].map((account) => account.address);
+    const owners: string[] = [...(await registry.getAssetOwners(assetId))];
+    let total = 0n;
+    let holderCount = 0;
+
+    for (const account of accounts) {
+      const balance = await sft.balanceOf(account, tokenId);
+      expect(await registry.getSharesOwned(assetId, account)).to.equal(balance, `shares of ${account}`);
+      expect(owners.filter((owner) => owner === account)).to.have.length(balance > 0n ? 1 : 0, `owner entry of ${account}`);
+      total += balance;
+      holderCount += balance > 0n ? 1 : 0;
+    }
+
+    expect(owners).to.have.length(holderCount);
+    expect(await sft["totalSupply(uint256)"](tokenId)).to.equal(total);
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    seller = signers[1];
+    holders = signers.slice(2, 6);
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockUSDT = await MockERC20Factory.deploy("Mock USDT", "USDT", 18, 0);
+    registry = await deployRegistry(await mockUSDT.getAddress());
+
+    await mockUSDT.mint(seller.address, ethers.parseEther("1000"));
+    await mockUSDT.connect(seller).approve(await registry.getAddress(), ethers.MaxUint256);
+    await registry.connect(seller).registerAsset(
+      {
+        name: "Ledger Court",
+        assetType: 0,
+        assetAddress: ethers.ZeroAddress,
+        assetStatus: 0,
+        assetFurnishing: 0,
+        assetZone: 2,
+        assetPrice: ethers.parseEther("100000"),
+        assetArea: 1000,
+        assetAge: 0,
+        assetOtherDetails: "{}",
+        isRentable: false,
+        isSellable: true,
+        isPartiallyOwnEnabled: true,
+        seller: seller.address,
+        listingExpiry: (await time.latest()) + 86400
+      },
+      { assetDescription: "", assetFeatures: "", assetAmenities: "", assetLocation: "" },
+      { assetImage: "", assetVideo: "", assetFloorPlan: "" }
+    );
+    await registry.connect(seller).enablePartialOwnership(assetId, 1000, ethers.parseEther("100"), 1, MAX_PER_OWNER, 200);
+
+    for (const holder of holders) {
+      await mockUSDT.mint(holder.address, ethers.parseEther("100000"));
+      await mockUSDT.connect(holder).approve(await registry.getAddress(), ethers.MaxUint256);
+      await registry.connect(holder).purchaseShares(assetId, 150, false);
+    }
+
+    sft = await ethers.getContractAt("PropytoSFT", await registry.propytosftAddress(assetId));
+    tokenId = await sft.getTokenId(assetId);
+  });
+
+  it("should mint the seller's retained shares and record every purchase", async function () {
+    expect(await sft.balanceOf(seller.address, tokenId)).to.equal(200n);
+    await expectLedgerMatchesToken();
+  });
+
+  it("should move ledger shares on transfers and emit SharesTransferred", async function () {
+    const [from, to] = holders;
+    await expect(sft.connect(from).safeTransferFrom(from.address, to.address, tokenId, 40, "0x"))
+      .to.emit(registry, "SharesTransferred")
+      .withArgs(assetId, from.address, to.address, 40);
+
+    expect(await registry.getSharesOwned(assetId, from.address)).to.equal(110n);
+    expect(await registry.getSharesOwned(assetId, to.address)).to.equal(190n);
+    expect(await registry.getOwnershipPercentage(assetId, to.address)).to.equal(ethers.parseEther("0.19"));
+    await expectLedgerMatchesToken();
+  });
+
+  it("should reject transfers above maxSharesPerOwner and ledger updates not sent by the SFT", async function () {
+    const [to] = holders;
+    // 150 held + 200 received would exceed the limit of 300
+    await expect(
+      sft.connect(seller).safeTransferFrom(seller.address, to.address, tokenId, 200, "0x")
+    ).to.be.revertedWith("E16");
+
+    await expect(
+      registry.connect(to).onSharesTransferred(assetId, seller.address, to.address, 10)
+    ).to.be.revertedWith("E33");
+    await expectLedgerMatchesToken();
+  });
+
+  it("should remove burned shares and holders who no longer hold any", async function () {
+    const [holder] = holders;
+    await sft.connect(holder).burnShares(holder.address, assetId, 150);
+
+    expect(await registry.getSharesOwned(assetId, holder.address)).to.equal(0n);
+    expect(await registry.getAssetOwners(assetId)).to.not.include(holder.address);
+    await expectLedgerMatchesToken();
+  });
+
+  it("should keep the ledger equal to the token after arbitrary transfers", async function () {
+    const next = random(0x5eed);
+    const accounts = [seller, ...holders];
+    const pick = () => accounts[Math.floor(next() * accounts.length)];
+
+    for (let step = 0; step < 40; step++) {
+      const from = pick();
+      const to = pick();
+      const balance = await sft.balanceOf(from.address, tokenId);
+      if (balance === 0n) {
+        continue;
+      }
+      const amount = BigInt(1 + Math.floor(next() * Number(balance)));
+      const received = await sft.balanceOf(to.address, tokenId);
+      const exceedsLimit = from.address !== to.address && received + amount > MAX_PER_OWNER;
+      const action = next();
+
+      let pending: Promise<unknown>;
+      if (action < 0.5) {
+        pending = sft.connect(from).safeTransferFrom(from.address, to.address, tokenId, amount, "0x");
+      } else if (action < 0.8) {
+        // The same token twice in one batch
+        const first = amount / 2n;
+        pending = sft
+          .connect(from)
+          .safeBatchTransferFrom(from.address, to.address, [tokenId, tokenId], [first, amount - first], "0x");
+      } else {
+        pending = sft.connect(from).burnShares(from.address, assetId, amount);
+      }
+
+      if (action < 0.8 && exceedsLimit) {
+        await expect(pending).to.be.revertedWith("E16");
+      } else {
+        await pending;
+      }
+      await expectLedgerMatchesToken();
+    }
+  });
+});